@@ -1,10 +1,11 @@
 // User TODO: Install papaparse for CSV export: npm install papaparse @types/papaparse
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useContext } from 'react';
 import Papa from 'papaparse';
-import { GoogleGenAI, Type } from "@google/genai";
+import { aiClient, aiErrorMessage } from "../src/ai/client";
 import {
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar, AreaChart, Area, ComposedChart,
 } from 'recharts';
+import { RepositoryContext } from '../src/contexts/RepositoryContext';
 
 // --- Interfaces --- //
 
@@ -54,6 +55,8 @@ interface FinancialAnalysisHubProps {
   data: FinancialAnalysisData | null;
   setData: React.Dispatch<React.SetStateAction<FinancialAnalysisData | null>>;
   onClear: () => void;
+  /** The selected deal workspace, if any; AI usage is attributed to it. */
+  dealId?: string;
 }
 
 interface FinancialErrors {
@@ -62,7 +65,7 @@ interface FinancialErrors {
     };
 }
 
-interface BenchmarkRatios {
+export interface BenchmarkRatios {
     grossMarginPercent: string;
     ebitdaMarginPercent: string;
     currentRatio: string;
@@ -70,9 +73,13 @@ interface BenchmarkRatios {
 dpo: string;
 }
 
-// --- Helper Functions & Constants --- //
+// Manually saved copy of the hub, restorable with "Load Last Save"
+export interface FinancialAnalysisSnapshot {
+    financials: FinancialAnalysisData;
+    benchmarks: BenchmarkRatios;
+}
 
-const FINANCIAL_ANALYSIS_STORAGE_KEY = 'financialAnalysisHubData';
+// --- Helper Functions & Constants --- //
 
 const ADD_BACK_CATEGORIES: AddBack['category'][] = [
     "Owner Discretionary Expenses",
@@ -237,7 +244,7 @@ for (const key in metricAliasMap) {
 
 // --- Main Component --- //
 
-const FinancialAnalysisHub: React.FC<FinancialAnalysisHubProps> = ({ data: propData, setData, onClear }) => {
+const FinancialAnalysisHub: React.FC<FinancialAnalysisHubProps> = ({ data: propData, setData, onClear, dealId }) => {
   const data = propData ?? defaultFinancialData;
   const [commonSizeBase, setCommonSizeBase] = useState<'none' | 'revenue' | 'assets'>('none');
   const [inputErrors, setInputErrors] = useState<FinancialErrors>({});
@@ -258,13 +265,16 @@ dpo: '30',
   };
   
   // --- Data Persistence ---
-  const handleSaveData = () => {
+  const repository = useContext(RepositoryContext);
+
+  const handleSaveData = async () => {
+    if (!repository) return;
     try {
-        const stateToSave = {
+        const stateToSave: FinancialAnalysisSnapshot = {
             financials: data,
             benchmarks: benchmarks
         };
-        localStorage.setItem(FINANCIAL_ANALYSIS_STORAGE_KEY, JSON.stringify(stateToSave));
+        await repository.save('financialAnalysisSnapshot', stateToSave);
         showToast("Financial data saved successfully!");
     } catch (error) {
         console.error("Failed to save data:", error);
@@ -272,13 +282,13 @@ dpo: '30',
     }
   };
 
-  const handleLoadData = () => {
+  const handleLoadData = async () => {
+    if (!repository) return;
     try {
-        const savedState = localStorage.getItem(FINANCIAL_ANALYSIS_STORAGE_KEY);
+        const savedState = await repository.load('financialAnalysisSnapshot');
         if (savedState) {
-            const parsedState = JSON.parse(savedState);
-            setData(parsedState.financials || defaultFinancialData);
-            setBenchmarks(parsedState.benchmarks || { grossMarginPercent: '45', ebitdaMarginPercent: '15', currentRatio: '1.5', dso: '45', dpo: '30' });
+            setData(savedState.financials || defaultFinancialData);
+            setBenchmarks(savedState.benchmarks || { grossMarginPercent: '45', ebitdaMarginPercent: '15', currentRatio: '1.5', dso: '45', dpo: '30' });
             showToast("Successfully loaded last saved data.");
         } else {
             showToast("No saved data found.");
@@ -290,16 +300,15 @@ dpo: '30',
   };
 
   useEffect(() => {
-    // Auto-load on initial mount
-    const savedState = localStorage.getItem(FINANCIAL_ANALYSIS_STORAGE_KEY);
-    if(savedState) {
-        try {
-            const parsedState = JSON.parse(savedState);
-            if (parsedState.financials) setData(parsedState.financials);
-            if (parsedState.benchmarks) setBenchmarks(parsedState.benchmarks);
-        } catch (e) { console.error("Could not parse saved financial data", e)}
-    }
-  }, []); // Empty array ensures this runs only once on mount
+    // Auto-load benchmarks on mount. Financials are per-deal and restored by App,
+    // so the manual snapshot must not overwrite the selected deal's data here.
+    if (!repository) return;
+    repository.load('financialAnalysisSnapshot')
+        .then(savedState => {
+            if (savedState?.benchmarks) setBenchmarks(savedState.benchmarks);
+        })
+        .catch(e => console.error("Could not load saved financial data", e));
+  }, [repository]);
 
   const handleDataChange = <K extends keyof FinancialAnalysisData>(field: K, value: FinancialAnalysisData[K]) => {
     setData({ ...data, [field]: value });
@@ -488,7 +497,6 @@ dpo: '30',
         showToast(`Scanning ${file.name}...`);
     
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
             const base64Data = await fileToBase64(file);
     
             const filePart = {
@@ -499,33 +507,32 @@ dpo: '30',
     
             const textPart = { text: aiScanPrompt };
     
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-pro',
-                contents: { parts: [textPart, filePart] },
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.OBJECT,
-                        properties: {
-                            periods: {
-                                type: Type.ARRAY,
-                                items: {
-                                    type: Type.OBJECT,
-                                    properties: {
-                                        year: { type: Type.STRING },
-                                        Revenue: { type: Type.NUMBER },
-                                        COGS: { type: Type.NUMBER },
-                                        OpEx: { type: Type.NUMBER },
-                                        Depreciation: { type: Type.NUMBER },
-                                        Amortization: { type: Type.NUMBER },
-                                        Interest: { type: Type.NUMBER },
-                                        Taxes: { type: Type.NUMBER },
-                                    }
+            const response = await aiClient.generate({
+                feature: 'financials.scan',
+                dealId,
+                tier: 'reasoning',
+                contents: [textPart, filePart],
+                responseSchema: {
+                    type: 'object',
+                    properties: {
+                        periods: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    year: { type: 'string' },
+                                    Revenue: { type: 'number' },
+                                    COGS: { type: 'number' },
+                                    OpEx: { type: 'number' },
+                                    Depreciation: { type: 'number' },
+                                    Amortization: { type: 'number' },
+                                    Interest: { type: 'number' },
+                                    Taxes: { type: 'number' },
                                 }
                             }
                         }
                     }
-                }
+                },
             });
     
             const parsedResponse = JSON.parse(response.text);
@@ -564,7 +571,7 @@ dpo: '30',
     
         } catch (error) {
             console.error("Error scanning document:", error);
-            showToast("Error: Could not parse financial data from the file.");
+            showToast(`Error: ${aiErrorMessage(error, "Could not parse financial data from the file.")}`);
         } finally {
             setIsScanning(false);
             event.target.value = ''; // Reset file input
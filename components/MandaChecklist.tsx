@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 
 const CHECKLIST_TEMPLATES = {
     'General Due Diligence': [
@@ -36,32 +36,20 @@ const CHECKLIST_TEMPLATES = {
 
 type ChecklistItem = { id: string; text: string; completed: boolean };
 type ChecklistName = keyof typeof CHECKLIST_TEMPLATES;
-type AllChecklists = Record<ChecklistName, ChecklistItem[]>;
+export type AllChecklists = Record<ChecklistName, ChecklistItem[]>;
 
-const CHECKLIST_STORAGE_KEY = 'mandaChecklistsState';
+interface MandaChecklistProps {
+    checklists: AllChecklists | null;
+    setChecklists: React.Dispatch<React.SetStateAction<AllChecklists | null>>;
+}
 
-const MandaChecklist: React.FC = () => {
-    const [allChecklists, setAllChecklists] = useState<AllChecklists>(() => {
-        try {
-            const savedState = localStorage.getItem(CHECKLIST_STORAGE_KEY);
-            return savedState ? JSON.parse(savedState) : CHECKLIST_TEMPLATES;
-        } catch (error) {
-            console.error("Failed to load checklist state from local storage", error);
-            return CHECKLIST_TEMPLATES;
-        }
-    });
+// Progress is persisted by App through the workspace repository; `null` means untouched templates.
+const MandaChecklist: React.FC<MandaChecklistProps> = ({ checklists, setChecklists }) => {
+    const allChecklists = checklists ?? CHECKLIST_TEMPLATES;
 
     const [selectedChecklist, setSelectedChecklist] = useState<ChecklistName>('General Due Diligence');
     const [toastMessage, setToastMessage] = useState<string | null>(null);
 
-    useEffect(() => {
-        try {
-            localStorage.setItem(CHECKLIST_STORAGE_KEY, JSON.stringify(allChecklists));
-        } catch (error) {
-            console.error("Failed to save checklist state to local storage", error);
-        }
-    }, [allChecklists]);
-
     const showToast = (message: string) => {
         setToastMessage(message);
         setTimeout(() => setToastMessage(null), 3000);
@@ -72,7 +60,8 @@ const MandaChecklist: React.FC = () => {
     };
 
     const handleToggleItem = (id: string) => {
-        setAllChecklists(prev => {
+        setChecklists(current => {
+            const prev = current ?? CHECKLIST_TEMPLATES;
             const updatedItems = prev[selectedChecklist].map(item =>
                 item.id === id ? { ...item, completed: !item.completed } : item
             );
@@ -85,8 +74,7 @@ const MandaChecklist: React.FC = () => {
     
     const handleResetProgress = () => {
         if (window.confirm('Are you sure you want to reset all checklist progress? This cannot be undone.')) {
-            localStorage.removeItem(CHECKLIST_STORAGE_KEY);
-            setAllChecklists(CHECKLIST_TEMPLATES);
+            setChecklists(null);
             showToast('Checklist progress has been reset.');
         }
     };
@@ -2,6 +2,8 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './src/App';
 import { AuthProvider } from './src/contexts/AuthContext';
+import { TeamProvider } from './src/contexts/TeamContext';
+import { RepositoryProvider } from './src/contexts/RepositoryContext';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -12,7 +14,11 @@ const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
     <AuthProvider>
-      <App />
+      <TeamProvider>
+        <RepositoryProvider>
+          <App />
+        </RepositoryProvider>
+      </TeamProvider>
     </AuthProvider>
   </React.StrictMode>
 );
\ No newline at end of file
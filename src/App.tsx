@@ -1,5 +1,5 @@
 
-import React, { useState, useCallback, useEffect, useContext } from 'react';
+import React, { useState, useCallback, useEffect, useContext, useRef, useMemo } from 'react';
 import CentralDashboard from './components/CentralDashboard';
 import BuyBox from './components/BuyBox';
 import { SourcingResult } from './components/SourcingEngine';
@@ -11,8 +11,29 @@ import PipelineHub from './components/PipelineHub';
 import AnalysisHub from './components/AnalysisHub';
 import ManagementHub from './components/ManagementHub';
 import Login from './components/Login';
+import WorkspaceTransfer from './components/WorkspaceTransfer';
+import AiUsageDashboard from './components/AiUsageDashboard';
+import TeamPanel from './components/TeamPanel';
 import { AuthContext } from './contexts/AuthContext';
-import { auth } from './firebase/config';
+import { RepositoryContext } from './contexts/RepositoryContext';
+import { TeamContext } from './contexts/TeamContext';
+import { WorkspaceData, WorkspaceKey } from './storage/repository';
+import { SyncSettings, SyncedCollection, SyncScope, DocumentSync, defaultSyncSettings, createDocumentSync } from './storage/firestoreSync';
+import { hasFullAccess, canAccessView, canManageTeam, DealFinancing, toDealFinancing, dealFromFinancing } from './storage/team';
+import { setAiMeter } from './ai/client';
+import { AiUsageRecord, AiBudget, appendUsageRecord } from './ai/metering';
+import { FitScoreBreakdown } from './utils/fitScoring';
+import { useAnalysisQueue } from './sourcing/useAnalysisQueue';
+import { addListingResult, findPipelineDeal } from './sourcing/dedup';
+import { AnalysisJob, isActiveJob, resumeJobs, describeJobProgress, enqueueListings } from './sourcing/jobQueue';
+import { SavedSearch, SearchInboxItem, addInboxItems, renameSearchProfile, disableSearchesForProfile } from './sourcing/savedSearches';
+import { useSavedSearchScheduler } from './sourcing/useSavedSearchScheduler';
+import { ValuationSettings, defaultValuationSettings } from './sourcing/valuationMetrics';
+import { DealEvent, recordDealEvent } from './pipeline/dealActivity';
+import { LostDealRecord } from './pipeline/lostReasons';
+import { PipelineStage, defaultPipelineStages, initialStage, normalizeStages, renameDealStage, sortStages } from './pipeline/stages';
+import { AutomationRule, defaultAutomationRules, renameRuleStage, runAutomationRules } from './pipeline/automation';
+import { auth, db } from './firebase/config';
 import { signOut } from 'firebase/auth';
 
 // Interfaces remain the same...
@@ -52,6 +73,8 @@ export interface Task {
   category: string;
   attachments: string[];
   dealId?: string;
+  /** Team member the task is assigned to; advisors only see tasks assigned to them. */
+  assigneeEmail?: string;
 }
 export interface ProfilerData {
   analysisResult: { insights: string; profile: string; };
@@ -62,12 +85,14 @@ export interface FitAnalysisData {
   scorecardResult: string;
   fitAnalysisSources: any[] | null;
   overallFitScore?: number | null;
+  fitBreakdown?: FitScoreBreakdown;
 }
 export interface SavedProfile {
   name: string;
   criteria: BuyBoxCriteria;
 }
-export type DealStatus = "Identified" | "Contacted" | "Evaluating" | "LOI Sent" | "Diligence" | "Closing" | "Closed" | "Lost";
+/** The name of a stage in the workspace's pipeline; see `pipeline/stages.ts`. */
+export type DealStatus = string;
 export interface DealContact { id: string; name: string; role: string; email: string; phone: string; }
 export interface KeyTerms { purchasePrice: string; structure: string; sellerNote: string; nwcPeg: string; }
 export interface ChecklistItem { id: string; text: string; completed: boolean; }
@@ -81,11 +106,18 @@ export interface Deal {
   timeline: { loiSigned: string; diligenceEnd: string; targetClose: string; };
   closingChecklist: ChecklistItem[];
   notes: string;
+  /** Every change to the deal, oldest first. */
+  activity?: DealEvent[];
+  /** Why the deal was lost; kept if it's later revived so the post-mortem isn't lost with it. */
+  lost?: LostDealRecord;
 }
 
 export type View = 'dashboard' | 'buybox' | 'pipelineHub' | 'analysisHub' | 'managementHub';
 
-const defaultBuyBoxCriteria: BuyBoxCriteria = {
+// Analysis Hub workspace for work not (yet) tied to a deal in the pipeline
+export const GENERAL_ANALYSIS_ID = 'general';
+
+export const defaultBuyBoxCriteria: BuyBoxCriteria = {
   geography: { value: 'Texas', weight: 2 },
   industryType: { value: 'B2B Facility Services', weight: 3 },
   minSde: { value: 400000, weight: 3 },
@@ -140,6 +172,64 @@ const useHistory = <T,>(initialState: T) => {
   return { state: history.present, setState: set, undo, redo, canUndo, canRedo };
 };
 
+// Adapts a setter for a Record keyed by deal id into a setter for a single entry,
+// so per-deal data can be handed to components that expect `T | null` state.
+/** Drops the entries of deals that no longer exist; the general workspace always stays. */
+const pruneDealRecord = <T,>(record: Record<string, T>, dealIds: Set<string>): Record<string, T> => {
+  const keys = Object.keys(record).filter(key => key === GENERAL_ANALYSIS_ID || dealIds.has(key));
+  return keys.length === Object.keys(record).length ? record : Object.fromEntries(keys.map(key => [key, record[key]]));
+};
+
+const scopeRecordSetter = <T,>(setRecord: React.Dispatch<React.SetStateAction<Record<string, T>>>, key: string): React.Dispatch<React.SetStateAction<T | null>> =>
+  (action) => setRecord(prev => {
+    const current = prev[key] ?? null;
+    const next = typeof action === 'function' ? (action as (prevState: T | null) => T | null)(current) : action;
+    const { [key]: _removed, ...rest } = prev;
+    return next === null ? rest : { ...rest, [key]: next };
+  });
+
+interface SyncTarget {
+  workspaceId: string;
+  uid: string;
+  scope: SyncScope;
+  readOnly: boolean;
+}
+
+// Mirrors a synced array (deals, tasks, pipeline stages or automation rules) to Firestore while `target` is set. Local state stays
+// authoritative for rendering; remote changes are merged into it as they arrive.
+const useDocumentSync = <T extends { id: string },>(
+  collectionName: SyncedCollection,
+  items: T[],
+  setItems: React.Dispatch<React.SetStateAction<T[]>>,
+  target: SyncTarget | null,
+  onError: (error: Error) => void,
+) => {
+  const syncRef = useRef<DocumentSync<T> | null>(null);
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+  // Restart only when the target actually changes, not on every new object.
+  const targetKey = target ? JSON.stringify(target) : null;
+
+  useEffect(() => {
+    if (!targetKey) return;
+    const { workspaceId, uid, scope, readOnly } = JSON.parse(targetKey) as SyncTarget;
+    const sync = createDocumentSync<T>({
+      db, workspaceId, collectionName, uid, scope, readOnly,
+      initialItems: itemsRef.current,
+      applyRemote: setItems,
+      onError: error => onErrorRef.current(error),
+    });
+    syncRef.current = sync;
+    return () => {
+      sync.stop();
+      syncRef.current = null;
+    };
+  }, [collectionName, targetKey, setItems]);
+
+  useEffect(() => { syncRef.current?.push(items); }, [items]);
+};
 
 function App() {
   const { user, loading } = useContext(AuthContext);
@@ -151,114 +241,257 @@ function App() {
   const [savedProfiles, setSavedProfiles] = useState<SavedProfile[]>([]);
   const [currentProfileName, setCurrentProfileName] = useState<string | null>('Default');
   const [isSourcingGlobal, setIsSourcingGlobal] = useState(false);
-  const [isAnalyzingGlobal, setIsAnalyzingGlobal] = useState(false);
+  const [analysisJobs, setAnalysisJobs] = useState<AnalysisJob[]>([]);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [searchInbox, setSearchInbox] = useState<SearchInboxItem[]>([]);
+  const [valuationSettings, setValuationSettings] = useState<ValuationSettings>(defaultValuationSettings);
   const [sourcingProgressMessage, setSourcingProgressMessage] = useState('');
   const [isProfilingGlobal, setIsProfilingGlobal] = useState(false);
   const [profilingProgressMessage, setProfilingProgressMessage] = useState('');
   const [profilerData, setProfilerData] = useState<ProfilerData>({ analysisResult: { insights: '', profile: '' }, sources: null, urlInput: 'http://' });
-  const [valuationInputs, setValuationInputs] = useState<ValuationInputs | null>(null);
+  const [valuations, setValuations] = useState<Record<string, ValuationInputs>>({});
   const [sourcingResultsGlobal, setSourcingResultsGlobal] = useState<SourcingResult[]>([]);
   const [fitAnalysis, setFitAnalysis] = useState<FitAnalysisData>({ scorecardResult: '', fitAnalysisSources: null, overallFitScore: null });
-  const [financialAnalysisData, setFinancialAnalysisData] = useState<FinancialAnalysisData | null>(null);
+  const [financialAnalyses, setFinancialAnalyses] = useState<Record<string, FinancialAnalysisData>>({});
   const [deals, setDeals] = useState<Deal[]>([]);
-  const [projectionData, setProjectionData] = useState<ProjectionData | null>(null);
+  const [pipelineStages, setPipelineStages] = useState<PipelineStage[]>(defaultPipelineStages);
+  const [automationRules, setAutomationRules] = useState<AutomationRule[]>(() => defaultAutomationRules(initialStage(defaultPipelineStages)));
+  const [projections, setProjections] = useState<Record<string, ProjectionData>>({});
+  const [analysisDealId, setAnalysisDealId] = useState<string>(GENERAL_ANALYSIS_ID);
   const [integrationData, setIntegrationData] = useState<Record<string, IntegrationData>>({});
   const [websiteList, setWebsiteList] = useState<string>('');
   const [generalProfile, setGeneralProfile] = useState<GeneralProfileResult | null>(null);
+  const [vdrFolders, setVdrFolders] = useState<WorkspaceData['vdrFolders'] | null>(null);
+  const [mandaChecklists, setMandaChecklists] = useState<WorkspaceData['mandaChecklists'] | null>(null);
 
-  // --- User-specific Local Storage Keys ---
+  // --- Persistence (user-scoped via the workspace repository) ---
+  const repository = useContext(RepositoryContext);
+  const { memberships, activeWorkspace, setActiveWorkspaceId, members } = useContext(TeamContext);
   const uid = user?.uid;
-  const DEAL_ROOM_TASKS_LOCAL_STORAGE_KEY = `dealRoomTasks_${uid}`;
-  const SAVED_PROFILES_LOCAL_STORAGE_KEY = `buyBoxProfiles_${uid}`;
-  const PROFILER_DATA_KEY = `companyProfilerData_${uid}`;
-  const VALUATION_INPUTS_KEY = `valuationCalculatorInputs_${uid}`;
-  const SOURCING_RESULTS_KEY = `sourcingEngineResults_${uid}`;
-  const FIT_ANALYSIS_KEY = `buyBoxFitAnalysis_${uid}`;
-  const FINANCIAL_ANALYSIS_KEY = `financialAnalysisData_${uid}`;
-  const DEALS_PIPELINE_KEY = `dealsPipeline_${uid}`;
-  const PROJECTION_DATA_KEY = `projectionData_${uid}`;
-  const INTEGRATION_DATA_KEY = `integrationData_${uid}`;
-  const WEBSITE_LIST_KEY = `sourcingWebsiteList_${uid}`; // Can be user specific or global, user-specific for now
+  const role = activeWorkspace?.role ?? 'owner';
+  // Saving is held off until the async load for the current repository scope has finished,
+  // otherwise the initial empty state would overwrite what is stored.
+  const [hydratedUid, setHydratedUid] = useState<string | null>(null);
+  const isHydrated = !!repository && hydratedUid === repository.uid;
+  const [isTeamPanelOpen, setIsTeamPanelOpen] = useState(false);
+  // Bumped after a workspace import so the stored data is read back into state.
+  const [workspaceRevision, setWorkspaceRevision] = useState(0);
+  const [isWorkspaceTransferOpen, setIsWorkspaceTransferOpen] = useState(false);
+  const [syncSettings, setSyncSettings] = useState<SyncSettings>(defaultSyncSettings);
+  const [aiUsage, setAiUsage] = useState<AiUsageRecord[]>([]);
+  const [aiBudgets, setAiBudgets] = useState<AiBudget[]>([]);
+  const [isAiUsageOpen, setIsAiUsageOpen] = useState(false);
 
   // --- Data Loading Effect ---
   useEffect(() => {
-    if (!uid) return; // Don't load data if user is not logged in
-
-    try {
-        const savedProfilerData = localStorage.getItem(PROFILER_DATA_KEY);
-        if (savedProfilerData) setProfilerData(JSON.parse(savedProfilerData));
-        const savedValuationInputs = localStorage.getItem(VALUATION_INPUTS_KEY);
-        if (savedValuationInputs) setValuationInputs(JSON.parse(savedValuationInputs));
-        const savedSourcingResults = localStorage.getItem(SOURCING_RESULTS_KEY);
-        if (savedSourcingResults) setSourcingResultsGlobal(JSON.parse(savedSourcingResults));
-        const savedFitAnalysis = localStorage.getItem(FIT_ANALYSIS_KEY);
-        if (savedFitAnalysis) setFitAnalysis(JSON.parse(savedFitAnalysis));
-        const savedFinancialAnalysis = localStorage.getItem(FINANCIAL_ANALYSIS_KEY);
-        if (savedFinancialAnalysis) setFinancialAnalysisData(JSON.parse(savedFinancialAnalysis));
-        const savedDeals = localStorage.getItem(DEALS_PIPELINE_KEY);
-        if (savedDeals) setDeals(JSON.parse(savedDeals));
-        const savedProjectionData = localStorage.getItem(PROJECTION_DATA_KEY);
-        if (savedProjectionData) setProjectionData(JSON.parse(savedProjectionData));
-        const savedIntegrationData = localStorage.getItem(INTEGRATION_DATA_KEY);
-        if (savedIntegrationData) setIntegrationData(JSON.parse(savedIntegrationData));
-        const savedWebsiteList = localStorage.getItem(WEBSITE_LIST_KEY);
-        if (savedWebsiteList) setWebsiteList(JSON.parse(savedWebsiteList));
-        const savedTasks = localStorage.getItem(DEAL_ROOM_TASKS_LOCAL_STORAGE_KEY);
-        if (savedTasks) setTasks(JSON.parse(savedTasks));
-
-        const storedProfiles = localStorage.getItem(SAVED_PROFILES_LOCAL_STORAGE_KEY);
-        let initialProfiles = storedProfiles ? JSON.parse(storedProfiles) : [];
-        if (initialProfiles.length === 0) {
-          const defaultProfile: SavedProfile = { name: 'Default', criteria: defaultBuyBoxCriteria };
-          initialProfiles.push(defaultProfile);
-          localStorage.setItem(SAVED_PROFILES_LOCAL_STORAGE_KEY, JSON.stringify(initialProfiles));
-        }
+    if (!repository) return; // Don't load data if user is not logged in
+    let cancelled = false;
+
+    const loadWorkspace = async () => {
+      try {
+        const saved = await repository.loadAll();
+        if (cancelled) return;
+        // Missing collections fall back to their empty state so a replaced workspace doesn't keep stale data.
+        setProfilerData(saved.profilerData ?? { analysisResult: { insights: '', profile: '' }, sources: null, urlInput: 'http://' });
+        setSourcingResultsGlobal(saved.sourcingResults ?? []);
+        setAnalysisJobs(resumeJobs(saved.sourcingJobs ?? []));
+        setSavedSearches(saved.savedSearches ?? []);
+        setSearchInbox(saved.searchInbox ?? []);
+        setValuationSettings(saved.valuationSettings ?? defaultValuationSettings);
+        setFitAnalysis(saved.fitAnalysis ?? { scorecardResult: '', fitAnalysisSources: null, overallFitScore: null });
+        setFinancialAnalyses(saved.financialAnalyses ?? {});
+        setValuations(saved.valuations ?? {});
+        setProjections(saved.projections ?? {});
+        setDeals(saved.deals ?? []);
+        // A shared workspace's stages and automations come from its owner through sync; starting it
+        // from this device's defaults would upload stages and rules the owner has removed.
+        const isSharedScope = activeWorkspace?.isShared ?? false;
+        const savedStages = normalizeStages(saved.pipelineStages ?? (isSharedScope ? [] : defaultPipelineStages));
+        setPipelineStages(savedStages);
+        setAutomationRules(saved.automationRules ?? (isSharedScope ? [] : defaultAutomationRules(initialStage(savedStages))));
+        setIntegrationData(saved.integrationData ?? {});
+        setWebsiteList(saved.websiteList ?? '');
+        setTasks(saved.tasks ?? []);
+        setVdrFolders(saved.vdrFolders ?? null);
+        setMandaChecklists(saved.mandaChecklists ?? null);
+        setSyncSettings(saved.syncSettings ?? defaultSyncSettings);
+        setAiUsage(saved.aiUsage ?? []);
+        setAiBudgets(saved.aiBudgets ?? []);
+
+        const initialProfiles = saved.savedProfiles && saved.savedProfiles.length > 0
+          ? saved.savedProfiles
+          : [{ name: 'Default', criteria: defaultBuyBoxCriteria }];
         setSavedProfiles(initialProfiles);
-        
+
         const defaultProf = initialProfiles.find((p: SavedProfile) => p.name === 'Default');
         if (defaultProf) {
             setBuyBox(defaultProf.criteria);
             setCurrentProfileName('Default');
         }
+      } catch (error) {
+        console.error("Failed to load persisted workspace data", error);
+      } finally {
+        if (!cancelled) setHydratedUid(repository.uid);
+      }
+    };
 
-    } catch (error) {
-        console.error("Failed to load persisted data from local storage", error);
-    }
-  }, [uid, setBuyBox]); // This effect re-runs when the user logs in/out
+    loadWorkspace();
+    return () => { cancelled = true; };
+  }, [repository, workspaceRevision, setBuyBox]); // This effect re-runs when the user logs in/out or imports a workspace
 
   // --- Clear state on logout ---
   useEffect(() => {
     if (!user && !loading) {
+      setHydratedUid(null);
       setBuyBox(defaultBuyBoxCriteria);
       setTasks([]);
       setSavedProfiles([]);
       setCurrentProfileName('Default');
       setProfilerData({ analysisResult: { insights: '', profile: '' }, sources: null, urlInput: 'http://' });
-      setValuationInputs(null);
+      setValuations({});
       setSourcingResultsGlobal([]);
+      setAnalysisJobs([]);
+      setSavedSearches([]);
+      setSearchInbox([]);
+      setValuationSettings(defaultValuationSettings);
       setFitAnalysis({ scorecardResult: '', fitAnalysisSources: null, overallFitScore: null });
-      setFinancialAnalysisData(null);
+      setFinancialAnalyses({});
       setDeals([]);
-      setProjectionData(null);
+      setPipelineStages(defaultPipelineStages);
+      setAutomationRules(defaultAutomationRules(initialStage(defaultPipelineStages)));
+      setProjections({});
+      setAnalysisDealId(GENERAL_ANALYSIS_ID);
       setIntegrationData({});
       setWebsiteList('');
       setGeneralProfile(null);
+      setVdrFolders(null);
+      setMandaChecklists(null);
+      setSyncSettings(defaultSyncSettings);
+      setAiUsage([]);
+      setAiBudgets([]);
     }
   }, [user, loading, setBuyBox]);
 
   // --- Data Saving Effects ---
-  useEffect(() => { if(uid) localStorage.setItem(PROFILER_DATA_KEY, JSON.stringify(profilerData)); }, [profilerData, uid]);
-  useEffect(() => { if(uid && valuationInputs) localStorage.setItem(VALUATION_INPUTS_KEY, JSON.stringify(valuationInputs)); }, [valuationInputs, uid]);
-  useEffect(() => { if(uid) localStorage.setItem(SOURCING_RESULTS_KEY, JSON.stringify(sourcingResultsGlobal)); }, [sourcingResultsGlobal, uid]);
-  useEffect(() => { if(uid) localStorage.setItem(FIT_ANALYSIS_KEY, JSON.stringify(fitAnalysis)); }, [fitAnalysis, uid]);
-  useEffect(() => { if(uid && financialAnalysisData) localStorage.setItem(FINANCIAL_ANALYSIS_KEY, JSON.stringify(financialAnalysisData)); }, [financialAnalysisData, uid]);
-  useEffect(() => { if(uid) localStorage.setItem(SAVED_PROFILES_LOCAL_STORAGE_KEY, JSON.stringify(savedProfiles)); }, [savedProfiles, uid]);
-  useEffect(() => { if(uid) localStorage.setItem(DEALS_PIPELINE_KEY, JSON.stringify(deals)); }, [deals, uid]);
-  useEffect(() => { if(uid && projectionData) localStorage.setItem(PROJECTION_DATA_KEY, JSON.stringify(projectionData)); }, [projectionData, uid]);
-  useEffect(() => { if(uid) localStorage.setItem(INTEGRATION_DATA_KEY, JSON.stringify(integrationData)); }, [integrationData, uid]);
-  useEffect(() => { if(uid) localStorage.setItem(WEBSITE_LIST_KEY, JSON.stringify(websiteList)); }, [websiteList, uid]);
-  useEffect(() => { if(uid) localStorage.setItem(DEAL_ROOM_TASKS_LOCAL_STORAGE_KEY, JSON.stringify(tasks)); }, [tasks, uid]);
-
+  const persist = useCallback(<K extends WorkspaceKey>(key: K, value: WorkspaceData[K] | null) => {
+    if (!repository || !isHydrated) return;
+    repository.save(key, value).catch(error => {
+      console.error(`Failed to save "${key}"`, error);
+      showToast("Error: Could not save your latest changes.");
+    });
+  }, [repository, isHydrated]);
+
+  useEffect(() => { persist('profilerData', profilerData); }, [profilerData, persist]);
+  useEffect(() => { persist('valuations', valuations); }, [valuations, persist]);
+  useEffect(() => { persist('sourcingResults', sourcingResultsGlobal); }, [sourcingResultsGlobal, persist]);
+  useEffect(() => { persist('sourcingJobs', analysisJobs); }, [analysisJobs, persist]);
+  useEffect(() => { persist('savedSearches', savedSearches); }, [savedSearches, persist]);
+  useEffect(() => { persist('searchInbox', searchInbox); }, [searchInbox, persist]);
+  useEffect(() => { persist('valuationSettings', valuationSettings); }, [valuationSettings, persist]);
+  useEffect(() => { persist('fitAnalysis', fitAnalysis); }, [fitAnalysis, persist]);
+  useEffect(() => { persist('financialAnalyses', financialAnalyses); }, [financialAnalyses, persist]);
+  useEffect(() => { persist('savedProfiles', savedProfiles); }, [savedProfiles, persist]);
+  useEffect(() => { persist('deals', deals); }, [deals, persist]);
+  useEffect(() => { persist('pipelineStages', pipelineStages); }, [pipelineStages, persist]);
+  useEffect(() => { persist('automationRules', automationRules); }, [automationRules, persist]);
+  useEffect(() => { persist('projections', projections); }, [projections, persist]);
+  useEffect(() => { persist('integrationData', integrationData); }, [integrationData, persist]);
+  useEffect(() => { persist('websiteList', websiteList); }, [websiteList, persist]);
+  useEffect(() => { persist('tasks', tasks); }, [tasks, persist]);
+  useEffect(() => { persist('vdrFolders', vdrFolders); }, [vdrFolders, persist]);
+  useEffect(() => { persist('mandaChecklists', mandaChecklists); }, [mandaChecklists, persist]);
+  useEffect(() => { persist('syncSettings', syncSettings); }, [syncSettings, persist]);
+  useEffect(() => { persist('aiUsage', aiUsage); }, [aiUsage, persist]);
+  useEffect(() => { persist('aiBudgets', aiBudgets); }, [aiBudgets, persist]);
+
+  // --- Sourcing queue: listing analyses run in the background and survive reloads ---
+  useAnalysisQueue({
+    jobs: analysisJobs,
+    setJobs: setAnalysisJobs,
+    enabled: isHydrated,
+    onResult: result => setSourcingResultsGlobal(prev => addListingResult(prev, result)),
+  });
+  const isAnalyzingGlobal = analysisJobs.some(isActiveJob);
+
+  // --- Saved searches: due searches re-run on their schedule; only unseen listings are analyzed ---
+  const { runSearch, runningSearchId } = useSavedSearchScheduler({
+    searches: savedSearches,
+    setSearches: setSavedSearches,
+    savedProfiles,
+    enabled: isHydrated && hasFullAccess(role),
+    onNewListings: (search, listings, criteria) => {
+      setSearchInbox(prev => addInboxItems(prev, search.id, listings, Date.now()));
+      setAnalysisJobs(prev => enqueueListings(prev, listings, criteria));
+    },
+  });
+
+  // --- AI metering: every AI call is logged here and checked against the budgets ---
+  useEffect(() => {
+    // Until the saved log has loaded, budgets can't be checked and new records would be overwritten by the load.
+    if (!isHydrated) return;
+    setAiMeter({ records: aiUsage, budgets: aiBudgets, onRecord: record => setAiUsage(prev => appendUsageRecord(prev, record)) });
+    return () => setAiMeter(null);
+  }, [isHydrated, aiUsage, aiBudgets]);
+
+  // --- Firestore sync for shared deals and tasks ---
+  // A shared workspace only exists in Firestore, so it always syncs; the user's own workspace syncs when Cloud Sync is on.
+  const isSyncing = isHydrated && !!uid && !!activeWorkspace && (activeWorkspace.isShared || syncSettings.firestoreEnabled);
+  const dealSyncTarget: SyncTarget | null = isSyncing && hasFullAccess(role) ? {
+    workspaceId: activeWorkspace!.id, uid: uid!, scope: { type: 'collection' }, readOnly: false,
+  } : null;
+  // Lenders get only the financing fields of their deals. Everyone who edits deals keeps that copy
+  // up to date; remote copies are only applied by lenders, since the deals sync carries the rest.
+  const financingSyncTarget: SyncTarget | null = isSyncing && role !== 'advisor' ? {
+    workspaceId: activeWorkspace!.id, uid: uid!,
+    scope: hasFullAccess(role) ? { type: 'collection' } : { type: 'documents', ids: activeWorkspace!.dealIds },
+    readOnly: role === 'lender',
+  } : null;
+  const taskSyncTarget: SyncTarget | null = isSyncing && role !== 'lender' ? {
+    workspaceId: activeWorkspace!.id, uid: uid!,
+    scope: hasFullAccess(role) ? { type: 'collection' } : { type: 'where', field: 'data.assigneeEmail', value: (user?.email ?? '').toLowerCase() },
+    readOnly: false,
+  } : null;
+  const handleSyncError = (error: Error) => {
+    console.error("Firestore sync error", error);
+    showToast("Cloud sync error: your changes are still saved on this device.");
+  };
+  useDocumentSync('deals', deals, setDeals, dealSyncTarget, handleSyncError);
+  const dealFinancing = useMemo(() => deals.map(toDealFinancing), [deals]);
+  const applyRemoteFinancing = useCallback((update: React.SetStateAction<DealFinancing[]>) => {
+    if (role !== 'lender') return;
+    setDeals(prev => (typeof update === 'function' ? update(prev.map(toDealFinancing)) : update).map(dealFromFinancing));
+  }, [role]);
+  useDocumentSync('dealFinancing', dealFinancing, applyRemoteFinancing, financingSyncTarget, handleSyncError);
+  useDocumentSync('tasks', tasks, setTasks, taskSyncTarget, handleSyncError);
+
+  // Pipeline settings apply to the whole workspace. Every member needs the columns; only those who
+  // can move deals change them or run the automations.
+  const pipelineSyncTarget: SyncTarget | null = isSyncing ? {
+    workspaceId: activeWorkspace!.id, uid: uid!, scope: { type: 'collection' }, readOnly: !hasFullAccess(role),
+  } : null;
+  const automationSyncTarget: SyncTarget | null = isSyncing && hasFullAccess(role) ? { ...pipelineSyncTarget!, readOnly: false } : null;
+  const applyRemoteStages = useCallback((update: React.SetStateAction<PipelineStage[]>) =>
+    setPipelineStages(prev => sortStages(typeof update === 'function' ? update(prev) : update)), []);
+  useDocumentSync('pipelineStages', pipelineStages, applyRemoteStages, pipelineSyncTarget, handleSyncError);
+  useDocumentSync('automationRules', automationRules, setAutomationRules, automationSyncTarget, handleSyncError);
+
+
+  // --- Analysis Hub data for the selected deal ---
+  // A deal's analyses go with it when it's deleted, here or by another member.
+  useEffect(() => {
+    if (!isHydrated) return;
+    const dealIds = new Set<string>(deals.map(d => d.id));
+    setFinancialAnalyses(prev => pruneDealRecord(prev, dealIds));
+    setValuations(prev => pruneDealRecord(prev, dealIds));
+    setProjections(prev => pruneDealRecord(prev, dealIds));
+  }, [isHydrated, deals]);
+  const activeAnalysisId = deals.some(d => d.id === analysisDealId) ? analysisDealId : GENERAL_ANALYSIS_ID;
+  const financialAnalysisData = financialAnalyses[activeAnalysisId] ?? null;
+  const valuationInputs = valuations[activeAnalysisId] ?? null;
+  const projectionData = projections[activeAnalysisId] ?? null;
+  const setFinancialAnalysisData = scopeRecordSetter(setFinancialAnalyses, activeAnalysisId);
+  const setValuationInputs = scopeRecordSetter(setValuations, activeAnalysisId);
+  const setProjectionData = scopeRecordSetter(setProjections, activeAnalysisId);
 
   useEffect(() => {
     if (profilerData && (profilerData.analysisResult.profile || profilerData.analysisResult.insights)) {
@@ -324,6 +557,7 @@ function App() {
     }
     const updatedProfiles = savedProfiles.map(p => p.name === oldName ? { ...p, name: newName.trim() } : p);
     setSavedProfiles(updatedProfiles);
+    setSavedSearches(prev => renameSearchProfile(prev, oldName, newName.trim()));
     if (currentProfileName === oldName) setCurrentProfileName(newName.trim());
     showToast(`Profile "${oldName}" renamed to "${newName.trim()}".`);
   };
@@ -333,8 +567,11 @@ function App() {
         alert("The 'Default' profile cannot be deleted.");
         return;
     }
-    if (window.confirm(`Are you sure you want to delete the profile "${name}"?`)) {
+    const searchCount = savedSearches.filter(search => search.profileName === name).length;
+    const searchWarning = searchCount > 0 ? ` ${searchCount} saved search${searchCount === 1 ? ' uses' : 'es use'} it and will stop running until given another profile.` : '';
+    if (window.confirm(`Are you sure you want to delete the profile "${name}"?${searchWarning}`)) {
         setSavedProfiles(prev => prev.filter(p => p.name !== name));
+        setSavedSearches(prev => disableSearchesForProfile(prev, name));
         if (currentProfileName === name) {
             const defaultProfile = savedProfiles.find(p => p.name === 'Default');
             if(defaultProfile) {
@@ -349,29 +586,59 @@ function App() {
     }
   };
 
+  // Recorded against every deal change; shared workspaces show who did what.
+  const actor = user?.displayName || user?.email || 'Unknown user';
+
+  const handleTasksCompleted = (completed: Task[]) => {
+    const linked = completed.filter(task => task.dealId);
+    if (linked.length === 0) return;
+    setDeals(prev => prev.map(deal => linked
+      .filter(task => task.dealId === deal.id)
+      .reduce((updated, task) => recordDealEvent(updated, { type: 'taskCompleted', subject: task.title, targetId: task.id }, actor), deal)));
+  };
+
   const handleAddTask = (taskTitle: string, taskDescription: string, category: string, dealId?: string) => {
     const newTask: Task = { id: crypto.randomUUID(), title: taskTitle.trim(), priority: 'Medium', status: 'To Do', dueDate: null, assignee: 'Buyer', category, description: taskDescription, attachments: [], dealId };
     setTasks(prevTasks => [newTask, ...prevTasks]);
     showToast(`Task "${taskTitle.trim()}" added.`);
   };
 
+  /** Runs the automation rules for a deal that has just entered its stage, adding the tasks they create. */
+  const handleStageEntered = (deal: Deal): Deal => {
+    const { deal: updated, tasks: created } = runAutomationRules(deal, automationRules, tasks, actor);
+    if (created.length > 0) setTasks(prev => [...created, ...prev]);
+    return updated;
+  };
+
   const handleAddToPipeline = (sourcingResult: SourcingResult) => {
-    const checklist: ChecklistItem[] = [
-      { id: crypto.randomUUID(), text: 'Finalize Purchase Agreement (APA/SPA)', completed: false },
-      { id: crypto.randomUUID(), text: 'Secure Final Loan Approval & Commitment Letter', completed: false },
-    ];
+    const existingDeal = findPipelineDeal(sourcingResult, deals);
+    if (existingDeal) {
+        showToast(`Already in pipeline as ${existingDeal.companyName}.`);
+        return;
+    }
     const newDeal: Deal = {
         id: crypto.randomUUID(),
         companyName: sourcingResult.title || new URL(sourcingResult.url).hostname,
-        status: "Identified", sourcingResult,
+        status: initialStage(pipelineStages), sourcingResult,
         keyTerms: { purchasePrice: '', structure: '', sellerNote: '', nwcPeg: '' },
         contacts: [], timeline: { loiSigned: '', diligenceEnd: '', targetClose: '' },
-        closingChecklist: checklist, notes: '',
+        closingChecklist: [], notes: '',
     };
-    setDeals(prev => [...prev, newDeal]);
+    const added = handleStageEntered(recordDealEvent(newDeal, { type: 'created', to: newDeal.status }, actor));
+    setDeals(prev => [...prev, added]);
     showToast(`${newDeal.companyName} added to Deal Pipeline.`);
   };
 
+  /** `renames` maps old stage names to new ones; deals and automation rules in a renamed stage follow it. */
+  const handleSavePipelineStages = (stages: PipelineStage[], renames: Record<string, string>) => {
+    setPipelineStages(normalizeStages(stages));
+    const renamed = Object.entries(renames).filter(([from, to]) => from !== to);
+    if (renamed.length > 0) {
+      setDeals(prev => prev.map(deal => renamed.reduce((updated, [from, to]) => renameDealStage(updated, from, to), deal)));
+      setAutomationRules(prev => renamed.reduce((rules, [from, to]) => renameRuleStage(rules, from, to), prev));
+    }
+  };
+
   // Navigation handlers remain the same
   useEffect(() => {
     const handleHashChange = () => {
@@ -389,7 +656,27 @@ function App() {
     setActiveView(view);
     window.location.hash = `#/${view}`;
   };
+
+  const handleOpenInAnalysisHub = (dealId: string) => {
+    setAnalysisDealId(dealId);
+    handleNavClick('analysisHub');
+  };
   
+  const handleSwitchWorkspace = (workspaceId: string) => {
+    setActiveWorkspaceId(workspaceId);
+    handleNavClick('dashboard');
+  };
+
+  // Saving, the analysis queue and saved searches pause until the imported data is loaded back,
+  // or they would write the pre-import state over it.
+  const handleWorkspaceImportStarted = () => setHydratedUid(null);
+  const handleWorkspaceImported = (message: string) => {
+    setHydratedUid(null);
+    setWorkspaceRevision(r => r + 1);
+    showToast(message);
+  };
+  const handleWorkspaceImportFailed = () => setWorkspaceRevision(r => r + 1);
+
   const handleLogout = async () => {
     try {
       await signOut(auth);
@@ -421,15 +708,17 @@ function App() {
     { id: 'dashboard', label: 'Dashboard' }, { id: 'buybox', label: 'My Buy Box' },
     { id: 'pipelineHub', label: 'Sourcing Engine' }, { id: 'analysisHub', label: 'Analysis Hub' },
     { id: 'managementHub', label: 'Management Hub' },
-  ];
+  ].filter(item => canAccessView(role, item.id));
+  // Advisors and lenders land on the only hub they can use.
+  const visibleView = canAccessView(role, activeView) ? activeView : navItems[0].id as View;
 
   const renderActiveView = () => {
     // ... (switch statement remains the same, but with updated props)
-    switch (activeView) {
-      case 'dashboard': return <CentralDashboard onNavigate={handleNavClick} deals={deals} tasks={tasks} sourcingResultsGlobal={sourcingResultsGlobal} integrationData={integrationData} currentProfileName={currentProfileName} />;
-      case 'pipelineHub': return <PipelineHub buyBox={buyBox} onAddTask={handleAddTask} sourcingResultsGlobal={sourcingResultsGlobal} setSourcingResultsGlobal={setSourcingResultsGlobal} onClearSourcingData={handleClearSourcingData} isSourcingGlobal={isSourcingGlobal} setIsSourcingGlobal={setIsSourcingGlobal} isAnalyzingGlobal={isAnalyzingGlobal} setIsAnalyzingGlobal={setIsAnalyzingGlobal} sourcingProgressMessage={sourcingProgressMessage} setSourcingProgressMessage={setSourcingProgressMessage} savedProfiles={savedProfiles} currentProfileName={currentProfileName} onLoadProfile={handleLoadProfile} deals={deals} onAddToPipeline={handleAddToPipeline} setDeals={setDeals} tasks={tasks} websiteList={websiteList} setWebsiteList={setWebsiteList} />;
-      case 'analysisHub': return <AnalysisHub setGeneralProfile={setGeneralProfile} profilerData={profilerData} setProfilerData={setProfilerData} onClearProfilerData={handleClearProfilerData} isProfilingGlobal={isProfilingGlobal} setIsProfilingGlobal={setIsProfilingGlobal} profilingProgressMessage={profilingProgressMessage} setProfilingProgressMessage={setProfilingProgressMessage} deals={deals} onAddToPipeline={handleAddToPipeline} financialAnalysisData={financialAnalysisData} setFinancialAnalysisData={setFinancialAnalysisData} onClearFinancialAnalysisData={handleClearFinancialAnalysisData} valuationInputs={valuationInputs} setValuationInputs={setValuationInputs} onClearValuationData={handleClearValuationData} projectionData={projectionData} setData={setProjectionData} onClearProjectionData={handleClearProjectionData} />;
-      case 'managementHub': return <ManagementHub tasks={tasks} setTasks={setTasks} onAddTask={handleAddTask} deals={deals} integrationData={integrationData} setIntegrationData={setIntegrationData} />;
+    switch (visibleView) {
+      case 'dashboard': return <CentralDashboard onNavigate={handleNavClick} deals={deals} tasks={tasks} sourcingResultsGlobal={sourcingResultsGlobal} integrationData={integrationData} currentProfileName={currentProfileName} savedProfiles={savedProfiles} savedSearches={savedSearches} searchInbox={searchInbox} pipelineStages={pipelineStages} />;
+      case 'pipelineHub': return <PipelineHub buyBox={buyBox} onAddTask={handleAddTask} sourcingResultsGlobal={sourcingResultsGlobal} setSourcingResultsGlobal={setSourcingResultsGlobal} onClearSourcingData={handleClearSourcingData} isSourcingGlobal={isSourcingGlobal} setIsSourcingGlobal={setIsSourcingGlobal} analysisJobs={analysisJobs} setAnalysisJobs={setAnalysisJobs} savedSearches={savedSearches} setSavedSearches={setSavedSearches} searchInbox={searchInbox} setSearchInbox={setSearchInbox} runningSearchId={runningSearchId} onRunSearch={runSearch} valuationSettings={valuationSettings} setValuationSettings={setValuationSettings} sourcingProgressMessage={sourcingProgressMessage} setSourcingProgressMessage={setSourcingProgressMessage} savedProfiles={savedProfiles} currentProfileName={currentProfileName} onLoadProfile={handleLoadProfile} deals={deals} onAddToPipeline={handleAddToPipeline} setDeals={setDeals} pipelineStages={pipelineStages} onSavePipelineStages={handleSavePipelineStages} automationRules={automationRules} setAutomationRules={setAutomationRules} onStageEntered={handleStageEntered} onOpenInAnalysisHub={handleOpenInAnalysisHub} tasks={tasks} websiteList={websiteList} setWebsiteList={setWebsiteList} role={role} actor={actor} />;
+      case 'analysisHub': return <AnalysisHub setGeneralProfile={setGeneralProfile} profilerData={profilerData} setProfilerData={setProfilerData} onClearProfilerData={handleClearProfilerData} isProfilingGlobal={isProfilingGlobal} setIsProfilingGlobal={setIsProfilingGlobal} profilingProgressMessage={profilingProgressMessage} setProfilingProgressMessage={setProfilingProgressMessage} deals={deals} onAddToPipeline={handleAddToPipeline} analysisDealId={activeAnalysisId} onSelectAnalysisDeal={setAnalysisDealId} financialAnalysisData={financialAnalysisData} setFinancialAnalysisData={setFinancialAnalysisData} onClearFinancialAnalysisData={handleClearFinancialAnalysisData} valuationInputs={valuationInputs} setValuationInputs={setValuationInputs} onClearValuationData={handleClearValuationData} projectionData={projectionData} setData={setProjectionData} onClearProjectionData={handleClearProjectionData} />;
+      case 'managementHub': return <ManagementHub tasks={tasks} setTasks={setTasks} onTasksCompleted={handleTasksCompleted} onAddTask={handleAddTask} deals={deals} integrationData={integrationData} setIntegrationData={setIntegrationData} vdrFolders={vdrFolders} setVdrFolders={setVdrFolders} mandaChecklists={mandaChecklists} setMandaChecklists={setMandaChecklists} role={role} teamMembers={members} />;
       case 'buybox': return <BuyBox buyBox={buyBox} setBuyBox={setBuyBox} undo={undo} redo={redo} canUndo={canUndo} canRedo={canRedo} generalProfile={generalProfile} savedProfiles={savedProfiles} currentProfileName={currentProfileName} onSaveProfile={handleSaveProfile} onLoadProfile={handleLoadProfile} onDeleteProfile={handleDeleteProfile} onRenameProfile={handleRenameProfile} onNewProfile={handleNewProfile} fitAnalysis={fitAnalysis} setFitAnalysis={setFitAnalysis} onClearFitAnalysis={handleClearFitAnalysisData} />;
       default: return null;
     }
@@ -446,6 +735,27 @@ function App() {
             </div>
             <div className="flex items-center gap-4">
               <span className="text-sm text-slate-600">Welcome, {user.displayName || user.email}</span>
+              {memberships.length > 0 && (
+                <select value={activeWorkspace?.id ?? ''} onChange={(e) => handleSwitchWorkspace(e.target.value)} className="text-sm text-slate-700 bg-white border border-slate-300 rounded-md py-1 px-2">
+                  <option value={uid}>My Workspace</option>
+                  {memberships.map(m => <option key={m.workspaceId} value={m.workspaceId}>{m.ownerEmail || 'Shared'} ({m.role})</option>)}
+                </select>
+              )}
+              {canManageTeam(role) && (
+                <button onClick={() => setIsTeamPanelOpen(true)} className="text-sm font-medium text-slate-600 hover:text-slate-900">
+                    Team
+                </button>
+              )}
+              {!activeWorkspace?.isShared && <button onClick={() => setSyncSettings(s => ({ ...s, firestoreEnabled: !s.firestoreEnabled }))} title="Sync deals, tasks and pipeline settings through the cloud so collaborators see changes live" className="flex items-center gap-2 text-sm font-medium text-slate-600 hover:text-slate-900">
+                  <span className={`h-2 w-2 rounded-full ${syncSettings.firestoreEnabled ? 'bg-green-500' : 'bg-slate-300'}`}></span>
+                  Cloud Sync: {syncSettings.firestoreEnabled ? 'On' : 'Off'}
+              </button>}
+              {!activeWorkspace?.isShared && <button onClick={() => setIsWorkspaceTransferOpen(true)} className="text-sm font-medium text-slate-600 hover:text-slate-900">
+                  Backup
+              </button>}
+              <button onClick={() => setIsAiUsageOpen(true)} className="text-sm font-medium text-slate-600 hover:text-slate-900">
+                  AI Usage
+              </button>
               <button onClick={handleLogout} className="flex items-center gap-2 text-sm font-medium text-slate-600 hover:text-slate-900">
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
                     <path strokeLinecap="round" strokeLinejoin="round" d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
@@ -456,12 +766,25 @@ function App() {
         </header>
         <nav className="mb-8 border-b border-slate-200">
             <div className="flex items-center gap-x-8">
-                {navItems.map(item => (<button key={item.id} type="button" onClick={() => handleNavClick(item.id as View)} className={`py-3 text-sm font-medium transition-colors ${activeView === item.id ? 'text-amber-600 border-b-2 border-amber-500' : 'text-slate-500 hover:text-slate-800'}`}>{item.label}</button>))}
+                {navItems.map(item => (<button key={item.id} type="button" onClick={() => handleNavClick(item.id as View)} className={`py-3 text-sm font-medium transition-colors ${visibleView === item.id ? 'text-amber-600 border-b-2 border-amber-500' : 'text-slate-500 hover:text-slate-800'}`}>{item.label}</button>))}
             </div>
         </nav>
         <main>{renderActiveView()}</main>
+        {isTeamPanelOpen && activeWorkspace && (
+          <TeamPanel
+            workspaceId={activeWorkspace.id}
+            deals={deals}
+            members={members}
+            isSyncEnabled={activeWorkspace.isShared || syncSettings.firestoreEnabled}
+            onEnableSync={() => setSyncSettings(s => ({ ...s, firestoreEnabled: true }))}
+            onClose={() => setIsTeamPanelOpen(false)}
+            showToast={showToast}
+          />
+        )}
+        {isAiUsageOpen && <AiUsageDashboard records={aiUsage} budgets={aiBudgets} setBudgets={setAiBudgets} deals={deals} onClearLog={() => setAiUsage([])} onClose={() => setIsAiUsageOpen(false)} />}
+        {isWorkspaceTransferOpen && <WorkspaceTransfer onClose={() => setIsWorkspaceTransferOpen(false)} onImportStarted={handleWorkspaceImportStarted} onImported={handleWorkspaceImported} onImportFailed={handleWorkspaceImportFailed} />}
         {toastMessage && <div className="toast">{toastMessage}</div>}
-        {isTaskRunning && (<div className="globalStatus">{isSourcingGlobal && 'Sourcing: Finding deals...'}{isAnalyzingGlobal && `Sourcing: ${sourcingProgressMessage}`}{isProfilingGlobal && `Profiler: ${profilingProgressMessage}`}</div>)}
+        {isTaskRunning && (<div className="globalStatus">{isSourcingGlobal && 'Sourcing: Finding deals...'}{isAnalyzingGlobal && `Sourcing: ${describeJobProgress(analysisJobs)}`}{isProfilingGlobal && `Profiler: ${profilingProgressMessage}`}</div>)}
     </div>
   );
 }
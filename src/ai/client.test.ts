@@ -0,0 +1,44 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { createAiClient } from './client';
+import { AiFixture, createFixtureReplayProvider, fixtureKey } from './providers/fixtureReplay';
+
+// The fixtures the app replays with AI_PROVIDER=fixtures.
+const appFixtures = async (): Promise<AiFixture[]> =>
+  JSON.parse(readFileSync(join(import.meta.dirname, '../../public/ai-fixtures.json'), 'utf-8'));
+
+describe('createAiClient with fixture replay', () => {
+  it('replays the recorded response for a feature', async () => {
+    const client = createAiClient(createFixtureReplayProvider(appFixtures));
+
+    const response = await client.generate({ feature: 'imageAnalyzer', tier: 'fast', contents: 'Describe this photo' });
+
+    expect(client.providerName).toBe('fixtures');
+    expect(response.text).toContain('sample response replayed from `public/ai-fixtures.json`');
+    expect(response.model).toBe('fixture-fast');
+  });
+
+  it('prefers a fixture recorded for the exact request', async () => {
+    const request = { feature: 'chat', tier: 'fast' as const, contents: 'Hello' };
+    const fixtures: AiFixture[] = [
+      { feature: 'chat', response: { text: 'Any chat request.' } },
+      { feature: 'chat', key: fixtureKey(request), response: { text: 'First paragraph.\n\nSecond paragraph.' } },
+    ];
+    const client = createAiClient(createFixtureReplayProvider(async () => fixtures));
+
+    const chunks: string[] = [];
+    for await (const chunk of client.createChat({ feature: 'chat', tier: 'fast' }).sendMessageStream('Hello')) chunks.push(chunk.text);
+
+    expect(chunks).toEqual(['First paragraph.\n\n', 'Second paragraph.']);
+  });
+
+  it('fails with instructions when nothing was recorded for the feature', async () => {
+    const request = { feature: 'unrecorded.feature', tier: 'reasoning' as const, contents: 'Anything' };
+    const client = createAiClient(createFixtureReplayProvider(appFixtures));
+
+    await expect(client.generate(request)).rejects.toThrow(
+      `No recorded AI response for "unrecorded.feature" (key ${fixtureKey(request)}). Record one with AI_RECORD_FIXTURES=true.`,
+    );
+  });
+});
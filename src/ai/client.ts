@@ -0,0 +1,113 @@
+import { AiChat, AiMessage, AiProvider, AiRequest, AiResponse, AiStreamChunk, ModelTier, toParts } from './types';
+import { createGeminiProvider } from './providers/gemini';
+import { createOpenAiCompatibleProvider } from './providers/openAiCompatible';
+import { createOllamaProvider } from './providers/ollama';
+import { AiFixture, createFixtureReplayProvider, createRecordingProvider } from './providers/fixtureReplay';
+import { AiBudgetExceededError, AiMeter, createMeteredProvider } from './metering';
+
+// Provider selection comes from .env.local (see README): AI_PROVIDER=gemini|openai|ollama|fixtures
+const env = {
+  provider: process.env.AI_PROVIDER || 'gemini',
+  baseUrl: process.env.AI_BASE_URL || '',
+  apiKey: process.env.AI_API_KEY || '',
+  modelFast: process.env.AI_MODEL_FAST || '',
+  modelReasoning: process.env.AI_MODEL_REASONING || '',
+  fixturesUrl: process.env.AI_FIXTURES_URL || '/ai-fixtures.json',
+  recordFixtures: process.env.AI_RECORD_FIXTURES === 'true',
+};
+
+const modelsOr = (defaults: Record<ModelTier, string>): Record<ModelTier, string> => ({
+  fast: env.modelFast || defaults.fast,
+  reasoning: env.modelReasoning || defaults.reasoning,
+});
+
+const loadFixturesFromUrl = async (): Promise<AiFixture[]> => {
+  const response = await fetch(env.fixturesUrl);
+  if (!response.ok) throw new Error(`Could not load AI fixtures from ${env.fixturesUrl} (${response.status}).`);
+  return response.json();
+};
+
+const createProviderFromEnv = (): AiProvider => {
+  switch (env.provider) {
+    case 'openai':
+      return createOpenAiCompatibleProvider({
+        baseUrl: env.baseUrl || 'https://api.openai.com/v1',
+        apiKey: env.apiKey,
+        models: modelsOr({ fast: 'gpt-4o-mini', reasoning: 'gpt-4o' }),
+      });
+    case 'ollama':
+      return createOllamaProvider({
+        baseUrl: env.baseUrl || 'http://localhost:11434',
+        models: modelsOr({ fast: 'llama3.1', reasoning: 'llama3.1' }),
+      });
+    case 'fixtures':
+      return createFixtureReplayProvider(loadFixturesFromUrl);
+    case 'gemini':
+    default:
+      return createGeminiProvider(process.env.API_KEY as string);
+  }
+};
+
+const recordedFixtures: AiFixture[] = [];
+const baseProvider = createProviderFromEnv();
+const recordingProvider = env.recordFixtures ? createRecordingProvider(baseProvider, fixture => recordedFixtures.push(fixture)) : baseProvider;
+
+let meter: AiMeter | null = null;
+/** Called by App whenever the usage log or budgets change; `null` turns metering off. */
+export const setAiMeter = (next: AiMeter | null) => {
+  meter = next;
+};
+const provider = createMeteredProvider(recordingProvider, () => meter);
+
+/** The message to show when an AI call fails: the budget explanation if one blocked it, else `fallback`. */
+export const aiErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof AiBudgetExceededError ? error.message : fallback;
+
+/** Downloads every exchange recorded this session (AI_RECORD_FIXTURES=true) as a fixtures file. */
+export const downloadRecordedFixtures = () => {
+  const blob = new Blob([JSON.stringify(recordedFixtures, null, 2)], { type: 'application/json;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'ai-fixtures.json';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+if (env.recordFixtures) {
+  // Call `downloadAiFixtures()` from the browser console once the flows you want are recorded.
+  (window as unknown as { downloadAiFixtures: () => void }).downloadAiFixtures = downloadRecordedFixtures;
+}
+
+export type ChatOptions = Omit<AiRequest, 'contents' | 'history'>;
+
+/** The app-facing API over a provider: one-shot and streamed calls, and chats that keep their own history. */
+export const createAiClient = (provider: AiProvider) => ({
+  get providerName() {
+    return provider.name;
+  },
+  resolveModel: (request: AiRequest): string => provider.resolveModel(request),
+  generate: (request: AiRequest): Promise<AiResponse> => provider.generate(request),
+  generateStream: (request: AiRequest): AsyncIterable<AiStreamChunk> => provider.generateStream(request),
+  createChat(options: ChatOptions): AiChat {
+    const history: AiMessage[] = [];
+    return {
+      async *sendMessageStream(message: string) {
+        let reply = '';
+        for await (const chunk of provider.generateStream({ ...options, contents: message, history: [...history] })) {
+          reply += chunk.text;
+          yield chunk;
+        }
+        history.push({ role: 'user', parts: toParts(message) }, { role: 'model', parts: [{ text: reply }] });
+      },
+    };
+  },
+});
+
+/**
+ * The single entry point for AI calls. Swap providers through env config; call sites
+ * only describe what they need (feature, tier, search, thinking).
+ */
+export const aiClient = createAiClient(provider);
@@ -0,0 +1,181 @@
+import { AiProvider, AiRequest, AiUsage } from './types';
+
+/** One AI call, as shown on the usage dashboard. */
+export interface AiUsageRecord {
+  id: string;
+  timestamp: number;
+  feature: string;
+  dealId?: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  status: 'ok' | 'error' | 'blocked';
+  /** Set when a budget moved the call to a cheaper model; the model it would have used. */
+  downgradedFrom?: string;
+}
+
+export type BudgetAction = 'block' | 'downgrade';
+
+/** A monthly spending cap for one feature, in estimated USD. */
+export interface AiBudget {
+  feature: string;
+  monthlyLimitUsd: number;
+  action: BudgetAction;
+}
+
+/** Human-readable names for the `feature` passed by each call site. */
+export const AI_FEATURES: Record<string, string> = {
+  'sourcing.websiteList': 'Sourcing: Website List',
+  'sourcing.search': 'Sourcing: Listing Search',
+  'sourcing.analysis': 'Sourcing: Listing Analysis',
+  'profiler.profile': 'Profiler: Company Profile',
+  'profiler.compare': 'Profiler: Compare Companies',
+  'profiler.document': 'Profiler: Document Analysis',
+  'buybox.fitAnalysis': 'Buy Box: Fit Analysis',
+  'financials.scan': 'Financials: Statement Scan',
+  'imageAnalyzer': 'Image Analyzer',
+};
+
+export const featureLabel = (feature: string) => AI_FEATURES[feature] ?? feature;
+
+// List prices in USD per million tokens. Thinking tokens are billed as output.
+// Longest prefix wins, so e.g. 'gemini-2.5-flash-lite' isn't priced as 'gemini-2.5-flash'.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+};
+
+const pricingFor = (model: string) => {
+  const prefix = Object.keys(MODEL_PRICING)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_PRICING[prefix] : undefined;
+};
+
+/** False for local models and fixtures, which are counted at no cost. */
+export const hasKnownPricing = (model: string) => !!pricingFor(model);
+
+export const estimateCost = (record: Pick<AiUsageRecord, 'model' | 'inputTokens' | 'outputTokens'>) => {
+  const pricing = pricingFor(record.model);
+  if (!pricing) return 0;
+  return (record.inputTokens * pricing.input + record.outputTokens * pricing.output) / 1_000_000;
+};
+
+/** 'YYYY-MM' in local time; budgets reset at the start of each calendar month. */
+export const monthKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export const featureSpend = (records: AiUsageRecord[], feature: string, month: string) =>
+  records
+    .filter(r => r.feature === feature && monthKey(r.timestamp) === month)
+    .reduce((sum, r) => sum + estimateCost(r), 0);
+
+// Enough for many months of heavy use without letting the log grow unbounded.
+const MAX_USAGE_RECORDS = 5000;
+export const appendUsageRecord = (records: AiUsageRecord[], record: AiUsageRecord) =>
+  [...records, record].slice(-MAX_USAGE_RECORDS);
+
+export class AiBudgetExceededError extends Error {
+  constructor(public readonly feature: string, public readonly limitUsd: number) {
+    super(`The monthly AI budget for ${featureLabel(feature)} ($${limitUsd.toFixed(2)}) has been reached. Raise it under AI Usage to continue.`);
+    this.name = 'AiBudgetExceededError';
+  }
+}
+
+/**
+ * Applies the feature's budget to a request. Returns the request to run, moved to the fast
+ * tier without extended thinking when a `downgrade` budget is spent, or throws
+ * `AiBudgetExceededError` when it is blocked or there is nothing cheaper to fall back to.
+ */
+export const applyBudget = (request: AiRequest, budgets: AiBudget[], records: AiUsageRecord[], now = Date.now()): AiRequest => {
+  const budget = budgets.find(b => b.feature === request.feature);
+  if (!budget || featureSpend(records, request.feature, monthKey(now)) < budget.monthlyLimitUsd) return request;
+  const canDowngrade = request.tier === 'reasoning' || request.extendedThinking;
+  if (budget.action === 'block' || !canDowngrade) throw new AiBudgetExceededError(request.feature, budget.monthlyLimitUsd);
+  return { ...request, tier: 'fast', model: undefined, extendedThinking: false };
+};
+
+/** What the app hands the client: the current log and budgets, and where new records go. */
+export interface AiMeter {
+  records: AiUsageRecord[];
+  budgets: AiBudget[];
+  onRecord: (record: AiUsageRecord) => void;
+}
+
+/**
+ * Wraps a provider so every call is checked against its feature budget and logged with
+ * token counts and latency. Without a meter (e.g. signed out) calls pass straight through.
+ */
+export const createMeteredProvider = (inner: AiProvider, getMeter: () => AiMeter | null): AiProvider => {
+  const begin = (original: AiRequest) => {
+    const meter = getMeter();
+    const startedAt = Date.now();
+    const originalModel = inner.resolveModel(original);
+    const finish = (request: AiRequest, status: AiUsageRecord['status'], usage?: AiUsage, model = inner.resolveModel(request)) => {
+      const plannedModel = inner.resolveModel(request);
+      meter?.onRecord({
+        id: crypto.randomUUID(),
+        timestamp: startedAt,
+        feature: original.feature,
+        ...(original.dealId ? { dealId: original.dealId } : {}),
+        provider: inner.name,
+        model,
+        inputTokens: usage?.inputTokens ?? 0,
+        outputTokens: usage?.outputTokens ?? 0,
+        latencyMs: Date.now() - startedAt,
+        status,
+        ...(plannedModel !== originalModel ? { downgradedFrom: originalModel } : {}),
+      });
+    };
+    let request = original;
+    if (meter) {
+      try {
+        request = applyBudget(original, meter.budgets, meter.records, startedAt);
+      } catch (error) {
+        finish(original, 'blocked');
+        throw error;
+      }
+    }
+    return { request, finish };
+  };
+
+  return {
+    name: inner.name,
+    resolveModel: request => inner.resolveModel(request),
+    async generate(original) {
+      const { request, finish } = begin(original);
+      try {
+        const response = await inner.generate(request);
+        finish(request, 'ok', response.usage, response.model);
+        return response;
+      } catch (error) {
+        finish(request, 'error');
+        throw error;
+      }
+    },
+    async *generateStream(original) {
+      const { request, finish } = begin(original);
+      let usage: AiUsage | undefined;
+      let failed = false;
+      try {
+        for await (const chunk of inner.generateStream(request)) {
+          usage = chunk.usage ?? usage;
+          yield chunk;
+        }
+      } catch (error) {
+        failed = true;
+        throw error;
+      } finally {
+        // Also runs when the caller stops reading early.
+        finish(request, failed ? 'error' : 'ok', usage);
+      }
+    },
+  };
+};
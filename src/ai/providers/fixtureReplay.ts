@@ -0,0 +1,96 @@
+import { AiPart, AiProvider, AiRequest, AiSource, toParts } from '../types';
+
+/**
+ * A recorded AI response. `key` pins it to one exact request; without a key it answers
+ * any request for its `feature`, which makes fixtures easy to write by hand.
+ */
+export interface AiFixture {
+  feature: string;
+  key?: string;
+  response: { text: string; sources?: AiSource[] | null };
+}
+
+// Attachments are identified by type and size so fixture keys stay short and stable.
+const describePart = (part: AiPart) =>
+  part.inlineData ? `[${part.inlineData.mimeType}:${part.inlineData.data.length}]` : part.text ?? '';
+
+// FNV-1a; only needs to be stable, not cryptographic.
+const hash = (input: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+};
+
+/** The deterministic identity of a request: feature, tier and every turn of the conversation. */
+export const fixtureKey = (request: AiRequest): string => hash(JSON.stringify([
+  request.feature,
+  request.tier,
+  (request.history ?? []).map(m => [m.role, m.parts.map(describePart)]),
+  toParts(request.contents).map(describePart),
+]));
+
+// Replays text in paragraph-sized chunks so streaming UIs behave as they do live.
+const toChunks = (text: string) => text.split(/(?<=\n\n)/);
+
+/**
+ * Answers every request from recorded fixtures, so the app and tests run offline with
+ * identical output on every run. Unmatched requests fail loudly rather than guessing.
+ */
+export const createFixtureReplayProvider = (loadFixtures: () => Promise<AiFixture[]>): AiProvider => {
+  let fixtures: Promise<AiFixture[]> | null = null;
+
+  const find = async (request: AiRequest) => {
+    fixtures ??= loadFixtures();
+    const all = await fixtures;
+    const key = fixtureKey(request);
+    const match = all.find(f => f.feature === request.feature && f.key === key)
+      ?? all.find(f => f.feature === request.feature && !f.key);
+    if (!match) {
+      throw new Error(`No recorded AI response for "${request.feature}" (key ${key}). Record one with AI_RECORD_FIXTURES=true.`);
+    }
+    return match.response;
+  };
+
+  return {
+    name: 'fixtures',
+    resolveModel: request => request.model ?? `fixture-${request.tier}`,
+    async generate(request) {
+      const response = await find(request);
+      return { text: response.text, sources: response.sources ?? null, model: `fixture-${request.tier}` };
+    },
+    async *generateStream(request) {
+      const response = await find(request);
+      const chunks = toChunks(response.text);
+      for (const [i, text] of chunks.entries()) {
+        yield { text, sources: i === chunks.length - 1 ? response.sources ?? null : null };
+      }
+    },
+  };
+};
+
+/**
+ * Wraps a live provider and captures every exchange as a keyed fixture, so a session can be
+ * replayed later with `createFixtureReplayProvider`.
+ */
+export const createRecordingProvider = (inner: AiProvider, onRecord: (fixture: AiFixture) => void): AiProvider => ({
+  name: `${inner.name} (recording)`,
+  resolveModel: request => inner.resolveModel(request),
+  async generate(request) {
+    const response = await inner.generate(request);
+    onRecord({ feature: request.feature, key: fixtureKey(request), response: { text: response.text, sources: response.sources } });
+    return response;
+  },
+  async *generateStream(request) {
+    let text = '';
+    let sources: AiSource[] | null = null;
+    for await (const chunk of inner.generateStream(request)) {
+      text += chunk.text;
+      sources = chunk.sources ?? sources;
+      yield chunk;
+    }
+    onRecord({ feature: request.feature, key: fixtureKey(request), response: { text, sources } });
+  },
+});
@@ -0,0 +1,63 @@
+import { GoogleGenAI, GenerateContentResponseUsageMetadata } from '@google/genai';
+import { AiProvider, AiRequest, AiSource, AiUsage, ModelTier, toParts } from '../types';
+
+const GEMINI_MODELS: Record<ModelTier, string> = {
+  fast: 'gemini-2.5-flash',
+  reasoning: 'gemini-2.5-pro',
+};
+
+// Largest thinking budget each model family accepts.
+const thinkingBudgetFor = (model: string) => (model.includes('flash') ? 24576 : 32768);
+
+// Thinking tokens are billed as output.
+const toUsage = (metadata?: GenerateContentResponseUsageMetadata): AiUsage => ({
+  inputTokens: metadata?.promptTokenCount ?? 0,
+  outputTokens: (metadata?.candidatesTokenCount ?? 0) + (metadata?.thoughtsTokenCount ?? 0),
+});
+
+export const createGeminiProvider = (apiKey: string): AiProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const resolveModel = (request: AiRequest) => request.model ?? GEMINI_MODELS[request.tier];
+
+  const toParams = (request: AiRequest) => {
+    const model = resolveModel(request);
+    return {
+      model,
+      contents: [
+        ...(request.history ?? []),
+        { role: 'user', parts: toParts(request.contents) },
+      ],
+      config: {
+        ...(request.webSearch ? { tools: [{ googleSearch: {} }] } : {}),
+        ...(request.extendedThinking ? { thinkingConfig: { thinkingBudget: thinkingBudgetFor(model) } } : {}),
+        ...(request.responseSchema ? { responseMimeType: 'application/json', responseJsonSchema: request.responseSchema } : {}),
+      },
+    };
+  };
+
+  return {
+    name: 'gemini',
+    resolveModel,
+    async generate(request) {
+      const params = toParams(request);
+      const response = await ai.models.generateContent(params);
+      return {
+        text: response.text ?? '',
+        sources: (response.candidates?.[0]?.groundingMetadata?.groundingChunks as AiSource[] | undefined) ?? null,
+        model: params.model,
+        usage: toUsage(response.usageMetadata),
+      };
+    },
+    async *generateStream(request) {
+      const stream = await ai.models.generateContentStream(toParams(request));
+      for await (const chunk of stream) {
+        yield {
+          text: chunk.text ?? '',
+          sources: (chunk.candidates?.[0]?.groundingMetadata?.groundingChunks as AiSource[] | undefined) ?? null,
+          ...(chunk.usageMetadata ? { usage: toUsage(chunk.usageMetadata) } : {}),
+        };
+      }
+    },
+  };
+};
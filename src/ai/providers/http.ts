@@ -0,0 +1,37 @@
+/** Splits a streamed HTTP body into lines, for SSE and NDJSON responses. */
+export async function* readLines(response: Response): AsyncIterable<string> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    for (const line of lines) if (line.trim()) yield line;
+  }
+  if (buffered.trim()) yield buffered;
+}
+
+/** A non-2xx response from an AI endpoint. `status` lets callers decide whether to retry. */
+export class AiHttpError extends Error {
+  constructor(public readonly status: number, detail: string) {
+    super(`AI request failed (${status}): ${detail.slice(0, 300)}`);
+    this.name = 'AiHttpError';
+  }
+}
+
+export const postJson = async (url: string, body: unknown, headers: Record<string, string> = {}): Promise<Response> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new AiHttpError(response.status, detail);
+  }
+  return response;
+};
@@ -0,0 +1,58 @@
+import { AiPart, AiProvider, AiRequest, AiUsage, ModelTier, toParts, partsToText } from '../types';
+import { postJson, readLines } from './http';
+
+export interface OllamaOptions {
+  /** e.g. http://localhost:11434 */
+  baseUrl: string;
+  models: Record<ModelTier, string>;
+}
+
+const toMessage = (role: 'user' | 'assistant', parts: AiPart[]) => {
+  const images = parts.filter(part => part.inlineData?.mimeType.startsWith('image/')).map(part => part.inlineData!.data);
+  if (parts.some(part => part.inlineData && !part.inlineData.mimeType.startsWith('image/'))) {
+    throw new Error("The local model can only read image attachments.");
+  }
+  return { role, content: partsToText(parts), ...(images.length > 0 ? { images } : {}) };
+};
+
+const toUsage = (json: { prompt_eval_count?: number; eval_count?: number }): AiUsage =>
+  ({ inputTokens: json.prompt_eval_count ?? 0, outputTokens: json.eval_count ?? 0 });
+
+/** A local Ollama-style `/api/chat` endpoint. Web search and extended thinking are ignored. */
+export const createOllamaProvider = (options: OllamaOptions): AiProvider => {
+  const resolveModel = (request: AiRequest) => request.model ?? options.models[request.tier];
+
+  const toBody = (request: AiRequest, stream: boolean) => ({
+    model: resolveModel(request),
+    stream,
+    messages: [
+      ...(request.history ?? []).map(m => toMessage(m.role === 'model' ? 'assistant' : 'user', m.parts)),
+      toMessage('user', toParts(request.contents)),
+    ],
+    ...(request.responseSchema ? { format: request.responseSchema } : {}),
+  });
+
+  return {
+    name: 'ollama',
+    resolveModel,
+    async generate(request) {
+      const response = await postJson(`${options.baseUrl}/api/chat`, toBody(request, false));
+      const json = await response.json();
+      return {
+        text: json.message?.content ?? '',
+        sources: null,
+        model: json.model ?? resolveModel(request),
+        usage: toUsage(json),
+      };
+    },
+    async *generateStream(request) {
+      const response = await postJson(`${options.baseUrl}/api/chat`, toBody(request, true));
+      for await (const line of readLines(response)) {
+        const json = JSON.parse(line);
+        const text = json.message?.content;
+        if (text) yield { text, sources: null };
+        if (json.done) yield { text: '', sources: null, usage: toUsage(json) };
+      }
+    },
+  };
+};
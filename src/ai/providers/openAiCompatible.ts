@@ -0,0 +1,70 @@
+import { AiPart, AiProvider, AiRequest, AiUsage, ModelTier, toParts } from '../types';
+import { postJson, readLines } from './http';
+
+export interface OpenAiCompatibleOptions {
+  /** e.g. https://api.openai.com/v1, or any server exposing `/chat/completions`. */
+  baseUrl: string;
+  apiKey?: string;
+  models: Record<ModelTier, string>;
+}
+
+const toContent = (parts: AiPart[]) => parts.map(part => {
+  if (part.inlineData) {
+    if (!part.inlineData.mimeType.startsWith('image/')) {
+      throw new Error(`This AI provider can't read ${part.inlineData.mimeType} attachments.`);
+    }
+    return { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } };
+  }
+  return { type: 'text', text: part.text ?? '' };
+});
+
+const toUsage = (usage: { prompt_tokens?: number; completion_tokens?: number }): AiUsage =>
+  ({ inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 });
+
+/**
+ * Chat Completions API. Web search and extended thinking have no portable equivalent
+ * and are ignored.
+ */
+export const createOpenAiCompatibleProvider = (options: OpenAiCompatibleOptions): AiProvider => {
+  const resolveModel = (request: AiRequest) => request.model ?? options.models[request.tier];
+  const headers = options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : undefined;
+
+  const toBody = (request: AiRequest, stream: boolean) => ({
+    model: resolveModel(request),
+    stream,
+    // Streams only report token counts when asked to.
+    ...(stream ? { stream_options: { include_usage: true } } : {}),
+    messages: [
+      ...(request.history ?? []).map(m => ({ role: m.role === 'model' ? 'assistant' : 'user', content: toContent(m.parts) })),
+      { role: 'user', content: toContent(toParts(request.contents)) },
+    ],
+    ...(request.responseSchema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: request.responseSchema } } } : {}),
+  });
+
+  return {
+    name: 'openai-compatible',
+    resolveModel,
+    async generate(request) {
+      const response = await postJson(`${options.baseUrl}/chat/completions`, toBody(request, false), headers);
+      const json = await response.json();
+      return {
+        text: json.choices?.[0]?.message?.content ?? '',
+        sources: null,
+        model: json.model ?? resolveModel(request),
+        usage: json.usage ? toUsage(json.usage) : undefined,
+      };
+    },
+    async *generateStream(request) {
+      const response = await postJson(`${options.baseUrl}/chat/completions`, toBody(request, true), headers);
+      for await (const line of readLines(response)) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') return;
+        const json = JSON.parse(data);
+        const text = json.choices?.[0]?.delta?.content;
+        if (text) yield { text, sources: null };
+        if (json.usage) yield { text: '', sources: null, usage: toUsage(json.usage) };
+      }
+    },
+  };
+};
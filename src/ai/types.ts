@@ -0,0 +1,84 @@
+/**
+ * Provider-neutral request and response shapes used by every AI feature in the app.
+ * Components talk to `aiClient` (see ./client.ts) and never to a vendor SDK directly.
+ */
+
+/** `fast` is for cheap lookups; `reasoning` is for long-form analysis. Providers map tiers to concrete models. */
+export type ModelTier = 'fast' | 'reasoning';
+
+export interface AiPart {
+  text?: string;
+  inlineData?: { data: string; mimeType: string };
+}
+
+export interface AiMessage {
+  role: 'user' | 'model';
+  parts: AiPart[];
+}
+
+/** A web page the answer was grounded on. Matches the shape Gemini returns for search grounding. */
+export interface AiSource {
+  web: { uri: string; title: string };
+}
+
+/** A standard JSON Schema object describing the expected JSON reply. */
+export type JsonSchema = Record<string, unknown>;
+
+export interface AiRequest {
+  /** Which app feature is asking, e.g. 'sourcing.analysis'. Used for fixtures and metering. */
+  feature: string;
+  /** The deal the call is made for, if any; usage is attributed to it. */
+  dealId?: string;
+  tier: ModelTier;
+  /** The new user turn. */
+  contents: string | AiPart[];
+  /** Earlier turns of a chat, oldest first. */
+  history?: AiMessage[];
+  /** Overrides the tier's default model. */
+  model?: string;
+  /** Ground the answer in live web search where the provider supports it. */
+  webSearch?: boolean;
+  /** Allow the model an extended reasoning budget where the provider supports it. */
+  extendedThinking?: boolean;
+  /** Ask for a JSON reply matching this schema. */
+  responseSchema?: JsonSchema;
+}
+
+export interface AiUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AiResponse {
+  text: string;
+  sources: AiSource[] | null;
+  model: string;
+  usage?: AiUsage;
+}
+
+export interface AiStreamChunk {
+  text: string;
+  sources: AiSource[] | null;
+  /** Token counts for the whole reply, usually on the last chunk. */
+  usage?: AiUsage;
+}
+
+export interface AiProvider {
+  name: string;
+  /** The concrete model a request will run on. */
+  resolveModel(request: AiRequest): string;
+  generate(request: AiRequest): Promise<AiResponse>;
+  /** Yields text deltas; the last chunk may carry sources and usage. */
+  generateStream(request: AiRequest): AsyncIterable<AiStreamChunk>;
+}
+
+/** A multi-turn conversation. History is kept client-side so it works with any provider. */
+export interface AiChat {
+  sendMessageStream(message: string): AsyncIterable<AiStreamChunk>;
+}
+
+export const toParts = (contents: string | AiPart[]): AiPart[] =>
+  typeof contents === 'string' ? [{ text: contents }] : contents;
+
+export const partsToText = (parts: AiPart[]): string =>
+  parts.map(part => part.text ?? '').join('\n');
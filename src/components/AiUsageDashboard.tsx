@@ -0,0 +1,242 @@
+import React, { useState, useMemo } from 'react';
+import { Deal } from '../App';
+import { aiClient } from '../ai/client';
+import {
+  AiUsageRecord, AiBudget, BudgetAction, AI_FEATURES, featureLabel,
+  estimateCost, hasKnownPricing, monthKey,
+} from '../ai/metering';
+
+interface AiUsageDashboardProps {
+  records: AiUsageRecord[];
+  budgets: AiBudget[];
+  setBudgets: React.Dispatch<React.SetStateAction<AiBudget[]>>;
+  deals: Deal[];
+  onClearLog: () => void;
+  onClose: () => void;
+}
+
+interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  latencyMs: number;
+}
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, cost: 0, latencyMs: 0 });
+
+const addRecord = (totals: UsageTotals, record: AiUsageRecord) => {
+  totals.calls += 1;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.cost += estimateCost(record);
+  totals.latencyMs += record.latencyMs;
+};
+
+const groupBy = (records: AiUsageRecord[], keyOf: (record: AiUsageRecord) => string) => {
+  const groups = new Map<string, UsageTotals>();
+  records.forEach(record => {
+    const key = keyOf(record);
+    if (!groups.has(key)) groups.set(key, emptyTotals());
+    addRecord(groups.get(key)!, record);
+  });
+  return groups;
+};
+
+const formatUsd = (value: number) => `$${value.toFixed(value > 0 && value < 0.01 ? 4 : 2)}`;
+const formatTokens = (value: number) => value.toLocaleString();
+const formatMonth = (month: string) => new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+
+const AiUsageDashboard: React.FC<AiUsageDashboardProps> = ({ records, budgets, setBudgets, deals, onClearLog, onClose }) => {
+  const currentMonth = monthKey(Date.now());
+  const [month, setMonth] = useState(currentMonth);
+
+  const months = useMemo(() => {
+    const all = new Set(records.map(r => monthKey(r.timestamp)));
+    all.add(currentMonth);
+    return [...all].sort().reverse();
+  }, [records, currentMonth]);
+
+  const monthRecords = useMemo(() => records.filter(r => monthKey(r.timestamp) === month), [records, month]);
+  const totals = useMemo(() => {
+    const sum = emptyTotals();
+    monthRecords.forEach(r => addRecord(sum, r));
+    return sum;
+  }, [monthRecords]);
+  const byFeature = useMemo(() => groupBy(monthRecords, r => r.feature), [monthRecords]);
+  const byModel = useMemo(() => groupBy(monthRecords, r => r.model), [monthRecords]);
+  const byDeal = useMemo(() => groupBy(monthRecords.filter(r => r.dealId), r => r.dealId!), [monthRecords]);
+  const recent = useMemo(() => [...monthRecords].sort((a, b) => b.timestamp - a.timestamp).slice(0, 25), [monthRecords]);
+
+  // Known features first, then anything else that shows up in the log.
+  const features = useMemo(() => [...new Set([...Object.keys(AI_FEATURES), ...byFeature.keys()])], [byFeature]);
+  const unpricedModels = [...byModel.keys()].filter(model => !hasKnownPricing(model));
+
+  const updateBudget = (feature: string, changes: Partial<AiBudget> | null) => {
+    setBudgets(prev => {
+      const others = prev.filter(b => b.feature !== feature);
+      if (changes === null) return others;
+      const existing = prev.find(b => b.feature === feature) ?? { feature, monthlyLimitUsd: 0, action: 'downgrade' as BudgetAction };
+      return [...others, { ...existing, ...changes }];
+    });
+  };
+
+  const handleLimitChange = (feature: string, value: string) => {
+    const limit = parseFloat(value);
+    updateBudget(feature, value.trim() === '' || isNaN(limit) ? null : { monthlyLimitUsd: Math.max(0, limit) });
+  };
+
+  const handleClearLog = () => {
+    if (window.confirm("Delete the entire AI usage log? Budgets will start counting from zero.")) onClearLog();
+  };
+
+  const dealName = (dealId: string) => deals.find(d => d.id === dealId)?.companyName ?? 'Deleted deal';
+  const commonInputClasses = "bg-white text-slate-700 border border-slate-300 rounded-md py-1 px-2 text-sm";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white border border-slate-200 rounded-2xl p-6 w-full max-w-5xl max-h-[90vh] shadow-lg flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4 flex-shrink-0">
+          <div>
+            <h3 className="text-xl font-bold text-amber-600">AI Usage</h3>
+            <p className="text-xs text-slate-500">Provider: {aiClient.providerName}. Costs are estimates from list prices.</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select value={month} onChange={(e) => setMonth(e.target.value)} className={commonInputClasses}>
+              {months.map(m => <option key={m} value={m}>{formatMonth(m)}</option>)}
+            </select>
+            <button onClick={onClose} className="p-2 text-slate-500 hover:text-slate-800 rounded-full hover:bg-slate-100 transition">&times;</button>
+          </div>
+        </div>
+
+        <div className="flex-grow overflow-y-auto text-slate-700 space-y-6 pr-2">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {[
+              { label: 'Estimated Cost', value: formatUsd(totals.cost) },
+              { label: 'Calls', value: totals.calls.toLocaleString() },
+              { label: 'Tokens (in / out)', value: `${formatTokens(totals.inputTokens)} / ${formatTokens(totals.outputTokens)}` },
+              { label: 'Avg. Latency', value: totals.calls > 0 ? `${(totals.latencyMs / totals.calls / 1000).toFixed(1)}s` : '—' },
+            ].map(card => (
+              <div key={card.label} className="bg-slate-50 border border-slate-200 rounded-lg p-3">
+                <p className="text-xs text-slate-500">{card.label}</p>
+                <p className="text-lg font-semibold text-slate-900">{card.value}</p>
+              </div>
+            ))}
+          </div>
+          {unpricedModels.length > 0 && <p className="text-xs text-slate-500">No price on file for {unpricedModels.join(', ')}; counted as free.</p>}
+
+          <div>
+            <h4 className="font-semibold text-slate-800 mb-1">By Feature & Budgets</h4>
+            <p className="text-xs text-slate-500 mb-2">When a feature's spend for the current month reaches its budget, calls are either blocked or moved to the fast model without extended thinking.</p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 border-b border-slate-200">
+                  <th className="py-1 font-medium">Feature</th>
+                  <th className="py-1 font-medium text-right">Calls</th>
+                  <th className="py-1 font-medium text-right">Tokens</th>
+                  <th className="py-1 font-medium text-right">Cost</th>
+                  <th className="py-1 font-medium text-right">Monthly Budget ($)</th>
+                  <th className="py-1 font-medium text-right">When Exceeded</th>
+                </tr>
+              </thead>
+              <tbody>
+                {features.map(feature => {
+                  const usage = byFeature.get(feature) ?? emptyTotals();
+                  const budget = budgets.find(b => b.feature === feature);
+                  const isOver = !!budget && month === currentMonth && usage.cost >= budget.monthlyLimitUsd;
+                  return (
+                    <tr key={feature} className="border-b border-slate-100">
+                      <td className="py-1">{featureLabel(feature)}</td>
+                      <td className="py-1 text-right">{usage.calls}</td>
+                      <td className="py-1 text-right">{formatTokens(usage.inputTokens + usage.outputTokens)}</td>
+                      <td className={`py-1 text-right ${isOver ? 'text-red-600 font-semibold' : ''}`}>{formatUsd(usage.cost)}</td>
+                      <td className="py-1 text-right">
+                        <input type="number" min="0" step="0.5" placeholder="No limit" value={budget?.monthlyLimitUsd ?? ''} onChange={(e) => handleLimitChange(feature, e.target.value)} className={`${commonInputClasses} w-28 text-right`} />
+                      </td>
+                      <td className="py-1 text-right">
+                        <select value={budget?.action ?? 'downgrade'} disabled={!budget} onChange={(e) => updateBudget(feature, { action: e.target.value as BudgetAction })} className={`${commonInputClasses} disabled:bg-slate-100 disabled:text-slate-400`}>
+                          <option value="downgrade">Downgrade</option>
+                          <option value="block">Block</option>
+                        </select>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <h4 className="font-semibold text-slate-800 mb-2">By Model</h4>
+              {byModel.size === 0 ? <p className="text-sm text-slate-500">No calls this month.</p> : (
+                <table className="w-full text-sm">
+                  <tbody>
+                    {[...byModel.entries()].sort((a, b) => b[1].cost - a[1].cost).map(([model, usage]) => (
+                      <tr key={model} className="border-b border-slate-100">
+                        <td className="py-1">{model}</td>
+                        <td className="py-1 text-right">{usage.calls} calls</td>
+                        <td className="py-1 text-right">{formatUsd(usage.cost)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+            <div>
+              <h4 className="font-semibold text-slate-800 mb-2">By Deal</h4>
+              {byDeal.size === 0 ? <p className="text-sm text-slate-500">No calls made from a deal workspace this month.</p> : (
+                <table className="w-full text-sm">
+                  <tbody>
+                    {[...byDeal.entries()].sort((a, b) => b[1].cost - a[1].cost).map(([dealId, usage]) => (
+                      <tr key={dealId} className="border-b border-slate-100">
+                        <td className="py-1">{dealName(dealId)}</td>
+                        <td className="py-1 text-right">{usage.calls} calls</td>
+                        <td className="py-1 text-right">{formatUsd(usage.cost)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <h4 className="font-semibold text-slate-800">Recent Calls</h4>
+              {records.length > 0 && <button onClick={handleClearLog} className="text-xs text-red-600 hover:text-red-700">Clear Log</button>}
+            </div>
+            {recent.length === 0 ? <p className="text-sm text-slate-500">No calls this month.</p> : (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-slate-500 border-b border-slate-200">
+                    <th className="py-1 font-medium">Time</th>
+                    <th className="py-1 font-medium">Feature</th>
+                    <th className="py-1 font-medium">Model</th>
+                    <th className="py-1 font-medium text-right">In / Out</th>
+                    <th className="py-1 font-medium text-right">Latency</th>
+                    <th className="py-1 font-medium text-right">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {recent.map(record => (
+                    <tr key={record.id} className="border-b border-slate-100">
+                      <td className="py-1">{new Date(record.timestamp).toLocaleString()}</td>
+                      <td className="py-1">{featureLabel(record.feature)}{record.dealId && <span className="text-slate-500"> · {dealName(record.dealId)}</span>}</td>
+                      <td className="py-1">{record.model}{record.downgradedFrom && <span className="text-amber-600" title={`Budget exceeded; would have used ${record.downgradedFrom}`}> (downgraded)</span>}</td>
+                      <td className="py-1 text-right">{formatTokens(record.inputTokens)} / {formatTokens(record.outputTokens)}</td>
+                      <td className="py-1 text-right">{(record.latencyMs / 1000).toFixed(1)}s</td>
+                      <td className={`py-1 text-right ${record.status === 'ok' ? 'text-green-600' : 'text-red-600'}`}>{record.status}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AiUsageDashboard;
@@ -5,7 +5,7 @@ import FinancialAnalysisHub, { FinancialAnalysisData } from './FinancialAnalysis
 import ValuationCalculator, { ValuationInputs } from './ValuationCalculator';
 import FinancialProjectionModeler, { ProjectionData } from './FinancialProjectionModeler';
 import ImageAnalyzer from './ImageAnalyzer';
-import { GeneralProfileResult, ProfilerData, Deal } from '../App';
+import { GeneralProfileResult, ProfilerData, Deal, GENERAL_ANALYSIS_ID } from '../App';
 import { SourcingResult } from './SourcingEngine';
 
 interface AnalysisHubProps {
@@ -21,6 +21,10 @@ interface AnalysisHubProps {
   deals: Deal[];
   onAddToPipeline: (sourcingResult: SourcingResult) => void;
 
+  // Deal selector: financials, valuation and projections are scoped to this deal
+  analysisDealId: string;
+  onSelectAnalysisDeal: (dealId: string) => void;
+
   // FinancialAnalysisHub props
   financialAnalysisData: FinancialAnalysisData | null;
   setFinancialAnalysisData: React.Dispatch<React.SetStateAction<FinancialAnalysisData | null>>;
@@ -41,6 +45,7 @@ type AnalysisView = 'profiler' | 'financials' | 'valuation' | 'projections' | 'i
 
 const AnalysisHub: React.FC<AnalysisHubProps> = (props) => {
   const [analysisView, setAnalysisView] = useState<AnalysisView>('profiler');
+  const dealId = props.analysisDealId === GENERAL_ANALYSIS_ID ? undefined : props.analysisDealId;
 
   const navButtonClasses = (view: AnalysisView) => 
     `px-4 py-3 text-sm font-medium transition-colors ${
@@ -58,6 +63,18 @@ const AnalysisHub: React.FC<AnalysisHubProps> = (props) => {
         <button onClick={() => setAnalysisView('projections')} className={navButtonClasses('projections')}>Projections</button>
         <button onClick={() => setAnalysisView('image')} className={navButtonClasses('image')}>Image Analyzer</button>
       </nav>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-end gap-2 mb-6">
+        <label htmlFor="analysisDeal" className="text-sm font-medium text-slate-500" title="Financials, valuation and projections are saved separately for each deal">Deal Workspace:</label>
+        <select
+          id="analysisDeal"
+          value={props.analysisDealId}
+          onChange={(e) => props.onSelectAnalysisDeal(e.target.value)}
+          className="bg-white text-slate-800 border border-slate-300 rounded-md py-2 px-3 text-sm sm:w-72"
+        >
+          <option value={GENERAL_ANALYSIS_ID}>General Workspace (no deal)</option>
+          {props.deals.map(deal => <option key={deal.id} value={deal.id}>{deal.companyName} ({deal.status})</option>)}
+        </select>
+      </div>
       <main className="w-full">
         {analysisView === 'profiler' && (
           <CompanyProfiler
@@ -71,17 +88,21 @@ const AnalysisHub: React.FC<AnalysisHubProps> = (props) => {
             setProfilingProgressMessage={props.setProfilingProgressMessage}
             deals={props.deals}
             onAddToPipeline={props.onAddToPipeline}
+            dealId={dealId}
           />
         )}
         {analysisView === 'financials' && (
           <FinancialAnalysisHub 
+            key={props.analysisDealId}
             data={props.financialAnalysisData}
             setData={props.setFinancialAnalysisData}
             onClear={props.onClearFinancialAnalysisData}
+            dealId={dealId}
           />
         )}
         {analysisView === 'valuation' && (
           <ValuationCalculator 
+            key={props.analysisDealId}
             inputs={props.valuationInputs}
             setInputs={props.setValuationInputs}
             onClear={props.onClearValuationData}
@@ -89,6 +110,7 @@ const AnalysisHub: React.FC<AnalysisHubProps> = (props) => {
         )}
         {analysisView === 'projections' && (
            <FinancialProjectionModeler
+            key={props.analysisDealId}
             data={props.projectionData}
             setData={props.setData}
             onClear={props.onClearProjectionData}
@@ -96,7 +118,7 @@ const AnalysisHub: React.FC<AnalysisHubProps> = (props) => {
             valuationInputs={props.valuationInputs}
           />
         )}
-        {analysisView === 'image' && <ImageAnalyzer />}
+        {analysisView === 'image' && <ImageAnalyzer dealId={dealId} />}
       </main>
     </div>
   );
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { ANCHOR_LABELS, AutomationRule, DueDateAnchor, TaskTemplate } from '../pipeline/automation';
+import { PipelineStage } from '../pipeline/stages';
+import { ASSIGNEE_ROLES, TASK_CATEGORIES } from './DealRoomTasks';
+
+interface AutomationRulesModalProps {
+  rules: AutomationRule[];
+  stages: PipelineStage[];
+  onSave: (rules: AutomationRule[]) => void;
+  onClose: () => void;
+}
+
+const inputClasses = "w-full bg-white text-slate-700 border border-slate-300 rounded-md py-2 px-3 text-sm";
+const ANCHORS = Object.keys(ANCHOR_LABELS) as DueDateAnchor[];
+
+const newTask = (): TaskTemplate => ({ id: crypto.randomUUID(), title: '', category: 'General', dueOffsetDays: null });
+
+/** Edits the rules that add tasks and checklist items when a deal enters a stage. */
+const AutomationRulesModal: React.FC<AutomationRulesModalProps> = ({ rules, stages, onSave, onClose }) => {
+  const [draft, setDraft] = useState<AutomationRule[]>(rules);
+  const stageNames = stages.map(stage => stage.name);
+
+  const update = (id: string, changes: Partial<AutomationRule>) =>
+    setDraft(prev => prev.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  const updateTask = (rule: AutomationRule, taskId: string, changes: Partial<TaskTemplate>) =>
+    update(rule.id, { tasks: rule.tasks.map(task => (task.id === taskId ? { ...task, ...changes } : task)) });
+  const addRule = () => setDraft(prev => [...prev, {
+    id: crypto.randomUUID(), name: '', enabled: true, stage: stageNames[0], assignee: ASSIGNEE_ROLES[0],
+    anchor: 'loiSigned', tasks: [newTask()], checklist: [],
+  }]);
+
+  const error = draft.some(rule => !rule.name.trim()) ? 'Every rule needs a name.' : null;
+
+  const handleSave = () => onSave(draft.map(rule => ({
+    ...rule,
+    name: rule.name.trim(),
+    tasks: rule.tasks.filter(task => task.title.trim()),
+    checklist: rule.checklist.map(text => text.trim()).filter(Boolean),
+  })));
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white border border-slate-200 rounded-2xl p-6 w-full max-w-4xl max-h-[90vh] shadow-lg flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4 flex-shrink-0">
+          <div>
+            <h3 className="text-xl font-bold text-amber-600">Pipeline Automations</h3>
+            <p className="text-sm text-slate-500">Each time a deal enters a rule's stage, its tasks and checklist items are added. Anything the deal already has is skipped.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-2xl leading-none">&times;</button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto space-y-4 pr-2">
+          {draft.length === 0 && <p className="text-sm text-slate-500 text-center py-8">No automation rules yet.</p>}
+          {draft.map(rule => (
+            <div key={rule.id} className={`p-4 rounded-lg border space-y-4 ${rule.enabled ? 'bg-slate-50 border-slate-200' : 'bg-white border-dashed border-slate-300 opacity-70'}`}>
+              <div className="flex items-center gap-3">
+                <input value={rule.name} onChange={e => update(rule.id, { name: e.target.value })} placeholder="e.g. Diligence kickoff" className={`${inputClasses} font-medium`} />
+                <label className="flex items-center gap-1.5 text-sm text-slate-600 flex-shrink-0 cursor-pointer">
+                  <input type="checkbox" checked={rule.enabled} onChange={e => update(rule.id, { enabled: e.target.checked })} className="accent-amber-500" />
+                  Enabled
+                </label>
+                <button onClick={() => setDraft(prev => prev.filter(r => r.id !== rule.id))} className="text-xs text-slate-500 hover:text-red-600 flex-shrink-0">Remove</button>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <label className="block text-sm text-slate-500">
+                  When a deal enters
+                  <select value={rule.stage} onChange={e => update(rule.id, { stage: e.target.value })} className={`${inputClasses} mt-1`}>
+                    {!stageNames.includes(rule.stage) && <option value={rule.stage}>{rule.stage} (removed)</option>}
+                    {stageNames.map(name => <option key={name} value={name}>{name}</option>)}
+                  </select>
+                </label>
+                <label className="block text-sm text-slate-500">
+                  Assign tasks to
+                  <select value={rule.assignee} onChange={e => update(rule.id, { assignee: e.target.value })} className={`${inputClasses} mt-1`}>
+                    {ASSIGNEE_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                  </select>
+                </label>
+                <label className="block text-sm text-slate-500">
+                  Count due dates from
+                  <select value={rule.anchor} onChange={e => update(rule.id, { anchor: e.target.value as DueDateAnchor })} className={`${inputClasses} mt-1`}>
+                    {ANCHORS.map(anchor => <option key={anchor} value={anchor}>{ANCHOR_LABELS[anchor]}</option>)}
+                  </select>
+                </label>
+              </div>
+              {!stageNames.includes(rule.stage) && <p className="text-sm text-red-600">"{rule.stage}" is no longer a pipeline stage, so this rule won't run.</p>}
+              {rule.anchor !== 'stageEntered' && <p className="text-xs text-slate-500">Deals without a {ANCHOR_LABELS[rule.anchor]} date count from the day they enter the stage.</p>}
+
+              <div>
+                <h4 className="text-sm font-semibold text-slate-800 mb-2">Tasks</h4>
+                <div className="space-y-2">
+                  {rule.tasks.map(task => (
+                    <div key={task.id} className="flex items-center gap-2">
+                      <input value={task.title} onChange={e => updateTask(rule, task.id, { title: e.target.value })} placeholder="Task title" className={inputClasses} />
+                      <select value={task.category} onChange={e => updateTask(rule, task.id, { category: e.target.value })} className={`${inputClasses} w-48 flex-shrink-0`}>
+                        {TASK_CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+                      </select>
+                      <input
+                        type="number"
+                        value={task.dueOffsetDays ?? ''}
+                        onChange={e => updateTask(rule, task.id, { dueOffsetDays: e.target.value === '' ? null : Math.round(Number(e.target.value)) })}
+                        placeholder="Days"
+                        title="Due this many days after the anchor date; blank for no due date"
+                        className={`${inputClasses} w-24 flex-shrink-0`}
+                      />
+                      <button onClick={() => update(rule.id, { tasks: rule.tasks.filter(t => t.id !== task.id) })} className="p-1 text-slate-400 hover:text-red-500 flex-shrink-0">&times;</button>
+                    </div>
+                  ))}
+                </div>
+                <button onClick={() => update(rule.id, { tasks: [...rule.tasks, newTask()] })} className="mt-2 text-sm font-medium text-amber-600 hover:underline">+ Add Task</button>
+              </div>
+
+              <label className="block text-sm text-slate-500">
+                Closing checklist items <span className="text-slate-400">(one per line)</span>
+                <textarea
+                  value={rule.checklist.join('\n')}
+                  onChange={e => update(rule.id, { checklist: e.target.value.split('\n') })}
+                  rows={3}
+                  className={`${inputClasses} mt-1`}
+                />
+              </label>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-between items-center gap-3 mt-4 flex-shrink-0">
+          <div>
+            <button onClick={addRule} className="text-sm font-medium text-amber-600 hover:underline">+ Add Rule</button>
+            {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+          </div>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-6 py-3 font-medium text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 transition">Cancel</button>
+            <button onClick={handleSave} disabled={!!error} className="px-6 py-3 font-semibold text-gray-900 bg-amber-500 rounded-lg hover:bg-amber-600 disabled:bg-slate-400 disabled:cursor-not-allowed transition">Save</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AutomationRulesModal;
@@ -0,0 +1,138 @@
+import React, { useMemo, useState } from 'react';
+import { ImportPreviewRow, parseImportText, previewImport } from '../sourcing/bulkImport';
+
+interface BulkImportModalProps {
+  /** Called with the rows to import and the name of where they came from. */
+  onImport: (rows: ImportPreviewRow[], sourceName: string) => void;
+  onClose: () => void;
+}
+
+const ACTION_LABELS: Record<ImportPreviewRow['action'], { label: string; className: string }> = {
+  analyze: { label: 'Queue for AI analysis', className: 'bg-amber-100 text-amber-800' },
+  score: { label: 'Score from data', className: 'bg-green-100 text-green-700' },
+  skip: { label: 'Skip', className: 'bg-slate-200 text-slate-600' },
+};
+
+const formatAmount = (value: number | null) => (value === null ? '' : `$${value.toLocaleString()}`);
+
+/** Paste or upload a CSV of listings, or a list of URLs, and preview what importing it will do. */
+const BulkImportModal: React.FC<BulkImportModalProps> = ({ onImport, onClose }) => {
+  const [text, setText] = useState('');
+  const [sourceName, setSourceName] = useState('pasted list');
+
+  const { preview, parseError } = useMemo(() => {
+    if (!text.trim()) return { preview: [] as ImportPreviewRow[], parseError: '' };
+    try {
+      return { preview: previewImport(parseImportText(text)), parseError: '' };
+    } catch (e: any) {
+      return { preview: [] as ImportPreviewRow[], parseError: e.message || 'Could not read the import.' };
+    }
+  }, [text]);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      setText(typeof reader.result === 'string' ? reader.result : '');
+      setSourceName(file.name);
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const counts = {
+    analyze: preview.filter(p => p.action === 'analyze').length,
+    score: preview.filter(p => p.action === 'score').length,
+    skip: preview.filter(p => p.action === 'skip').length,
+  };
+  const importable = preview.filter(p => p.action !== 'skip');
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white border border-slate-200 rounded-2xl p-6 w-full max-w-5xl max-h-[90vh] shadow-lg flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4 flex-shrink-0">
+          <div>
+            <h3 className="text-xl font-bold text-amber-600">Bulk Import Listings</h3>
+            <p className="text-sm text-slate-500">Rows with a URL are analyzed by AI. Rows with figures but no URL are scored from those figures.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-2xl leading-none">&times;</button>
+        </div>
+
+        <div className="flex-shrink-0 space-y-3 mb-4">
+          <textarea
+            value={text}
+            onChange={e => { setText(e.target.value); setSourceName('pasted list'); }}
+            placeholder={'Paste one URL per line, or a CSV with a header row, e.g.\nName,Industry,Location,Revenue,SDE,Asking Price,URL'}
+            rows={6}
+            className="w-full px-4 py-3 text-sm font-mono text-slate-700 bg-white border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+          />
+          <div className="flex items-center justify-between gap-3 text-sm">
+            <label className="px-4 py-2 font-medium text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 transition cursor-pointer">
+              Upload CSV...
+              <input type="file" accept=".csv,.tsv,.txt,text/csv,text/plain" onChange={handleFile} className="hidden" />
+            </label>
+            {preview.length > 0 && (
+              <span className="text-slate-500">{counts.analyze} to analyze · {counts.score} to score · {counts.skip} skipped</span>
+            )}
+          </div>
+          {parseError && <p className="text-sm text-red-600">{parseError}</p>}
+        </div>
+
+        <div className="flex-grow overflow-y-auto border border-slate-200 rounded-lg">
+          {preview.length === 0 ? (
+            <p className="text-center text-slate-400 py-12 text-sm">The rows to import will be previewed here.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-slate-50">
+                <tr className="text-left text-slate-500 border-b border-slate-200">
+                  <th className="py-2 px-3 font-medium">Row</th>
+                  <th className="py-2 px-3 font-medium">Name / URL</th>
+                  <th className="py-2 px-3 font-medium">Industry</th>
+                  <th className="py-2 px-3 font-medium">Location</th>
+                  <th className="py-2 px-3 font-medium text-right">Revenue</th>
+                  <th className="py-2 px-3 font-medium text-right">SDE</th>
+                  <th className="py-2 px-3 font-medium text-right">Asking</th>
+                  <th className="py-2 px-3 font-medium">Action</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.map(({ row, action, reason }) => (
+                  <tr key={row.line} className="border-b border-slate-100 align-top">
+                    <td className="py-2 px-3 text-slate-400">{row.line}</td>
+                    <td className="py-2 px-3 max-w-xs">
+                      <p className="font-medium text-slate-800 truncate">{row.name || row.url || '—'}</p>
+                      {row.name && row.url && <p className="text-xs text-slate-500 truncate">{row.url}</p>}
+                    </td>
+                    <td className="py-2 px-3 text-slate-600">{row.industry}</td>
+                    <td className="py-2 px-3 text-slate-600">{row.location}</td>
+                    <td className="py-2 px-3 text-right text-slate-600">{formatAmount(row.revenue)}</td>
+                    <td className="py-2 px-3 text-right text-slate-600">{formatAmount(row.sde)}</td>
+                    <td className="py-2 px-3 text-right text-slate-600">{formatAmount(row.askingPrice)}</td>
+                    <td className="py-2 px-3">
+                      <span className={`px-2 py-0.5 rounded text-xs font-semibold whitespace-nowrap ${ACTION_LABELS[action].className}`}>{ACTION_LABELS[action].label}</span>
+                      {reason && <p className="text-xs text-slate-500 mt-1">{reason}</p>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 mt-4 flex-shrink-0">
+          <button onClick={onClose} className="px-6 py-3 font-medium text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 transition">Cancel</button>
+          <button
+            onClick={() => onImport(importable, sourceName)}
+            disabled={importable.length === 0}
+            className="px-6 py-3 font-semibold text-gray-900 bg-amber-500 rounded-lg hover:bg-amber-600 disabled:bg-slate-400 disabled:cursor-not-allowed transition"
+          >
+            Import {importable.length} Listing{importable.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkImportModal;
@@ -1,8 +1,11 @@
 
 import React, { useState, useEffect } from 'react';
-import { GoogleGenAI, Chat } from "@google/genai";
+import { aiClient, aiErrorMessage } from "../ai/client";
+import { AiChat } from "../ai/types";
 import { BuyBoxCriteria, GeneralProfileResult, FitAnalysisData, SavedProfile } from '../App';
 import { renderMarkdown } from '../utils/markdownRenderer';
+import { scoreFit, parseScorecardMarkdown } from '../utils/fitScoring';
+import FitBreakdown from './FitBreakdown';
 
 interface BuyBoxProps {
   buyBox: BuyBoxCriteria;
@@ -24,17 +27,10 @@ interface BuyBoxProps {
   onClearFitAnalysis: () => void;
 }
 
-interface GroundingChunk {
-  web: {
-    uri: string;
-    title: string;
-  };
-}
-
 interface BuyBoxState {
     isAnalyzingFit: boolean;
     fitAnalysisError: string;
-    chatSession: Chat | null;
+    chatSession: AiChat | null;
     isStreaming: boolean;
     followUpInput: string;
 }
@@ -78,69 +74,6 @@ const tooltipTexts = {
     industryExpertise: "List industries where you have direct experience. This helps in identifying deals where your knowledge can be a significant advantage for due diligence and post-acquisition growth."
 };
 
-const criteriaNameToKeyMap: { [key: string]: keyof BuyBoxCriteria | null } = {
-    'Geography': 'geography',
-    'Industry': 'industryType',
-    'Financials (SDE)': 'minSde',
-    'Revenue Quality': 'minRecurringRevenue',
-    'Risk (Concentration)': 'customerConcentration',
-    'Growth Levers': 'growthLevers',
-    'Industry Trends': 'industryTrends',
-    'Seller Role': 'sellerRole',
-    'Team Strength': 'teamStrength',
-    'Business Model': 'businessModel',
-    'Systems': 'systemMessiness',
-    'My Role': 'myPrimaryRole',
-    'Industry Expertise': 'industryExpertise',
-    'Culture': null,
-};
-
-const calculateOverallFitScore = (scorecard: string, buyBox: BuyBoxCriteria): number | null => {
-    if (!scorecard) return null;
-
-    let achievedScore = 0;
-    let totalPossibleScore = 0;
-
-    for (const key in buyBox) {
-        const criteria = buyBox[key as keyof BuyBoxCriteria];
-        if (typeof criteria === 'object' && criteria !== null && !Array.isArray(criteria) && 'weight' in criteria && typeof criteria.weight === 'number') {
-            totalPossibleScore += criteria.weight;
-        }
-    }
-
-    if (buyBox.minSde.weight > 0 && buyBox.maxSde.weight > 0) {
-        totalPossibleScore -= buyBox.maxSde.weight;
-    }
-
-    if (totalPossibleScore === 0) return 50; 
-
-    const rows = scorecard.split('\n').slice(2);
-    rows.forEach(row => {
-        const columns = row.split('|').map(c => c.trim());
-        if (columns.length >= 4) {
-            const criteriaNameWithWeight = columns[1];
-            const criteriaName = criteriaNameWithWeight.split(' (Weight:')[0].trim().replace(/\*\*/g, '');
-            
-            const fit = columns[3].toLowerCase().replace(/<[^>]+>/g, '');
-            const buyBoxKey = criteriaNameToKeyMap[criteriaName];
-
-            if (buyBoxKey) {
-                const criteria = buyBox[buyBoxKey as keyof BuyBoxCriteria];
-                 if (typeof criteria === 'object' && criteria !== null && !Array.isArray(criteria) && 'weight' in criteria && typeof criteria.weight === 'number') {
-                    const weight = criteria.weight;
-                    if (fit === 'yes') {
-                        achievedScore += weight;
-                    } else if (fit === '?') {
-                        achievedScore += weight * 0.3; 
-                    }
-                }
-            }
-        }
-    });
-    
-    return Math.round((achievedScore / totalPossibleScore) * 100);
-};
-
 const InfoIcon = () => (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
       <path strokeLinecap="round" strokeLinejoin="round" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -245,11 +178,7 @@ const BuyBox: React.FC<BuyBoxProps> = ({ buyBox, setBuyBox, undo, redo, canUndo,
     setState(prev => ({...prev, isAnalyzingFit: true, fitAnalysisError: '', chatSession: null}));
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const chat = ai.chats.create({
-          model: 'gemini-2.5-pro',
-          config: { tools: [{googleSearch: {}}], thinkingConfig: { thinkingBudget: 32768 } },
-      });
+      const chat = aiClient.createChat({ feature: 'buybox.fitAnalysis', tier: 'reasoning', webSearch: true, extendedThinking: true });
       setState(prevState => ({ ...prevState, chatSession: chat }));
 
       const growthLeversText = Object.entries(buyBox.growthLevers).filter(([,v]) => v).map(([k]) => k.charAt(0).toUpperCase() + k.slice(1)).join(', ') || 'Not specified';
@@ -281,12 +210,12 @@ const BuyBox: React.FC<BuyBoxProps> = ({ buyBox, setBuyBox, undo, redo, canUndo,
 *   If you still cannot find the information after searching, mark the Status as "Unknown" and Fit as "?".
 *   The "Rationale" must be a 1-sentence explanation for your "Fit" assessment, referencing the information you found (either from the profile or from your search).`;
         
-      const stream = await chat.sendMessageStream({ message: fitAnalysisPrompt });
+      const stream = chat.sendMessageStream(fitAnalysisPrompt);
       
       let fullResponse = "";
       for await (const chunk of stream) {
         fullResponse += chunk.text;
-        const fitAnalysisSources = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks as GroundingChunk[] | undefined;
+        const fitAnalysisSources = chunk.sources;
         setFitAnalysis(prev => ({
             ...prev,
             scorecardResult: fullResponse,
@@ -294,12 +223,12 @@ const BuyBox: React.FC<BuyBoxProps> = ({ buyBox, setBuyBox, undo, redo, canUndo,
         }));
       }
 
-      const score = calculateOverallFitScore(fullResponse, buyBox);
-      setFitAnalysis(prev => ({ ...prev, overallFitScore: score }));
+      const fitBreakdown = scoreFit(buyBox, { fitRows: parseScorecardMarkdown(fullResponse) });
+      setFitAnalysis(prev => ({ ...prev, overallFitScore: fitBreakdown.score, fitBreakdown }));
 
     } catch (error) {
         console.error("Error during fit analysis:", error);
-        setState(prev => ({...prev, fitAnalysisError: "An error occurred during the fit analysis. Please try again."}));
+        setState(prev => ({...prev, fitAnalysisError: aiErrorMessage(error, "An error occurred during the fit analysis. Please try again.")}));
     } finally {
         setState(prev => ({...prev, isAnalyzingFit: false}));
     }
@@ -315,7 +244,7 @@ const BuyBox: React.FC<BuyBoxProps> = ({ buyBox, setBuyBox, undo, redo, canUndo,
     setFitAnalysis(prev => ({...prev, scorecardResult: prev.scorecardResult + userMessage }));
 
     try {
-        const stream = await state.chatSession.sendMessageStream({ message: state.followUpInput });
+        const stream = state.chatSession.sendMessageStream(state.followUpInput);
         
         let tempResult = fitAnalysis.scorecardResult + userMessage;
         for await (const chunk of stream) {
@@ -324,7 +253,7 @@ const BuyBox: React.FC<BuyBoxProps> = ({ buyBox, setBuyBox, undo, redo, canUndo,
         }
     } catch (error) {
         console.error("Error during fit follow-up:", error);
-        setState(prevState => ({ ...prevState, fitAnalysisError: "An error occurred during the follow-up." }));
+        setState(prevState => ({ ...prevState, fitAnalysisError: aiErrorMessage(error, "An error occurred during the follow-up.") }));
     } finally {
         setState(prevState => ({ ...prevState, isStreaming: false }));
     }
@@ -536,6 +465,9 @@ const BuyBox: React.FC<BuyBoxProps> = ({ buyBox, setBuyBox, undo, redo, canUndo,
           ) : fitAnalysis.scorecardResult ? (
             <>
               <div className="text-slate-700" dangerouslySetInnerHTML={renderMarkdown(fitAnalysis.scorecardResult)} />
+              {fitAnalysis.fitBreakdown && (
+                <div className="mt-6 pt-4 border-t border-slate-200"><h4 className="text-md font-semibold text-slate-800 mb-3">How the Fit Score Was Calculated</h4><FitBreakdown breakdown={fitAnalysis.fitBreakdown} /></div>
+              )}
               {fitAnalysis.fitAnalysisSources && fitAnalysis.fitAnalysisSources.length > 0 && (
                 <div className="mt-6 pt-4 border-t border-slate-200"><h4 className="text-md font-semibold text-slate-800 mb-3">Sources</h4><ul className="space-y-2 list-none p-0 m-0">{fitAnalysis.fitAnalysisSources.map((source, index) => (<li key={index} className="text-sm truncate"><a href={source.web.uri} target="_blank" rel="noopener noreferrer" className="text-amber-600 hover:text-amber-700 hover:underline transition-colors" title={source.web.uri}>{source.web.title || source.web.uri}</a></li>))}</ul></div>
               )}
@@ -1,8 +1,11 @@
 
 import React from 'react';
-import { View, Deal, Task, DealStatus } from '../App';
+import { View, Deal, Task, DealStatus, SavedProfile } from '../App';
 import { SourcingResult } from './SourcingEngine';
 import { IntegrationData } from './IntegrationHub';
+import { SavedSearch, SearchInboxItem, unreadCount } from '../sourcing/savedSearches';
+import { bestFitProfile, scoreAgainstProfiles } from '../sourcing/profileScores';
+import { LOST_STAGE, PipelineStage, WON_STAGE, isFixedStage } from '../pipeline/stages';
 
 interface CentralDashboardProps {
   onNavigate: (view: View) => void;
@@ -11,6 +14,10 @@ interface CentralDashboardProps {
   sourcingResultsGlobal: SourcingResult[];
   integrationData: Record<string, IntegrationData>;
   currentProfileName: string | null;
+  savedProfiles: SavedProfile[];
+  savedSearches: SavedSearch[];
+  searchInbox: SearchInboxItem[];
+  pipelineStages: PipelineStage[];
 }
 
 // --- SVG Icons for Widgets ---
@@ -21,7 +28,7 @@ const IconWatchlist = () => <svg xmlns="http://www.w3.org/2000/svg" className="h
 const IconQuickAccess = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 text-amber-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M15 15l-2 5L9 9l11 4-5 2zm0 0l5 5M7.188 2.239l.777 2.897M5.136 7.965l-2.898-.777M13.95 4.05l-2.122 2.122m-5.657 5.656l-2.12 2.122" /></svg>;
 
 
-const CentralDashboard: React.FC<CentralDashboardProps> = ({ onNavigate, deals, tasks, sourcingResultsGlobal, integrationData, currentProfileName }) => {
+const CentralDashboard: React.FC<CentralDashboardProps> = ({ onNavigate, deals, tasks, sourcingResultsGlobal, integrationData, currentProfileName, savedProfiles, savedSearches, searchInbox, pipelineStages }) => {
   const widgetClasses = "bg-white rounded-lg shadow-sm p-6 flex flex-col";
   const titleClasses = "text-base font-semibold text-slate-800 mb-4 flex items-center";
   const linkClasses = "mt-auto text-sm font-medium text-amber-600 hover:text-amber-800 self-start pt-4 transition-colors";
@@ -32,11 +39,25 @@ const CentralDashboard: React.FC<CentralDashboardProps> = ({ onNavigate, deals,
     return acc;
   }, {} as Record<DealStatus, number>);
 
+  const activeDealFits = savedProfiles.length > 1
+    ? deals
+        .filter(deal => deal.status !== WON_STAGE && deal.status !== LOST_STAGE)
+        .flatMap(deal => {
+          const best = bestFitProfile(scoreAgainstProfiles(deal.sourcingResult, savedProfiles));
+          return best ? [{ deal, best }] : [];
+        })
+        .slice(0, 5)
+    : [];
+
   const totalListingsFound = sourcingResultsGlobal.length;
   const scoredListings = sourcingResultsGlobal.filter(r => r.overallFitScore !== null);
   const averageFitScore = scoredListings.length > 0
     ? Math.round(scoredListings.reduce((sum, r) => sum + r.overallFitScore!, 0) / scoredListings.length)
     : 0;
+  const newListingsCount = unreadCount(searchInbox);
+  const searchesWithNew = savedSearches
+    .map(search => ({ search, count: unreadCount(searchInbox, search.id) }))
+    .filter(({ count }) => count > 0);
   const topSourcedDeals = [...sourcingResultsGlobal]
     .filter(r => !r.error)
     .sort((a, b) => (b.overallFitScore || 0) - (a.overallFitScore || 0))
@@ -70,7 +91,7 @@ const CentralDashboard: React.FC<CentralDashboardProps> = ({ onNavigate, deals,
     return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
   };
 
-  const activeIntegrationsCount = deals.filter(d => d.status === 'Closed').length;
+  const activeIntegrationsCount = deals.filter(d => d.status === WON_STAGE).length;
   
   const mostRecentViewedDeal = sourcingResultsGlobal.length > 0 ? sourcingResultsGlobal[0] : null;
 
@@ -88,11 +109,23 @@ const CentralDashboard: React.FC<CentralDashboardProps> = ({ onNavigate, deals,
       <div className={widgetClasses}>
         <h3 className={titleClasses}><IconDealPipeline /> Deal Pipeline Status</h3>
         <ul className="space-y-3 text-sm">
-            <li className="flex justify-between items-center"><span className="text-slate-600">Identified</span> <span className="font-bold text-slate-800">{dealStatusCounts['Identified'] || 0}</span></li>
-            <li className="flex justify-between items-center"><span className="text-slate-600">Evaluating</span> <span className="font-bold text-slate-800">{dealStatusCounts['Evaluating'] || 0}</span></li>
-            <li className="flex justify-between items-center"><span className="text-slate-600">LOI Sent</span> <span className="font-bold text-slate-800">{dealStatusCounts['LOI Sent'] || 0}</span></li>
-            <li className="flex justify-between items-center"><span className="text-slate-600">Diligence</span> <span className="font-bold text-slate-800">{dealStatusCounts['Diligence'] || 0}</span></li>
+            {pipelineStages.filter(stage => !isFixedStage(stage.name)).map(stage => (
+                <li key={stage.id} className="flex justify-between items-center"><span className="text-slate-600">{stage.name}</span> <span className="font-bold text-slate-800">{dealStatusCounts[stage.name] || 0}</span></li>
+            ))}
         </ul>
+        {activeDealFits.length > 0 && (
+            <>
+                <h4 className="text-sm font-semibold text-slate-700 pt-4 pb-2">Best-Fit Profile</h4>
+                <ul className="text-sm space-y-2">
+                    {activeDealFits.map(({ deal, best }) => (
+                        <li key={deal.id} className="flex justify-between gap-4">
+                            <span className="truncate text-slate-600">{deal.companyName}</span>
+                            <span className="flex-shrink-0 text-slate-800">{best.profileName} <span className={`font-mono font-semibold ${getFitScoreColor(best.score)}`}>{best.score}%</span></span>
+                        </li>
+                    ))}
+                </ul>
+            </>
+        )}
         <button onClick={() => onNavigate('pipelineHub')} className={linkClasses}>
           View Full Pipeline &rarr;
         </button>
@@ -100,8 +133,29 @@ const CentralDashboard: React.FC<CentralDashboardProps> = ({ onNavigate, deals,
 
       {/* Recent Sourcing Activity */}
       <div className={widgetClasses}>
-        <h3 className={titleClasses}><IconSourcing /> Recent Sourcing Activity</h3>
+        <h3 className={titleClasses}>
+          <IconSourcing /> Recent Sourcing Activity
+          {newListingsCount > 0 && <span className="ml-auto px-2 py-0.5 rounded-full bg-amber-500 text-slate-900 text-xs font-bold">{newListingsCount} new</span>}
+        </h3>
         <div className="space-y-3">
+            {savedSearches.length > 0 && (
+                <div className="bg-amber-50 border border-amber-200 p-3 rounded-lg">
+                    <div className="flex justify-between items-center">
+                        <span className="font-medium text-slate-700 text-sm">New Since Last Run</span>
+                        <span className="text-2xl font-bold text-amber-600">{newListingsCount}</span>
+                    </div>
+                    {searchesWithNew.length > 0 && (
+                        <ul className="mt-2 text-xs space-y-1">
+                            {searchesWithNew.map(({ search, count }) => (
+                                <li key={search.id} className="flex justify-between">
+                                    <span className="truncate pr-4 text-slate-600">{search.name}</span>
+                                    <span className="font-semibold text-amber-700">{count}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
             <div className="flex justify-between items-center bg-slate-50 p-3 rounded-lg">
                 <span className="font-medium text-slate-600 text-sm">Listings Found (All Time)</span>
                 <span className="text-2xl font-bold text-slate-800">{totalListingsFound}</span>
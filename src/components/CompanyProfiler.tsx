@@ -1,10 +1,12 @@
 
-import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { GoogleGenAI, Chat } from "@google/genai";
+import React, { useState, useEffect, useMemo, useRef, useContext } from 'react';
+import { aiClient, aiErrorMessage } from "../ai/client";
+import { AiChat } from "../ai/types";
 import { GeneralProfileResult, ProfilerData, Deal } from '../App';
 import { getProfilerPrompt } from '../utils/prompts';
 import { SourcingResult } from './SourcingEngine';
 import { renderMarkdown } from '../utils/markdownRenderer';
+import { RepositoryContext } from '../contexts/RepositoryContext';
 
 interface CompanyProfilerProps {
     setGeneralProfile: React.Dispatch<React.SetStateAction<GeneralProfileResult | null>>;
@@ -17,6 +19,8 @@ interface CompanyProfilerProps {
     setProfilingProgressMessage: React.Dispatch<React.SetStateAction<string>>;
     deals: Deal[];
     onAddToPipeline: (sourcingResult: SourcingResult) => void;
+    /** The selected deal workspace, if any; AI usage is attributed to it. */
+    dealId?: string;
 }
 
 interface GroundingChunk {
@@ -52,7 +56,7 @@ interface ProfilerState {
   isStreaming: boolean;
   analysisAspects: AnalysisAspects;
   analysisType: AnalysisType;
-  chatSession: Chat | null;
+  chatSession: AiChat | null;
   followUpInput: string;
   copied: boolean;
   saved: boolean;
@@ -103,7 +107,8 @@ const aspectOptions: { key: keyof AnalysisAspects; label: string }[] = [
     { key: 'growthOpportunities', label: 'Growth Opportunities' },
 ];
 
-const CompanyProfiler: React.FC<CompanyProfilerProps> = ({ setGeneralProfile, profilerData, setProfilerData, onClear, isProfilingGlobal, setIsProfilingGlobal, profilingProgressMessage, setProfilingProgressMessage, deals, onAddToPipeline }) => {
+const CompanyProfiler: React.FC<CompanyProfilerProps> = ({ setGeneralProfile, profilerData, setProfilerData, onClear, isProfilingGlobal, setIsProfilingGlobal, profilingProgressMessage, setProfilingProgressMessage, deals, onAddToPipeline, dealId }) => {
+  const repository = useContext(RepositoryContext);
   const [state, setState] = useState<ProfilerState>({
     profilerMode: 'single',
     urlInputTwo: '',
@@ -250,20 +255,13 @@ const CompanyProfiler: React.FC<CompanyProfilerProps> = ({ setGeneralProfile, pr
     }));
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const chat = ai.chats.create({
-          model: 'gemini-2.5-pro',
-          config: {
-            tools: [{googleSearch: {}}],
-            thinkingConfig: { thinkingBudget: 32768 },
-          },
-      });
+      const chat = aiClient.createChat({ feature: 'profiler.profile', dealId, tier: 'reasoning', webSearch: true, extendedThinking: true });
       setState(prevState => ({ ...prevState, chatSession: chat }));
       
       const prompt = getProfilerPrompt(profilerData.urlInput, state.analysisAspects, state.correctionInput);
       
       setProfilingProgressMessage('Generating insights...');
-      const stream = await chat.sendMessageStream({ message: prompt });
+      const stream = chat.sendMessageStream(prompt);
 
       let fullResponse = "";
       for await (const chunk of stream) {
@@ -272,7 +270,7 @@ const CompanyProfiler: React.FC<CompanyProfilerProps> = ({ setGeneralProfile, pr
         const insights = parts[0] || '';
         const profile = parts[1] || '';
         
-        const groundingChunks = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks as GroundingChunk[] | undefined;
+        const groundingChunks = chunk.sources;
         setProfilerData(prevState => ({
             ...prevState,
             analysisResult: { insights, profile },
@@ -293,7 +291,7 @@ const CompanyProfiler: React.FC<CompanyProfilerProps> = ({ setGeneralProfile, pr
       console.error("Error during analysis:", error);
       setState(prevState => ({
         ...prevState,
-        error: "An error occurred. Please check the URL or try again.",
+        error: aiErrorMessage(error, "An error occurred. Please check the URL or try again."),
       }));
     } finally {
         setIsProfilingGlobal(false);
@@ -339,14 +337,7 @@ const CompanyProfiler: React.FC<CompanyProfilerProps> = ({ setGeneralProfile, pr
     }));
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const chat = ai.chats.create({
-        model: 'gemini-2.5-pro',
-        config: {
-          tools: [{ googleSearch: {} }],
-          thinkingConfig: { thinkingBudget: 32768 },
-        },
-      });
+      const chat = aiClient.createChat({ feature: 'profiler.compare', dealId, tier: 'reasoning', webSearch: true, extendedThinking: true });
       setState(prevState => ({ ...prevState, chatSession: chat }));
 
       const selectedAspectLabels = selectedAspectKeys
@@ -371,12 +362,12 @@ const CompanyProfiler: React.FC<CompanyProfilerProps> = ({ setGeneralProfile, pr
         prompt += `\n\nAdditionally, please specifically answer this question in the context of the comparison: "${state.specificAsk}"`;
       }
 
-      const stream = await chat.sendMessageStream({ message: prompt });
+      const stream = chat.sendMessageStream(prompt);
 
       let fullResponse = "";
       for await (const chunk of stream) {
         fullResponse += chunk.text;
-        const groundingChunks = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks as GroundingChunk[] | undefined;
+        const groundingChunks = chunk.sources;
         setProfilerData(prevState => ({
           ...prevState,
           analysisResult: { ...prevState.analysisResult, profile: fullResponse },
@@ -387,7 +378,7 @@ const CompanyProfiler: React.FC<CompanyProfilerProps> = ({ setGeneralProfile, pr
       console.error("Error during comparison:", error);
       setState(prevState => ({
         ...prevState,
-        error: "An error occurred during comparison. Please check the URLs or try again.",
+        error: aiErrorMessage(error, "An error occurred during comparison. Please check the URLs or try again."),
       }));
     } finally {
       setIsProfilingGlobal(false);
@@ -417,7 +408,6 @@ const CompanyProfiler: React.FC<CompanyProfilerProps> = ({ setGeneralProfile, pr
     }));
 
     try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
         const base64Data = await fileToBase64(state.uploadedFile);
 
         const filePart = {
@@ -448,10 +438,12 @@ const CompanyProfiler: React.FC<CompanyProfilerProps> = ({ setGeneralProfile, pr
 
         const textPart = { text: prompt };
 
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-pro',
-            contents: { parts: [textPart, filePart] },
-            config: { thinkingConfig: { thinkingBudget: 32768 } },
+        const response = await aiClient.generate({
+            feature: 'profiler.document',
+            dealId,
+            tier: 'reasoning',
+            contents: [textPart, filePart],
+            extendedThinking: true,
         });
 
         setProfilerData(prevState => ({
@@ -463,7 +455,7 @@ const CompanyProfiler: React.FC<CompanyProfilerProps> = ({ setGeneralProfile, pr
         console.error("Error during document analysis:", error);
         setState(prevState => ({
             ...prevState,
-            error: "An error occurred during document analysis. The file might be corrupted or in an unsupported format.",
+            error: aiErrorMessage(error, "An error occurred during document analysis. The file might be corrupted or in an unsupported format."),
         }));
     } finally {
         setIsProfilingGlobal(false);
@@ -482,7 +474,7 @@ const CompanyProfiler: React.FC<CompanyProfilerProps> = ({ setGeneralProfile, pr
     setProfilerData(prev => ({...prev, analysisResult: { ...prev.analysisResult, profile: fullPrompt }}));
 
     try {
-        const stream = await state.chatSession.sendMessageStream({ message: state.followUpInput });
+        const stream = state.chatSession.sendMessageStream(state.followUpInput);
         
         let tempResult = fullPrompt;
         for await (const chunk of stream) {
@@ -491,7 +483,7 @@ const CompanyProfiler: React.FC<CompanyProfilerProps> = ({ setGeneralProfile, pr
         }
     } catch (error) {
         console.error("Error during follow-up:", error);
-        setState(prevState => ({ ...prevState, error: "An error occurred during the follow-up." }));
+        setState(prevState => ({ ...prevState, error: aiErrorMessage(error, "An error occurred during the follow-up.") }));
     } finally {
         setState(prevState => ({ ...prevState, isStreaming: false }));
     }
@@ -538,7 +530,8 @@ const CompanyProfiler: React.FC<CompanyProfilerProps> = ({ setGeneralProfile, pr
 
   const handleSaveChatClick = () => {
     if (!profilerData.analysisResult.profile) return;
-    localStorage.setItem('companyProfilerChatHistory', profilerData.analysisResult.profile);
+    repository?.save('profilerChatHistory', profilerData.analysisResult.profile)
+      .catch(error => console.error("Failed to save profiler chat history", error));
     setState(prevState => ({ ...prevState, saved: true }));
     setTimeout(() => setState(prevState => ({ ...prevState, saved: false })), 2000);
   };
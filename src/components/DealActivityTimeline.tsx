@@ -0,0 +1,65 @@
+import React from 'react';
+import { Deal } from '../App';
+import { DealEventType, describeDealEvent, stageHistory, stintDays } from '../pipeline/dealActivity';
+
+const EVENT_DOT_COLORS: Record<DealEventType, string> = {
+  created: 'bg-amber-500',
+  stageChanged: 'bg-blue-500',
+  termsEdited: 'bg-slate-400',
+  contactAdded: 'bg-slate-400',
+  contactEdited: 'bg-slate-400',
+  contactRemoved: 'bg-slate-400',
+  checklistToggled: 'bg-green-500',
+  taskCompleted: 'bg-green-500',
+  lostReasonRecorded: 'bg-red-500',
+  automationRan: 'bg-amber-500',
+};
+
+const formatDays = (days: number | null) => {
+  if (days === null) return 'unknown';
+  if (days < 1) return '< 1 day';
+  return `${Math.floor(days)} day${Math.floor(days) === 1 ? '' : 's'}`;
+};
+
+/** How long the deal spent in each stage, then everything that happened to it, newest first. */
+const DealActivityTimeline: React.FC<{ deal: Deal }> = ({ deal }) => {
+  const stints = stageHistory(deal);
+  const events = [...(deal.activity ?? [])].reverse();
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h4 className="font-semibold text-slate-800 mb-3">Time in Stage</h4>
+        <ol className="flex flex-wrap items-center gap-2 text-sm">
+          {stints.map((stint, index) => (
+            <li key={index} className="flex items-center gap-2">
+              {index > 0 && <span className="text-slate-400">&rarr;</span>}
+              <span className={`px-3 py-1 rounded-full border ${stint.leftAt === null ? 'bg-amber-50 border-amber-300 text-amber-800' : 'bg-white border-slate-200 text-slate-700'}`}>
+                {stint.status} · {formatDays(stintDays(stint))}{stint.leftAt === null && ' so far'}
+              </span>
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      <div>
+        <h4 className="font-semibold text-slate-800 mb-3">Activity</h4>
+        {events.length === 0 ? (
+          <p className="text-slate-500 text-sm">No activity recorded yet. Changes to this deal will appear here.</p>
+        ) : (
+          <ol className="relative border-l border-slate-200 ml-2 space-y-4">
+            {events.map(event => (
+              <li key={event.id} className="ml-4">
+                <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-white ${EVENT_DOT_COLORS[event.type]}`} />
+                <p className="text-sm text-slate-800">{describeDealEvent(event)}</p>
+                <p className="text-xs text-slate-500">{event.actor} · {new Date(event.at).toLocaleString()}</p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DealActivityTimeline;
@@ -2,26 +2,45 @@
 import React, { useState, useMemo } from 'react';
 import { Deal, DealStatus, Task, DealContact, KeyTerms, ChecklistItem } from '../App';
 import { renderMarkdown } from '../utils/markdownRenderer';
+import { isImportedWithoutUrl } from '../sourcing/bulkImport';
+import ListingSnapshotView from './ListingSnapshotView';
+import { TeamRole, DealTab, hasFullAccess, visibleDealTabs } from '../storage/team';
+import { applyDealChange, daysInCurrentStage } from '../pipeline/dealActivity';
+import { LOST_STAGE, PipelineStage, describeRequirement, unmetRequirements } from '../pipeline/stages';
+import DealActivityTimeline from './DealActivityTimeline';
+import LostDealModal, { LostDealFields } from './LostDealModal';
+import PipelineStagesModal from './PipelineStagesModal';
+import AutomationRulesModal from './AutomationRulesModal';
+import { AutomationRule } from '../pipeline/automation';
+import { LOST_REASON_LABELS, LostDealRecord, isRevisitDue } from '../pipeline/lostReasons';
 
 interface DealPipelineProps {
     deals: Deal[];
     setDeals: React.Dispatch<React.SetStateAction<Deal[]>>;
+    pipelineStages: PipelineStage[];
+    onSavePipelineStages: (stages: PipelineStage[], renames: Record<string, string>) => void;
+    automationRules: AutomationRule[];
+    setAutomationRules: React.Dispatch<React.SetStateAction<AutomationRule[]>>;
+    /** Runs the stage's automation rules on a deal that just moved; returns the deal with their changes. */
+    onStageEntered: (deal: Deal) => Deal;
     tasks: Task[];
     onAddTask: (title: string, description: string, category: string, dealId?: string) => void;
+    onOpenInAnalysisHub: (dealId: string) => void;
+    role: TeamRole;
+    actor: string;
 }
 
-const DEAL_STAGES: DealStatus[] = ["Identified", "Contacted", "Evaluating", "LOI Sent", "Diligence", "Closing", "Closed", "Lost"];
-
 // --- Deal Card Component ---
-const DealCard: React.FC<{ deal: Deal, nextTask?: Task, onSelect: () => void, onDragStart: (e: React.DragEvent<HTMLDivElement>) => void }> = 
-({ deal, nextTask, onSelect, onDragStart }) => {
+const DealCard: React.FC<{ deal: Deal, nextTask?: Task, onSelect: () => void, onDragStart: (e: React.DragEvent<HTMLDivElement>) => void, draggable: boolean }> = 
+({ deal, nextTask, onSelect, onDragStart, draggable }) => {
     const sde = deal.sourcingResult.sde ? `$${deal.sourcingResult.sde.toLocaleString()}` : 'N/A';
     const fitScore = deal.sourcingResult.overallFitScore;
+    const daysInStage = daysInCurrentStage(deal);
 
     return (
         <div 
             onClick={onSelect}
-            draggable
+            draggable={draggable}
             onDragStart={onDragStart}
             className="bg-white p-4 rounded-lg border border-slate-200 hover:border-amber-500 hover:shadow-md cursor-pointer transition-all mb-3"
         >
@@ -36,6 +55,20 @@ const DealCard: React.FC<{ deal: Deal, nextTask?: Task, onSelect: () => void, on
                 <span className="text-slate-500">SDE:</span>
                 <span className="font-semibold text-slate-700">{sde}</span>
             </div>
+            {daysInStage !== null && (
+                <div className="flex justify-between items-baseline text-sm">
+                    <span className="text-slate-500">In Stage:</span>
+                    <span className="font-semibold text-slate-700">{daysInStage === 0 ? 'Today' : `${daysInStage} day${daysInStage === 1 ? '' : 's'}`}</span>
+                </div>
+            )}
+            {deal.status === LOST_STAGE && deal.lost && (
+                <div className="mt-3 pt-2 border-t border-slate-200 text-xs">
+                    <p className="text-red-600 font-medium">{LOST_REASON_LABELS[deal.lost.reason]}</p>
+                    {deal.lost.revisitOn && (
+                        <p className={isRevisitDue(deal.lost) ? 'text-amber-700 font-semibold' : 'text-slate-500'}>Revisit on {deal.lost.revisitOn}</p>
+                    )}
+                </div>
+            )}
             {nextTask && (
                  <div className="mt-3 pt-2 border-t border-slate-200 text-xs">
                     <p className="text-slate-500">Next Task:</p>
@@ -48,71 +81,94 @@ const DealCard: React.FC<{ deal: Deal, nextTask?: Task, onSelect: () => void, on
 
 
 // --- Deal Detail Modal ---
-const DealDetailView: React.FC<{ deal: Deal, tasks: Task[], onClose: () => void, onUpdate: (updatedDeal: Deal) => void, onAddTask: (title: string, description: string, category: string, dealId?: string) => void }> = 
-({ deal, tasks, onClose, onUpdate, onAddTask }) => {
-    const [activeTab, setActiveTab] = useState<'summary' | 'terms' | 'checklist' | 'tasks'>('summary');
-    const [currentDeal, setCurrentDeal] = useState<Deal>(deal);
+const DealDetailView: React.FC<{ deal: Deal, tasks: Task[], onClose: () => void, onUpdate: (updatedDeal: Deal) => void, onAddTask: (title: string, description: string, category: string, dealId?: string) => void, onOpenInAnalysisHub: (dealId: string) => void, role: TeamRole }> = 
+({ deal, tasks, onClose, onUpdate, onAddTask, onOpenInAnalysisHub, role }) => {
+    const visibleTabs = visibleDealTabs(role);
+    const isReadOnly = role === 'lender';
+    const [activeTab, setActiveTab] = useState<DealTab>(visibleTabs[0]);
 
+    // Edits build on the live `deal` prop, so they never revert changes made elsewhere while the view is open.
     const handleUpdate = (updatedDeal: Deal) => {
-        setCurrentDeal(updatedDeal);
+        if (isReadOnly) return;
         onUpdate(updatedDeal);
     };
 
     const handleTermsChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
         const { name, value } = e.target;
-        handleUpdate({ ...currentDeal, keyTerms: { ...currentDeal.keyTerms, [name]: value } });
+        handleUpdate({ ...deal, keyTerms: { ...deal.keyTerms, [name]: value } });
+    };
+
+    const handleTimelineChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = e.target;
+        handleUpdate({ ...deal, timeline: { ...deal.timeline, [name]: value } });
     };
 
     const handleContactChange = (index: number, field: keyof DealContact, value: string) => {
-        const updatedContacts = [...currentDeal.contacts];
+        const updatedContacts = [...deal.contacts];
         updatedContacts[index] = { ...updatedContacts[index], [field]: value };
-        handleUpdate({ ...currentDeal, contacts: updatedContacts });
+        handleUpdate({ ...deal, contacts: updatedContacts });
     };
 
-    const handleAddContact = () => handleUpdate({ ...currentDeal, contacts: [...currentDeal.contacts, { id: crypto.randomUUID(), name: '', role: '', email: '', phone: '' }] });
-    const handleRemoveContact = (index: number) => handleUpdate({ ...currentDeal, contacts: currentDeal.contacts.filter((_, i) => i !== index) });
+    const handleAddContact = () => handleUpdate({ ...deal, contacts: [...deal.contacts, { id: crypto.randomUUID(), name: '', role: '', email: '', phone: '' }] });
+    const handleRemoveContact = (index: number) => handleUpdate({ ...deal, contacts: deal.contacts.filter((_, i) => i !== index) });
 
     const handleChecklistItemToggle = (itemId: string) => {
-        const updatedList = currentDeal.closingChecklist.map(item => item.id === itemId ? { ...item, completed: !item.completed } : item);
-        handleUpdate({ ...currentDeal, closingChecklist: updatedList });
+        const updatedList = deal.closingChecklist.map(item => item.id === itemId ? { ...item, completed: !item.completed } : item);
+        handleUpdate({ ...deal, closingChecklist: updatedList });
     };
 
     const [newTaskTitle, setNewTaskTitle] = useState('');
     const handleAddNewTask = (e: React.FormEvent) => {
         e.preventDefault();
         if (newTaskTitle.trim()) {
-            onAddTask(newTaskTitle, '', 'Diligence-General', currentDeal.id);
+            onAddTask(newTaskTitle, '', 'Diligence-General', deal.id);
             setNewTaskTitle('');
         }
     };
     
-    const tabClasses = (tabName: 'summary' | 'terms' | 'checklist' | 'tasks') => 
+    const tabClasses = (tabName: DealTab) => 
         `px-4 py-2 text-sm font-medium rounded-t-lg transition-colors ${activeTab === tabName ? 'bg-slate-100 text-amber-600 border-b-2 border-amber-500' : 'text-slate-500 hover:bg-slate-100/50'}`;
 
     return (
       <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
         <div className="bg-white border border-slate-200 rounded-2xl p-6 w-full max-w-5xl h-[90vh] shadow-lg flex flex-col" onClick={(e) => e.stopPropagation()}>
-          <div className="flex-shrink-0 mb-4">
-            <h3 className="text-xl font-bold text-slate-800">{deal.companyName}</h3>
-            <a href={deal.sourcingResult.url} target="_blank" rel="noopener noreferrer" className="text-sm text-amber-600 hover:underline">{deal.sourcingResult.url}</a>
+          <div className="flex-shrink-0 mb-4 flex justify-between items-start gap-4">
+            <div>
+              <h3 className="text-xl font-bold text-slate-800">{deal.companyName}</h3>
+              {!isImportedWithoutUrl(deal.sourcingResult) && <a href={deal.sourcingResult.url} target="_blank" rel="noopener noreferrer" className="text-sm text-amber-600 hover:underline">{deal.sourcingResult.url}</a>}
+            </div>
+            {!isReadOnly && <button onClick={() => onOpenInAnalysisHub(deal.id)} className="flex-shrink-0 px-4 py-2 text-sm font-medium text-amber-700 bg-amber-100 rounded-md hover:bg-amber-200">Open in Analysis Hub</button>}
           </div>
 
           <div className="flex-shrink-0 border-b border-slate-200">
-             <button onClick={() => setActiveTab('summary')} className={tabClasses('summary')}>Summary</button>
-             <button onClick={() => setActiveTab('terms')} className={tabClasses('terms')}>Terms & Contacts</button>
-             <button onClick={() => setActiveTab('checklist')} className={tabClasses('checklist')}>Closing Checklist</button>
-             <button onClick={() => setActiveTab('tasks')} className={tabClasses('tasks')}>Tasks ({tasks.length})</button>
+             {visibleTabs.includes('summary') && <button onClick={() => setActiveTab('summary')} className={tabClasses('summary')}>Summary</button>}
+             {visibleTabs.includes('terms') && <button onClick={() => setActiveTab('terms')} className={tabClasses('terms')}>Terms & Contacts</button>}
+             {visibleTabs.includes('checklist') && <button onClick={() => setActiveTab('checklist')} className={tabClasses('checklist')}>Closing Checklist</button>}
+             {visibleTabs.includes('tasks') && <button onClick={() => setActiveTab('tasks')} className={tabClasses('tasks')}>Tasks ({tasks.length})</button>}
+             {visibleTabs.includes('activity') && <button onClick={() => setActiveTab('activity')} className={tabClasses('activity')}>Activity</button>}
           </div>
 
-          <div className="flex-grow overflow-y-auto pr-4 py-4 space-y-6 bg-slate-50 -mx-6 px-6">
+          <fieldset disabled={isReadOnly} className="flex-grow overflow-y-auto pr-4 py-4 space-y-6 bg-slate-50 -mx-6 px-6 min-w-0">
             {activeTab === 'summary' && (
               <div>
+                {deal.status === LOST_STAGE && deal.lost && (
+                  <div className="mb-6 p-4 bg-white rounded-lg border border-red-200">
+                    <h4 className="font-semibold text-red-600 mb-3">Post-Mortem <span className="text-sm font-normal text-slate-500">· lost at {deal.lost.fromStage}</span></h4>
+                    <LostDealFields record={deal.lost} onChange={lost => handleUpdate({ ...deal, lost })} />
+                  </div>
+                )}
                 <h4 className="font-semibold text-amber-600 mb-2 border-b border-slate-200 pb-1">Buy Box Fit Scorecard ({deal.sourcingResult.overallFitScore}%)</h4>
                 <div className="text-slate-700" dangerouslySetInnerHTML={renderMarkdown(deal.sourcingResult.scorecard)} />
                 <h4 className="font-semibold text-amber-600 mt-6 mb-2 border-b border-slate-200 pb-1">Key Insights & Red Flags</h4>
                 <div className="text-slate-700" dangerouslySetInnerHTML={renderMarkdown(deal.sourcingResult.keyInsights)} />
                 <h4 className="font-semibold text-amber-600 mt-6 mb-2 border-b border-slate-200 pb-1">Detailed Company Profile</h4>
                 <div className="text-slate-700" dangerouslySetInnerHTML={renderMarkdown(deal.sourcingResult.fullProfile)} />
+                {deal.sourcingResult.snapshot && (
+                  <>
+                    <h4 className="font-semibold text-amber-600 mt-6 mb-2 border-b border-slate-200 pb-1">Listing Snapshot</h4>
+                    <ListingSnapshotView snapshot={deal.sourcingResult.snapshot} />
+                  </>
+                )}
               </div>
             )}
             {activeTab === 'terms' && (
@@ -120,16 +176,22 @@ const DealDetailView: React.FC<{ deal: Deal, tasks: Task[], onClose: () => void,
                  <div>
                     <h4 className="font-semibold text-slate-800 mb-3">Key Terms</h4>
                     <div className="space-y-4">
-                        <label className="block text-sm text-slate-500">Purchase Price <input name="purchasePrice" value={currentDeal.keyTerms.purchasePrice} onChange={handleTermsChange} className="w-full bg-white text-slate-700 border border-slate-300 rounded-md py-2 px-3 text-sm mt-1" /></label>
-                        <label className="block text-sm text-slate-500">Deal Structure <input name="structure" value={currentDeal.keyTerms.structure} onChange={handleTermsChange} className="w-full bg-white text-slate-700 border border-slate-300 rounded-md py-2 px-3 text-sm mt-1" /></label>
-                        <label className="block text-sm text-slate-500">Seller Note Details <input name="sellerNote" value={currentDeal.keyTerms.sellerNote} onChange={handleTermsChange} className="w-full bg-white text-slate-700 border border-slate-300 rounded-md py-2 px-3 text-sm mt-1" /></label>
-                        <label className="block text-sm text-slate-500">NWC Peg <input name="nwcPeg" value={currentDeal.keyTerms.nwcPeg} onChange={handleTermsChange} className="w-full bg-white text-slate-700 border border-slate-300 rounded-md py-2 px-3 text-sm mt-1" /></label>
+                        <label className="block text-sm text-slate-500">Purchase Price <input name="purchasePrice" value={deal.keyTerms.purchasePrice} onChange={handleTermsChange} className="w-full bg-white text-slate-700 border border-slate-300 rounded-md py-2 px-3 text-sm mt-1" /></label>
+                        <label className="block text-sm text-slate-500">Deal Structure <input name="structure" value={deal.keyTerms.structure} onChange={handleTermsChange} className="w-full bg-white text-slate-700 border border-slate-300 rounded-md py-2 px-3 text-sm mt-1" /></label>
+                        <label className="block text-sm text-slate-500">Seller Note Details <input name="sellerNote" value={deal.keyTerms.sellerNote} onChange={handleTermsChange} className="w-full bg-white text-slate-700 border border-slate-300 rounded-md py-2 px-3 text-sm mt-1" /></label>
+                        <label className="block text-sm text-slate-500">NWC Peg <input name="nwcPeg" value={deal.keyTerms.nwcPeg} onChange={handleTermsChange} className="w-full bg-white text-slate-700 border border-slate-300 rounded-md py-2 px-3 text-sm mt-1" /></label>
+                    </div>
+                    <h4 className="font-semibold text-slate-800 mt-6 mb-3">Key Dates</h4>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        <label className="block text-sm text-slate-500">LOI Signed <input type="date" name="loiSigned" value={deal.timeline.loiSigned} onChange={handleTimelineChange} className="w-full bg-white text-slate-700 border border-slate-300 rounded-md py-2 px-3 text-sm mt-1" /></label>
+                        <label className="block text-sm text-slate-500">Diligence End <input type="date" name="diligenceEnd" value={deal.timeline.diligenceEnd} onChange={handleTimelineChange} className="w-full bg-white text-slate-700 border border-slate-300 rounded-md py-2 px-3 text-sm mt-1" /></label>
+                        <label className="block text-sm text-slate-500">Target Close <input type="date" name="targetClose" value={deal.timeline.targetClose} onChange={handleTimelineChange} className="w-full bg-white text-slate-700 border border-slate-300 rounded-md py-2 px-3 text-sm mt-1" /></label>
                     </div>
                  </div>
                  <div>
                     <h4 className="font-semibold text-slate-800 mb-3">Contacts</h4>
                     <div className="space-y-3">
-                        {currentDeal.contacts.map((contact, index) => (
+                        {deal.contacts.map((contact, index) => (
                            <div key={contact.id} className="p-3 bg-white rounded-lg border border-slate-200 grid grid-cols-2 gap-2 relative">
                                <input value={contact.name} onChange={(e) => handleContactChange(index, 'name', e.target.value)} placeholder="Name" className="col-span-1 bg-slate-100 text-slate-700 border-slate-200 rounded p-1 text-xs" />
                                <input value={contact.role} onChange={(e) => handleContactChange(index, 'role', e.target.value)} placeholder="Role" className="col-span-1 bg-slate-100 text-slate-700 border-slate-200 rounded p-1 text-xs" />
@@ -147,7 +209,7 @@ const DealDetailView: React.FC<{ deal: Deal, tasks: Task[], onClose: () => void,
               <div>
                 <h4 className="font-semibold text-slate-800 mb-3">Closing Checklist</h4>
                 <ul className="space-y-2">
-                    {currentDeal.closingChecklist.map(item => (
+                    {deal.closingChecklist.map(item => (
                        <li key={item.id} className={`p-3 rounded-lg transition-all ${item.completed ? 'bg-slate-100 opacity-70' : 'bg-white'}`}>
                            <label className="flex items-center gap-3 cursor-pointer">
                                <input type="checkbox" checked={item.completed} onChange={() => handleChecklistItemToggle(item.id)} className="h-5 w-5 rounded border-slate-300 bg-slate-100 text-amber-600 focus:ring-amber-500" />
@@ -176,7 +238,8 @@ const DealDetailView: React.FC<{ deal: Deal, tasks: Task[], onClose: () => void,
                 </form>
               </div>
             )}
-          </div>
+            {activeTab === 'activity' && <DealActivityTimeline deal={deal} />}
+          </fieldset>
 
           <div className="flex-shrink-0 pt-4 border-t border-slate-200 text-right">
             <button onClick={onClose} className="px-6 py-2.5 font-semibold text-gray-900 bg-amber-500 rounded-lg hover:bg-amber-600 transition">Close</button>
@@ -201,6 +264,9 @@ const InfoModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                         <p className="text-sm mt-1">The pipeline is a Kanban-style board, giving you a visual overview of every deal. Each column represents a key stage in the M&A lifecycle.</p>
                         <ul className="list-disc list-inside text-sm space-y-1 mt-2 pl-2">
                             <li><strong>Visual Stages:</strong> Track deals from "Identified" all the way to "Closed" or "Lost".</li>
+                            <li><strong>Custom Stages:</strong> Use "Stages..." to rename, add or reorder stages, and to set what a deal needs (e.g. a purchase price) before it can enter one.</li>
+                            <li><strong>Automations:</strong> Rules under "Automations..." add tasks and checklist items whenever a deal enters a stage, with due dates counted from a key date such as LOI Signed.</li>
+                            <li><strong>Lost Deals:</strong> Dropping a deal into "Lost" asks why, with notes and an optional date to revisit it. Reasons roll up into Pipeline Analytics.</li>
                             <li><strong>Drag & Drop:</strong> Simply drag a deal's card from one column to the next to update its status.</li>
                             <li><strong>Deal Details:</strong> Click on any deal card to open a comprehensive view with its full analysis, key terms, a closing checklist, and linked tasks.</li>
                         </ul>
@@ -236,10 +302,18 @@ const InfoModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
 };
 
 
-const DealPipeline: React.FC<DealPipelineProps> = ({ deals, setDeals, tasks, onAddTask }) => {
+const DealPipeline: React.FC<DealPipelineProps> = ({ deals, setDeals, pipelineStages, onSavePipelineStages, automationRules, setAutomationRules, onStageEntered, tasks, onAddTask, onOpenInAnalysisHub, role, actor }) => {
     const [selectedDeal, setSelectedDeal] = useState<Deal | null>(null);
     const [draggedDealId, setDraggedDealId] = useState<string | null>(null);
     const [isInfoModalOpen, setIsInfoModalOpen] = useState(false);
+    const [losingDealId, setLosingDealId] = useState<string | null>(null);
+    const losingDeal = deals.find(d => d.id === losingDealId);
+    const [blockedMove, setBlockedMove] = useState<{ companyName: string; stage: string; reasons: string[] } | null>(null);
+    const [isStagesModalOpen, setIsStagesModalOpen] = useState(false);
+    const [isAutomationsModalOpen, setIsAutomationsModalOpen] = useState(false);
+
+    // Deals whose stage no longer exists, e.g. removed on another device before its deals synced, stay visible here.
+    const unassignedDeals = deals.filter(d => !pipelineStages.some(stage => stage.name === d.status));
 
     const findNextTask = (dealId: string) => {
         return tasks.find(t => t.dealId === dealId && t.status !== 'Done');
@@ -250,10 +324,31 @@ const DealPipeline: React.FC<DealPipelineProps> = ({ deals, setDeals, tasks, onA
         e.dataTransfer.effectAllowed = 'move';
     };
 
-    const handleDrop = (e: React.DragEvent<HTMLDivElement>, newStatus: DealStatus) => {
+    // Built from the deal as rendered, outside the state updater, since automations also add tasks.
+    const moveDeal = (moved: Deal) => {
+        const automated = onStageEntered(moved);
+        setDeals(prevDeals => prevDeals.map(d => d.id === automated.id ? automated : d));
+    };
+
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>, target: PipelineStage) => {
         e.preventDefault();
+        const newStatus: DealStatus = target.name;
         if (draggedDealId) {
-            setDeals(prevDeals => prevDeals.map(d => d.id === draggedDealId ? { ...d, status: newStatus } : d));
+            const dragged = deals.find(d => d.id === draggedDealId);
+            const reasons = dragged && dragged.status !== newStatus ? unmetRequirements(dragged, target) : [];
+            if (dragged && reasons.length > 0) {
+                setBlockedMove({ companyName: dragged.companyName, stage: newStatus, reasons });
+                setDraggedDealId(null);
+                return;
+            }
+            setBlockedMove(null);
+            // Losing a deal asks why first; the card moves once a reason is given.
+            if (newStatus === LOST_STAGE && dragged && dragged.status !== LOST_STAGE) {
+                setLosingDealId(draggedDealId);
+                setDraggedDealId(null);
+                return;
+            }
+            if (dragged && dragged.status !== newStatus) moveDeal(applyDealChange(dragged, { ...dragged, status: newStatus }, actor));
             setDraggedDealId(null);
         }
     };
@@ -264,7 +359,12 @@ const DealPipeline: React.FC<DealPipelineProps> = ({ deals, setDeals, tasks, onA
     };
 
     const handleUpdateDeal = (updatedDeal: Deal) => {
-        setDeals(prev => prev.map(d => d.id === updatedDeal.id ? updatedDeal : d));
+        setDeals(prev => prev.map(d => d.id === updatedDeal.id ? applyDealChange(d, updatedDeal, actor) : d));
+    };
+
+    const handleMarkLost = (record: LostDealRecord) => {
+        if (losingDeal) moveDeal(applyDealChange(losingDeal, { ...losingDeal, status: LOST_STAGE, lost: record }, actor));
+        setLosingDealId(null);
     };
 
     return (
@@ -282,25 +382,67 @@ const DealPipeline: React.FC<DealPipelineProps> = ({ deals, setDeals, tasks, onA
                         </svg>
                     </button>
                 </div>
-                <p className="text-base text-slate-500 mt-1">Track your acquisition opportunities from identification to close.</p>
+                <div className="flex items-center gap-4">
+                    <p className="text-base text-slate-500 mt-1">Track your acquisition opportunities from identification to close.</p>
+                    {hasFullAccess(role) && (
+                        <>
+                            <button onClick={() => setIsStagesModalOpen(true)} className="flex-shrink-0 px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 rounded-md hover:bg-slate-200">Stages...</button>
+                            <button onClick={() => setIsAutomationsModalOpen(true)} className="flex-shrink-0 px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 rounded-md hover:bg-slate-200">Automations...</button>
+                        </>
+                    )}
+                </div>
             </div>
+            {blockedMove && (
+                <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex justify-between items-start gap-4">
+                    <div className="text-sm">
+                        <p className="font-semibold text-red-700">{blockedMove.companyName} can't move to {blockedMove.stage} yet.</p>
+                        <ul className="list-disc list-inside text-red-600 mt-1">
+                            {blockedMove.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                        </ul>
+                    </div>
+                    <button onClick={() => setBlockedMove(null)} className="text-red-400 hover:text-red-700 text-xl leading-none">&times;</button>
+                </div>
+            )}
             <div className="flex gap-4 overflow-x-auto pb-4 -mx-4 px-4">
-                {DEAL_STAGES.map(stage => (
+                {unassignedDeals.length > 0 && (
+                    <div className="bg-amber-50 rounded-lg p-3 w-72 flex-shrink-0 border-t-4 border-amber-400">
+                        <h3 className="font-semibold text-slate-700 text-center">Unassigned ({unassignedDeals.length})</h3>
+                        <p className="text-xs text-slate-500 text-center mb-3 min-h-[1rem]">In a stage that no longer exists. Drag each deal to a current stage.</p>
+                        <div className="space-y-3 min-h-[200px]">
+                           {unassignedDeals.map(deal => (
+                               <div key={deal.id} title={`Was in "${deal.status}"`}>
+                                   <DealCard
+                                       deal={deal}
+                                       nextTask={findNextTask(deal.id)}
+                                       onSelect={() => setSelectedDeal(deal)}
+                                       onDragStart={(e) => handleDragStart(e, deal.id)}
+                                       draggable={role !== 'lender'}
+                                    />
+                               </div>
+                           ))}
+                        </div>
+                    </div>
+                )}
+                {pipelineStages.map(stage => (
                     <div 
-                        key={stage}
+                        key={stage.id}
                         onDrop={(e) => handleDrop(e, stage)}
                         onDragOver={handleDragOver}
                         className="bg-slate-100 rounded-lg p-3 w-72 flex-shrink-0 border-t-4 border-slate-300"
                     >
-                        <h3 className="font-semibold text-slate-700 mb-3 text-center">{stage} ({deals.filter(d => d.status === stage).length})</h3>
+                        <h3 className="font-semibold text-slate-700 text-center">{stage.name} ({deals.filter(d => d.status === stage.name).length})</h3>
+                        <p className="text-xs text-slate-500 text-center mb-3 min-h-[1rem]" title={stage.requirements.map(describeRequirement).join('\n')}>
+                            {stage.requirements.length > 0 && `Requires ${stage.requirements.length === 1 ? describeRequirement(stage.requirements[0]).toLowerCase() : `${stage.requirements.length} conditions`}`}
+                        </p>
                         <div className="space-y-3 min-h-[200px]">
-                           {deals.filter(d => d.status === stage).map(deal => (
+                           {deals.filter(d => d.status === stage.name).map(deal => (
                                <DealCard 
                                    key={deal.id} 
                                    deal={deal} 
                                    nextTask={findNextTask(deal.id)}
                                    onSelect={() => setSelectedDeal(deal)}
                                    onDragStart={(e) => handleDragStart(e, deal.id)}
+                                   draggable={role !== 'lender'}
                                 />
                            ))}
                         </div>
@@ -310,11 +452,33 @@ const DealPipeline: React.FC<DealPipelineProps> = ({ deals, setDeals, tasks, onA
 
             {selectedDeal && (
                 <DealDetailView
-                    deal={selectedDeal}
+                    deal={deals.find(d => d.id === selectedDeal.id) ?? selectedDeal}
                     tasks={tasks.filter(t => t.dealId === selectedDeal.id)}
                     onClose={() => setSelectedDeal(null)}
                     onUpdate={handleUpdateDeal}
                     onAddTask={onAddTask}
+                    onOpenInAnalysisHub={onOpenInAnalysisHub}
+                    role={role}
+                />
+            )}
+
+            {losingDeal && <LostDealModal deal={losingDeal} onConfirm={handleMarkLost} onCancel={() => setLosingDealId(null)} />}
+
+            {isStagesModalOpen && (
+                <PipelineStagesModal
+                    stages={pipelineStages}
+                    deals={deals}
+                    onSave={(stages, renames) => { onSavePipelineStages(stages, renames); setIsStagesModalOpen(false); }}
+                    onClose={() => setIsStagesModalOpen(false)}
+                />
+            )}
+
+            {isAutomationsModalOpen && (
+                <AutomationRulesModal
+                    rules={automationRules}
+                    stages={pipelineStages}
+                    onSave={rules => { setAutomationRules(rules); setIsAutomationsModalOpen(false); }}
+                    onClose={() => setIsAutomationsModalOpen(false)}
                 />
             )}
 
@@ -2,15 +2,20 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
 import { Task } from '../App';
+import { TeamRole, TeamMember, hasFullAccess } from '../storage/team';
 
 interface DealRoomTasksProps {
     tasks: Task[];
     setTasks: React.Dispatch<React.SetStateAction<Task[]>>;
+    /** Called with tasks that have just been marked Done, so their deals can log it. */
+    onTasksCompleted: (tasks: Task[]) => void;
+    role: TeamRole;
+    teamMembers: TeamMember[];
 }
 
 // --- Constants ---
 const STATUS_OPTIONS: string[] = ["To Do", "In Progress", "Under Review", "Blocked", "Waiting on Seller", "Needs Discussion", "Done"];
-const TASK_CATEGORIES: string[] = [
+export const TASK_CATEGORIES: string[] = [
     "Sourcing", 
     "Diligence-Financial", 
     "Diligence-Legal", 
@@ -24,11 +29,13 @@ const TASK_CATEGORIES: string[] = [
     "Integration-Quick Win",
     "General"
 ];
-const ASSIGNEE_ROLES = ["Buyer", "Legal", "CPA", "Lender", "Seller", "Other"];
+export const ASSIGNEE_ROLES = ["Buyer", "Legal", "CPA", "Lender", "Seller", "Other"];
 const PRIORITY_OPTIONS = ['High', 'Medium', 'Low'];
 
 
-const DealRoomTasks: React.FC<DealRoomTasksProps> = ({ tasks, setTasks }) => {
+const DealRoomTasks: React.FC<DealRoomTasksProps> = ({ tasks, setTasks, onTasksCompleted, role, teamMembers }) => {
+  // Advisors can work the tasks assigned to them but not add, delete or reassign tasks.
+  const canManageTasks = hasFullAccess(role);
   const [newTaskTitle, setNewTaskTitle] = useState('');
   const [newCategory, setNewCategory] = useState<string>(TASK_CATEGORIES[TASK_CATEGORIES.length - 1]);
   const [newDueDate, setNewDueDate] = useState<string>('');
@@ -82,7 +89,9 @@ const DealRoomTasks: React.FC<DealRoomTasksProps> = ({ tasks, setTasks }) => {
   };
 
   const handleUpdateTask = (updatedTask: Task) => {
+    const previous = tasks.find(task => task.id === updatedTask.id);
     setTasks(prevTasks => prevTasks.map(task => (task.id === updatedTask.id ? updatedTask : task)));
+    if (previous && previous.status !== 'Done' && updatedTask.status === 'Done') onTasksCompleted([updatedTask]);
   };
 
   const handleDeleteTask = (taskId: string) => {
@@ -127,6 +136,10 @@ const DealRoomTasks: React.FC<DealRoomTasksProps> = ({ tasks, setTasks }) => {
       if(editingTask) setEditingTask({...editingTask, [e.target.name]: e.target.value});
   }
 
+  const handleAssigneeEmailChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+      if(editingTask) setEditingTask({...editingTask, assigneeEmail: e.target.value || undefined});
+  }
+
   // --- Filtering ---
   const filteredTasks = useMemo(() => {
     const today = new Date();
@@ -198,6 +211,9 @@ const DealRoomTasks: React.FC<DealRoomTasksProps> = ({ tasks, setTasks }) => {
   const handleBulkUpdate = (field: keyof Task, value: any) => {
     if (!value) return;
     setTasks(prevTasks => prevTasks.map(task => selectedTaskIds.includes(task.id) ? { ...task, [field]: value } : task));
+    if (field === 'status' && value === 'Done') {
+      onTasksCompleted(tasks.filter(task => selectedTaskIds.includes(task.id) && task.status !== 'Done'));
+    }
     setSelectedTaskIds([]);
   };
   const handleBulkDelete = () => {
@@ -243,12 +259,12 @@ const DealRoomTasks: React.FC<DealRoomTasksProps> = ({ tasks, setTasks }) => {
         </div>
       </div>
 
-      <form onSubmit={handleAddTask} className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end mb-6">
+      {canManageTasks && <form onSubmit={handleAddTask} className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end mb-6">
         <input type="text" value={newTaskTitle} onChange={(e) => setNewTaskTitle(e.target.value)} placeholder="Enter new task title..." className="md:col-span-3 w-full px-4 py-3 text-base text-slate-700 bg-white border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500" />
         <select value={newCategory} onChange={(e) => setNewCategory(e.target.value)} className={commonSelectClasses}>{TASK_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}</select>
         <input type="date" value={newDueDate} onChange={(e) => setNewDueDate(e.target.value)} className={`${commonSelectClasses}`} />
         <button type="submit" className="px-8 py-3 font-semibold text-gray-900 bg-amber-500 rounded-lg hover:bg-amber-600 disabled:bg-slate-300 transition" disabled={!newTaskTitle.trim()}>Add Task</button>
-      </form>
+      </form>}
 
       <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-4">
         <select onChange={(e) => setStatusFilter(e.target.value)} className={commonSelectClasses}><option value="All">All Statuses</option>{STATUS_OPTIONS.map(s => <option key={s} value={s}>{s}</option>)}</select>
@@ -258,7 +274,7 @@ const DealRoomTasks: React.FC<DealRoomTasksProps> = ({ tasks, setTasks }) => {
         <select onChange={(e) => setDueDateFilter(e.target.value)} className={commonSelectClasses}><option value="All">All Due Dates</option><option value="Overdue">Overdue</option><option value="Today">Today</option><option value="This Week">This Week</option></select>
       </div>
 
-      {selectedTaskIds.length > 0 && viewMode === 'list' && (
+      {canManageTasks && selectedTaskIds.length > 0 && viewMode === 'list' && (
         <div className="bg-slate-100 border border-slate-200 rounded-lg p-3 my-4 flex flex-col sm:flex-row items-center gap-4">
             <span className="font-medium text-slate-700 text-sm flex-shrink-0">{selectedTaskIds.length} tasks selected</span>
             <div className="flex-grow grid grid-cols-2 sm:grid-cols-4 gap-3 w-full">
@@ -293,7 +309,10 @@ const DealRoomTasks: React.FC<DealRoomTasksProps> = ({ tasks, setTasks }) => {
                                     {task.title}
                                 </div>
                             </td>
-                            <td className="px-6 py-4"><span className="bg-slate-100 text-slate-600 text-xs font-medium px-2.5 py-1 rounded-full">{task.assignee}</span></td>
+                            <td className="px-6 py-4">
+                                <span className="bg-slate-100 text-slate-600 text-xs font-medium px-2.5 py-1 rounded-full">{task.assignee}</span>
+                                {task.assigneeEmail && <p className="text-xs text-slate-500 mt-1">{task.assigneeEmail}</p>}
+                            </td>
                             <td className={`px-6 py-4 ${isTaskOverdue(task) ? 'text-red-500 font-semibold' : ''}`}>{task.dueDate || 'N/A'}</td>
                             <td className="px-6 py-4"><span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(task.status)}`}>{task.status}</span></td>
                             <td className="px-6 py-4 text-right">
@@ -301,7 +320,7 @@ const DealRoomTasks: React.FC<DealRoomTasksProps> = ({ tasks, setTasks }) => {
                                   {isTaskOverdue(task) && <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-red-500" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-12a1 1 0 10-2 0v4a1 1 0 00.293.707l2.828 2.829a1 1 0 101.415-1.415L11 9.586V6z" clipRule="evenodd" /></svg>}
                                   {task.attachments.length > 0 && <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-slate-400" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M8 4a3 3 0 00-3 3v4a3 3 0 106 0V7a1 1 0 112 0v4a5 5 0 11-10 0V7a3 3 0 013-3z" clipRule="evenodd" /></svg>}
                                   <button onClick={() => openEditModal(task)} className="p-2 text-slate-500 hover:text-amber-600"><svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.536L16.732 3.732z" /></svg></button>
-                                  <button onClick={() => handleDeleteTask(task.id)} className="p-2 text-slate-500 hover:text-red-600"><svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg></button>
+                                  {canManageTasks && <button onClick={() => handleDeleteTask(task.id)} className="p-2 text-slate-500 hover:text-red-600"><svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg></button>}
                                 </div>
                             </td>
                         </tr>
@@ -343,9 +362,17 @@ const DealRoomTasks: React.FC<DealRoomTasksProps> = ({ tasks, setTasks }) => {
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
               <select name="status" value={editingTask.status} onChange={handleModalChange} className={commonSelectClasses}>{STATUS_OPTIONS.map(s=><option key={s} value={s}>{s}</option>)}</select>
               <select name="priority" value={editingTask.priority} onChange={handleModalChange} className={commonSelectClasses}>{PRIORITY_OPTIONS.map(p=><option key={p} value={p}>{p}</option>)}</select>
-              <select name="assignee" value={editingTask.assignee} onChange={handleModalChange} className={commonSelectClasses}>{ASSIGNEE_ROLES.map(r=><option key={r} value={r}>{r}</option>)}</select>
+              <select name="assignee" value={editingTask.assignee} onChange={handleModalChange} disabled={!canManageTasks} className={commonSelectClasses}>{ASSIGNEE_ROLES.map(r=><option key={r} value={r}>{r}</option>)}</select>
               <input name="dueDate" type="date" value={editingTask.dueDate || ''} onChange={handleModalChange} className={`${commonSelectClasses}`} />
             </div>
+            {canManageTasks && teamMembers.length > 0 && (
+              <label className="block text-sm text-slate-500 mb-4">Assign to team member
+                <select value={editingTask.assigneeEmail ?? ''} onChange={handleAssigneeEmailChange} className={`${commonSelectClasses} mt-1`}>
+                  <option value="">Not shared with a team member</option>
+                  {teamMembers.map(m => <option key={m.uid} value={m.email}>{m.email} ({m.role})</option>)}
+                </select>
+              </label>
+            )}
             <textarea name="description" value={editingTask.description} onChange={handleModalChange} rows={4} className={commonSelectClasses} placeholder="Add a description or notes..."></textarea>
             
             <div className="mt-4 p-4 rounded-lg bg-slate-50 border border-slate-200">
@@ -358,7 +385,7 @@ const DealRoomTasks: React.FC<DealRoomTasksProps> = ({ tasks, setTasks }) => {
             </div>
 
             <div className="flex justify-between items-center mt-6">
-                <button type="button" onClick={() => handleDeleteTask(editingTask.id)} className="px-5 py-2.5 font-medium text-red-600 rounded-lg hover:bg-red-50 transition">Delete Task</button>
+                {canManageTasks ? <button type="button" onClick={() => handleDeleteTask(editingTask.id)} className="px-5 py-2.5 font-medium text-red-600 rounded-lg hover:bg-red-50 transition">Delete Task</button> : <span />}
                 <div className="flex justify-end gap-3">
                     <button onClick={() => setIsModalOpen(false)} className="px-5 py-2.5 font-medium text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 transition">Cancel</button>
                     <button onClick={handleSaveChanges} className="px-5 py-2.5 font-semibold text-gray-900 bg-amber-500 rounded-lg hover:bg-amber-600 transition">Save Changes</button>
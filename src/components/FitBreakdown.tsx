@@ -0,0 +1,55 @@
+import React from 'react';
+import { FitScoreBreakdown, ScoreSource } from '../utils/fitScoring';
+
+const SOURCE_LABELS: Record<ScoreSource, string> = {
+  facts: 'Listing data',
+  model: 'AI assessment',
+  unknown: 'Unknown',
+};
+
+const creditColor = (credit: number) =>
+  credit >= 0.75 ? 'bg-green-500' : credit >= 0.4 ? 'bg-yellow-500' : 'bg-red-500';
+
+/** Per-criterion explanation of a fit score: weight, credit earned, and why. */
+const FitBreakdown: React.FC<{ breakdown: FitScoreBreakdown }> = ({ breakdown }) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-slate-500 border-b border-slate-200">
+          <th className="py-2 pr-3 font-medium">Criterion</th>
+          <th className="py-2 pr-3 font-medium text-right">Weight</th>
+          <th className="py-2 pr-3 font-medium">Credit</th>
+          <th className="py-2 pr-3 font-medium">Based On</th>
+          <th className="py-2 font-medium">Why</th>
+        </tr>
+      </thead>
+      <tbody>
+        {breakdown.criteria.map(criterion => (
+          <tr key={criterion.key} className="border-b border-slate-100 align-top">
+            <td className="py-2 pr-3 font-medium text-slate-800">{criterion.label}</td>
+            <td className="py-2 pr-3 text-right">{criterion.weight}</td>
+            <td className="py-2 pr-3">
+              <div className="flex items-center gap-2">
+                <div className="w-16 h-2 bg-slate-200 rounded-full overflow-hidden">
+                  <div className={`h-full ${creditColor(criterion.credit)}`} style={{ width: `${Math.round(criterion.credit * 100)}%` }} />
+                </div>
+                <span className="text-xs text-slate-600">{Math.round(criterion.credit * 100)}%</span>
+              </div>
+            </td>
+            <td className="py-2 pr-3 text-xs text-slate-500 whitespace-nowrap">{SOURCE_LABELS[criterion.source]}</td>
+            <td className="py-2 text-slate-600">{criterion.explanation}</td>
+          </tr>
+        ))}
+      </tbody>
+      <tfoot>
+        <tr className="text-slate-700 font-semibold">
+          <td className="pt-2 pr-3">Total</td>
+          <td className="pt-2 pr-3 text-right">{breakdown.possiblePoints}</td>
+          <td className="pt-2 pr-3" colSpan={3}>{breakdown.achievedPoints.toFixed(1)} points ({breakdown.score}%)</td>
+        </tr>
+      </tfoot>
+    </table>
+  </div>
+);
+
+export default FitBreakdown;
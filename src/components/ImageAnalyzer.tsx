@@ -1,6 +1,6 @@
 
 import React, { useState } from 'react';
-import { GoogleGenAI } from "@google/genai";
+import { aiClient, aiErrorMessage } from "../ai/client";
 import { renderMarkdown } from '../utils/markdownRenderer';
 
 // Helper function to convert a File to a base64 string
@@ -26,7 +26,12 @@ interface AnalyzerState {
   isLoading: boolean;
 }
 
-const ImageAnalyzer: React.FC = () => {
+interface ImageAnalyzerProps {
+  /** The selected deal workspace, if any; AI usage is attributed to it. */
+  dealId?: string;
+}
+
+const ImageAnalyzer: React.FC<ImageAnalyzerProps> = ({ dealId }) => {
   const [state, setState] = useState<AnalyzerState>({
     imageFile: null,
     imagePreviewUrl: null,
@@ -70,7 +75,6 @@ const ImageAnalyzer: React.FC = () => {
     setState(prevState => ({ ...prevState, isLoading: true, analysisResult: '', error: '' }));
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
       const base64Image = await fileToBase64(state.imageFile);
 
       const imagePart = {
@@ -84,9 +88,11 @@ const ImageAnalyzer: React.FC = () => {
         text: state.prompt,
       };
 
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: { parts: [textPart, imagePart] },
+      const response = await aiClient.generate({
+        feature: 'imageAnalyzer',
+        dealId,
+        tier: 'fast',
+        contents: [textPart, imagePart],
       });
 
       setState(prevState => ({
@@ -100,7 +106,7 @@ const ImageAnalyzer: React.FC = () => {
       setState(prevState => ({
         ...prevState,
         isLoading: false,
-        error: "An error occurred during analysis. Please try another image or prompt.",
+        error: aiErrorMessage(error, "An error occurred during analysis. Please try another image or prompt."),
       }));
     }
   };
@@ -0,0 +1,58 @@
+import React from 'react';
+import { ValuationMetrics, ValuationSettings, SBA_DEBT_SERVICE_RATE, SELLER_NOTE_RATE, describePriceFlag, formatMultiple } from '../sourcing/valuationMetrics';
+
+const PRICE_FLAG_STYLES = {
+  above: 'bg-red-50 text-red-700 border-red-200',
+  below: 'bg-blue-50 text-blue-700 border-blue-200',
+  within: 'bg-green-50 text-green-700 border-green-200',
+};
+
+const formatCurrency = (value: number | null) => (value === null ? 'N/A' : `$${Math.round(value).toLocaleString()}`);
+
+/** The multiples, DSCR and band flag shown on a result card. */
+export const ValuationSummary: React.FC<{ metrics: ValuationMetrics }> = ({ metrics }) => (
+  <div className="mb-3">
+    <div className="grid grid-cols-3 gap-2 text-center">
+      <div className="bg-slate-50 rounded-md py-1.5">
+        <p className="text-[11px] text-slate-500">SDE Multiple</p>
+        <p className="text-sm font-semibold text-slate-800">{formatMultiple(metrics.sdeMultiple)}</p>
+      </div>
+      <div className="bg-slate-50 rounded-md py-1.5">
+        <p className="text-[11px] text-slate-500">Rev. Multiple</p>
+        <p className="text-sm font-semibold text-slate-800">{formatMultiple(metrics.revenueMultiple)}</p>
+      </div>
+      <div className="bg-slate-50 rounded-md py-1.5">
+        <p className="text-[11px] text-slate-500">Quick DSCR</p>
+        <p className={`text-sm font-semibold ${metrics.dscr === null ? 'text-slate-800' : metrics.isDscrLow ? 'text-red-600' : 'text-green-600'}`}>{formatMultiple(metrics.dscr)}</p>
+      </div>
+    </div>
+    {metrics.priceFlag && metrics.priceFlag !== 'within' && (
+      <p className={`mt-2 text-xs font-medium border rounded px-2 py-1 ${PRICE_FLAG_STYLES[metrics.priceFlag]}`}>{describePriceFlag(metrics)}</p>
+    )}
+  </div>
+);
+
+/** The full working behind a result's implied valuation, for the analysis modal. */
+export const ValuationDetails: React.FC<{ metrics: ValuationMetrics; settings: ValuationSettings }> = ({ metrics, settings }) => (
+  <div className="space-y-3 text-sm text-slate-700">
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+      <div><p className="text-xs text-slate-500">Asking Price</p><p className="font-semibold">{formatCurrency(metrics.askingPrice)}</p></div>
+      <div><p className="text-xs text-slate-500">Revenue</p><p className="font-semibold">{formatCurrency(metrics.revenue)}</p></div>
+      <div><p className="text-xs text-slate-500">SDE / Cash Flow</p><p className="font-semibold">{formatCurrency(metrics.sde)}</p></div>
+      <div><p className="text-xs text-slate-500">Annual Debt Service</p><p className="font-semibold">{formatCurrency(metrics.annualDebtService)}</p></div>
+      <div><p className="text-xs text-slate-500">SDE Multiple</p><p className="font-semibold">{formatMultiple(metrics.sdeMultiple)}</p></div>
+      <div><p className="text-xs text-slate-500">Revenue Multiple</p><p className="font-semibold">{formatMultiple(metrics.revenueMultiple)}</p></div>
+      <div>
+        <p className="text-xs text-slate-500">Quick DSCR</p>
+        <p className={`font-semibold ${metrics.dscr === null ? '' : metrics.isDscrLow ? 'text-red-600' : 'text-green-600'}`}>{formatMultiple(metrics.dscr)}</p>
+      </div>
+    </div>
+    <p className={`text-xs font-medium border rounded px-2 py-1 inline-block ${metrics.priceFlag ? PRICE_FLAG_STYLES[metrics.priceFlag] : 'bg-slate-50 text-slate-600 border-slate-200'}`}>
+      {describePriceFlag(metrics)}
+    </p>
+    <p className="text-xs text-slate-500">
+      DSCR assumes {settings.loanPercent}% SBA financing at {SBA_DEBT_SERVICE_RATE * 100}% annual debt service and a {settings.sellerNotePercent}% seller note at {SELLER_NOTE_RATE * 100}% interest-only,
+      against SDE less a ${settings.ownerSalary.toLocaleString()} owner salary. Flagged below {settings.minDscr.toFixed(2)}x.
+    </p>
+  </div>
+);
@@ -0,0 +1,15 @@
+import React from 'react';
+import { ListingSnapshot, describeSnapshot } from '../sourcing/snapshot';
+
+/** The captured listing text, collapsed by default since it can be long. */
+const ListingSnapshotView: React.FC<{ snapshot: ListingSnapshot }> = ({ snapshot }) => (
+  <details className="bg-white border border-slate-200 rounded-lg">
+    <summary className="cursor-pointer px-4 py-2 text-sm text-slate-600">
+      {snapshot.pageTitle && <span className="font-medium text-slate-800">{snapshot.pageTitle} · </span>}
+      {describeSnapshot(snapshot)}
+    </summary>
+    <pre className="px-4 py-3 border-t border-slate-200 text-xs text-slate-700 whitespace-pre-wrap font-sans max-h-96 overflow-y-auto">{snapshot.text}</pre>
+  </details>
+);
+
+export default ListingSnapshotView;
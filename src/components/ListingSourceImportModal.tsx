@@ -0,0 +1,126 @@
+import React, { useMemo, useState } from 'react';
+import { FoundListing } from '../sourcing/analyzeListing';
+import { normalizeListingUrl } from '../sourcing/dedup';
+import { LISTING_SOURCES, ListingSource, SourceFile, SourceFileResult, readSourceFile } from '../sourcing/listingSources';
+
+interface ListingSourceImportModalProps {
+  /** Normalized URLs of listings already in the results, which start unselected. */
+  knownUrls: Set<string>;
+  onQueue: (listings: FoundListing[]) => void;
+  onClose: () => void;
+}
+
+interface LoadedFile {
+  file: SourceFile;
+  result: SourceFileResult;
+}
+
+/** Pick saved marketplace pages, feeds or email digests and queue the listings found in them. */
+const ListingSourceImportModal: React.FC<ListingSourceImportModalProps> = ({ knownUrls, onQueue, onClose }) => {
+  const [loaded, setLoaded] = useState<LoadedFile[]>([]);
+  const [toggled, setToggled] = useState<Set<string>>(new Set());
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    const read = await Promise.all(files.map(async (f): Promise<SourceFile> => ({ name: f.name, content: await f.text() })));
+    setLoaded(prev => [...prev, ...read.map(file => ({ file, result: readSourceFile(file) }))]);
+  };
+
+  const handleChangeSource = (index: number, sourceId: ListingSource['id']) => {
+    const source = LISTING_SOURCES.find(s => s.id === sourceId) ?? null;
+    setLoaded(prev => prev.map((entry, i) => (i === index ? { ...entry, result: readSourceFile(entry.file, source) } : entry)));
+  };
+
+  // The same listing often turns up in more than one file; keep the first.
+  const listings = useMemo(() => {
+    const byUrl = new Map<string, FoundListing>();
+    loaded.forEach(({ result }) => result.listings.forEach(listing => {
+      const key = normalizeListingUrl(listing.url);
+      if (!byUrl.has(key)) byUrl.set(key, listing);
+    }));
+    return [...byUrl.entries()];
+  }, [loaded]);
+
+  // New listings start selected and known ones don't; a toggle flips that default.
+  const isSelected = (key: string) => knownUrls.has(key) === toggled.has(key);
+  const toggle = (key: string) => setToggled(prev => {
+    const next = new Set(prev);
+    if (next.has(key)) next.delete(key); else next.add(key);
+    return next;
+  });
+  const selected = listings.filter(([key]) => isSelected(key)).map(([, listing]) => listing);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white border border-slate-200 rounded-2xl p-6 w-full max-w-4xl max-h-[90vh] shadow-lg flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4 flex-shrink-0">
+          <div>
+            <h3 className="text-xl font-bold text-amber-600">Import from Saved Sources</h3>
+            <p className="text-sm text-slate-500">Listings are read from the files on this device; no AI search is used.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-2xl leading-none">&times;</button>
+        </div>
+
+        <div className="flex-shrink-0 space-y-3 mb-4">
+          <ul className="text-xs text-slate-500 space-y-1">
+            {LISTING_SOURCES.map(source => <li key={source.id}><strong className="text-slate-700">{source.label}:</strong> {source.description}</li>)}
+          </ul>
+          <label className="inline-block px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 transition cursor-pointer">
+            Choose Files...
+            <input type="file" multiple accept={[...new Set(LISTING_SOURCES.flatMap(s => s.accept.split(',')))].join(',')} onChange={handleFiles} className="hidden" />
+          </label>
+          {loaded.length > 0 && (
+            <ul className="space-y-2">
+              {loaded.map(({ file, result }, index) => (
+                <li key={`${file.name}-${index}`} className="flex items-center gap-3 text-sm bg-slate-50 border border-slate-200 rounded-md px-3 py-2">
+                  <span className="font-medium text-slate-800 truncate flex-grow">{file.name}</span>
+                  <select
+                    value={result.source?.id ?? ''}
+                    onChange={e => handleChangeSource(index, e.target.value as ListingSource['id'])}
+                    className="bg-white text-slate-700 border border-slate-300 rounded-md py-1 px-2 text-xs"
+                  >
+                    {!result.source && <option value="">Unrecognized</option>}
+                    {LISTING_SOURCES.map(source => <option key={source.id} value={source.id}>{source.label}</option>)}
+                  </select>
+                  {result.error
+                    ? <span className="text-xs text-red-600">{result.error}</span>
+                    : <span className="text-xs text-slate-500 whitespace-nowrap">{result.listings.length} listing{result.listings.length === 1 ? '' : 's'}</span>}
+                  <button onClick={() => setLoaded(prev => prev.filter((_, i) => i !== index))} className="text-xs text-slate-500 hover:text-red-600">Remove</button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex-grow overflow-y-auto border border-slate-200 rounded-lg">
+          {listings.length === 0 ? (
+            <p className="text-center text-sm text-slate-400 py-12">{loaded.length === 0 ? 'Listings found in your files will appear here.' : 'No listing links were found in these files.'}</p>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {listings.map(([key, listing]) => (
+                <li key={key} className="flex items-start gap-3 px-4 py-2 text-sm">
+                  <input type="checkbox" checked={isSelected(key)} onChange={() => toggle(key)} className="mt-1 accent-amber-500" />
+                  <div className="min-w-0 flex-grow">
+                    <p className="font-medium text-slate-800 truncate">{listing.title || new URL(listing.url).hostname}</p>
+                    <a href={listing.url} target="_blank" rel="noopener noreferrer" className="text-xs text-amber-600 hover:underline break-all">{listing.url}</a>
+                  </div>
+                  {knownUrls.has(key) && <span className="flex-shrink-0 text-xs px-2 py-0.5 rounded bg-slate-200 text-slate-600">Already in results</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 mt-4 flex-shrink-0">
+          <button onClick={onClose} className="px-6 py-3 font-medium text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 transition">Cancel</button>
+          <button onClick={() => onQueue(selected)} disabled={selected.length === 0} className="px-6 py-3 font-semibold text-gray-900 bg-amber-500 rounded-lg hover:bg-amber-600 disabled:bg-slate-400 disabled:cursor-not-allowed transition">
+            Queue {selected.length} for Analysis
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ListingSourceImportModal;
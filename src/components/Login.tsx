@@ -1,9 +1,19 @@
-import React from 'react';
-import { GoogleAuthProvider, signInWithPopup } from 'firebase/auth';
+import React, { useEffect } from 'react';
+import { GoogleAuthProvider, signInWithPopup, isSignInWithEmailLink, signInWithEmailLink } from 'firebase/auth';
 import { auth } from '../firebase/config';
 
 const Login: React.FC = () => {
 
+  // Team invites arrive as Firebase Auth email sign-in links.
+  useEffect(() => {
+    if (!isSignInWithEmailLink(auth, window.location.href)) return;
+    const email = window.prompt("Please confirm the email address your invite was sent to:");
+    if (!email) return;
+    signInWithEmailLink(auth, email.trim(), window.location.href)
+      .then(() => window.history.replaceState(null, '', window.location.origin))
+      .catch(error => console.error("Error completing email link sign-in:", error));
+  }, []);
+
   const handleGoogleSignIn = async () => {
     const provider = new GoogleAuthProvider();
     try {
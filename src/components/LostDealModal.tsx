@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Deal } from '../App';
+import { LOST_REASONS, LOST_REASON_LABELS, LostDealRecord, LostReason } from '../pipeline/lostReasons';
+
+const inputClasses = "w-full bg-white text-slate-700 border border-slate-300 rounded-md py-2 px-3 text-sm mt-1";
+
+/** A post-mortem being filled in; the reason stays unset until the user picks one. */
+type LostDealDraft = Omit<LostDealRecord, 'reason'> & { reason: LostReason | null };
+
+/** Reason, notes and revisit date; shared by the modal and the deal's post-mortem panel. */
+export const LostDealFields = <T extends LostDealDraft>({ record, onChange }: { record: T; onChange: (record: T) => void }) => (
+  <div className="space-y-4">
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      <label className="block text-sm text-slate-500">
+        Reason
+        <select value={record.reason ?? ''} onChange={e => onChange({ ...record, reason: e.target.value as LostReason })} className={inputClasses}>
+          {record.reason === null && <option value="" disabled>Choose a reason...</option>}
+          {LOST_REASONS.map(reason => <option key={reason} value={reason}>{LOST_REASON_LABELS[reason]}</option>)}
+        </select>
+      </label>
+      <label className="block text-sm text-slate-500">
+        Revisit On <span className="text-slate-400">(optional)</span>
+        <input type="date" value={record.revisitOn ?? ''} onChange={e => onChange({ ...record, revisitOn: e.target.value || null })} className={inputClasses} />
+      </label>
+    </div>
+    <label className="block text-sm text-slate-500">
+      Notes
+      <textarea value={record.notes} onChange={e => onChange({ ...record, notes: e.target.value })} rows={4} placeholder="What happened, and what would we do differently?" className={inputClasses} />
+    </label>
+  </div>
+);
+
+interface LostDealModalProps {
+  deal: Deal;
+  onConfirm: (record: LostDealRecord) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asks why a deal was lost before it moves to Lost. Keeps the notes and revisit date from an
+ * earlier post-mortem, but the reason must be picked each time so none is recorded by default.
+ */
+const LostDealModal: React.FC<LostDealModalProps> = ({ deal, onConfirm, onCancel }) => {
+  const [record, setRecord] = useState<LostDealDraft>(() => ({
+    reason: null,
+    notes: deal.lost?.notes ?? '',
+    revisitOn: deal.lost?.revisitOn ?? null,
+    fromStage: deal.status,
+    recordedAt: Date.now(),
+  }));
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onCancel}>
+      <div className="bg-white border border-slate-200 rounded-2xl p-6 w-full max-w-lg shadow-lg flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h3 className="text-xl font-bold text-amber-600">Mark {deal.companyName} as Lost</h3>
+            <p className="text-sm text-slate-500">Lost at {deal.status}. The reason feeds the pipeline's loss report.</p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-700 text-2xl leading-none">&times;</button>
+        </div>
+
+        <LostDealFields record={record} onChange={setRecord} />
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={onCancel} className="px-6 py-3 font-medium text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 transition">Cancel</button>
+          <button
+            onClick={() => record.reason && onConfirm({ ...record, reason: record.reason, notes: record.notes.trim() })}
+            disabled={!record.reason}
+            title={record.reason ? undefined : 'Choose a reason first'}
+            className="px-6 py-3 font-semibold text-gray-900 bg-amber-500 rounded-lg hover:bg-amber-600 disabled:bg-slate-400 disabled:cursor-not-allowed transition"
+          >Mark as Lost</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LostDealModal;
@@ -2,14 +2,18 @@
 import React, { useState } from 'react';
 import DealRoomTasks from './DealRoomTasks';
 import MandaChecklist from './MandaChecklist';
-import VirtualDealRoom from './VirtualDealRoom';
+import VirtualDealRoom, { Folder } from './VirtualDealRoom';
 import IntegrationHub, { IntegrationData } from './IntegrationHub';
 import { Task, Deal } from '../App';
+import { WorkspaceData } from '../storage/repository';
+import { TeamRole, TeamMember, hasFullAccess } from '../storage/team';
+import { WON_STAGE } from '../pipeline/stages';
 
 interface ManagementHubProps {
   // DealRoomTasks props
   tasks: Task[];
   setTasks: React.Dispatch<React.SetStateAction<Task[]>>;
+  onTasksCompleted: (tasks: Task[]) => void;
 
   // VirtualDealRoom & IntegrationHub props
   onAddTask: (taskTitle: string, taskDescription: string, category: string, dealId?: string) => void;
@@ -18,12 +22,22 @@ interface ManagementHubProps {
   deals: Deal[]; // closed deals
   integrationData: Record<string, IntegrationData>;
   setIntegrationData: React.Dispatch<React.SetStateAction<Record<string, IntegrationData>>>;
+
+  // VirtualDealRoom & MandaChecklist props
+  vdrFolders: Folder[] | null;
+  setVdrFolders: React.Dispatch<React.SetStateAction<Folder[] | null>>;
+  mandaChecklists: WorkspaceData['mandaChecklists'] | null;
+  setMandaChecklists: React.Dispatch<React.SetStateAction<WorkspaceData['mandaChecklists'] | null>>;
+
+  role: TeamRole;
+  teamMembers: TeamMember[];
 }
 
 type ManagementView = 'tasks' | 'checklist' | 'vdr' | 'integration';
 
 const ManagementHub: React.FC<ManagementHubProps> = (props) => {
   const [managementView, setManagementView] = useState<ManagementView>('tasks');
+  const showAllViews = hasFullAccess(props.role);
 
   const navButtonClasses = (view: ManagementView) => 
     `px-4 py-3 text-sm font-medium transition-colors ${
@@ -36,22 +50,29 @@ const ManagementHub: React.FC<ManagementHubProps> = (props) => {
     <div className="flex flex-col w-full">
       <nav className="flex justify-center flex-wrap border-b border-slate-200 mb-8 px-4 gap-x-4 sm:gap-x-8">
         <button onClick={() => setManagementView('tasks')} className={navButtonClasses('tasks')}>Deal Room Tasks</button>
-        <button onClick={() => setManagementView('checklist')} className={navButtonClasses('checklist')}>M&A Checklist</button>
-        <button onClick={() => setManagementView('vdr')} className={navButtonClasses('vdr')}>Virtual Deal Room</button>
-        <button onClick={() => setManagementView('integration')} className={navButtonClasses('integration')}>Integration Hub</button>
+        {showAllViews && (
+          <>
+            <button onClick={() => setManagementView('checklist')} className={navButtonClasses('checklist')}>M&A Checklist</button>
+            <button onClick={() => setManagementView('vdr')} className={navButtonClasses('vdr')}>Virtual Deal Room</button>
+            <button onClick={() => setManagementView('integration')} className={navButtonClasses('integration')}>Integration Hub</button>
+          </>
+        )}
       </nav>
       <main className="w-full">
         {managementView === 'tasks' && (
           <DealRoomTasks 
             tasks={props.tasks}
             setTasks={props.setTasks}
+            onTasksCompleted={props.onTasksCompleted}
+            role={props.role}
+            teamMembers={props.teamMembers}
           />
         )}
-        {managementView === 'checklist' && <MandaChecklist />}
-        {managementView === 'vdr' && <VirtualDealRoom onAddTask={props.onAddTask} />}
+        {managementView === 'checklist' && <MandaChecklist checklists={props.mandaChecklists} setChecklists={props.setMandaChecklists} />}
+        {managementView === 'vdr' && <VirtualDealRoom onAddTask={props.onAddTask} folders={props.vdrFolders} setFolders={props.setVdrFolders} />}
         {managementView === 'integration' && (
           <IntegrationHub 
-            deals={props.deals.filter(d => d.status === 'Closed')}
+            deals={props.deals.filter(d => d.status === WON_STAGE)}
             tasks={props.tasks}
             onAddTask={props.onAddTask}
             integrationData={props.integrationData}
@@ -0,0 +1,196 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Deal, DealStatus } from '../App';
+import { LOST_STAGE, PipelineStage, WON_STAGE, stageNames } from '../pipeline/stages';
+import { OutcomeDimension, monthlyCohorts, outcomesBy, stageConversions, stageVelocity } from '../pipeline/funnelAnalytics';
+import { LOST_REASON_LABELS, dealsToRevisit, isRevisitDue, summarizeLostReasons, unexplainedLosses } from '../pipeline/lostReasons';
+
+// Open stages take these in order; the palette repeats for long pipelines.
+const OPEN_STAGE_PALETTE = ['#cbd5e1', '#94a3b8', '#fcd34d', '#f59e0b', '#3b82f6', '#6366f1', '#a855f7', '#14b8a6'];
+
+const stageColors = (stages: DealStatus[]): Record<DealStatus, string> =>
+  Object.fromEntries(stages.map((stage, index) => [
+    stage,
+    stage === WON_STAGE ? '#10b981' : stage === LOST_STAGE ? '#ef4444' : OPEN_STAGE_PALETTE[index % OPEN_STAGE_PALETTE.length],
+  ]));
+
+const DIMENSIONS: { key: OutcomeDimension; label: string }[] = [
+  { key: 'source', label: 'Source Site' },
+  { key: 'industry', label: 'Industry' },
+  { key: 'fitBand', label: 'Fit Score' },
+];
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+const tooltipStyle = { backgroundColor: '#ffffff', border: '1px solid #e2e8f0' };
+
+/** Conversion, velocity, win/loss, cohort and lost-reason views of the deal pipeline. */
+const PipelineAnalytics: React.FC<{ deals: Deal[]; pipelineStages: PipelineStage[] }> = ({ deals, pipelineStages }) => {
+  const [dimension, setDimension] = useState<OutcomeDimension>('source');
+
+  const stages = useMemo(() => stageNames(pipelineStages), [pipelineStages]);
+  const colors = useMemo(() => stageColors(stages), [stages]);
+  const conversions = useMemo(() => stageConversions(deals, pipelineStages), [deals, pipelineStages]);
+  const velocity = useMemo(() => stageVelocity(deals, pipelineStages), [deals, pipelineStages]);
+  const outcomes = useMemo(() => outcomesBy(deals, dimension), [deals, dimension]);
+  const cohorts = useMemo(
+    () => monthlyCohorts(deals, pipelineStages).map(row => ({ month: row.month, ...row.counts })),
+    [deals, pipelineStages],
+  );
+  const hasHistory = velocity.some(stage => stage.sampleSize > 0);
+  const lostReasons = useMemo(
+    () => summarizeLostReasons(deals).map(row => ({ ...row, label: LOST_REASON_LABELS[row.reason], ...row.byStage })),
+    [deals],
+  );
+  const unexplained = useMemo(() => unexplainedLosses(deals), [deals]);
+  const revisits = useMemo(() => dealsToRevisit(deals), [deals]);
+
+  const cardClasses = "bg-white rounded-lg border border-slate-200 p-6";
+
+  if (deals.length === 0) {
+    return (
+      <div className="text-center py-16 text-slate-400 border-2 border-dashed border-slate-300 rounded-lg">
+        <p>Add deals to the pipeline to see conversion and velocity analytics.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+      <div className={cardClasses}>
+        <h3 className="text-lg font-semibold text-slate-800 mb-1">Stage Conversion</h3>
+        <p className="text-sm text-slate-500 mb-4">Deals that reached each stage, and the share that moved on to the next.</p>
+        <ResponsiveContainer width="100%" height={260}>
+          <BarChart data={conversions} layout="vertical" margin={{ left: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+            <XAxis type="number" allowDecimals={false} stroke="#64748b" fontSize={12} />
+            <YAxis type="category" dataKey="stage" stroke="#64748b" fontSize={12} width={80} />
+            <Tooltip contentStyle={tooltipStyle} />
+            <Bar dataKey="reached" name="Deals reached" fill="#f59e0b" />
+          </BarChart>
+        </ResponsiveContainer>
+        <ul className="mt-4 text-sm space-y-1">
+          {conversions.slice(0, -1).map((row, index) => (
+            <li key={row.stage} className="flex justify-between">
+              <span className="text-slate-600">{row.stage} &rarr; {conversions[index + 1].stage}</span>
+              <span className="font-semibold text-slate-800">{formatPercent(row.conversionToNext)}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className={cardClasses}>
+        <h3 className="text-lg font-semibold text-slate-800 mb-1">Stage Velocity</h3>
+        <p className="text-sm text-slate-500 mb-4">Median days in each stage before a deal moved on.</p>
+        {hasHistory ? (
+          <ResponsiveContainer width="100%" height={260}>
+            <BarChart data={velocity.map(row => ({ ...row, medianDays: row.medianDays === null ? 0 : Math.round(row.medianDays * 10) / 10 }))}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+              <XAxis dataKey="stage" stroke="#64748b" fontSize={12} />
+              <YAxis stroke="#64748b" fontSize={12} />
+              <Tooltip contentStyle={tooltipStyle} formatter={(value: any, _name: any, item: any) => [`${value} days (${item.payload.sampleSize} deals)`, 'Median']} />
+              <Bar dataKey="medianDays" name="Median days" fill="#3b82f6" />
+            </BarChart>
+          </ResponsiveContainer>
+        ) : (
+          <p className="text-sm text-slate-500 py-12 text-center">No deal has moved between stages since activity tracking began.</p>
+        )}
+      </div>
+
+      <div className={cardClasses}>
+        <div className="flex justify-between items-start mb-4 gap-4">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-800 mb-1">Win / Loss</h3>
+            <p className="text-sm text-slate-500">Closed vs. lost deals; win rate counts decided deals only.</p>
+          </div>
+          <div className="flex items-center gap-1 bg-slate-200 rounded-md p-1 flex-shrink-0">
+            {DIMENSIONS.map(d => (
+              <button key={d.key} onClick={() => setDimension(d.key)} className={`px-3 py-1 text-sm rounded ${dimension === d.key ? 'bg-amber-500 text-slate-900 font-semibold shadow-sm' : 'text-slate-600'}`}>{d.label}</button>
+            ))}
+          </div>
+        </div>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500 border-b border-slate-200">
+              <th className="py-2 pr-3 font-medium">{DIMENSIONS.find(d => d.key === dimension)?.label}</th>
+              <th className="py-2 pr-3 font-medium text-right">Won</th>
+              <th className="py-2 pr-3 font-medium text-right">Lost</th>
+              <th className="py-2 pr-3 font-medium text-right">Open</th>
+              <th className="py-2 font-medium text-right">Win Rate</th>
+            </tr>
+          </thead>
+          <tbody>
+            {outcomes.map(row => (
+              <tr key={row.key} className="border-b border-slate-100">
+                <td className="py-2 pr-3 text-slate-800 truncate max-w-[12rem]">{row.key}</td>
+                <td className="py-2 pr-3 text-right text-green-600">{row.won}</td>
+                <td className="py-2 pr-3 text-right text-red-600">{row.lost}</td>
+                <td className="py-2 pr-3 text-right text-slate-600">{row.open}</td>
+                <td className="py-2 text-right font-semibold text-slate-800">{formatPercent(row.winRate)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className={cardClasses}>
+        <h3 className="text-lg font-semibold text-slate-800 mb-1">Monthly Cohorts</h3>
+        <p className="text-sm text-slate-500 mb-4">Deals identified each month, by the stage they're in now.</p>
+        <ResponsiveContainer width="100%" height={260}>
+          <BarChart data={cohorts}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+            <XAxis dataKey="month" stroke="#64748b" fontSize={12} />
+            <YAxis allowDecimals={false} stroke="#64748b" fontSize={12} />
+            <Tooltip contentStyle={tooltipStyle} />
+            <Legend wrapperStyle={{ fontSize: "12px" }} />
+            {stages.map(stage => <Bar key={stage} dataKey={stage} stackId="cohort" fill={colors[stage]} />)}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className={`${cardClasses} xl:col-span-2`}>
+        <h3 className="text-lg font-semibold text-slate-800 mb-1">Lost Reasons</h3>
+        <p className="text-sm text-slate-500 mb-4">
+          Why deals were lost, by the stage they were lost at.
+          {unexplained > 0 && ` ${unexplained} lost deal${unexplained === 1 ? '' : 's'} predate reason tracking and aren't shown.`}
+        </p>
+        {lostReasons.length === 0 ? (
+          <p className="text-sm text-slate-500 py-12 text-center">No deal has been marked lost with a reason yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2">
+              <ResponsiveContainer width="100%" height={260}>
+                <BarChart data={lostReasons} layout="vertical" margin={{ left: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                  <XAxis type="number" allowDecimals={false} stroke="#64748b" fontSize={12} />
+                  <YAxis type="category" dataKey="label" stroke="#64748b" fontSize={12} width={110} />
+                  <Tooltip contentStyle={tooltipStyle} />
+                  <Legend wrapperStyle={{ fontSize: "12px" }} />
+                  {stages.filter(stage => lostReasons.some(row => row.byStage[stage])).map(stage => (
+                    <Bar key={stage} dataKey={stage} stackId="lost" fill={colors[stage]} />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div>
+              <h4 className="font-semibold text-slate-800 mb-2">To Revisit</h4>
+              {revisits.length === 0 ? (
+                <p className="text-sm text-slate-500">Nothing due in the next 30 days.</p>
+              ) : (
+                <ul className="text-sm space-y-2">
+                  {revisits.map(deal => (
+                    <li key={deal.id} className="flex justify-between gap-3">
+                      <span className="text-slate-800 truncate">{deal.companyName}</span>
+                      <span className={isRevisitDue(deal.lost!) ? 'text-amber-700 font-semibold flex-shrink-0' : 'text-slate-500 flex-shrink-0'}>{deal.lost!.revisitOn}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PipelineAnalytics;
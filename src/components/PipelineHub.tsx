@@ -2,7 +2,14 @@
 import React, { useState } from 'react';
 import SourcingEngine, { SourcingResult } from './SourcingEngine';
 import DealPipeline from './DealPipeline';
+import PipelineAnalytics from './PipelineAnalytics';
 import { BuyBoxCriteria, SavedProfile, Deal, Task } from '../App';
+import { TeamRole, hasFullAccess } from '../storage/team';
+import { AnalysisJob } from '../sourcing/jobQueue';
+import { SavedSearch, SearchInboxItem } from '../sourcing/savedSearches';
+import { ValuationSettings } from '../sourcing/valuationMetrics';
+import { PipelineStage } from '../pipeline/stages';
+import { AutomationRule } from '../pipeline/automation';
 
 interface PipelineHubProps {
   // Props for SourcingEngine
@@ -13,8 +20,16 @@ interface PipelineHubProps {
   onClearSourcingData: () => void;
   isSourcingGlobal: boolean;
   setIsSourcingGlobal: React.Dispatch<React.SetStateAction<boolean>>;
-  isAnalyzingGlobal: boolean;
-  setIsAnalyzingGlobal: React.Dispatch<React.SetStateAction<boolean>>;
+  analysisJobs: AnalysisJob[];
+  setAnalysisJobs: React.Dispatch<React.SetStateAction<AnalysisJob[]>>;
+  savedSearches: SavedSearch[];
+  setSavedSearches: React.Dispatch<React.SetStateAction<SavedSearch[]>>;
+  searchInbox: SearchInboxItem[];
+  setSearchInbox: React.Dispatch<React.SetStateAction<SearchInboxItem[]>>;
+  runningSearchId: string | null;
+  onRunSearch: (id: string) => void;
+  valuationSettings: ValuationSettings;
+  setValuationSettings: React.Dispatch<React.SetStateAction<ValuationSettings>>;
   sourcingProgressMessage: string;
   setSourcingProgressMessage: React.Dispatch<React.SetStateAction<string>>;
   savedProfiles: SavedProfile[];
@@ -27,13 +42,23 @@ interface PipelineHubProps {
   // Props for DealPipeline
   deals: Deal[];
   setDeals: React.Dispatch<React.SetStateAction<Deal[]>>;
+  pipelineStages: PipelineStage[];
+  onSavePipelineStages: (stages: PipelineStage[], renames: Record<string, string>) => void;
+  automationRules: AutomationRule[];
+  setAutomationRules: React.Dispatch<React.SetStateAction<AutomationRule[]>>;
+  onStageEntered: (deal: Deal) => Deal;
+  onOpenInAnalysisHub: (dealId: string) => void;
   tasks: Task[];
+  role: TeamRole;
+  /** Name recorded on deal activity. */
+  actor: string;
 }
 
-type PipelineView = 'sourcing' | 'pipeline';
+type PipelineView = 'sourcing' | 'pipeline' | 'analytics';
 
 const PipelineHub: React.FC<PipelineHubProps> = (props) => {
-  const [pipelineView, setPipelineView] = useState<PipelineView>('sourcing');
+  const canSource = hasFullAccess(props.role);
+  const [pipelineView, setPipelineView] = useState<PipelineView>(canSource ? 'sourcing' : 'pipeline');
 
   const navButtonClasses = (view: PipelineView) => 
     `px-4 py-3 text-sm font-medium transition-colors ${
@@ -45,12 +70,19 @@ const PipelineHub: React.FC<PipelineHubProps> = (props) => {
   return (
     <div className="flex flex-col w-full">
       <nav className="flex justify-center border-b border-slate-200 mb-8 px-4 gap-x-8">
-        <button onClick={() => setPipelineView('sourcing')} className={navButtonClasses('sourcing')}>
-          Deal Sourcing Engine
-        </button>
+        {canSource && (
+          <button onClick={() => setPipelineView('sourcing')} className={navButtonClasses('sourcing')}>
+            Deal Sourcing Engine
+          </button>
+        )}
         <button onClick={() => setPipelineView('pipeline')} className={navButtonClasses('pipeline')}>
           Deal Pipeline
         </button>
+        {canSource && (
+          <button onClick={() => setPipelineView('analytics')} className={navButtonClasses('analytics')}>
+            Pipeline Analytics
+          </button>
+        )}
       </nav>
       <main className="w-full">
         {pipelineView === 'sourcing' && (
@@ -62,14 +94,23 @@ const PipelineHub: React.FC<PipelineHubProps> = (props) => {
             onClear={props.onClearSourcingData}
             isSourcingGlobal={props.isSourcingGlobal}
             setIsSourcingGlobal={props.setIsSourcingGlobal}
-            isAnalyzingGlobal={props.isAnalyzingGlobal}
-            setIsAnalyzingGlobal={props.setIsAnalyzingGlobal}
+            analysisJobs={props.analysisJobs}
+            setAnalysisJobs={props.setAnalysisJobs}
+            savedSearches={props.savedSearches}
+            setSavedSearches={props.setSavedSearches}
+            searchInbox={props.searchInbox}
+            setSearchInbox={props.setSearchInbox}
+            runningSearchId={props.runningSearchId}
+            onRunSearch={props.onRunSearch}
+            valuationSettings={props.valuationSettings}
+            setValuationSettings={props.setValuationSettings}
             sourcingProgressMessage={props.sourcingProgressMessage}
             setSourcingProgressMessage={props.setSourcingProgressMessage}
             savedProfiles={props.savedProfiles}
             currentProfileName={props.currentProfileName}
             onLoadProfile={props.onLoadProfile}
             deals={props.deals}
+            setDeals={props.setDeals}
             onAddToPipeline={props.onAddToPipeline}
             websiteList={props.websiteList}
             setWebsiteList={props.setWebsiteList}
@@ -79,10 +120,19 @@ const PipelineHub: React.FC<PipelineHubProps> = (props) => {
           <DealPipeline
             deals={props.deals}
             setDeals={props.setDeals}
+            pipelineStages={props.pipelineStages}
+            onSavePipelineStages={props.onSavePipelineStages}
+            automationRules={props.automationRules}
+            setAutomationRules={props.setAutomationRules}
+            onStageEntered={props.onStageEntered}
             tasks={props.tasks}
             onAddTask={props.onAddTask}
+            onOpenInAnalysisHub={props.onOpenInAnalysisHub}
+            role={props.role}
+            actor={props.actor}
           />
         )}
+        {pipelineView === 'analytics' && <PipelineAnalytics deals={props.deals} pipelineStages={props.pipelineStages} />}
       </main>
     </div>
   );
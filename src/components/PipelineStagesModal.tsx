@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Deal, KeyTerms } from '../App';
+import { KEY_TERM_LABELS, LOST_STAGE, PipelineStage, StageRequirement, isFixedStage } from '../pipeline/stages';
+
+interface PipelineStagesModalProps {
+  stages: PipelineStage[];
+  deals: Deal[];
+  /** `renames` maps each renamed stage's old name to its new one. */
+  onSave: (stages: PipelineStage[], renames: Record<string, string>) => void;
+  onClose: () => void;
+}
+
+type DraftStage = PipelineStage & { savedName: string | null };
+
+// Identified by their saved name, so typing "Lost" into a new stage doesn't pin it.
+const isFixed = (stage: DraftStage | undefined) => !stage || (stage.savedName !== null && isFixedStage(stage.savedName));
+
+const inputClasses = "w-full bg-white text-slate-700 border border-slate-300 rounded-md py-2 px-3 text-sm";
+const KEY_TERM_FIELDS = Object.keys(KEY_TERM_LABELS) as (keyof KeyTerms)[];
+
+const keyTermFields = (stage: PipelineStage) =>
+  stage.requirements.flatMap(requirement => (requirement.type === 'keyTerms' ? requirement.fields : []));
+const checklistMinimum = (stage: PipelineStage) =>
+  stage.requirements.reduce((min, requirement) => (requirement.type === 'checklist' ? requirement.minPercent : min), 0);
+
+const buildRequirements = (fields: (keyof KeyTerms)[], minPercent: number): StageRequirement[] => [
+  ...(fields.length ? [{ type: 'keyTerms' as const, fields }] : []),
+  ...(minPercent > 0 ? [{ type: 'checklist' as const, minPercent }] : []),
+];
+
+/** Adds, renames, reorders and gates the workspace's pipeline stages. */
+const PipelineStagesModal: React.FC<PipelineStagesModalProps> = ({ stages, deals, onSave, onClose }) => {
+  const [draft, setDraft] = useState<DraftStage[]>(() => stages.map(stage => ({ ...stage, savedName: stage.name })));
+
+  const openStages = draft.filter(stage => !isFixed(stage));
+  const dealCount = (stage: DraftStage) => (stage.savedName === null ? 0 : deals.filter(deal => deal.status === stage.savedName).length);
+
+  const update = (id: string, changes: Partial<PipelineStage>) =>
+    setDraft(prev => prev.map(stage => (stage.id === id ? { ...stage, ...changes } : stage)));
+  const move = (id: string, offset: number) => setDraft(prev => {
+    const index = prev.findIndex(stage => stage.id === id);
+    const target = index + offset;
+    if (target < 0 || isFixed(prev[target])) return prev;
+    const next = [...prev];
+    [next[index], next[target]] = [next[target], next[index]];
+    return next;
+  });
+  const addStage = () => setDraft(prev => [
+    ...prev.filter(stage => !isFixed(stage)),
+    { id: crypto.randomUUID(), name: '', requirements: [], savedName: null },
+    ...prev.filter(isFixed),
+  ]);
+
+  const names = draft.map(stage => stage.name.trim());
+  const error = names.some(name => !name) ? 'Every stage needs a name.'
+    : new Set(names.map(name => name.toLowerCase())).size !== names.length ? 'Stage names must be unique.'
+    : openStages.length === 0 ? 'Keep at least one stage before Closed.'
+    : null;
+
+  const handleSave = () => {
+    const renames: Record<string, string> = {};
+    draft.forEach(stage => { if (stage.savedName !== null && stage.savedName !== stage.name.trim()) renames[stage.savedName] = stage.name.trim(); });
+    onSave(draft.map(({ savedName, ...stage }) => ({ ...stage, name: stage.name.trim() })), renames);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white border border-slate-200 rounded-2xl p-6 w-full max-w-3xl max-h-[90vh] shadow-lg flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4 flex-shrink-0">
+          <div>
+            <h3 className="text-xl font-bold text-amber-600">Pipeline Stages</h3>
+            <p className="text-sm text-slate-500">Stages apply to the whole workspace. A deal can't be moved into a stage until it meets that stage's requirements.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-2xl leading-none">&times;</button>
+        </div>
+
+        <ol className="flex-grow overflow-y-auto space-y-3 pr-2">
+          {draft.map((stage, index) => {
+            const fixed = isFixed(stage);
+            const fields = keyTermFields(stage);
+            const minPercent = checklistMinimum(stage);
+            const count = dealCount(stage);
+            return (
+              <li key={stage.id} className="p-4 bg-slate-50 rounded-lg border border-slate-200 space-y-3">
+                <div className="flex items-center gap-2">
+                  <input value={stage.name} onChange={e => update(stage.id, { name: e.target.value })} disabled={fixed} placeholder="e.g. Management Meeting" className={`${inputClasses} disabled:bg-slate-100 disabled:text-slate-500`} />
+                  <span className="text-xs text-slate-500 flex-shrink-0 w-16 text-right">{count} deal{count === 1 ? '' : 's'}</span>
+                  {!fixed && (
+                    <>
+                      <button onClick={() => move(stage.id, -1)} disabled={index === 0} className="px-2 py-1 text-slate-500 hover:text-slate-800 disabled:opacity-30" title="Move up">&uarr;</button>
+                      <button onClick={() => move(stage.id, 1)} className="px-2 py-1 text-slate-500 hover:text-slate-800 disabled:opacity-30" disabled={isFixed(draft[index + 1])} title="Move down">&darr;</button>
+                      <button
+                        onClick={() => setDraft(prev => prev.filter(s => s.id !== stage.id))}
+                        disabled={count > 0}
+                        title={count > 0 ? 'Move its deals to another stage first' : 'Remove stage'}
+                        className="text-xs text-slate-500 hover:text-red-600 disabled:opacity-40 disabled:hover:text-slate-500 flex-shrink-0"
+                      >Remove</button>
+                    </>
+                  )}
+                </div>
+                {stage.savedName !== LOST_STAGE && (
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-slate-600">
+                    <span className="font-medium text-slate-500">Requires:</span>
+                    {KEY_TERM_FIELDS.map(field => (
+                      <label key={field} className="flex items-center gap-1.5 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={fields.includes(field)}
+                          onChange={e => update(stage.id, { requirements: buildRequirements(e.target.checked ? [...fields, field] : fields.filter(f => f !== field), minPercent) })}
+                          className="accent-amber-500"
+                        />
+                        {KEY_TERM_LABELS[field]}
+                      </label>
+                    ))}
+                    <label className="flex items-center gap-1.5">
+                      Checklist &ge;
+                      <input
+                        type="number" min={0} max={100} value={minPercent}
+                        onChange={e => update(stage.id, { requirements: buildRequirements(fields, Math.min(100, Math.max(0, Number(e.target.value) || 0))) })}
+                        className="w-16 bg-white text-slate-700 border border-slate-300 rounded-md py-1 px-2 text-sm"
+                      />%
+                    </label>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+
+        <div className="flex justify-between items-center gap-3 mt-4 flex-shrink-0">
+          <div>
+            <button onClick={addStage} className="text-sm font-medium text-amber-600 hover:underline">+ Add Stage</button>
+            {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+          </div>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-6 py-3 font-medium text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 transition">Cancel</button>
+            <button onClick={handleSave} disabled={!!error} className="px-6 py-3 font-semibold text-gray-900 bg-amber-500 rounded-lg hover:bg-amber-600 disabled:bg-slate-400 disabled:cursor-not-allowed transition">Save</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PipelineStagesModal;
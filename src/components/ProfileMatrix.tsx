@@ -0,0 +1,94 @@
+import React, { useMemo, useState } from 'react';
+import { SavedProfile } from '../App';
+import { SourcingResult } from './SourcingEngine';
+import { ListingCluster } from '../sourcing/dedup';
+import { ProfileScore, bestFitProfile, scoreAgainstProfiles } from '../sourcing/profileScores';
+
+interface ProfileMatrixProps {
+  clusters: ListingCluster[];
+  profiles: SavedProfile[];
+  currentProfileName: string | null;
+  onView: (result: SourcingResult) => void;
+}
+
+interface MatrixRow {
+  cluster: ListingCluster;
+  scores: ProfileScore[];
+  best: ProfileScore | null;
+}
+
+const BEST = '__best__';
+
+const scoreColor = (score: number | null) =>
+  score === null ? 'text-slate-400' : score >= 75 ? 'text-green-600' : score >= 50 ? 'text-yellow-600' : 'text-red-600';
+
+/** Every listing's fit score against every saved profile, with each listing's best fit marked. */
+const ProfileMatrix: React.FC<ProfileMatrixProps> = ({ clusters, profiles, currentProfileName, onView }) => {
+  const [sortBy, setSortBy] = useState(BEST);
+
+  const rows = useMemo(() => clusters.map((cluster): MatrixRow => {
+    const scores = scoreAgainstProfiles(cluster.primary, profiles);
+    return { cluster, scores, best: bestFitProfile(scores) };
+  }), [clusters, profiles]);
+
+  const sorted = useMemo(() => {
+    const sortScore = (row: MatrixRow) =>
+      (sortBy === BEST ? row.best?.score : row.scores.find(s => s.profileName === sortBy)?.score) ?? -1;
+    return [...rows].sort((a, b) => sortScore(b) - sortScore(a));
+  }, [rows, sortBy]);
+
+  const bestCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    rows.forEach(row => row.best && counts.set(row.best.profileName, (counts.get(row.best.profileName) ?? 0) + 1));
+    return counts;
+  }, [rows]);
+
+  if (profiles.length === 0) {
+    return <p className="text-center py-16 text-slate-400 border-2 border-dashed border-slate-300 rounded-lg">Save a Buy Box profile to compare listings across profiles.</p>;
+  }
+
+  const headerClasses = (key: string) =>
+    `py-2 px-3 font-medium text-right cursor-pointer select-none whitespace-nowrap ${sortBy === key ? 'text-amber-600' : 'text-slate-500 hover:text-slate-800'}`;
+
+  return (
+    <div className="overflow-x-auto border border-slate-200 rounded-lg">
+      <table className="w-full text-sm">
+        <thead className="bg-slate-50">
+          <tr className="border-b border-slate-200">
+            <th className="py-2 px-3 font-medium text-left text-slate-500">Listing</th>
+            {profiles.map(profile => (
+              <th key={profile.name} onClick={() => setSortBy(profile.name)} className={headerClasses(profile.name)} title={`Sort by ${profile.name}`}>
+                {profile.name}{profile.name === currentProfileName && <span className="ml-1 text-xs font-normal text-slate-400">(current)</span>}
+                <span className="block text-xs font-normal text-slate-400">Best fit for {bestCounts.get(profile.name) ?? 0}</span>
+              </th>
+            ))}
+            <th onClick={() => setSortBy(BEST)} className={headerClasses(BEST)}>Best Fit</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map(({ cluster, scores, best }) => (
+            <tr key={cluster.companyId} className="border-b border-slate-100 hover:bg-slate-50">
+              <td className="py-2 px-3 max-w-xs">
+                <button onClick={() => onView(cluster.primary)} disabled={!!cluster.primary.error} className="font-medium text-slate-800 hover:text-amber-600 text-left truncate block max-w-full disabled:hover:text-slate-800">
+                  {cluster.primary.title || cluster.primary.url}
+                </button>
+              </td>
+              {profiles.map(profile => {
+                const entry = scores.find(s => s.profileName === profile.name);
+                const isBest = best !== null && best.profileName === profile.name;
+                return (
+                  <td key={profile.name} className={`py-2 px-3 text-right font-mono ${isBest ? 'bg-amber-50 font-bold' : ''} ${scoreColor(entry?.score ?? null)}`}>
+                    {entry?.score != null ? `${entry.score}%` : '—'}
+                  </td>
+                );
+              })}
+              <td className="py-2 px-3 text-right text-slate-700 whitespace-nowrap">{best ? best.profileName : <span className="text-slate-400">Not analyzed</span>}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ProfileMatrix;
@@ -0,0 +1,118 @@
+import React, { useMemo, useState } from 'react';
+import { BuyBoxCriteria, Deal, SavedProfile } from '../App';
+import { SourcingResult } from './SourcingEngine';
+import { ScoreChange, planRescore, scoreDelta } from '../sourcing/rescore';
+
+interface RescoreModalProps {
+  buyBox: BuyBoxCriteria;
+  currentProfileName: string | null;
+  savedProfiles: SavedProfile[];
+  results: SourcingResult[];
+  deals: Deal[];
+  /** Called with the Buy Box to re-score everything against. */
+  onApply: (buyBox: BuyBoxCriteria) => void;
+  onClose: () => void;
+}
+
+const CURRENT = '__current__';
+
+const formatScore = (score: number | null) => (score === null ? 'N/A' : `${score}%`);
+const formatPoints = (points: number) => `${points > 0 ? '+' : ''}${points.toFixed(1)} pts`;
+
+const ChangeRow: React.FC<{ change: ScoreChange }> = ({ change }) => {
+  const delta = scoreDelta(change);
+  return (
+    <li className="px-4 py-3">
+      <div className="flex items-center gap-3 text-sm">
+        <span className={`flex-shrink-0 text-xs px-2 py-0.5 rounded ${change.location === 'pipeline' ? 'bg-blue-100 text-blue-700' : 'bg-slate-200 text-slate-600'}`}>
+          {change.location === 'pipeline' ? 'Pipeline' : 'Results'}
+        </span>
+        <span className="font-medium text-slate-800 truncate flex-grow">{change.title}</span>
+        <span className="flex-shrink-0 text-slate-500">{formatScore(change.before)} → <strong className="text-slate-800">{formatScore(change.after)}</strong></span>
+        <span className={`flex-shrink-0 w-12 text-right font-semibold ${delta > 0 ? 'text-green-600' : delta < 0 ? 'text-red-600' : 'text-slate-400'}`}>
+          {delta > 0 ? `+${delta}` : delta}
+        </span>
+      </div>
+      {delta !== 0 && change.shifts.length > 0 && (
+        <ul className="mt-1 ml-16 space-y-0.5 text-xs text-slate-500">
+          {change.shifts.slice(0, 3).map(shift => (
+            <li key={shift.key}>
+              <span className={shift.after > shift.before ? 'text-green-600' : 'text-red-600'}>{formatPoints(shift.after - shift.before)}</span>{' '}
+              <strong className="text-slate-600">{shift.label}:</strong> {shift.explanation}
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+/** Previews how every stored score would move against a Buy Box before re-scoring them. */
+const RescoreModal: React.FC<RescoreModalProps> = ({ buyBox, currentProfileName, savedProfiles, results, deals, onApply, onClose }) => {
+  const [profileName, setProfileName] = useState(CURRENT);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const targetBuyBox = profileName === CURRENT ? buyBox : savedProfiles.find(p => p.name === profileName)?.criteria ?? buyBox;
+  const plan = useMemo(() => planRescore(results, deals, targetBuyBox), [results, deals, targetBuyBox]);
+
+  const moved = plan.changes.filter(change => scoreDelta(change) !== 0).sort((a, b) => scoreDelta(b) - scoreDelta(a));
+  const up = moved.filter(change => scoreDelta(change) > 0).length;
+  const unchanged = plan.changes.filter(change => scoreDelta(change) === 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white border border-slate-200 rounded-2xl p-6 w-full max-w-4xl max-h-[90vh] shadow-lg flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4 flex-shrink-0">
+          <div>
+            <h3 className="text-xl font-bold text-amber-600">Re-score Results</h3>
+            <p className="text-sm text-slate-500">Applies a Buy Box's weights and thresholds to every result and pipeline deal without re-running the AI analysis.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-2xl leading-none">&times;</button>
+        </div>
+
+        <div className="flex-shrink-0 space-y-3 mb-4">
+          <div className="flex items-center gap-3">
+            <label htmlFor="rescoreProfile" className="text-sm font-medium text-slate-500">Score against</label>
+            <select id="rescoreProfile" value={profileName} onChange={e => setProfileName(e.target.value)} className="bg-white text-slate-800 border border-slate-300 rounded-md py-2 px-3 text-sm">
+              <option value={CURRENT}>Current Buy Box{currentProfileName ? ` (${currentProfileName})` : ''}</option>
+              {savedProfiles.filter(p => p.name !== currentProfileName).map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+            </select>
+          </div>
+          <p className="text-sm text-slate-600">
+            <span className="text-green-600 font-semibold">{up} up</span> · <span className="text-red-600 font-semibold">{moved.length - up} down</span> · {unchanged.length} unchanged
+            {plan.skipped > 0 && ` · ${plan.skipped} without a stored analysis can't be re-scored`}
+          </p>
+          <p className="text-xs text-slate-500">
+            Qualitative criteria keep the Yes/No verdicts from the original analysis. If you changed what they ask for (e.g. geography or industry), re-analyze those listings to judge them again.
+          </p>
+        </div>
+
+        <div className="flex-grow overflow-y-auto border border-slate-200 rounded-lg">
+          {moved.length === 0 && !showUnchanged ? (
+            <p className="text-center text-sm text-slate-400 py-12">No scores would change.</p>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {moved.map(change => <ChangeRow key={`${change.location}-${change.id}`} change={change} />)}
+              {showUnchanged && unchanged.map(change => <ChangeRow key={`${change.location}-${change.id}`} change={change} />)}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex justify-between items-center gap-3 mt-4 flex-shrink-0">
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input type="checkbox" checked={showUnchanged} onChange={e => setShowUnchanged(e.target.checked)} className="accent-amber-500" />
+            Show unchanged
+          </label>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-6 py-3 font-medium text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 transition">Cancel</button>
+            <button onClick={() => onApply(targetBuyBox)} disabled={moved.length === 0} className="px-6 py-3 font-semibold text-gray-900 bg-amber-500 rounded-lg hover:bg-amber-600 disabled:bg-slate-400 disabled:cursor-not-allowed transition">
+              Apply New Scores
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RescoreModal;
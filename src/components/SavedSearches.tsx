@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { SavedProfile } from '../App';
+import { SourcingResult } from './SourcingEngine';
+import { normalizeListingUrl } from '../sourcing/dedup';
+import { SavedSearch, SearchInboxItem, SCHEDULE_OPTIONS, nextRunAt, unreadCount } from '../sourcing/savedSearches';
+
+interface SavedSearchesProps {
+  searches: SavedSearch[];
+  setSearches: React.Dispatch<React.SetStateAction<SavedSearch[]>>;
+  inbox: SearchInboxItem[];
+  setInbox: React.Dispatch<React.SetStateAction<SearchInboxItem[]>>;
+  savedProfiles: SavedProfile[];
+  currentProfileName: string | null;
+  /** The search scope currently entered in the Sourcing Engine, offered for saving. */
+  industries: string;
+  geographies: string;
+  runningSearchId: string | null;
+  onRunSearch: (id: string) => void;
+  sourcingResults: SourcingResult[];
+}
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+/** Saved searches with their schedules, and the inbox of listings they found that weren't seen before. */
+const SavedSearches: React.FC<SavedSearchesProps> = ({ searches, setSearches, inbox, setInbox, savedProfiles, currentProfileName, industries, geographies, runningSearchId, onRunSearch, sourcingResults }) => {
+  const [newName, setNewName] = useState('');
+  const [inboxFilter, setInboxFilter] = useState<string>('all');
+
+  const profileName = currentProfileName ?? savedProfiles[0]?.name ?? '';
+  const canSave = !!newName.trim() && !!industries.trim() && !!geographies.trim() && !!profileName;
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+    const search: SavedSearch = {
+      id: crypto.randomUUID(),
+      name: newName.trim(),
+      profileName,
+      industries: industries.trim(),
+      geographies: geographies.trim(),
+      intervalHours: 24,
+      createdAt: Date.now(),
+      seenUrls: [],
+    };
+    setSearches(prev => [...prev, search]);
+    setNewName('');
+  };
+
+  const updateSearch = (id: string, changes: Partial<SavedSearch>) =>
+    setSearches(prev => prev.map(search => (search.id === id ? { ...search, ...changes } : search)));
+
+  const handleDelete = (search: SavedSearch) => {
+    if (!window.confirm(`Delete the saved search "${search.name}"?`)) return;
+    setSearches(prev => prev.filter(s => s.id !== search.id));
+    setInbox(prev => prev.filter(item => item.searchId !== search.id));
+  };
+
+  const visibleInbox = inboxFilter === 'all' ? inbox : inbox.filter(item => item.searchId === inboxFilter);
+  const markRead = (ids: string[]) => setInbox(prev => prev.map(item => (ids.includes(item.id) ? { ...item, read: true } : item)));
+  const resultFor = (url: string) => {
+    const normalized = normalizeListingUrl(url);
+    return sourcingResults.find(result => normalizeListingUrl(result.url) === normalized);
+  };
+  const searchName = (id: string) => searches.find(search => search.id === id)?.name ?? 'Deleted search';
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-x-8 gap-y-6 mb-6">
+      <div className="p-4 bg-slate-50 rounded-lg border border-slate-200">
+        <h3 className="font-semibold text-slate-800 mb-3">Saved Searches</h3>
+        {searches.length === 0 ? (
+          <p className="text-sm text-slate-500 mb-3">Save the search scope above to re-run it on a schedule and get alerted to new listings.</p>
+        ) : (
+          <ul className="space-y-2 mb-3">
+            {searches.map(search => {
+              const next = nextRunAt(search);
+              const unread = unreadCount(inbox, search.id);
+              return (
+                <li key={search.id} className="bg-white border border-slate-200 rounded-md p-3 text-sm">
+                  <div className="flex justify-between items-start gap-2">
+                    <div className="min-w-0">
+                      <p className="font-semibold text-slate-800 truncate">
+                        {search.name}
+                        {unread > 0 && <span className="ml-2 px-2 py-0.5 rounded-full bg-amber-500 text-slate-900 text-xs font-bold">{unread} new</span>}
+                      </p>
+                      <p className="text-xs text-slate-500 truncate">{search.industries} · {search.geographies}</p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <button onClick={() => onRunSearch(search.id)} disabled={!!runningSearchId} className="px-3 py-1 text-xs font-semibold text-gray-900 bg-amber-500 rounded-md hover:bg-amber-600 disabled:opacity-50 transition">
+                        {runningSearchId === search.id ? 'Running...' : 'Run Now'}
+                      </button>
+                      <button onClick={() => handleDelete(search)} className="text-xs text-slate-500 hover:text-red-600">Delete</button>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-2 text-xs text-slate-500">
+                    <select value={search.profileName} onChange={e => updateSearch(search.id, { profileName: e.target.value, lastRunError: undefined })} title="Buy Box profile" className="bg-white border border-slate-300 rounded py-1 px-2 text-xs">
+                      {!savedProfiles.some(profile => profile.name === search.profileName) && <option value={search.profileName}>{search.profileName} (deleted)</option>}
+                      {savedProfiles.map(profile => <option key={profile.name} value={profile.name}>{profile.name}</option>)}
+                    </select>
+                    <select value={search.intervalHours} onChange={e => updateSearch(search.id, { intervalHours: Number(e.target.value) })} className="bg-white border border-slate-300 rounded py-1 px-2 text-xs">
+                      {SCHEDULE_OPTIONS.map(option => <option key={option.hours} value={option.hours}>{option.label}</option>)}
+                    </select>
+                    <span>Last run: {search.lastRunAt ? formatDateTime(search.lastRunAt) : 'Never'}</span>
+                    {next !== null && <span>Next: {next <= Date.now() ? 'Due now' : formatDateTime(next)}</span>}
+                  </div>
+                  {search.lastRunError && <p className="mt-1 text-xs text-red-600">{search.lastRunError}</p>}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <form onSubmit={handleSave} className="flex gap-2">
+          <input type="text" value={newName} onChange={e => setNewName(e.target.value)} placeholder="Name this search..." className="flex-grow bg-white text-slate-700 border border-slate-300 rounded-md py-2 px-3 text-sm" />
+          <button type="submit" disabled={!canSave} className="px-4 py-2 text-sm font-medium text-slate-700 bg-slate-200 rounded-md hover:bg-slate-300 disabled:opacity-50 transition">Save Search</button>
+        </form>
+        <p className="mt-2 text-xs text-slate-400">Scheduled searches run while the app is open; missed runs catch up when it next opens.</p>
+      </div>
+
+      <div className="p-4 bg-slate-50 rounded-lg border border-slate-200 flex flex-col">
+        <div className="flex justify-between items-center mb-3 gap-2">
+          <h3 className="font-semibold text-slate-800">
+            New Since Last Run
+            {unreadCount(inbox) > 0 && <span className="ml-2 px-2 py-0.5 rounded-full bg-amber-500 text-slate-900 text-xs font-bold">{unreadCount(inbox)}</span>}
+          </h3>
+          <div className="flex items-center gap-2">
+            <select value={inboxFilter} onChange={e => setInboxFilter(e.target.value)} className="bg-white border border-slate-300 rounded py-1 px-2 text-xs">
+              <option value="all">All searches</option>
+              {searches.map(search => <option key={search.id} value={search.id}>{search.name}</option>)}
+            </select>
+            <button onClick={() => markRead(visibleInbox.map(item => item.id))} disabled={!visibleInbox.some(item => !item.read)} className="px-3 py-1 text-xs font-medium text-slate-700 bg-slate-200 rounded-md hover:bg-slate-300 disabled:opacity-50 transition">Mark All Read</button>
+          </div>
+        </div>
+        {visibleInbox.length === 0 ? (
+          <p className="text-sm text-slate-500">No new listings yet.</p>
+        ) : (
+          <ul className="space-y-2 max-h-72 overflow-y-auto">
+            {visibleInbox.map(item => {
+              const result = resultFor(item.url);
+              return (
+                <li key={item.id} className={`flex items-start gap-3 border rounded-md p-3 text-sm ${item.read ? 'bg-white border-slate-200' : 'bg-amber-50 border-amber-200'}`}>
+                  <div className="flex-grow min-w-0">
+                    <a href={item.url} target="_blank" rel="noopener noreferrer" onClick={() => markRead([item.id])} className="font-medium text-slate-800 hover:text-amber-600 hover:underline truncate block">{result?.title || item.title || item.url}</a>
+                    <p className="text-xs text-slate-500">{searchName(item.searchId)} · Found {formatDateTime(item.foundAt)}</p>
+                  </div>
+                  <span className="flex-shrink-0 text-xs font-semibold text-slate-600">
+                    {result ? (result.error ? 'Failed' : result.overallFitScore !== null ? `${result.overallFitScore}%` : 'N/A') : 'Pending'}
+                  </span>
+                  {!item.read && <button onClick={() => markRead([item.id])} className="flex-shrink-0 text-xs text-slate-500 hover:text-slate-800">Mark Read</button>}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SavedSearches;
@@ -1,9 +1,32 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { GoogleGenAI } from "@google/genai";
+import { aiClient } from "../ai/client";
 import { BuyBoxCriteria, SavedProfile, Deal } from '../App';
-import { getSourcingSearchPrompt, getSourcingAnalysisPrompt } from '../utils/prompts';
 import { renderMarkdown } from '../utils/markdownRenderer';
+import { SourcingAnalysis } from '../utils/sourcingAnalysis';
+import { FitScoreBreakdown } from '../utils/fitScoring';
+import { FoundListing } from '../sourcing/analyzeListing';
+import { searchListings } from '../sourcing/searchListings';
+import { ImportPreviewRow, isImportedWithoutUrl, scoreImportedRow, toFoundListing } from '../sourcing/bulkImport';
+import { ListingSnapshot, createSnapshot } from '../sourcing/snapshot';
+import { ResultRow, toResultRow, resultsToCsv } from '../sourcing/resultsTable';
+import { SavedSearch, SearchInboxItem } from '../sourcing/savedSearches';
+import { addListingResult, clusterListings, companyKey, findPipelineDeal, mergeCompanies, normalizeListingUrl, unmergeListing } from '../sourcing/dedup';
+import { AnalysisJob, JobStatus, enqueueListings, retryJob, isActiveJob, describeJobProgress } from '../sourcing/jobQueue';
+import FitBreakdown from './FitBreakdown';
+import SavedSearches from './SavedSearches';
+import BulkImportModal from './BulkImportModal';
+import ListingSourceImportModal from './ListingSourceImportModal';
+import RescoreModal from './RescoreModal';
+import ProfileMatrix from './ProfileMatrix';
+import ListingSnapshotView from './ListingSnapshotView';
+import SourcingResultsTable from './SourcingResultsTable';
+import ValuationSettingsModal from './ValuationSettingsModal';
+import { ValuationSettings, computeValuationMetrics } from '../sourcing/valuationMetrics';
+import { planRescore, rescoreDeals, rescoreResults, scoreDelta } from '../sourcing/rescore';
+import { bestFitProfile, scoreAgainstProfiles } from '../sourcing/profileScores';
+import { ValuationDetails, ValuationSummary } from './ImpliedValuation';
+import { LOST_REASONS, LOST_REASON_LABELS, LostReason, REPEAT_LOSS_THRESHOLD, isFromSite, sitesWithRepeatedLosses } from '../pipeline/lostReasons';
 
 interface SourcingEngineProps {
   buyBox: BuyBoxCriteria;
@@ -13,22 +36,26 @@ interface SourcingEngineProps {
   onClear: () => void;
   isSourcingGlobal: boolean;
   setIsSourcingGlobal: React.Dispatch<React.SetStateAction<boolean>>;
-  isAnalyzingGlobal: boolean;
-  setIsAnalyzingGlobal: React.Dispatch<React.SetStateAction<boolean>>;
+  analysisJobs: AnalysisJob[];
+  setAnalysisJobs: React.Dispatch<React.SetStateAction<AnalysisJob[]>>;
+  savedSearches: SavedSearch[];
+  setSavedSearches: React.Dispatch<React.SetStateAction<SavedSearch[]>>;
+  searchInbox: SearchInboxItem[];
+  setSearchInbox: React.Dispatch<React.SetStateAction<SearchInboxItem[]>>;
+  runningSearchId: string | null;
+  onRunSearch: (id: string) => void;
   sourcingProgressMessage: string;
   setSourcingProgressMessage: React.Dispatch<React.SetStateAction<string>>;
   savedProfiles: SavedProfile[];
   currentProfileName: string | null;
   onLoadProfile: (name: string) => void;
   deals: Deal[];
+  setDeals: React.Dispatch<React.SetStateAction<Deal[]>>;
   onAddToPipeline: (sourcingResult: SourcingResult) => void;
   websiteList: string;
   setWebsiteList: React.Dispatch<React.SetStateAction<string>>;
-}
-
-interface FoundListing {
-  url: string;
-  title?: string;
+  valuationSettings: ValuationSettings;
+  setValuationSettings: React.Dispatch<React.SetStateAction<ValuationSettings>>;
 }
 
 export interface SourcingResult {
@@ -40,76 +67,33 @@ export interface SourcingResult {
   overallFitScore: number | null;
   sde: number | null;
   industry: string | null;
+  askingPrice?: number | null;
+  revenue?: number | null;
+  /** Structured analysis the markdown above was rendered from; missing on results from before structured output. */
+  analysis?: SourcingAnalysis;
+  /** How `overallFitScore` was reached, criterion by criterion. */
+  fitBreakdown?: FitScoreBreakdown;
+  /** Shared by listings of the same business found on different sites; see `sourcing/dedup.ts`. */
+  companyId?: string;
+  /** Companies this listing was unmerged from, so it isn't clustered with them again. */
+  keepSeparateFrom?: string[];
+  /** When the listing was analyzed (or imported), epoch ms. */
+  analyzedAt?: number;
+  /** Hidden from the results unless archived results are shown. */
+  archived?: boolean;
+  /** The listing page as captured when it was analyzed. */
+  snapshot?: ListingSnapshot;
   error?: string;
 }
 
 type SourcingMode = 'generateLinks' | 'findAndAnalyze';
+type ResultsView = 'cards' | 'table' | 'profiles';
 
-const criteriaNameToKeyMap: { [key: string]: keyof BuyBoxCriteria | null } = {
-    'Geography': 'geography',
-    'Industry': 'industryType',
-    'Financials (SDE)': 'minSde',
-    'Revenue Quality': 'minRecurringRevenue',
-    'Risk (Concentration)': 'customerConcentration',
-    'Growth Levers': 'growthLevers',
-    'Industry Trends': 'industryTrends',
-    'Seller Role': 'sellerRole',
-    'Team Strength': 'teamStrength',
-    'Business Model': 'businessModel',
-    'Systems': 'systemMessiness',
-    'My Role': 'myPrimaryRole',
-    // non-weighted:
-    'Industry Expertise': 'industryExpertise',
-    'Culture': null,
-};
-
-const calculateOverallFitScore = (scorecard: string, buyBox: BuyBoxCriteria): number | null => {
-    if (!scorecard) return null;
-
-    let achievedScore = 0;
-    let totalPossibleScore = 0;
-
-    // Robustly calculate total possible score by iterating through the buy box criteria object
-    for (const key in buyBox) {
-        const criteria = buyBox[key as keyof BuyBoxCriteria];
-        if (typeof criteria === 'object' && criteria !== null && !Array.isArray(criteria) && 'weight' in criteria && typeof criteria.weight === 'number') {
-            totalPossibleScore += criteria.weight;
-        }
-    }
-
-    // Handle case where SDE min and max weights are separate but should be counted as one
-    if (buyBox.minSde.weight > 0 && buyBox.maxSde.weight > 0) {
-        totalPossibleScore -= buyBox.maxSde.weight; // Don't double-count SDE
-    }
-
-    if (totalPossibleScore === 0) return 50; // Default if no weights set
-
-    const rows = scorecard.split('\n').slice(2);
-    rows.forEach(row => {
-        const columns = row.split('|').map(c => c.trim());
-        if (columns.length >= 4) {
-            const criteriaNameWithWeight = columns[1];
-            // FIX: Strip the weight part from the criteria name to match the map key
-            const criteriaName = criteriaNameWithWeight.split(' (Weight:')[0].trim();
-            
-            const fit = columns[3].toLowerCase();
-            const buyBoxKey = criteriaNameToKeyMap[criteriaName];
-
-            if (buyBoxKey) {
-                const criteria = buyBox[buyBoxKey as keyof BuyBoxCriteria];
-                 if (typeof criteria === 'object' && criteria !== null && !Array.isArray(criteria) && 'weight' in criteria && typeof criteria.weight === 'number') {
-                    const weight = criteria.weight;
-                    if (fit === 'yes') {
-                        achievedScore += weight;
-                    } else if (fit === '?') {
-                        achievedScore += weight * 0.3; // Partial credit for unknowns
-                    }
-                }
-            }
-        }
-    });
-    
-    return Math.round((achievedScore / totalPossibleScore) * 100);
+const JOB_STATUS_STYLES: Record<JobStatus, string> = {
+  queued: 'bg-slate-200 text-slate-700',
+  running: 'bg-amber-100 text-amber-800',
+  failed: 'bg-red-100 text-red-700',
+  done: 'bg-green-100 text-green-700',
 };
 
 const isValidUrl = (urlString: string): boolean => {
@@ -125,13 +109,21 @@ const isValidUrl = (urlString: string): boolean => {
   }
 };
 
-const SourcingEngine: React.FC<SourcingEngineProps> = ({ buyBox, onAddTask, sourcingResultsGlobal, setSourcingResultsGlobal, onClear, isSourcingGlobal, setIsSourcingGlobal, isAnalyzingGlobal, setIsAnalyzingGlobal, sourcingProgressMessage, setSourcingProgressMessage, savedProfiles, currentProfileName, onLoadProfile, deals, onAddToPipeline, websiteList, setWebsiteList }) => {
+const SourcingEngine: React.FC<SourcingEngineProps> = ({ buyBox, onAddTask, sourcingResultsGlobal, setSourcingResultsGlobal, onClear, isSourcingGlobal, setIsSourcingGlobal, analysisJobs, setAnalysisJobs, savedSearches, setSavedSearches, searchInbox, setSearchInbox, runningSearchId, onRunSearch, sourcingProgressMessage, setSourcingProgressMessage, savedProfiles, currentProfileName, onLoadProfile, deals, setDeals, onAddToPipeline, websiteList, setWebsiteList, valuationSettings, setValuationSettings }) => {
   const [error, setError] = useState('');
   const [activeResult, setActiveResult] = useState<SourcingResult | null>(null);
   const [manualUrl, setManualUrl] = useState('');
+  const [isBulkImportOpen, setIsBulkImportOpen] = useState(false);
+  const [isSourceImportOpen, setIsSourceImportOpen] = useState(false);
+  const [isRescoreOpen, setIsRescoreOpen] = useState(false);
+  const [isValuationSettingsOpen, setIsValuationSettingsOpen] = useState(false);
+  const [isSnapshotOpen, setIsSnapshotOpen] = useState(false);
+  const [snapshotContent, setSnapshotContent] = useState('');
+  const [snapshotFileName, setSnapshotFileName] = useState<string | undefined>();
   
   const [sourcingMode, setSourcingMode] = useState<SourcingMode>('findAndAnalyze');
   const [isGeneratingLinks, setIsGeneratingLinks] = useState<boolean>(false);
+  const isAnalyzingGlobal = analysisJobs.some(isActiveJob);
 
   // --- Refined Search & Filter State ---
   const [searchIndustries, setSearchIndustries] = useState('');
@@ -140,6 +132,10 @@ const SourcingEngine: React.FC<SourcingEngineProps> = ({ buyBox, onAddTask, sour
   const [filterIndustry, setFilterIndustry] = useState('');
   const [filterSdeMin, setFilterSdeMin] = useState('');
   const [filterSdeMax, setFilterSdeMax] = useState('');
+  const [hideSitesLostTo, setHideSitesLostTo] = useState<LostReason | ''>('');
+  const [selectedCompanies, setSelectedCompanies] = useState<string[]>([]);
+  const [resultsView, setResultsView] = useState<ResultsView>('cards');
+  const [showArchived, setShowArchived] = useState(false);
 
   useEffect(() => {
     if (buyBox) {
@@ -148,25 +144,49 @@ const SourcingEngine: React.FC<SourcingEngineProps> = ({ buyBox, onAddTask, sour
     }
   }, [buyBox]);
   
-  const handleAnalyzeLink = async (e: React.FormEvent<HTMLFormElement>) => {
+  const handleAnalyzeLink = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     if (!isValidUrl(manualUrl)) {
         setError("Please enter a valid URL starting with http:// or https://.");
         return;
     }
+    let snapshot: ListingSnapshot | undefined;
+    if (snapshotContent.trim()) {
+        snapshot = createSnapshot(snapshotContent, snapshotFileName ? 'file' : 'paste', snapshotFileName) ?? undefined;
+        if (!snapshot) {
+            setError("The snapshot has no readable text. Paste the listing's text or HTML, or choose a saved .html/.mhtml file.");
+            return;
+        }
+    }
     setError('');
     
     const listingToAnalyze: FoundListing = {
         url: manualUrl,
-        title: `Manually Added: ${new URL(manualUrl).hostname}`
+        title: snapshot?.pageTitle || `Manually Added: ${new URL(manualUrl).hostname}`,
+        snapshot,
     };
 
-    try {
-        await analyzeListings([listingToAnalyze]);
-        setManualUrl(''); // Clear input on success
-    } catch (err: any) {
-        setError(err.message || 'Failed to analyze the provided link.');
-    }
+    queueListings([listingToAnalyze]);
+    setManualUrl('');
+    clearSnapshot();
+  };
+
+  const clearSnapshot = () => {
+    setSnapshotContent('');
+    setSnapshotFileName(undefined);
+    setIsSnapshotOpen(false);
+  };
+
+  const handleSnapshotFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+        setSnapshotContent(typeof reader.result === 'string' ? reader.result : '');
+        setSnapshotFileName(file.name);
+    };
+    reader.readAsText(file);
+    e.target.value = '';
   };
   
   const handleUpdateLinks = async () => {
@@ -174,8 +194,6 @@ const SourcingEngine: React.FC<SourcingEngineProps> = ({ buyBox, onAddTask, sour
     setError('');
     
     try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        
         const linkGenPrompt = `
 You are an M&A sourcing analyst. Your task is to provide a comprehensive list of websites where a user can search for businesses for sale.
 
@@ -190,12 +208,11 @@ You are an M&A sourcing analyst. Your task is to provide a comprehensive list of
 *   **EmpireFlippers.com:** \`https://empireflippers.com/\` - A curated marketplace for established, profitable online businesses like e-commerce and content sites.
 `;
         
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const response = await aiClient.generate({
+            feature: 'sourcing.websiteList',
+            tier: 'fast',
             contents: linkGenPrompt,
-            config: {
-                tools: [{googleSearch: {}}]
-            }
+            webSearch: true,
         });
 
         setWebsiteList(response.text);
@@ -233,36 +250,12 @@ You are an M&A sourcing analyst. Your task is to provide a comprehensive list of
 
   const handleFindDeals = async () => {
     setIsSourcingGlobal(true);
-    setIsAnalyzingGlobal(false);
     setError('');
-    setSourcingResultsGlobal([]);
+    if (!isAnalyzingGlobal) setSourcingResultsGlobal([]);
     setSourcingProgressMessage('Step 1/2: Finding Listings...');
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const prompt = getSourcingSearchPrompt(searchIndustries, searchGeographies, buyBox);
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-pro',
-        contents: prompt,
-        config: { 
-          tools: [{googleSearch: {}}]
-        }
-      });
-      
-      let listingsJson = response.text.trim();
-
-      const jsonMatch = listingsJson.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-      if (jsonMatch && jsonMatch[1]) {
-        listingsJson = jsonMatch[1];
-      }
-      
-      let listings: FoundListing[];
-      try {
-          listings = JSON.parse(listingsJson) as FoundListing[];
-      } catch (parseError) {
-        console.error("Failed to parse listings JSON:", parseError, "Raw JSON string:", listingsJson);
-        throw new Error("AI returned an invalid list format. Please try again.");
-      }
+      const listings = await searchListings(searchIndustries, searchGeographies, buyBox);
 
       if (!listings || listings.length === 0) {
         setSourcingProgressMessage('No new listings found matching your criteria.');
@@ -271,7 +264,7 @@ You are an M&A sourcing analyst. Your task is to provide a comprehensive list of
       }
       
       setIsSourcingGlobal(false);
-      await analyzeListings(listings);
+      queueListings(listings);
 
     } catch (e: any) {
       console.error("Error finding deals:", e);
@@ -280,47 +273,48 @@ You are an M&A sourcing analyst. Your task is to provide a comprehensive list of
     }
   };
 
-  const analyzeListings = async (listings: FoundListing[]) => {
-    setIsAnalyzingGlobal(true);
-    
-    for (const [index, listing] of listings.entries()) {
-      setSourcingProgressMessage(`Step 2/2: Analyzing listing ${index + 1}/${listings.length}: ${listing.title || listing.url}`);
-      try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        const prompt = getSourcingAnalysisPrompt(listing.url, buyBox);
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-pro',
-            contents: prompt,
-            config: { thinkingConfig: { thinkingBudget: 32768 } },
-        });
-        const text = response.text;
-        const parts = text.split('---[SPLIT]---');
-        
-        if (parts.length < 3) throw new Error("Analysis response missing required parts.");
-        
-        const [keyInsights, fullProfile, scorecard] = parts.map(p => p.trim());
-        const overallFitScore = calculateOverallFitScore(scorecard, buyBox);
-        
-        const sdeMatch = fullProfile.match(/Reported SDE\/Cash Flow:\s*\$?([\d,]+)/i);
-        const sde = sdeMatch ? parseInt(sdeMatch[1].replace(/,/g, ''), 10) : null;
-        const industryMatch = fullProfile.match(/Primary Industry:\s*(.*)/i);
-        const industry = industryMatch ? industryMatch[1].trim() : null;
-
-        const newResult: SourcingResult = { ...listing, keyInsights, fullProfile, scorecard, overallFitScore, sde, industry };
-        setSourcingResultsGlobal(prev => [newResult, ...prev]);
-
-      } catch (e) {
-        console.error(`Error analyzing ${listing.url}:`, e);
-        const errorResult: SourcingResult = { ...listing, keyInsights: '', fullProfile: '', scorecard: '', overallFitScore: null, sde: null, industry: null, error: `Failed to analyze this listing.` };
-        setSourcingResultsGlobal(prev => [errorResult, ...prev]);
-        throw e;
-      }
-    }
+  /** Hands listings to the background analysis queue, which keeps running if this tab is left. */
+  const queueListings = (listings: FoundListing[]) => {
+    setAnalysisJobs(prev => enqueueListings(prev, listings, buyBox));
+    setSourcingProgressMessage(`Queued ${listings.length} listing${listings.length === 1 ? '' : 's'} for analysis.`);
+  };
 
-    setIsAnalyzingGlobal(false);
-    setSourcingProgressMessage(`Analysis complete. Found and analyzed ${listings.length} listings.`);
+  const handleBulkImport = (rows: ImportPreviewRow[], sourceName: string) => {
+    const toAnalyze = rows.filter(p => p.action === 'analyze').map(p => toFoundListing(p.row));
+    const scored = rows.filter(p => p.action === 'score').map(p => scoreImportedRow(p.row, buyBox, sourceName));
+    if (scored.length > 0) setSourcingResultsGlobal(prev => scored.reduce(addListingResult, prev));
+    if (toAnalyze.length > 0) queueListings(toAnalyze);
+    setSourcingProgressMessage(`Imported ${rows.length} listing${rows.length === 1 ? '' : 's'} from ${sourceName}: ${toAnalyze.length} queued for analysis, ${scored.length} scored from data.`);
+    setIsBulkImportOpen(false);
   };
-  
+
+  const handleSourceImport = (listings: FoundListing[]) => {
+    queueListings(listings);
+    setIsSourceImportOpen(false);
+  };
+
+  const knownUrls = useMemo(() => new Set(sourcingResultsGlobal.map(result => normalizeListingUrl(result.url))), [sourcingResultsGlobal]);
+
+  // Scores are fixed at analysis time, so editing the Buy Box or loading another profile leaves them stale.
+  const staleScoreCount = useMemo(
+    () => planRescore(sourcingResultsGlobal, deals, buyBox).changes.filter(change => scoreDelta(change) !== 0).length,
+    [sourcingResultsGlobal, deals, buyBox],
+  );
+
+  const handleRescore = (target: BuyBoxCriteria) => {
+    setSourcingResultsGlobal(prev => rescoreResults(prev, target));
+    setDeals(prev => rescoreDeals(prev, target));
+    setActiveResult(null);
+    setIsRescoreOpen(false);
+  };
+
+  const handleRetryJob = (id: string) =>
+    setAnalysisJobs(prev => prev.map(job => (job.id === id ? retryJob(job) : job)));
+  const handleRemoveJob = (id: string) =>
+    setAnalysisJobs(prev => prev.filter(job => job.id !== id || job.status === 'running'));
+  const handleClearFinishedJobs = () =>
+    setAnalysisJobs(prev => prev.filter(isActiveJob));
+
   const handleMainAction = () => {
     if (sourcingMode === 'generateLinks') {
         handleUpdateLinks();
@@ -329,7 +323,11 @@ You are an M&A sourcing analyst. Your task is to provide a comprehensive list of
     }
   };
 
-  const isDealInPipeline = (url: string) => deals.some(d => d.sourcingResult.url === url);
+  // Sites whose deals keep being lost for the chosen reason, e.g. brokers that reprice after an LOI.
+  const hiddenSites = useMemo(
+    () => (hideSitesLostTo ? sitesWithRepeatedLosses(deals, hideSitesLostTo) : new Map<string, number>()),
+    [deals, hideSitesLostTo],
+  );
 
   const applyFilters = (results: SourcingResult[]) => {
     const minSde = filterSdeMin ? parseInt(filterSdeMin.replace(/,/g, ''), 10) : 0;
@@ -340,13 +338,62 @@ You are an M&A sourcing analyst. Your task is to provide a comprehensive list of
         const scoreMatch = (result.overallFitScore || 0) >= filterScoreMin;
         const industryMatch = !filterIndustry || (result.industry && result.industry.toLowerCase().includes(filterIndustry.toLowerCase()));
         const sdeMatch = !result.sde || (result.sde >= minSde && result.sde <= maxSde);
-        return scoreMatch && industryMatch && sdeMatch;
+        return scoreMatch && industryMatch && sdeMatch && !isFromSite(result, hiddenSites);
     });
   }
 
-  const filteredResults = useMemo(() => applyFilters(sourcingResultsGlobal), [sourcingResultsGlobal, filterScoreMin, filterIndustry, filterSdeMin, filterSdeMax]);
+  // One card per company; listings of the same business on other sites are shown inside it.
+  const filteredClusters = useMemo(() => {
+    const visible = new Set(applyFilters(sourcingResultsGlobal));
+    return clusterListings(sourcingResultsGlobal).filter(cluster => visible.has(cluster.primary) && (showArchived || !cluster.primary.archived));
+  }, [sourcingResultsGlobal, filterScoreMin, filterIndustry, filterSdeMin, filterSdeMax, hiddenSites, showArchived]);
+
+  const tableRows = useMemo(
+    () => (resultsView === 'table' ? filteredClusters.map(cluster => toResultRow(cluster, deals, valuationSettings)) : []),
+    [resultsView, filteredClusters, deals, valuationSettings],
+  );
+
+  const handleBulkAddToPipeline = (rows: ResultRow[]) =>
+    rows.filter(row => !row.pipelineDeal && !row.result.error).forEach(row => onAddToPipeline(row.result));
+
+  const handleBulkReanalyze = (rows: ResultRow[]) => {
+    const listings = rows
+      .filter(row => !isImportedWithoutUrl(row.result))
+      .map((row): FoundListing => ({ url: row.result.url, title: row.result.title, snapshot: row.result.snapshot }));
+    if (listings.length > 0) queueListings(listings);
+  };
+
+  /** Archiving applies to every listing of the selected companies. */
+  const handleSetArchived = (rows: ResultRow[], archived: boolean) => {
+    const companyIds = new Set(rows.map(row => row.cluster.companyId));
+    setSourcingResultsGlobal(prev => prev.map(result => (companyIds.has(companyKey(result)) ? { ...result, archived } : result)));
+    setSelectedCompanies([]);
+  };
+
+  const handleExport = (rows: ResultRow[]) => {
+    const blob = new Blob([resultsToCsv(rows)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `sourcing-results_${new Date().toISOString().slice(0, 10)}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const toggleCompanySelected = (companyId: string) =>
+    setSelectedCompanies(prev => (prev.includes(companyId) ? prev.filter(id => id !== companyId) : [...prev, companyId]));
+
+  const handleMergeSelected = () => {
+    setSourcingResultsGlobal(prev => mergeCompanies(prev, selectedCompanies));
+    setSelectedCompanies([]);
+  };
+
+  const handleUnmerge = (url: string) => setSourcingResultsGlobal(prev => unmergeListing(prev, url));
   
-  const isLoading = isSourcingGlobal || isAnalyzingGlobal || isGeneratingLinks;
+  // The queue runs in the background, so more listings can be searched for or added while it works.
+  const isLoading = isSourcingGlobal || isGeneratingLinks;
   
   const mainButtonText = sourcingMode === 'generateLinks'
     ? (websiteList ? 'Update Website List' : 'Generate Website List')
@@ -383,7 +430,45 @@ You are an M&A sourcing analyst. Your task is to provide a comprehensive list of
                 >
                     Analyze Link
                 </button>
+                <button
+                    type="button"
+                    onClick={() => setIsBulkImportOpen(true)}
+                    className="w-full sm:w-auto px-6 py-3 font-medium text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 transition whitespace-nowrap"
+                >
+                    Bulk Import...
+                </button>
+                <button
+                    type="button"
+                    onClick={() => setIsSourceImportOpen(true)}
+                    className="w-full sm:w-auto px-6 py-3 font-medium text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 transition whitespace-nowrap"
+                    title="Read listings from saved marketplace pages, RSS feeds or email digests"
+                >
+                    From Saved Files...
+                </button>
             </form>
+            <button type="button" onClick={() => setIsSnapshotOpen(open => !open)} className="mt-2 text-sm text-amber-600 hover:underline">
+                {isSnapshotOpen ? 'Hide page snapshot' : 'Attach a page snapshot (recommended: keeps a record if the listing is taken down)'}
+            </button>
+            {isSnapshotOpen && (
+                <div className="mt-2 space-y-2">
+                    <textarea
+                        value={snapshotFileName ? '' : snapshotContent}
+                        onChange={e => { setSnapshotContent(e.target.value); setSnapshotFileName(undefined); }}
+                        placeholder={snapshotFileName ? `Using ${snapshotFileName}` : "Paste the listing page's text or HTML..."}
+                        rows={5}
+                        className="w-full px-4 py-3 text-sm text-slate-700 bg-white border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                    />
+                    <div className="flex items-center gap-3 text-sm">
+                        <label className="px-4 py-2 font-medium text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 transition cursor-pointer">
+                            Choose Saved Page...
+                            <input type="file" accept=".html,.htm,.mhtml,.mht,.txt" onChange={handleSnapshotFile} className="hidden" />
+                        </label>
+                        {snapshotFileName && <span className="text-slate-500">{snapshotFileName}</span>}
+                        {snapshotContent && <button type="button" onClick={clearSnapshot} className="text-slate-500 hover:text-red-600">Remove</button>}
+                    </div>
+                    <p className="text-xs text-slate-500">The analysis will use this snapshot instead of the live page, and the snapshot is kept with the result.</p>
+                </div>
+            )}
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-x-8 gap-y-6 mb-6">
@@ -433,6 +518,20 @@ You are an M&A sourcing analyst. Your task is to provide a comprehensive list of
                     <input type="text" value={filterSdeMin} onChange={e => setFilterSdeMin(e.target.value)} placeholder="Min SDE" className="sm:col-span-1 w-full bg-white text-slate-700 border border-slate-300 rounded-md py-2.5 px-3 text-sm" />
                     <input type="text" value={filterSdeMax} onChange={e => setFilterSdeMax(e.target.value)} placeholder="Max SDE" className="sm:col-span-1 w-full bg-white text-slate-700 border border-slate-300 rounded-md py-2.5 px-3 text-sm" />
                 </div>
+                <div>
+                    <label className="text-sm font-medium text-slate-500 flex items-center gap-2">
+                        <span className="flex-shrink-0" title="Counts by website domain, so every broker listing on a marketplace counts toward that marketplace">Hide listing sites with {REPEAT_LOSS_THRESHOLD}+ deals lost to</span>
+                        <select value={hideSitesLostTo} onChange={e => setHideSitesLostTo(e.target.value as LostReason | '')} className="w-full bg-white text-slate-700 border border-slate-300 rounded-md py-2 px-3 text-sm">
+                            <option value="">(don't hide)</option>
+                            {LOST_REASONS.map(reason => <option key={reason} value={reason}>{LOST_REASON_LABELS[reason]}</option>)}
+                        </select>
+                    </label>
+                    {hideSitesLostTo && (
+                        <p className="text-xs text-slate-500 mt-1.5">
+                            {hiddenSites.size === 0 ? 'No listing site has lost that many deals for this reason.' : `Hiding listings from ${[...hiddenSites].map(([site, count]) => `${site} (${count})`).join(', ')}`}
+                        </p>
+                    )}
+                </div>
             </div>
         </div>
 
@@ -459,32 +558,133 @@ You are an M&A sourcing analyst. Your task is to provide a comprehensive list of
         </>
       ) : (
         <>
+          <SavedSearches
+            searches={savedSearches}
+            setSearches={setSavedSearches}
+            inbox={searchInbox}
+            setInbox={setSearchInbox}
+            savedProfiles={savedProfiles}
+            currentProfileName={currentProfileName}
+            industries={searchIndustries}
+            geographies={searchGeographies}
+            runningSearchId={runningSearchId}
+            onRunSearch={onRunSearch}
+            sourcingResults={sourcingResultsGlobal}
+          />
+
           {(isSourcingGlobal || isAnalyzingGlobal) && !error && (
             <div className="text-center bg-slate-100 border border-slate-200 rounded-lg p-4 my-6">
-              <p className="text-amber-600 font-medium">{sourcingProgressMessage}</p>
+              <p className="text-amber-600 font-medium">{isSourcingGlobal ? sourcingProgressMessage : describeJobProgress(analysisJobs)}</p>
               {(isSourcingGlobal || isAnalyzingGlobal) && <div className="w-full bg-slate-200 rounded-full h-2.5 mt-2"><div className="bg-amber-500 h-2.5 rounded-full animate-pulse" style={{ width: '100%' }}></div></div>}
             </div>
           )}
 
+          {analysisJobs.length > 0 && (
+            <div className="mb-6 p-4 bg-slate-50 rounded-lg border border-slate-200">
+              <div className="flex justify-between items-center mb-3">
+                <h3 className="font-semibold text-slate-800">Analysis Queue</h3>
+                <button onClick={handleClearFinishedJobs} disabled={analysisJobs.every(isActiveJob)} className="px-3 py-1 text-sm font-medium text-slate-700 bg-slate-100 rounded-md hover:bg-slate-200 disabled:opacity-50 transition">Clear Finished</button>
+              </div>
+              <ul className="space-y-2 max-h-64 overflow-y-auto">
+                {analysisJobs.map(job => (
+                  <li key={job.id} className="flex items-start gap-3 bg-white border border-slate-200 rounded-md p-3 text-sm">
+                    <span className={`flex-shrink-0 px-2 py-0.5 rounded text-xs font-semibold capitalize ${JOB_STATUS_STYLES[job.status]}`}>{job.status}</span>
+                    <div className="flex-grow min-w-0">
+                      <p className="font-medium text-slate-800 truncate">{job.listing.title || job.listing.url}</p>
+                      {job.error && (
+                        <p className={`text-xs mt-1 ${job.status === 'failed' ? 'text-red-600' : 'text-slate-500'}`}>
+                          {job.error}
+                          {job.status === 'queued' && job.nextAttemptAt && ` Retrying at ${new Date(job.nextAttemptAt).toLocaleTimeString()}.`}
+                        </p>
+                      )}
+                    </div>
+                    {job.attempts > 1 && <span className="flex-shrink-0 text-xs text-slate-500">Attempt {job.attempts}</span>}
+                    {job.status === 'failed' && <button onClick={() => handleRetryJob(job.id)} className="flex-shrink-0 text-xs font-semibold text-amber-600 hover:underline">Retry</button>}
+                    {job.status !== 'running' && <button onClick={() => handleRemoveJob(job.id)} className="flex-shrink-0 text-xs text-slate-500 hover:text-red-600">Remove</button>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <div className="border-b border-slate-200 mb-6">
-            <h3 className="text-lg font-semibold text-slate-800 mb-2">Search Results ({filteredResults.length})</h3>
+            <div className="flex justify-between items-center mb-2">
+              <div className="flex items-center gap-4">
+                <h3 className="text-lg font-semibold text-slate-800">Search Results ({filteredClusters.length})</h3>
+                <div className="flex items-center gap-1 bg-slate-200 rounded-md p-1">
+                  <button onClick={() => setResultsView('cards')} className={`px-3 py-1 text-sm rounded ${resultsView === 'cards' ? 'bg-amber-500 text-slate-900 font-semibold shadow-sm' : 'text-slate-600'}`}>Cards</button>
+                  <button onClick={() => setResultsView('table')} className={`px-3 py-1 text-sm rounded ${resultsView === 'table' ? 'bg-amber-500 text-slate-900 font-semibold shadow-sm' : 'text-slate-600'}`}>Table</button>
+                  <button onClick={() => setResultsView('profiles')} className={`px-3 py-1 text-sm rounded ${resultsView === 'profiles' ? 'bg-amber-500 text-slate-900 font-semibold shadow-sm' : 'text-slate-600'}`} title="Fit scores against every saved profile">By Profile</button>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  <input type="checkbox" checked={showArchived} onChange={e => setShowArchived(e.target.checked)} className="accent-amber-500" />
+                  Show archived
+                </label>
+                <button onClick={() => setIsValuationSettingsOpen(true)} className="text-sm text-amber-600 hover:underline">Valuation Settings</button>
+                <button onClick={() => setIsRescoreOpen(true)} disabled={sourcingResultsGlobal.length === 0 && deals.length === 0} className="text-sm text-amber-600 hover:underline disabled:text-slate-400 disabled:no-underline">Re-score...</button>
+              </div>
+              {resultsView === 'cards' && selectedCompanies.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <button onClick={() => setSelectedCompanies([])} className="px-3 py-1 text-sm font-medium text-slate-700 bg-slate-100 rounded-md hover:bg-slate-200 transition">Cancel</button>
+                  <button onClick={handleMergeSelected} disabled={selectedCompanies.length < 2} className="px-3 py-1 text-sm font-semibold text-gray-900 bg-amber-500 rounded-md hover:bg-amber-600 disabled:opacity-50 transition">
+                    Merge {selectedCompanies.length} as Same Company
+                  </button>
+                </div>
+              )}
+            </div>
           </div>
 
+          {staleScoreCount > 0 && (
+            <div className="mb-4 flex items-center justify-between gap-3 text-sm bg-amber-50 border border-amber-200 rounded-lg px-4 py-2">
+              <span className="text-amber-800">{staleScoreCount} score{staleScoreCount === 1 ? ' was' : 's were'} calculated against a different Buy Box than the current one.</span>
+              <button onClick={() => setIsRescoreOpen(true)} className="flex-shrink-0 font-semibold text-amber-700 hover:underline">Review &amp; Re-score</button>
+            </div>
+          )}
+
+          {resultsView === 'table' ? (
+            <SourcingResultsTable
+              rows={tableRows}
+              selectedCompanies={selectedCompanies}
+              setSelectedCompanies={setSelectedCompanies}
+              onView={setActiveResult}
+              onAddToPipeline={handleBulkAddToPipeline}
+              onReanalyze={handleBulkReanalyze}
+              onSetArchived={handleSetArchived}
+              onExport={handleExport}
+              onMerge={handleMergeSelected}
+            />
+          ) : resultsView === 'profiles' ? (
+            <ProfileMatrix clusters={filteredClusters} profiles={savedProfiles} currentProfileName={currentProfileName} onView={setActiveResult} />
+          ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {filteredResults.map((result, index) => (
-              <div key={index} className="flex flex-col bg-white border border-slate-200 rounded-lg p-5 shadow-sm">
+            {filteredClusters.map(({ companyId, primary: result, duplicates }) => {
+              const pipelineDeal = findPipelineDeal(result, deals);
+              const valuation = computeValuationMetrics(result, valuationSettings);
+              const bestFit = savedProfiles.length > 1 ? bestFitProfile(scoreAgainstProfiles(result, savedProfiles)) : null;
+              return (
+              <div key={companyId} className={`flex flex-col bg-white border rounded-lg p-5 shadow-sm ${selectedCompanies.includes(companyId) ? 'border-amber-500 ring-1 ring-amber-500' : 'border-slate-200'}`}>
                 <div className="flex justify-between items-start gap-2">
-                    <div className="flex-grow">
+                    <input
+                        type="checkbox"
+                        checked={selectedCompanies.includes(companyId)}
+                        onChange={() => toggleCompanySelected(companyId)}
+                        className="mt-1 h-4 w-4 accent-amber-500 flex-shrink-0"
+                        title="Select to merge with another result"
+                    />
+                    <div className="flex-grow min-w-0">
                         <h3 className="font-bold text-slate-800">{result.title || new URL(result.url).hostname}</h3>
-                        <a href={result.url} target="_blank" rel="noopener noreferrer" className="text-xs text-amber-600 hover:underline break-all">{result.url}</a>
+                        {isImportedWithoutUrl(result)
+                          ? <span className="text-xs text-slate-500">Imported without a listing URL</span>
+                          : <a href={result.url} target="_blank" rel="noopener noreferrer" className="text-xs text-amber-600 hover:underline break-all">{result.url}</a>}
+                        {result.snapshot && <p className="text-xs text-slate-500 mt-1" title="Analyzed from a captured copy of the listing page">Snapshot saved</p>}
                     </div>
                     <button
                         onClick={() => onAddToPipeline(result)}
-                        disabled={isDealInPipeline(result.url)}
+                        disabled={!!pipelineDeal}
                         className="flex-shrink-0 p-2 rounded-full text-amber-500 hover:bg-slate-100 transition-colors disabled:text-slate-400 disabled:cursor-not-allowed"
-                        title={isDealInPipeline(result.url) ? "Deal is in Pipeline" : "Add to Pipeline"}
+                        title={pipelineDeal ? "Deal is in Pipeline" : "Add to Pipeline"}
                     >
-                      {isDealInPipeline(result.url) ? (
+                      {pipelineDeal ? (
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" viewBox="0 0 20 20" fill="currentColor">
                           <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
                         </svg>
@@ -495,6 +695,26 @@ You are an M&A sourcing analyst. Your task is to provide a comprehensive list of
                       )}
                     </button>
                 </div>
+                {pipelineDeal && (
+                  <p className="mt-2 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded px-2 py-1">
+                    Already in pipeline as {pipelineDeal.companyName} ({pipelineDeal.status})
+                  </p>
+                )}
+                {duplicates.length > 0 && (
+                  <div className="mt-2 text-xs text-slate-500">
+                    <p className="font-medium">Also listed on:</p>
+                    <ul className="mt-1 space-y-1">
+                      {duplicates.map(duplicate => (
+                        <li key={duplicate.url} className="flex items-center justify-between gap-2">
+                          {isImportedWithoutUrl(duplicate)
+                            ? <span className="truncate">Imported: {duplicate.title}</span>
+                            : <a href={duplicate.url} target="_blank" rel="noopener noreferrer" className="text-amber-600 hover:underline truncate">{new URL(duplicate.url).hostname}</a>}
+                          <button onClick={() => handleUnmerge(duplicate.url)} className="flex-shrink-0 text-slate-500 hover:text-red-600" title="This listing is a different business">Unmerge</button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
                 {result.error ? (
                   <div className="flex-grow flex items-center justify-center text-center text-red-600 text-sm my-4 bg-red-50 p-3 rounded-md">{result.error}</div>
                 ) : (
@@ -504,11 +724,20 @@ You are an M&A sourcing analyst. Your task is to provide a comprehensive list of
                       <p className={`text-4xl font-bold ${result.overallFitScore && result.overallFitScore >= 75 ? 'text-green-600' : result.overallFitScore && result.overallFitScore >= 50 ? 'text-yellow-600' : 'text-red-600'}`}>
                         {result.overallFitScore !== null ? `${result.overallFitScore}%` : 'N/A'}
                       </p>
+                      {bestFit && (
+                        <p className="text-xs text-slate-500 mt-1">
+                          Best fit: <strong className="text-slate-700">{bestFit.profileName}</strong> ({bestFit.score}%)
+                        </p>
+                      )}
                     </div>
                      <div className="text-xs text-slate-500 mb-3 space-y-1">
                         {result.industry && <p><strong>Industry:</strong> {result.industry}</p>}
                         {result.sde && <p><strong>SDE:</strong> ${result.sde.toLocaleString()}</p>}
+                        {valuation.askingPrice !== null && <p><strong>Asking Price:</strong> ${valuation.askingPrice.toLocaleString()}</p>}
+                        {valuation.revenue !== null && <p><strong>Revenue:</strong> ${valuation.revenue.toLocaleString()}</p>}
+                        {result.analysis?.facts.location && <p><strong>Location:</strong> {result.analysis.facts.location}</p>}
                      </div>
+                    <ValuationSummary metrics={valuation} />
                     <div className="flex-grow text-sm text-slate-600 space-y-2 mb-4" dangerouslySetInnerHTML={renderMarkdown(result.keyInsights.substring(0, 150) + '...')} />
                   </>
                 )}
@@ -518,8 +747,10 @@ You are an M&A sourcing analyst. Your task is to provide a comprehensive list of
                     <button onClick={() => onAddTask(`Follow up on: ${result.title}`, `Initial analysis complete.\nFit Score: ${result.overallFitScore}%\nURL: ${result.url}`, 'Sourcing')} disabled={!!result.error} className="w-full px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 disabled:opacity-50 transition">Add to Tasks</button>
                 </div>
               </div>
-            ))}
+              );
+            })}
           </div>
+          )}
 
           {sourcingResultsGlobal.length === 0 && !isLoading && !error && (
             <div className="text-center py-16 text-slate-400 border-2 border-dashed border-slate-300 rounded-lg">
@@ -531,12 +762,36 @@ You are an M&A sourcing analyst. Your task is to provide a comprehensive list of
         </>
       )}
 
+      {isValuationSettingsOpen && (
+        <ValuationSettingsModal
+          settings={valuationSettings}
+          onSave={settings => { setValuationSettings(settings); setIsValuationSettingsOpen(false); }}
+          onClose={() => setIsValuationSettingsOpen(false)}
+        />
+      )}
+
+      {isRescoreOpen && (
+        <RescoreModal
+          buyBox={buyBox}
+          currentProfileName={currentProfileName}
+          savedProfiles={savedProfiles}
+          results={sourcingResultsGlobal}
+          deals={deals}
+          onApply={handleRescore}
+          onClose={() => setIsRescoreOpen(false)}
+        />
+      )}
+
+      {isSourceImportOpen && <ListingSourceImportModal knownUrls={knownUrls} onQueue={handleSourceImport} onClose={() => setIsSourceImportOpen(false)} />}
+
+      {isBulkImportOpen && <BulkImportModal onImport={handleBulkImport} onClose={() => setIsBulkImportOpen(false)} />}
+
       {activeResult && (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={() => setActiveResult(null)}>
           <div className="bg-white border border-slate-200 rounded-2xl p-8 w-full max-w-4xl h-[90vh] shadow-lg flex flex-col" onClick={(e) => e.stopPropagation()}>
             <div className="flex-shrink-0 mb-4">
               <h3 className="text-xl font-bold text-slate-800">{activeResult.title}</h3>
-              <a href={activeResult.url} target="_blank" rel="noopener noreferrer" className="text-sm text-amber-600 hover:underline">{activeResult.url}</a>
+              {!isImportedWithoutUrl(activeResult) && <a href={activeResult.url} target="_blank" rel="noopener noreferrer" className="text-sm text-amber-600 hover:underline">{activeResult.url}</a>}
             </div>
             <div className="flex-grow overflow-y-auto pr-4 space-y-6">
               <div>
@@ -551,6 +806,22 @@ You are an M&A sourcing analyst. Your task is to provide a comprehensive list of
                 <h4 className="font-semibold text-amber-600 mb-2 border-b border-slate-200 pb-1">Buy Box Fit Scorecard ({activeResult.overallFitScore}%)</h4>
                 <div className="text-slate-700" dangerouslySetInnerHTML={renderMarkdown(activeResult.scorecard)} />
               </div>
+              <div>
+                <h4 className="font-semibold text-amber-600 mb-2 border-b border-slate-200 pb-1">Implied Valuation</h4>
+                <ValuationDetails metrics={computeValuationMetrics(activeResult, valuationSettings)} settings={valuationSettings} />
+              </div>
+              {activeResult.fitBreakdown && (
+                <div>
+                  <h4 className="font-semibold text-amber-600 mb-2 border-b border-slate-200 pb-1">How the Fit Score Was Calculated</h4>
+                  <FitBreakdown breakdown={activeResult.fitBreakdown} />
+                </div>
+              )}
+              {activeResult.snapshot && (
+                <div>
+                  <h4 className="font-semibold text-amber-600 mb-2 border-b border-slate-200 pb-1">Listing Snapshot</h4>
+                  <ListingSnapshotView snapshot={activeResult.snapshot} />
+                </div>
+              )}
             </div>
             <div className="flex-shrink-0 pt-6 border-t border-slate-200 text-right">
               <button onClick={() => setActiveResult(null)} className="px-6 py-2.5 font-semibold text-gray-900 bg-amber-500 rounded-lg hover:bg-amber-600 transition">Close</button>
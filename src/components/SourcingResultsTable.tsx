@@ -0,0 +1,203 @@
+import React, { useMemo, useState } from 'react';
+import { SourcingResult } from './SourcingEngine';
+import { isImportedWithoutUrl } from '../sourcing/bulkImport';
+import {
+  ResultRow, ColumnKey, FacetKey,
+  facetCounts, applyFacets, sortRows,
+} from '../sourcing/resultsTable';
+import { describePriceFlag, formatMultiple } from '../sourcing/valuationMetrics';
+
+interface SourcingResultsTableProps {
+  rows: ResultRow[];
+  selectedCompanies: string[];
+  setSelectedCompanies: React.Dispatch<React.SetStateAction<string[]>>;
+  onView: (result: SourcingResult) => void;
+  onAddToPipeline: (rows: ResultRow[]) => void;
+  onReanalyze: (rows: ResultRow[]) => void;
+  onSetArchived: (rows: ResultRow[], archived: boolean) => void;
+  onExport: (rows: ResultRow[]) => void;
+  onMerge: () => void;
+}
+
+const formatUsd = (value: number | null) => (value === null ? '' : `$${value.toLocaleString()}`);
+const scoreColor = (score: number | null) =>
+  score === null ? 'text-slate-500' : score >= 75 ? 'text-green-600' : score >= 50 ? 'text-yellow-600' : 'text-red-600';
+
+const COLUMNS: { key: ColumnKey; label: string; align?: 'right'; render: (row: ResultRow) => React.ReactNode }[] = [
+  { key: 'score', label: 'Fit Score', align: 'right', render: row => <span className={`font-semibold ${scoreColor(row.score)}`}>{row.score !== null ? `${row.score}%` : 'N/A'}</span> },
+  { key: 'sde', label: 'SDE', align: 'right', render: row => formatUsd(row.sde) },
+  { key: 'askingPrice', label: 'Asking Price', align: 'right', render: row => formatUsd(row.askingPrice) },
+  {
+    key: 'multiple', label: 'SDE Multiple', align: 'right',
+    render: row => (row.multiple !== null
+      ? <span className={row.valuation.priceFlag === 'above' ? 'text-red-600 font-medium' : row.valuation.priceFlag === 'below' ? 'text-blue-600 font-medium' : ''} title={describePriceFlag(row.valuation)}>{formatMultiple(row.multiple)}</span>
+      : ''),
+  },
+  { key: 'revenueMultiple', label: 'Rev. Multiple', align: 'right', render: row => (row.revenueMultiple !== null ? formatMultiple(row.revenueMultiple) : '') },
+  { key: 'dscr', label: 'DSCR', align: 'right', render: row => (row.dscr !== null ? <span className={row.valuation.isDscrLow ? 'text-red-600 font-medium' : 'text-green-600'}>{formatMultiple(row.dscr)}</span> : '') },
+  { key: 'revenue', label: 'Revenue', align: 'right', render: row => formatUsd(row.revenue) },
+  { key: 'industry', label: 'Industry', render: row => row.industry },
+  { key: 'location', label: 'Location', render: row => row.location },
+  { key: 'foundAt', label: 'Date Found', render: row => (row.foundAt ? new Date(row.foundAt).toLocaleDateString() : '') },
+  { key: 'source', label: 'Source Site', render: row => row.source + (row.cluster.duplicates.length > 0 ? ` +${row.cluster.duplicates.length}` : '') },
+  { key: 'pipeline', label: 'Pipeline', render: row => (row.pipelineDeal ? <span className="text-xs font-medium text-blue-700">{row.pipelineDeal.status}</span> : '') },
+];
+
+const DEFAULT_COLUMNS: ColumnKey[] = ['score', 'sde', 'askingPrice', 'multiple', 'dscr', 'location', 'foundAt', 'source', 'pipeline'];
+
+const FACETS: { key: FacetKey; label: string }[] = [
+  { key: 'industry', label: 'Industry' },
+  { key: 'location', label: 'Location' },
+  { key: 'source', label: 'Source Site' },
+  { key: 'pipeline', label: 'Pipeline' },
+  { key: 'priceBand', label: 'Price vs. Band' },
+];
+
+// Rows are a fixed height so only the visible window needs rendering.
+const ROW_HEIGHT = 48;
+const VIEWPORT_HEIGHT = 576;
+const OVERSCAN = 6;
+
+/** Sortable, filterable, virtualized table of sourcing results, one row per company. */
+const SourcingResultsTable: React.FC<SourcingResultsTableProps> = ({ rows, selectedCompanies, setSelectedCompanies, onView, onAddToPipeline, onReanalyze, onSetArchived, onExport, onMerge }) => {
+  const [sortKey, setSortKey] = useState<ColumnKey>('score');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+  const [visibleColumns, setVisibleColumns] = useState<ColumnKey[]>(DEFAULT_COLUMNS);
+  const [facetSelections, setFacetSelections] = useState<Partial<Record<FacetKey, string[]>>>({});
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const displayedRows = useMemo(
+    () => sortRows(applyFacets(rows, facetSelections), sortKey, sortDirection),
+    [rows, facetSelections, sortKey, sortDirection],
+  );
+  const columns = COLUMNS.filter(column => visibleColumns.includes(column.key));
+  const selectedRows = displayedRows.filter(row => selectedCompanies.includes(row.cluster.companyId));
+  const allSelected = displayedRows.length > 0 && selectedRows.length === displayedRows.length;
+
+  const firstIndex = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastIndex = Math.min(displayedRows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const windowRows = displayedRows.slice(firstIndex, lastIndex);
+
+  const handleSort = (key: ColumnKey) => {
+    if (key === sortKey) setSortDirection(direction => (direction === 'asc' ? 'desc' : 'asc'));
+    else {
+      setSortKey(key);
+      setSortDirection(key === 'location' || key === 'industry' || key === 'source' ? 'asc' : 'desc');
+    }
+  };
+
+  const toggleFacetValue = (facet: FacetKey, value: string) =>
+    setFacetSelections(prev => {
+      const current = prev[facet] ?? [];
+      return { ...prev, [facet]: current.includes(value) ? current.filter(v => v !== value) : [...current, value] };
+    });
+
+  const toggleColumn = (key: ColumnKey) =>
+    setVisibleColumns(prev => (prev.includes(key) ? prev.filter(k => k !== key) : COLUMNS.map(c => c.key).filter(k => k === key || prev.includes(k))));
+
+  const toggleRow = (companyId: string) =>
+    setSelectedCompanies(prev => (prev.includes(companyId) ? prev.filter(id => id !== companyId) : [...prev, companyId]));
+
+  const toggleAll = () =>
+    setSelectedCompanies(allSelected ? [] : displayedRows.map(row => row.cluster.companyId));
+
+  const dropdownClasses = "relative [&_summary]:list-none";
+  const dropdownPanelClasses = "absolute z-20 mt-1 w-60 max-h-72 overflow-y-auto bg-white border border-slate-200 rounded-lg shadow-lg p-2 space-y-1";
+  const actionButtonClasses = "px-3 py-1 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-100 disabled:opacity-50 transition";
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        {FACETS.map(facet => {
+          const selected = facetSelections[facet.key] ?? [];
+          return (
+            <details key={facet.key} className={dropdownClasses}>
+              <summary className={`cursor-pointer px-3 py-1.5 text-sm rounded-md border ${selected.length > 0 ? 'border-amber-500 bg-amber-50 text-amber-800' : 'border-slate-300 bg-white text-slate-700'}`}>
+                {facet.label}{selected.length > 0 ? ` (${selected.length})` : ''} ▾
+              </summary>
+              <div className={dropdownPanelClasses}>
+                {facetCounts(rows, facet.key).map(([value, count]) => (
+                  <label key={value} className="flex items-center gap-2 text-sm text-slate-700 px-1 py-0.5 rounded hover:bg-slate-50 cursor-pointer">
+                    <input type="checkbox" checked={selected.includes(value)} onChange={() => toggleFacetValue(facet.key, value)} className="accent-amber-500" />
+                    <span className="flex-grow truncate">{value}</span>
+                    <span className="text-xs text-slate-400">{count}</span>
+                  </label>
+                ))}
+              </div>
+            </details>
+          );
+        })}
+        {(Object.values(facetSelections) as string[][]).some(values => values.length > 0) && (
+          <button onClick={() => setFacetSelections({})} className="text-sm text-slate-500 hover:text-slate-800">Clear facets</button>
+        )}
+        <details className={`${dropdownClasses} ml-auto`}>
+          <summary className="cursor-pointer px-3 py-1.5 text-sm rounded-md border border-slate-300 bg-white text-slate-700">Columns ▾</summary>
+          <div className={`${dropdownPanelClasses} right-0`}>
+            {COLUMNS.map(column => (
+              <label key={column.key} className="flex items-center gap-2 text-sm text-slate-700 px-1 py-0.5 rounded hover:bg-slate-50 cursor-pointer">
+                <input type="checkbox" checked={visibleColumns.includes(column.key)} onChange={() => toggleColumn(column.key)} className="accent-amber-500" />
+                {column.label}
+              </label>
+            ))}
+          </div>
+        </details>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3 p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm">
+        <span className="text-slate-600 mr-2">{selectedRows.length > 0 ? `${selectedRows.length} selected` : `${displayedRows.length} companies`}</span>
+        <button onClick={() => onAddToPipeline(selectedRows)} disabled={!selectedRows.some(row => !row.pipelineDeal && !row.result.error)} className={actionButtonClasses}>Add to Pipeline</button>
+        <button onClick={() => onReanalyze(selectedRows)} disabled={!selectedRows.some(row => !isImportedWithoutUrl(row.result))} className={actionButtonClasses}>Re-analyze</button>
+        <button onClick={() => onSetArchived(selectedRows, true)} disabled={!selectedRows.some(row => !row.result.archived)} className={actionButtonClasses}>Archive</button>
+        <button onClick={() => onSetArchived(selectedRows, false)} disabled={!selectedRows.some(row => row.result.archived)} className={actionButtonClasses}>Unarchive</button>
+        <button onClick={onMerge} disabled={selectedRows.length < 2} className={actionButtonClasses}>Merge</button>
+        <button onClick={() => onExport(selectedRows.length > 0 ? selectedRows : displayedRows)} disabled={displayedRows.length === 0} className={actionButtonClasses}>
+          Export {selectedRows.length > 0 ? 'Selected' : 'All'} (CSV)
+        </button>
+      </div>
+
+      <div className="border border-slate-200 rounded-lg overflow-x-auto">
+        <div className="min-w-max">
+          <div className="flex items-center bg-slate-50 border-b border-slate-200 text-xs font-semibold text-slate-500 uppercase" style={{ height: ROW_HEIGHT }}>
+            <div className="w-10 flex-shrink-0 px-3"><input type="checkbox" checked={allSelected} onChange={toggleAll} className="accent-amber-500" /></div>
+            <div className="w-72 flex-shrink-0 px-3">Listing</div>
+            {columns.map(column => (
+              <button key={column.key} onClick={() => handleSort(column.key)} className={`w-32 flex-shrink-0 px-3 uppercase hover:text-slate-800 ${column.align === 'right' ? 'text-right' : 'text-left'} ${sortKey === column.key ? 'text-amber-600' : ''}`}>
+                {column.label}{sortKey === column.key ? (sortDirection === 'asc' ? ' ▲' : ' ▼') : ''}
+              </button>
+            ))}
+          </div>
+          <div className="overflow-y-auto" style={{ height: Math.min(VIEWPORT_HEIGHT, Math.max(displayedRows.length, 1) * ROW_HEIGHT) }} onScroll={e => setScrollTop(e.currentTarget.scrollTop)}>
+            {displayedRows.length === 0 && <p className="text-center text-sm text-slate-400 py-3">No results match these filters.</p>}
+            <div style={{ height: displayedRows.length * ROW_HEIGHT, position: 'relative' }}>
+              {windowRows.map((row, offset) => {
+                const { result } = row;
+                const isSelected = selectedCompanies.includes(row.cluster.companyId);
+                return (
+                  <div
+                    key={row.cluster.companyId}
+                    className={`absolute left-0 right-0 flex items-center border-b border-slate-100 text-sm ${isSelected ? 'bg-amber-50' : 'bg-white hover:bg-slate-50'} ${result.archived ? 'opacity-60' : ''}`}
+                    style={{ top: (firstIndex + offset) * ROW_HEIGHT, height: ROW_HEIGHT }}
+                  >
+                    <div className="w-10 flex-shrink-0 px-3"><input type="checkbox" checked={isSelected} onChange={() => toggleRow(row.cluster.companyId)} className="accent-amber-500" /></div>
+                    <div className="w-72 flex-shrink-0 px-3 min-w-0">
+                      <button onClick={() => onView(result)} disabled={!!result.error} className="block max-w-full truncate text-left font-medium text-slate-800 hover:text-amber-600 disabled:hover:text-slate-800" title={result.title}>
+                        {result.title || result.url}
+                      </button>
+                      {result.error && <p className="text-xs text-red-600 truncate">{result.error}</p>}
+                      {result.archived && <p className="text-xs text-slate-500">Archived</p>}
+                    </div>
+                    {columns.map(column => (
+                      <div key={column.key} className={`w-32 flex-shrink-0 px-3 truncate text-slate-600 ${column.align === 'right' ? 'text-right' : ''}`}>{column.render(row)}</div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SourcingResultsTable;
@@ -0,0 +1,155 @@
+import React, { useState, useEffect, useContext } from 'react';
+import { Deal } from '../App';
+import { AuthContext } from '../contexts/AuthContext';
+import { auth, db } from '../firebase/config';
+import {
+  TeamRole, TeamMember, TeamInvite, TEAM_ROLES, ROLE_DESCRIPTIONS, hasFullAccess,
+  inviteMember, revokeInvite, updateMember, removeMember, listenToInvites,
+} from '../storage/team';
+
+interface TeamPanelProps {
+  workspaceId: string;
+  deals: Deal[];
+  members: TeamMember[];
+  isSyncEnabled: boolean;
+  onEnableSync: () => void;
+  onClose: () => void;
+  showToast: (message: string) => void;
+}
+
+// --- Deal sharing checkboxes, used for advisors and lenders ---
+const DealShareList: React.FC<{ deals: Deal[], selectedIds: string[], onChange: (ids: string[]) => void }> = ({ deals, selectedIds, onChange }) => {
+  if (deals.length === 0) return <p className="text-xs text-slate-500">No deals in the pipeline yet.</p>;
+  const toggle = (id: string) => onChange(selectedIds.includes(id) ? selectedIds.filter(d => d !== id) : [...selectedIds, id]);
+  return (
+    <div className="flex flex-wrap gap-x-4 gap-y-1">
+      {deals.map(deal => (
+        <label key={deal.id} className="flex items-center gap-2 text-xs text-slate-700">
+          <input type="checkbox" checked={selectedIds.includes(deal.id)} onChange={() => toggle(deal.id)} className="h-4 w-4 rounded border-slate-300 text-amber-600 focus:ring-amber-500" />
+          {deal.companyName}
+        </label>
+      ))}
+    </div>
+  );
+};
+
+const TeamPanel: React.FC<TeamPanelProps> = ({ workspaceId, deals, members, isSyncEnabled, onEnableSync, onClose, showToast }) => {
+  const { user } = useContext(AuthContext);
+  const [invites, setInvites] = useState<TeamInvite[]>([]);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<TeamRole>('analyst');
+  const [dealIds, setDealIds] = useState<string[]>([]);
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => listenToInvites(db, workspaceId, setInvites), [workspaceId]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !email.trim()) return;
+    setIsSending(true);
+    try {
+      await inviteMember(db, auth, user, { workspaceId, email, role, dealIds: hasFullAccess(role) ? [] : dealIds });
+      // Collaborators only see what is synced to Firestore.
+      if (!isSyncEnabled) onEnableSync();
+      showToast(`Invite sent to ${email.trim()}.`);
+      setEmail('');
+      setDealIds([]);
+    } catch (error) {
+      console.error("Failed to send invite", error);
+      showToast("Error: Could not send the invite.");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleMemberChange = (member: TeamMember, changes: Partial<Pick<TeamMember, 'role' | 'dealIds'>>) => {
+    updateMember(db, workspaceId, member.uid, changes).catch(error => {
+      console.error("Failed to update team member", error);
+      showToast("Error: Could not update team member.");
+    });
+  };
+
+  const handleRemoveMember = (member: TeamMember) => {
+    if (!window.confirm(`Remove ${member.email} from this workspace?`)) return;
+    removeMember(db, workspaceId, member.uid).catch(error => {
+      console.error("Failed to remove team member", error);
+      showToast("Error: Could not remove team member.");
+    });
+  };
+
+  const commonSelectClasses = "bg-white text-slate-700 border border-slate-300 rounded-md py-2 px-3 text-sm";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white border border-slate-200 rounded-2xl p-6 w-full max-w-3xl max-h-[85vh] shadow-lg flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4 flex-shrink-0">
+          <h3 className="text-xl font-bold text-amber-600">Team & Sharing</h3>
+          <button onClick={onClose} className="p-2 text-slate-500 hover:text-slate-800 rounded-full hover:bg-slate-100 transition">&times;</button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto text-slate-700 space-y-6 pr-2">
+          <form onSubmit={handleInvite} className="bg-slate-50 border border-slate-200 rounded-lg p-4 space-y-3">
+            <h4 className="font-semibold text-slate-800">Invite by Email</h4>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="name@firm.com" className={`${commonSelectClasses} flex-grow`} />
+              <select value={role} onChange={(e) => setRole(e.target.value as TeamRole)} className={commonSelectClasses}>
+                {TEAM_ROLES.map(r => <option key={r} value={r}>{r}</option>)}
+              </select>
+              <button type="submit" disabled={isSending || !email.trim()} className="px-4 py-2 text-sm font-semibold text-gray-900 bg-amber-500 rounded-lg hover:bg-amber-600 disabled:bg-slate-300">Send Invite</button>
+            </div>
+            <p className="text-xs text-slate-500">{ROLE_DESCRIPTIONS[role]}.</p>
+            {!hasFullAccess(role) && (
+              <div>
+                <p className="text-xs font-medium text-slate-600 mb-1">Share these deals:</p>
+                <DealShareList deals={deals} selectedIds={dealIds} onChange={setDealIds} />
+              </div>
+            )}
+            {!isSyncEnabled && <p className="text-xs text-amber-700">Sending an invite turns on Cloud Sync so your team can see deals and tasks.</p>}
+          </form>
+
+          <div>
+            <h4 className="font-semibold text-slate-800 mb-2">Members</h4>
+            {members.length === 0 && <p className="text-sm text-slate-500">No one has joined yet.</p>}
+            <ul className="space-y-3">
+              {members.map(member => (
+                <li key={member.uid} className="border border-slate-200 rounded-lg p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-slate-800 truncate">{member.email}</span>
+                    <div className="flex items-center gap-2">
+                      <select value={member.role} onChange={(e) => handleMemberChange(member, { role: e.target.value as TeamRole })} className={commonSelectClasses}>
+                        {TEAM_ROLES.map(r => <option key={r} value={r}>{r}</option>)}
+                      </select>
+                      <button onClick={() => handleRemoveMember(member)} className="text-sm text-red-600 hover:text-red-700">Remove</button>
+                    </div>
+                  </div>
+                  {!hasFullAccess(member.role) && (
+                    <div className="mt-2">
+                      <p className="text-xs font-medium text-slate-600 mb-1">Shared deals:</p>
+                      <DealShareList deals={deals} selectedIds={member.dealIds} onChange={ids => handleMemberChange(member, { dealIds: ids })} />
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {invites.length > 0 && (
+            <div>
+              <h4 className="font-semibold text-slate-800 mb-2">Pending Invites</h4>
+              <ul className="space-y-2">
+                {invites.map(invite => (
+                  <li key={invite.id} className="flex items-center justify-between text-sm border border-slate-200 rounded-lg p-2">
+                    <span>{invite.email} <span className="text-slate-500">({invite.role})</span></span>
+                    <button onClick={() => revokeInvite(db, invite.id).catch(error => console.error("Failed to revoke invite", error))} className="text-red-600 hover:text-red-700">Revoke</button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TeamPanel;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { MultipleBand, ValuationSettings, SBA_DEBT_SERVICE_RATE, SELLER_NOTE_RATE } from '../sourcing/valuationMetrics';
+
+interface ValuationSettingsModalProps {
+  settings: ValuationSettings;
+  onSave: (settings: ValuationSettings) => void;
+  onClose: () => void;
+}
+
+const inputClasses = "w-full bg-white text-slate-700 border border-slate-300 rounded-md py-2 px-3 text-sm";
+
+const NumberField: React.FC<{ label: string; value: number; step?: number; onChange: (value: number) => void }> = ({ label, value, step = 1, onChange }) => (
+  <label className="block text-sm text-slate-500">
+    {label}
+    <input type="number" step={step} min={0} value={value} onChange={e => onChange(Number(e.target.value) || 0)} className={`${inputClasses} mt-1`} />
+  </label>
+);
+
+/** Edits the multiple bands and financing assumptions behind each result's implied valuation. */
+const ValuationSettingsModal: React.FC<ValuationSettingsModalProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ValuationSettings>(settings);
+
+  const update = (changes: Partial<ValuationSettings>) => setDraft(prev => ({ ...prev, ...changes }));
+  const updateBand = (id: string, changes: Partial<MultipleBand>) =>
+    update({ bands: draft.bands.map(band => (band.id === id ? { ...band, ...changes } : band)) });
+  const addBand = () =>
+    update({ bands: [...draft.bands, { id: crypto.randomUUID(), industry: '', minMultiple: draft.defaultBand.minMultiple, maxMultiple: draft.defaultBand.maxMultiple }] });
+
+  const hasInvalidBand = [draft.defaultBand, ...draft.bands].some(band => band.minMultiple > band.maxMultiple);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white border border-slate-200 rounded-2xl p-6 w-full max-w-3xl max-h-[90vh] shadow-lg flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4 flex-shrink-0">
+          <div>
+            <h3 className="text-xl font-bold text-amber-600">Valuation Settings</h3>
+            <p className="text-sm text-slate-500">Listings asking a multiple outside their industry's band are flagged.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-2xl leading-none">&times;</button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto space-y-6 pr-2">
+          <div>
+            <h4 className="font-semibold text-slate-800 mb-2">SDE Multiple Bands</h4>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 border-b border-slate-200">
+                  <th className="py-2 pr-3 font-medium">Industry contains</th>
+                  <th className="py-2 pr-3 font-medium w-28">Min</th>
+                  <th className="py-2 pr-3 font-medium w-28">Max</th>
+                  <th className="py-2 w-16"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {draft.bands.map(band => (
+                  <tr key={band.id} className="border-b border-slate-100">
+                    <td className="py-2 pr-3"><input value={band.industry} onChange={e => updateBand(band.id, { industry: e.target.value })} placeholder="e.g. HVAC" className={inputClasses} /></td>
+                    <td className="py-2 pr-3"><input type="number" step={0.1} min={0} value={band.minMultiple} onChange={e => updateBand(band.id, { minMultiple: Number(e.target.value) || 0 })} className={inputClasses} /></td>
+                    <td className="py-2 pr-3"><input type="number" step={0.1} min={0} value={band.maxMultiple} onChange={e => updateBand(band.id, { maxMultiple: Number(e.target.value) || 0 })} className={inputClasses} /></td>
+                    <td className="py-2 text-right"><button onClick={() => update({ bands: draft.bands.filter(b => b.id !== band.id) })} className="text-xs text-slate-500 hover:text-red-600">Remove</button></td>
+                  </tr>
+                ))}
+                <tr>
+                  <td className="py-2 pr-3 text-slate-600">All other industries</td>
+                  <td className="py-2 pr-3"><input type="number" step={0.1} min={0} value={draft.defaultBand.minMultiple} onChange={e => update({ defaultBand: { ...draft.defaultBand, minMultiple: Number(e.target.value) || 0 } })} className={inputClasses} /></td>
+                  <td className="py-2 pr-3"><input type="number" step={0.1} min={0} value={draft.defaultBand.maxMultiple} onChange={e => update({ defaultBand: { ...draft.defaultBand, maxMultiple: Number(e.target.value) || 0 } })} className={inputClasses} /></td>
+                  <td></td>
+                </tr>
+              </tbody>
+            </table>
+            <button onClick={addBand} className="mt-2 text-sm font-medium text-amber-600 hover:underline">+ Add Industry Band</button>
+            {hasInvalidBand && <p className="mt-2 text-sm text-red-600">A band's minimum can't be above its maximum.</p>}
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-slate-800 mb-1">Quick DSCR Assumptions</h4>
+            <p className="text-xs text-slate-500 mb-3">
+              As in the Valuation Calculator's quick view: SBA debt service at {SBA_DEBT_SERVICE_RATE * 100}% of the loan per year and the seller note at {SELLER_NOTE_RATE * 100}% interest-only, both sized from the asking price.
+            </p>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <NumberField label="SBA Loan (% of price)" value={draft.loanPercent} onChange={loanPercent => update({ loanPercent })} />
+              <NumberField label="Seller Note (% of price)" value={draft.sellerNotePercent} onChange={sellerNotePercent => update({ sellerNotePercent })} />
+              <NumberField label="Owner Salary ($)" value={draft.ownerSalary} step={1000} onChange={ownerSalary => update({ ownerSalary })} />
+              <NumberField label="Min. DSCR" value={draft.minDscr} step={0.05} onChange={minDscr => update({ minDscr })} />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-4 flex-shrink-0">
+          <button onClick={onClose} className="px-6 py-3 font-medium text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 transition">Cancel</button>
+          <button onClick={() => onSave(draft)} disabled={hasInvalidBand} className="px-6 py-3 font-semibold text-gray-900 bg-amber-500 rounded-lg hover:bg-amber-600 disabled:bg-slate-400 disabled:cursor-not-allowed transition">Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ValuationSettingsModal;
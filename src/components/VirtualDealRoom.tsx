@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useRef } from 'react';
 
 // --- Interfaces ---
 interface FileRecord {
@@ -11,7 +11,7 @@ interface FileRecord {
   status: 'Requested' | 'Received' | 'In Review' | 'Approved';
 }
 
-interface Folder {
+export interface Folder {
   id: string;
   name: string;
   files: FileRecord[];
@@ -20,10 +20,11 @@ interface Folder {
 interface VirtualDealRoomProps {
     // Fix: Updated onAddTask to allow for an optional dealId, matching the type in ManagementHub.
     onAddTask: (taskTitle: string, taskDescription: string, category: string, dealId?: string) => void;
+    folders: Folder[] | null;
+    setFolders: React.Dispatch<React.SetStateAction<Folder[] | null>>;
 }
 
 // --- Constants ---
-const VDR_STORAGE_KEY = 'virtualDealRoomState';
 const DILIGENCE_CATEGORIES = [
     'Financial Diligence',
     'Legal & Corporate',
@@ -54,35 +55,21 @@ const getStatusColor = (status: FileRecord['status']) => {
     }
 };
 
-const getInitialState = (): Folder[] => {
-    try {
-        const savedState = localStorage.getItem(VDR_STORAGE_KEY);
-        if (savedState) return JSON.parse(savedState);
-    } catch (e) {
-        console.error("Failed to load VDR state from local storage:", e);
-    }
-    // Default state if nothing is saved or loading fails
-    return DILIGENCE_CATEGORIES.map(name => ({
-        id: crypto.randomUUID(),
-        name,
-        files: []
-    }));
-};
+// Created once so folder ids stay stable until the user's first edit is persisted
+const defaultFolders: Folder[] = DILIGENCE_CATEGORIES.map(name => ({
+    id: crypto.randomUUID(),
+    name,
+    files: []
+}));
 
 
-const VirtualDealRoom: React.FC<VirtualDealRoomProps> = ({ onAddTask }) => {
-    const [folders, setFolders] = useState<Folder[]>(getInitialState);
+const VirtualDealRoom: React.FC<VirtualDealRoomProps> = ({ onAddTask, folders: propFolders, setFolders }) => {
+    const folders = propFolders ?? defaultFolders;
     const [activeFolderId, setActiveFolderId] = useState<string | null>(folders[0]?.id || null);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
-    // --- State Persistence ---
-    useEffect(() => {
-        try {
-            localStorage.setItem(VDR_STORAGE_KEY, JSON.stringify(folders));
-        } catch (e) {
-            console.error("Failed to save VDR state to local storage:", e);
-        }
-    }, [folders]);
+    // State is persisted by App through the workspace repository
+    const updateFolders = (updater: (prev: Folder[]) => Folder[]) => setFolders(prev => updater(prev ?? defaultFolders));
 
     const activeFolder = folders.find(f => f.id === activeFolderId);
 
@@ -91,7 +78,7 @@ const VirtualDealRoom: React.FC<VirtualDealRoomProps> = ({ onAddTask }) => {
         const folderName = prompt("Enter new folder name:");
         if (folderName && folderName.trim()) {
             const newFolder: Folder = { id: crypto.randomUUID(), name: folderName.trim(), files: [] };
-            setFolders(prev => [...prev, newFolder]);
+            updateFolders(prev => [...prev, newFolder]);
             setActiveFolderId(newFolder.id);
         }
     };
@@ -100,14 +87,14 @@ const VirtualDealRoom: React.FC<VirtualDealRoomProps> = ({ onAddTask }) => {
         const folder = folders.find(f => f.id === folderId);
         const newName = prompt("Enter new folder name:", folder?.name);
         if (newName && newName.trim()) {
-            setFolders(prev => prev.map(f => f.id === folderId ? { ...f, name: newName.trim() } : f));
+            updateFolders(prev => prev.map(f => f.id === folderId ? { ...f, name: newName.trim() } : f));
         }
     };
     
     const handleDeleteFolder = (folderId: string) => {
         const folder = folders.find(f => f.id === folderId);
         if (folder && window.confirm(`Are you sure you want to delete the folder "${folder.name}" and all its files?`)) {
-            setFolders(prev => prev.filter(f => f.id !== folderId));
+            updateFolders(prev => prev.filter(f => f.id !== folderId));
             if (activeFolderId === folderId) {
                 setActiveFolderId(folders[0]?.id || null);
             }
@@ -117,7 +104,7 @@ const VirtualDealRoom: React.FC<VirtualDealRoomProps> = ({ onAddTask }) => {
     // --- File & Request Management ---
     const updateFilesInActiveFolder = (updatedFiles: FileRecord[]) => {
         if (!activeFolderId) return;
-        setFolders(prev => prev.map(f => f.id === activeFolderId ? { ...f, files: updatedFiles } : f));
+        updateFolders(prev => prev.map(f => f.id === activeFolderId ? { ...f, files: updatedFiles } : f));
     };
 
     const handleAddRequest = () => {
@@ -0,0 +1,160 @@
+import React, { useState, useContext } from 'react';
+import { RepositoryContext } from '../contexts/RepositoryContext';
+import { WorkspaceKey, WORKSPACE_KEYS } from '../storage/repository';
+import { WorkspaceArchive, CollectionPreview, ImportMode, createWorkspaceArchive, parseWorkspaceArchive, previewImport, applyImport } from '../storage/workspaceArchive';
+
+interface WorkspaceTransferProps {
+  onClose: () => void;
+  /** Called before anything is written, so the app stops saving its own state over the import. */
+  onImportStarted: () => void;
+  onImported: (message: string) => void;
+  /** The import stopped part way; the app reloads whatever was stored. */
+  onImportFailed: () => void;
+}
+
+interface PendingImport {
+  fileName: string;
+  archive: WorkspaceArchive;
+  preview: CollectionPreview[];
+}
+
+const WorkspaceTransfer: React.FC<WorkspaceTransferProps> = ({ onClose, onImportStarted, onImported, onImportFailed }) => {
+  const repository = useContext(RepositoryContext);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleExport = async () => {
+    if (!repository) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      const archive = createWorkspaceArchive(await repository.loadAll());
+      const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json;charset=utf-8' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `acquisition-os-workspace_${archive.exportedAt.slice(0, 10)}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error("Workspace export failed", e);
+      setError("Could not export the workspace. Please try again.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !repository) return;
+    setError(null);
+    setPending(null);
+    try {
+      const archive = parseWorkspaceArchive(await file.text());
+      const current = await repository.loadAll();
+      setPending({ fileName: file.name, archive, preview: previewImport(current, archive.data) });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not read the selected file.");
+    }
+  };
+
+  const handleImport = async (mode: ImportMode) => {
+    if (!repository || !pending) return;
+    if (mode === 'replace' && !window.confirm("Replace your entire workspace with this export? Anything not in the file will be deleted.")) return;
+    setIsWorking(true);
+    setError(null);
+    onImportStarted();
+    try {
+      // Read again: the workspace may have changed since the file was picked.
+      const next = applyImport(await repository.loadAll(), pending.archive.data, mode);
+      await Promise.all(WORKSPACE_KEYS.map(key => {
+        const value = next[key as WorkspaceKey];
+        if (value !== undefined) return repository.save(key, value);
+        return mode === 'replace' ? repository.remove(key) : Promise.resolve();
+      }));
+      onImported(mode === 'replace' ? "Workspace replaced from export." : "Workspace export merged.");
+      onClose();
+    } catch (e) {
+      console.error("Workspace import failed", e);
+      setError(e instanceof Error ? e.message : "Could not import the workspace.");
+      onImportFailed();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const totalConflicts = pending?.preview.reduce((sum, c) => sum + c.conflicts.length, 0) ?? 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white border border-slate-200 rounded-2xl p-6 w-full max-w-2xl max-h-[80vh] shadow-lg flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4 flex-shrink-0">
+          <h3 className="text-xl font-bold text-amber-600">Workspace Backup</h3>
+          <button onClick={onClose} className="p-2 text-slate-500 hover:text-slate-800 rounded-full hover:bg-slate-100 transition">&times;</button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto text-slate-700 space-y-6 pr-2">
+          <div>
+            <h4 className="font-semibold text-slate-800">Export</h4>
+            <p className="text-sm mt-1">Download your buy box profiles, deals, tasks, sourcing results, checklists, deal room folders and integration metrics as a single file.</p>
+            <button onClick={handleExport} disabled={isWorking} className="mt-3 px-4 py-2 text-sm font-medium text-white bg-amber-500 rounded-md hover:bg-amber-600 disabled:bg-slate-300">Export Workspace</button>
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-slate-800">Import</h4>
+            <p className="text-sm mt-1">Restore from a workspace export. You'll see what would change before anything is written.</p>
+            <input type="file" accept=".json,application/json" onChange={handleFileSelected} disabled={isWorking} className="mt-3 block text-sm text-slate-600 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-amber-100 file:text-amber-700 hover:file:bg-amber-200" />
+          </div>
+
+          {error && <p className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-md p-3">{error}</p>}
+
+          {pending && (
+            <div className="bg-slate-50 border border-slate-200 rounded-lg p-4">
+              <p className="text-sm text-slate-600 mb-3">
+                <span className="font-medium text-slate-800">{pending.fileName}</span> &middot; exported {new Date(pending.archive.exportedAt).toLocaleString()}
+              </p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500 border-b border-slate-200">
+                    <th className="py-1 font-medium">Collection</th>
+                    <th className="py-1 font-medium text-right">In file</th>
+                    <th className="py-1 font-medium text-right">New</th>
+                    <th className="py-1 font-medium text-right">Conflicts</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pending.preview.map(c => (
+                    <tr key={c.key} className="border-b border-slate-100 align-top">
+                      <td className="py-1">
+                        {c.label}
+                        {c.conflicts.length > 0 && <p className="text-xs text-slate-500 break-all">{c.conflicts.join(', ')}</p>}
+                      </td>
+                      <td className="py-1 text-right">{c.incomingCount}</td>
+                      <td className="py-1 text-right">{c.newCount}</td>
+                      <td className={`py-1 text-right ${c.conflicts.length > 0 ? 'text-amber-600 font-semibold' : ''}`}>{c.conflicts.length}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-slate-500 mt-3">
+                {totalConflicts > 0
+                  ? `Merging overwrites the ${totalConflicts} conflicting item(s) with the version from the file and keeps everything else.`
+                  : 'No conflicts. Merging adds the imported items to your workspace.'}
+              </p>
+              <div className="flex justify-end gap-2 mt-4">
+                <button onClick={() => handleImport('replace')} disabled={isWorking} className="px-4 py-2 text-sm font-medium text-red-700 bg-red-100 rounded-md hover:bg-red-200 disabled:opacity-50">Replace Workspace</button>
+                <button onClick={() => handleImport('merge')} disabled={isWorking} className="px-4 py-2 text-sm font-medium text-white bg-amber-500 rounded-md hover:bg-amber-600 disabled:bg-slate-300">Merge</button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkspaceTransfer;
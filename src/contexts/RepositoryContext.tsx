@@ -0,0 +1,34 @@
+import React, { createContext, useContext, useMemo, ReactNode } from 'react';
+import { AuthContext } from './AuthContext';
+import { TeamContext } from './TeamContext';
+import { createWorkspaceRepository, createDefaultAdapter, WorkspaceRepository } from '../storage/repository';
+import { RemoteStorageAdapter } from '../storage/types';
+
+export const RepositoryContext = createContext<WorkspaceRepository | null>(null);
+
+interface RepositoryProviderProps {
+  children: ReactNode;
+  remote?: RemoteStorageAdapter;
+}
+
+export const RepositoryProvider: React.FC<RepositoryProviderProps> = ({ children, remote }) => {
+  const { user } = useContext(AuthContext);
+  const { activeWorkspace } = useContext(TeamContext);
+  const uid = user?.uid;
+  const local = useMemo(() => createDefaultAdapter(), []);
+
+  // A new repository per signed-in user keeps every collection scoped to that uid.
+  // Shared workspaces get their own local cache so they never mix with the user's own data.
+  const sharedWorkspaceId = activeWorkspace?.isShared ? activeWorkspace.id : null;
+  const repository = useMemo(() => {
+    if (!uid) return null;
+    if (sharedWorkspaceId) return createWorkspaceRepository(`${uid}_shared_${sharedWorkspaceId}`, { local, legacyFallback: false });
+    return createWorkspaceRepository(uid, { local, remote });
+  }, [uid, sharedWorkspaceId, local, remote]);
+
+  return (
+    <RepositoryContext.Provider value={repository}>
+      {children}
+    </RepositoryContext.Provider>
+  );
+};
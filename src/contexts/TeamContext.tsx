@@ -0,0 +1,57 @@
+import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
+import { AuthContext } from './AuthContext';
+import { db } from '../firebase/config';
+import { TeamMember, ActiveWorkspace, acceptPendingInvites, listenToMemberships, listenToMembers, hasFullAccess } from '../storage/team';
+
+interface TeamContextType {
+  /** Workspaces the user was invited to. Their own workspace is always available as well. */
+  memberships: TeamMember[];
+  activeWorkspace: ActiveWorkspace | null;
+  setActiveWorkspaceId: (workspaceId: string) => void;
+  /** Members of the active workspace; only loaded for owners and analysts. */
+  members: TeamMember[];
+}
+
+export const TeamContext = createContext<TeamContextType>({
+  memberships: [],
+  activeWorkspace: null,
+  setActiveWorkspaceId: () => {},
+  members: [],
+});
+
+export const TeamProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useContext(AuthContext);
+  const [memberships, setMemberships] = useState<TeamMember[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+
+  useEffect(() => {
+    setMemberships([]);
+    setActiveWorkspaceId(null);
+    if (!user) return;
+    acceptPendingInvites(db, user).catch(error => console.error("Failed to accept team invites", error));
+    return listenToMemberships(db, user.uid, setMemberships);
+  }, [user]);
+
+  const activeWorkspace = useMemo<ActiveWorkspace | null>(() => {
+    if (!user) return null;
+    const membership = memberships.find(m => m.workspaceId === activeWorkspaceId);
+    if (!membership) {
+      return { id: user.uid, role: 'owner', dealIds: [], ownerEmail: user.email ?? '', isShared: false };
+    }
+    return { id: membership.workspaceId, role: membership.role, dealIds: membership.dealIds, ownerEmail: membership.ownerEmail, isShared: true };
+  }, [user, memberships, activeWorkspaceId]);
+
+  const canSeeMembers = !!activeWorkspace && hasFullAccess(activeWorkspace.role);
+  useEffect(() => {
+    setMembers([]);
+    if (!activeWorkspace || !canSeeMembers) return;
+    return listenToMembers(db, activeWorkspace.id, setMembers);
+  }, [activeWorkspace?.id, canSeeMembers]);
+
+  return (
+    <TeamContext.Provider value={{ memberships, activeWorkspace, setActiveWorkspaceId, members }}>
+      {children}
+    </TeamContext.Provider>
+  );
+};
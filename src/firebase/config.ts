@@ -1,6 +1,7 @@
 // Import the functions you need from the SDKs you need
 import { initializeApp } from "firebase/app";
-import { getAuth } from "firebase/auth";
+import { getAuth, connectAuthEmulator } from "firebase/auth";
+import { initializeFirestore, connectFirestoreEmulator } from "firebase/firestore";
 
 // Your web app's Firebase configuration
 const firebaseConfig = {
@@ -17,3 +18,18 @@ const app = initializeApp(firebaseConfig);
 
 // Initialize Firebase Authentication and get a reference to the service
 export const auth = getAuth(app);
+
+// Deal and Task documents may carry optional fields that are `undefined`; Firestore rejects those by default.
+export const db = initializeFirestore(app, { ignoreUndefinedProperties: true });
+
+// Point at the local Firebase emulators when their hosts are set (see firebase.json).
+const parseHost = (host: string): [string, number] => {
+  const [hostname, port] = host.split(':');
+  return [hostname, Number(port)];
+};
+if (process.env.FIREBASE_AUTH_EMULATOR_HOST) {
+  connectAuthEmulator(auth, `http://${process.env.FIREBASE_AUTH_EMULATOR_HOST}`, { disableWarnings: true });
+}
+if (process.env.FIRESTORE_EMULATOR_HOST) {
+  connectFirestoreEmulator(db, ...parseHost(process.env.FIRESTORE_EMULATOR_HOST));
+}
@@ -0,0 +1,103 @@
+import { ChecklistItem, Deal, DealStatus, Task } from '../App';
+import { recordDealEvent } from './dealActivity';
+
+// Rules run whenever a deal enters a stage, including when it's first added to the pipeline.
+// Re-entering a stage runs them again, but a task the deal still has open or a checklist item
+// it already has isn't added twice.
+
+export interface TaskTemplate {
+  id: string;
+  title: string;
+  category: string;
+  /** Days after the rule's anchor date the task is due; null for no due date. */
+  dueOffsetDays: number | null;
+}
+
+/** What due dates count from: one of the deal's key dates, or the day it entered the stage. */
+export type DueDateAnchor = keyof Deal['timeline'] | 'stageEntered';
+
+export interface AutomationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  stage: DealStatus;
+  /** Role the created tasks are assigned to, e.g. "Buyer" or "CPA". */
+  assignee: string;
+  anchor: DueDateAnchor;
+  tasks: TaskTemplate[];
+  checklist: string[];
+}
+
+export const ANCHOR_LABELS: Record<DueDateAnchor, string> = {
+  loiSigned: 'LOI Signed',
+  diligenceEnd: 'Diligence End',
+  targetClose: 'Target Close',
+  stageEntered: 'Stage Entered',
+};
+
+/** The closing checklist every new deal used to start with, as a rule on the pipeline's first stage. */
+export const defaultAutomationRules = (firstStage: DealStatus): AutomationRule[] => [{
+  id: 'default-new-deal',
+  name: 'New deal closing checklist',
+  enabled: true,
+  stage: firstStage,
+  assignee: 'Buyer',
+  anchor: 'stageEntered',
+  tasks: [],
+  checklist: ['Finalize Purchase Agreement (APA/SPA)', 'Secure Final Loan Approval & Commitment Letter'],
+}];
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+/** The anchor date plus the offset, as "YYYY-MM-DD". A blank key date falls back to the day the stage was entered. */
+export const dueDateFor = (deal: Deal, anchor: DueDateAnchor, offsetDays: number | null, enteredAt: number) => {
+  if (offsetDays === null) return null;
+  const anchorDate = anchor !== 'stageEntered' && deal.timeline[anchor] ? deal.timeline[anchor] : toDateString(new Date(enteredAt));
+  const due = new Date(`${anchorDate}T00:00:00Z`);
+  if (isNaN(due.getTime())) return null;
+  due.setUTCDate(due.getUTCDate() + offsetDays);
+  return toDateString(due);
+};
+
+export interface AutomationResult {
+  /** The deal with checklist items added and each rule that ran logged to its activity. */
+  deal: Deal;
+  tasks: Task[];
+}
+
+/** Runs every enabled rule for the stage the deal is now in. `tasks` is used to skip tasks the deal already has open. */
+export const runAutomationRules = (deal: Deal, rules: AutomationRule[], tasks: Task[], actor: string, at = Date.now()): AutomationResult => {
+  const openTitles = new Set(tasks.filter(task => task.dealId === deal.id && task.status !== 'Done').map(task => task.title.toLowerCase()));
+  const created: Task[] = [];
+
+  const updated = rules.filter(rule => rule.enabled && rule.stage === deal.status).reduce((current, rule) => {
+    const newTasks: Task[] = rule.tasks
+      .filter(template => template.title.trim() && !openTitles.has(template.title.trim().toLowerCase()))
+      .map(template => ({
+        id: crypto.randomUUID(), title: template.title.trim(), priority: 'Medium', status: 'To Do',
+        dueDate: dueDateFor(current, rule.anchor, template.dueOffsetDays, at), assignee: rule.assignee,
+        description: `Created by the "${rule.name}" automation.`, category: template.category, attachments: [], dealId: deal.id,
+      }));
+    newTasks.forEach(task => openTitles.add(task.title.toLowerCase()));
+    created.push(...newTasks);
+
+    const existing = new Set(current.closingChecklist.map(item => item.text.toLowerCase()));
+    const newItems: ChecklistItem[] = rule.checklist
+      .map(text => text.trim())
+      .filter(text => text && !existing.has(text.toLowerCase()))
+      .map(text => ({ id: crypto.randomUUID(), text, completed: false }));
+
+    if (newTasks.length === 0 && newItems.length === 0) return current;
+    const withChecklist = { ...current, closingChecklist: [...current.closingChecklist, ...newItems] };
+    const summary = [
+      newTasks.length && `${newTasks.length} task${newTasks.length === 1 ? '' : 's'}`,
+      newItems.length && `${newItems.length} checklist item${newItems.length === 1 ? '' : 's'}`,
+    ].filter(Boolean).join(' and ');
+    return recordDealEvent(withChecklist, { type: 'automationRan', subject: rule.name, targetId: rule.id, to: summary }, actor, at);
+  }, deal);
+
+  return { deal: updated, tasks: created };
+};
+
+export const renameRuleStage = (rules: AutomationRule[], from: DealStatus, to: DealStatus) =>
+  rules.map(rule => (rule.stage === from ? { ...rule, stage: to } : rule));
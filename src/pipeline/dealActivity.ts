@@ -0,0 +1,155 @@
+import { Deal, DealStatus, KeyTerms } from '../App';
+import { LOST_REASON_LABELS } from './lostReasons';
+import { KEY_TERM_LABELS } from './stages';
+
+// Every change to a deal is recorded on the deal itself, so the log syncs and exports with it.
+// Changes are derived by comparing the deal before and after an edit, which keeps call sites
+// to a single `applyDealChange` rather than logging each field by hand.
+
+export type DealEventType =
+  | 'created' | 'stageChanged' | 'termsEdited'
+  | 'contactAdded' | 'contactEdited' | 'contactRemoved'
+  | 'checklistToggled' | 'taskCompleted' | 'lostReasonRecorded' | 'automationRan';
+
+export interface DealEvent {
+  id: string;
+  type: DealEventType;
+  at: number;
+  /** Who made the change: their display name or email. */
+  actor: string;
+  /** What changed, as shown in the timeline, e.g. "Purchase Price" or a contact's name. */
+  subject?: string;
+  /** The contact, checklist item or task the event is about, plus the field for edits. */
+  targetId?: string;
+  from?: string;
+  to?: string;
+}
+
+export type DealChange = Omit<DealEvent, 'id' | 'at' | 'actor'>;
+
+/** Typing into a field records one edit, not one per keystroke: edits to the same field this close together merge. */
+const COALESCE_WINDOW_MS = 10 * 60 * 1000;
+
+const isCoalescable = (type: DealEventType) => type === 'termsEdited' || type === 'contactEdited';
+
+/** Appends an event to the deal's activity, merging it into the last one for repeated edits of a field. */
+export const recordDealEvent = (deal: Deal, change: DealChange, actor: string, at = Date.now()): Deal => {
+  const activity = deal.activity ?? [];
+  const last = activity[activity.length - 1];
+  if (last && isCoalescable(change.type) && last.type === change.type && last.targetId === change.targetId
+    && last.actor === actor && at - last.at < COALESCE_WINDOW_MS) {
+    const merged = { ...last, subject: change.subject, to: change.to, at };
+    // Typed and then deleted again: nothing changed.
+    const rest = activity.slice(0, -1);
+    return { ...deal, activity: merged.from === merged.to ? rest : [...rest, merged] };
+  }
+  return { ...deal, activity: [...activity, { ...change, id: crypto.randomUUID(), at, actor }] };
+};
+
+const contactName = (contact: { name: string }) => contact.name.trim() || 'Unnamed contact';
+
+/** The changes between two versions of a deal that belong in its activity log. */
+export const diffDeal = (before: Deal, after: Deal): DealChange[] => {
+  const changes: DealChange[] = [];
+  if (before.status !== after.status) changes.push({ type: 'stageChanged', from: before.status, to: after.status });
+  if (after.lost && after.lost.reason !== before.lost?.reason) {
+    changes.push({ type: 'lostReasonRecorded', subject: LOST_REASON_LABELS[after.lost.reason], to: after.lost.notes || undefined });
+  }
+
+  (Object.keys(KEY_TERM_LABELS) as (keyof KeyTerms)[]).forEach(field => {
+    if (before.keyTerms[field] !== after.keyTerms[field]) {
+      changes.push({ type: 'termsEdited', subject: KEY_TERM_LABELS[field], targetId: field, from: before.keyTerms[field], to: after.keyTerms[field] });
+    }
+  });
+
+  const beforeContacts = new Map(before.contacts.map(contact => [contact.id, contact]));
+  const afterIds = new Set(after.contacts.map(contact => contact.id));
+  after.contacts.forEach(contact => {
+    const previous = beforeContacts.get(contact.id);
+    if (!previous) {
+      changes.push({ type: 'contactAdded', subject: contactName(contact), targetId: contact.id });
+      return;
+    }
+    (['name', 'role', 'email', 'phone'] as const).forEach(field => {
+      if (previous[field] !== contact[field]) {
+        changes.push({ type: 'contactEdited', subject: `${contactName(contact)} (${field})`, targetId: `${contact.id}:${field}`, from: previous[field], to: contact[field] });
+      }
+    });
+  });
+  before.contacts.filter(contact => !afterIds.has(contact.id))
+    .forEach(contact => changes.push({ type: 'contactRemoved', subject: contactName(contact), targetId: contact.id }));
+
+  const beforeItems = new Map(before.closingChecklist.map(item => [item.id, item]));
+  after.closingChecklist.forEach(item => {
+    const previous = beforeItems.get(item.id);
+    if (previous && previous.completed !== item.completed) {
+      changes.push({ type: 'checklistToggled', subject: item.text, targetId: item.id, to: item.completed ? 'completed' : 'reopened' });
+    }
+  });
+  return changes;
+};
+
+/** The edited deal with what changed recorded; the log itself always comes from `before`. */
+export const applyDealChange = (before: Deal, after: Deal, actor: string, at = Date.now()): Deal =>
+  diffDeal(before, after).reduce((deal, change) => recordDealEvent(deal, change, actor, at), { ...after, activity: before.activity });
+
+const quoted = (value: string | undefined) => (value ? `"${value}"` : 'blank');
+
+export const describeDealEvent = (event: DealEvent): string => {
+  switch (event.type) {
+    case 'created': return `Added to the pipeline${event.to ? ` in ${event.to}` : ''}`;
+    case 'stageChanged': return `Moved from ${event.from} to ${event.to}`;
+    case 'termsEdited': return `Changed ${event.subject} from ${quoted(event.from)} to ${quoted(event.to)}`;
+    case 'contactAdded': return `Added contact ${event.subject}`;
+    case 'contactEdited': return `Changed ${event.subject} from ${quoted(event.from)} to ${quoted(event.to)}`;
+    case 'contactRemoved': return `Removed contact ${event.subject}`;
+    case 'checklistToggled': return `${event.to === 'completed' ? 'Completed' : 'Reopened'} checklist item "${event.subject}"`;
+    case 'taskCompleted': return `Completed task "${event.subject}"`;
+    case 'automationRan': return `Automation "${event.subject}" added ${event.to}`;
+    case 'lostReasonRecorded': return `Marked lost: ${event.subject}${event.to ? ` — ${event.to}` : ''}`;
+  }
+};
+
+export interface StageStint {
+  status: DealStatus;
+  /** Null when the deal predates the activity log. */
+  enteredAt: number | null;
+  /** Null while the deal is still in this stage. */
+  leftAt: number | null;
+}
+
+/** The stages a deal has been in, oldest first, from its creation and stage-change events. */
+export const stageHistory = (deal: Deal): StageStint[] => {
+  const moves = (deal.activity ?? []).filter(event => event.type === 'stageChanged' || event.type === 'created');
+  const stints: StageStint[] = [];
+  moves.forEach(event => {
+    if (event.type === 'created') {
+      stints.push({ status: (event.to as DealStatus) ?? 'Identified', enteredAt: event.at, leftAt: null });
+      return;
+    }
+    const current = stints[stints.length - 1];
+    if (current) current.leftAt = event.at;
+    else stints.push({ status: event.from as DealStatus, enteredAt: null, leftAt: event.at });
+    stints.push({ status: event.to as DealStatus, enteredAt: event.at, leftAt: null });
+  });
+  if (stints.length === 0) stints.push({ status: deal.status, enteredAt: null, leftAt: null });
+  return stints;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const stintDays = (stint: StageStint, now = Date.now()) =>
+  stint.enteredAt === null ? null : ((stint.leftAt ?? now) - stint.enteredAt) / DAY_MS;
+
+/** Whole days the deal has been in its current stage, or null if it's unknown when it got there. */
+export const daysInCurrentStage = (deal: Deal, now = Date.now()) => {
+  const days = stintDays(stageHistory(deal).slice(-1)[0], now);
+  return days === null ? null : Math.floor(days);
+};
+
+/** Every completed or ongoing stint across deals, with its length in days, for time-in-stage reporting. */
+export const stageDurations = (deals: Deal[], now = Date.now()) =>
+  deals.flatMap(deal => stageHistory(deal).flatMap(stint => {
+    const days = stintDays(stint, now);
+    return days === null ? [] : [{ dealId: deal.id, status: stint.status, days, isCurrent: stint.leftAt === null }];
+  }));
@@ -0,0 +1,119 @@
+import { Deal, DealStatus } from '../App';
+import { sourceSite } from '../sourcing/resultsTable';
+import { stageDurations, stageHistory } from './dealActivity';
+import { LOST_STAGE, PipelineStage, WON_STAGE, progressionStages, stageNames } from './stages';
+
+export interface StageConversion {
+  stage: DealStatus;
+  /** Deals that got at least this far. */
+  reached: number;
+  /** Share of the deals that reached this stage which went on to the next; null for the last stage. */
+  conversionToNext: number | null;
+}
+
+export interface StageVelocity {
+  stage: DealStatus;
+  /** Median days deals spent in the stage before leaving it; null with no completed stints. */
+  medianDays: number | null;
+  /** Completed stints the median is based on. */
+  sampleSize: number;
+}
+
+export interface OutcomeRow {
+  key: string;
+  won: number;
+  lost: number;
+  open: number;
+  /** Won over decided (won or lost); null until one is decided. */
+  winRate: number | null;
+}
+
+export type OutcomeDimension = 'source' | 'industry' | 'fitBand';
+
+export interface CohortRow {
+  /** "2025-03" */
+  month: string;
+  total: number;
+  counts: Record<DealStatus, number>;
+}
+
+/** How far along the progression a deal ever got, from its stage history. */
+const furthestStageIndex = (deal: Deal, progression: DealStatus[]) => {
+  const visited = stageHistory(deal).map(stint => stint.status).concat(deal.status);
+  return Math.max(0, ...visited.map(status => progression.indexOf(status)));
+};
+
+/** How many deals reached each stage and how many of those moved on. Deals that skipped a stage count as passing it. */
+export const stageConversions = (deals: Deal[], stages: PipelineStage[]): StageConversion[] => {
+  const progression = progressionStages(stages);
+  const furthest = deals.map(deal => furthestStageIndex(deal, progression));
+  const reached = progression.map((_, index) => furthest.filter(f => f >= index).length);
+  return progression.map((stage, index) => ({
+    stage,
+    reached: reached[index],
+    conversionToNext: index === progression.length - 1 || reached[index] === 0 ? null : reached[index + 1] / reached[index],
+  }));
+};
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/** Median time deals spend in each active stage before moving on. */
+export const stageVelocity = (deals: Deal[], stages: PipelineStage[], now = Date.now()): StageVelocity[] => {
+  const completed = stageDurations(deals, now).filter(stint => !stint.isCurrent);
+  return stageNames(stages).filter(stage => stage !== WON_STAGE && stage !== LOST_STAGE).map(stage => {
+    const days = completed.filter(stint => stint.status === stage).map(stint => stint.days);
+    return { stage, medianDays: median(days), sampleSize: days.length };
+  });
+};
+
+export const fitBand = (score: number | null | undefined) =>
+  score == null ? 'Unscored' : score >= 75 ? '75%+' : score >= 50 ? '50–74%' : 'Under 50%';
+
+const dimensionValue = (deal: Deal, dimension: OutcomeDimension) => {
+  switch (dimension) {
+    case 'source': return sourceSite(deal.sourcingResult);
+    case 'industry': return deal.sourcingResult.industry || 'Unknown';
+    case 'fitBand': return fitBand(deal.sourcingResult.overallFitScore);
+  }
+};
+
+/** Won, lost and still-open deals grouped by source site, industry or fit-score band, most decided first. */
+export const outcomesBy = (deals: Deal[], dimension: OutcomeDimension): OutcomeRow[] => {
+  const rows = new Map<string, OutcomeRow>();
+  deals.forEach(deal => {
+    const key = dimensionValue(deal, dimension);
+    const row = rows.get(key) ?? { key, won: 0, lost: 0, open: 0, winRate: null };
+    if (deal.status === WON_STAGE) row.won++;
+    else if (deal.status === LOST_STAGE) row.lost++;
+    else row.open++;
+    rows.set(key, row);
+  });
+  return [...rows.values()]
+    .map(row => ({ ...row, winRate: row.won + row.lost > 0 ? row.won / (row.won + row.lost) : null }))
+    .sort((a, b) => (b.won + b.lost) - (a.won + a.lost) || b.open - a.open || a.key.localeCompare(b.key));
+};
+
+/** When a deal entered the pipeline: its creation event, or failing that when its listing was analyzed. */
+const identifiedAt = (deal: Deal) =>
+  deal.activity?.find(event => event.type === 'created')?.at ?? stageHistory(deal)[0].enteredAt ?? deal.sourcingResult.analyzedAt ?? null;
+
+/** Deals grouped by the month they were identified, with the stage each is in now. */
+export const monthlyCohorts = (deals: Deal[], stages: PipelineStage[]): CohortRow[] => {
+  const cohorts = new Map<string, CohortRow>();
+  deals.forEach(deal => {
+    const at = identifiedAt(deal);
+    if (at === null) return;
+    const date = new Date(at);
+    const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    const row = cohorts.get(month) ?? { month, total: 0, counts: Object.fromEntries(stageNames(stages).map(stage => [stage, 0])) as Record<DealStatus, number> };
+    row.total++;
+    row.counts[deal.status] = (row.counts[deal.status] ?? 0) + 1;
+    cohorts.set(month, row);
+  });
+  return [...cohorts.values()].sort((a, b) => a.month.localeCompare(b.month));
+};
@@ -0,0 +1,84 @@
+import { Deal, DealStatus } from '../App';
+import { SourcingResult } from '../components/SourcingEngine';
+import { sourceSite } from '../sourcing/resultsTable';
+import { LOST_STAGE } from './stages';
+
+export type LostReason = 'outbid' | 'valuationGap' | 'financingFailed' | 'diligenceFinding' | 'sellerWalked' | 'fit';
+
+export const LOST_REASON_LABELS: Record<LostReason, string> = {
+  outbid: 'Outbid',
+  valuationGap: 'Valuation gap',
+  financingFailed: 'Financing failed',
+  diligenceFinding: 'Diligence finding',
+  sellerWalked: 'Seller walked',
+  fit: 'Not a fit',
+};
+
+export const LOST_REASONS = Object.keys(LOST_REASON_LABELS) as LostReason[];
+
+/** Why a deal was lost, captured when it's moved to Lost. */
+export interface LostDealRecord {
+  reason: LostReason;
+  notes: string;
+  /** "YYYY-MM-DD" to look at the business again, e.g. after a failed sale; null for never. */
+  revisitOn: string | null;
+  /** The stage the deal was in when it was lost. */
+  fromStage: DealStatus;
+  recordedAt: number;
+}
+
+/** Lost deals whose revisit date has arrived or is within `withinDays`, soonest first. */
+export const dealsToRevisit = (deals: Deal[], withinDays = 30, today = new Date()) => {
+  const cutoff = new Date(today);
+  cutoff.setDate(cutoff.getDate() + withinDays);
+  const cutoffDate = cutoff.toISOString().slice(0, 10);
+  return deals
+    .filter(deal => deal.status === LOST_STAGE && deal.lost?.revisitOn && deal.lost.revisitOn <= cutoffDate)
+    .sort((a, b) => a.lost!.revisitOn!.localeCompare(b.lost!.revisitOn!));
+};
+
+export const isRevisitDue = (record: LostDealRecord, today = new Date()) =>
+  record.revisitOn !== null && record.revisitOn <= today.toISOString().slice(0, 10);
+
+export interface LostReasonSummary {
+  reason: LostReason;
+  count: number;
+  /** How many were lost at each stage. */
+  byStage: Partial<Record<DealStatus, number>>;
+}
+
+/** Lost deals counted by reason and the stage they were lost at, most common reason first. */
+export const summarizeLostReasons = (deals: Deal[]): LostReasonSummary[] =>
+  LOST_REASONS
+    .map(reason => {
+      const lost = deals.filter(deal => deal.status === LOST_STAGE && deal.lost?.reason === reason);
+      const byStage: Partial<Record<DealStatus, number>> = {};
+      lost.forEach(deal => { byStage[deal.lost!.fromStage] = (byStage[deal.lost!.fromStage] ?? 0) + 1; });
+      return { reason, count: lost.length, byStage };
+    })
+    .filter(summary => summary.count > 0)
+    .sort((a, b) => b.count - a.count);
+
+/** Deals lost without a recorded reason, e.g. before reasons were captured. */
+export const unexplainedLosses = (deals: Deal[]) => deals.filter(deal => deal.status === LOST_STAGE && !deal.lost).length;
+
+/** Listings from a site that has cost us this many deals for a reason can be hidden in sourcing. */
+export const REPEAT_LOSS_THRESHOLD = 2;
+
+/**
+ * Listing sites (by domain) with repeated losses for a reason. Listings don't record their
+ * broker, so this works per site: every broker posting on a marketplace counts toward the
+ * marketplace. Maps each site to its number of such losses.
+ */
+export const sitesWithRepeatedLosses = (deals: Deal[], reason: LostReason, threshold = REPEAT_LOSS_THRESHOLD) => {
+  const counts = new Map<string, number>();
+  deals
+    .filter(deal => deal.status === LOST_STAGE && deal.lost?.reason === reason)
+    .forEach(deal => {
+      const site = sourceSite(deal.sourcingResult);
+      counts.set(site, (counts.get(site) ?? 0) + 1);
+    });
+  return new Map([...counts].filter(([site, count]) => count >= threshold && site !== 'Imported' && site !== 'Unknown'));
+};
+
+export const isFromSite = (result: SourcingResult, sites: Map<string, number>) => sites.has(sourceSite(result));
@@ -0,0 +1,95 @@
+import { Deal, DealStatus, KeyTerms } from '../App';
+
+// Each workspace configures its own pipeline. Deals store the stage name, so renaming a stage
+// renames it on its deals too. The won and lost stages are fixed: integration hand-off, win/loss
+// analytics and lost-deal reasons all key off them.
+
+export const WON_STAGE: DealStatus = 'Closed';
+export const LOST_STAGE: DealStatus = 'Lost';
+
+/** A condition a deal must meet before it can be moved into a stage. */
+export type StageRequirement =
+  | { type: 'keyTerms'; fields: (keyof KeyTerms)[] }
+  | { type: 'checklist'; minPercent: number };
+
+export interface PipelineStage {
+  id: string;
+  name: DealStatus;
+  /** Column order. Synced stages arrive one document at a time, so every device sorts by this; set by `normalizeStages`. */
+  position?: number;
+  requirements: StageRequirement[];
+}
+
+export const KEY_TERM_LABELS: Record<keyof KeyTerms, string> = {
+  purchasePrice: 'Purchase Price',
+  structure: 'Deal Structure',
+  sellerNote: 'Seller Note',
+  nwcPeg: 'NWC Peg',
+};
+
+const stage = (name: DealStatus, requirements: StageRequirement[] = []): PipelineStage => ({ id: name, name, requirements });
+
+export const defaultPipelineStages: PipelineStage[] = [
+  stage('Identified'), stage('Contacted'), stage('Evaluating'), stage('LOI Sent'),
+  stage('Diligence'), stage('Closing'), stage(WON_STAGE), stage(LOST_STAGE),
+];
+
+export const isFixedStage = (name: DealStatus) => name === WON_STAGE || name === LOST_STAGE;
+
+/** Pipeline columns, in the order a deal moves through them. */
+export const stageNames = (stages: PipelineStage[]): DealStatus[] => stages.map(s => s.name);
+
+/** The stages a deal passes through on the way to a close; "Lost" can follow any of them. */
+export const progressionStages = (stages: PipelineStage[]): DealStatus[] => stageNames(stages).filter(name => name !== LOST_STAGE);
+
+/** Where deals added to the pipeline start. */
+export const initialStage = (stages: PipelineStage[]): DealStatus => stages[0]?.name ?? WON_STAGE;
+
+/** Keeps the won and lost stages at the end, in that order, whatever the user did to the list, and numbers the positions. */
+export const normalizeStages = (stages: PipelineStage[]): PipelineStage[] => {
+  const fixed = [WON_STAGE, LOST_STAGE].map(name => stages.find(s => s.name === name) ?? stage(name));
+  return [...stages.filter(s => !isFixedStage(s.name)), ...fixed].map((s, position) => ({ ...s, position }));
+};
+
+/** Puts stages merged from another device back in column order. */
+export const sortStages = (stages: PipelineStage[]): PipelineStage[] =>
+  normalizeStages([...stages].sort((a, b) => (a.position ?? 0) - (b.position ?? 0)));
+
+export const checklistPercent = (deal: Deal) => {
+  const items = deal.closingChecklist;
+  return items.length === 0 ? 0 : Math.round((items.filter(item => item.completed).length / items.length) * 100);
+};
+
+export const describeRequirement = (requirement: StageRequirement) => {
+  switch (requirement.type) {
+    case 'keyTerms': return `${requirement.fields.map(field => KEY_TERM_LABELS[field]).join(', ')} filled in`;
+    case 'checklist': return `Closing checklist at least ${requirement.minPercent}% complete`;
+  }
+};
+
+/** Why the deal can't enter the stage yet, one line per unmet requirement; empty when it can. */
+export const unmetRequirements = (deal: Deal, target: PipelineStage): string[] =>
+  target.requirements.flatMap(requirement => {
+    switch (requirement.type) {
+      case 'keyTerms': {
+        const missing = requirement.fields.filter(field => !deal.keyTerms[field].trim());
+        return missing.length ? [`${missing.map(field => KEY_TERM_LABELS[field]).join(', ')} ${missing.length === 1 ? 'is' : 'are'} blank.`] : [];
+      }
+      case 'checklist': {
+        const percent = checklistPercent(deal);
+        return percent < requirement.minPercent ? [`The closing checklist is ${percent}% complete; ${requirement.minPercent}% is required.`] : [];
+      }
+    }
+  });
+
+/** The deal with a renamed stage renamed everywhere it's recorded, so its stage history still lines up. */
+export const renameDealStage = (deal: Deal, from: DealStatus, to: DealStatus): Deal => {
+  const rename = (status: string | undefined) => (status === from ? to : status);
+  return {
+    ...deal,
+    status: rename(deal.status)!,
+    activity: deal.activity?.map(event =>
+      event.type === 'stageChanged' || event.type === 'created' ? { ...event, from: rename(event.from), to: rename(event.to) } : event),
+    lost: deal.lost && { ...deal.lost, fromStage: rename(deal.lost.fromStage)! },
+  };
+};
@@ -0,0 +1,47 @@
+import { aiClient } from '../ai/client';
+import { BuyBoxCriteria } from '../App';
+import { SourcingResult } from '../components/SourcingEngine';
+import { getSourcingAnalysisPrompt } from '../utils/prompts';
+import {
+  SOURCING_ANALYSIS_SCHEMA, parseSourcingAnalysis,
+  renderKeyInsightsMarkdown, renderProfileMarkdown, renderScorecardMarkdown,
+} from '../utils/sourcingAnalysis';
+import { scoreFit } from '../utils/fitScoring';
+import { ListingSnapshot } from './snapshot';
+
+/** A listing found by search or entered by hand, before it has been analyzed. */
+export interface FoundListing {
+  url: string;
+  title?: string;
+  /** Captured page content; when present the analysis runs against it rather than the live URL. */
+  snapshot?: ListingSnapshot;
+}
+
+/** Runs the AI analysis for one listing and scores it against the Buy Box. */
+export const analyzeListing = async (listing: FoundListing, buyBox: BuyBoxCriteria): Promise<SourcingResult> => {
+  const response = await aiClient.generate({
+    feature: 'sourcing.analysis',
+    tier: 'reasoning',
+    contents: getSourcingAnalysisPrompt(listing.url, buyBox, listing.snapshot?.text),
+    extendedThinking: true,
+    responseSchema: SOURCING_ANALYSIS_SCHEMA,
+  });
+  const analysis = parseSourcingAnalysis(response.text);
+  const fitBreakdown = scoreFit(buyBox, { facts: analysis.facts, fitRows: analysis.fitRows });
+
+  return {
+    ...listing,
+    title: listing.title || analysis.facts.listingTitle || listing.snapshot?.pageTitle || undefined,
+    keyInsights: renderKeyInsightsMarkdown(analysis),
+    fullProfile: renderProfileMarkdown(analysis),
+    scorecard: renderScorecardMarkdown(analysis.fitRows, buyBox),
+    overallFitScore: fitBreakdown.score,
+    sde: analysis.facts.sde,
+    askingPrice: analysis.facts.askingPrice,
+    revenue: analysis.facts.revenue,
+    industry: analysis.facts.primaryIndustry,
+    analysis,
+    fitBreakdown,
+    analyzedAt: Date.now(),
+  };
+};
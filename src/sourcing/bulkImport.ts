@@ -0,0 +1,203 @@
+import Papa from 'papaparse';
+import { BuyBoxCriteria } from '../App';
+import { SourcingResult } from '../components/SourcingEngine';
+import { scoreFit } from '../utils/fitScoring';
+import {
+  CriterionFit, SourcingAnalysis,
+  renderKeyInsightsMarkdown, renderProfileMarkdown, renderScorecardMarkdown,
+} from '../utils/sourcingAnalysis';
+import { FoundListing } from './analyzeListing';
+
+// Brokers send teaser lists as spreadsheets. Rows with a URL are queued for AI analysis like
+// any other listing; rows with only figures are scored directly from what the row provides.
+
+/** Results built from imported figures have no listing page; they get a placeholder URL with this scheme. */
+const IMPORTED_URL_SCHEME = 'imported:';
+
+export const isImportedWithoutUrl = (result: SourcingResult) => result.url.startsWith(IMPORTED_URL_SCHEME);
+
+export interface ImportRow {
+  /** 1-based row number in the source, for the preview. */
+  line: number;
+  url: string | null;
+  name: string | null;
+  industry: string | null;
+  location: string | null;
+  revenue: number | null;
+  sde: number | null;
+  askingPrice: number | null;
+  recurringRevenuePercent: number | null;
+  topCustomerPercent: number | null;
+}
+
+export type ImportAction = 'analyze' | 'score' | 'skip';
+
+export interface ImportPreviewRow {
+  row: ImportRow;
+  action: ImportAction;
+  /** Why a row is skipped. */
+  reason?: string;
+}
+
+type ImportField = Exclude<keyof ImportRow, 'line'>;
+
+/** Header names accepted for each field, compared lowercased with punctuation removed. */
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  url: ['url', 'link', 'listing url', 'listing link', 'website'],
+  name: ['name', 'title', 'company', 'company name', 'business', 'business name', 'listing', 'listing title'],
+  industry: ['industry', 'sector', 'category', 'vertical'],
+  location: ['location', 'city', 'state', 'region', 'geography'],
+  revenue: ['revenue', 'sales', 'gross revenue', 'annual revenue', 'ttm revenue'],
+  sde: ['sde', 'cash flow', 'cashflow', 'seller discretionary earnings', 'discretionary earnings', 'ebitda', 'adjusted ebitda'],
+  askingPrice: ['asking price', 'price', 'ask', 'asking'],
+  recurringRevenuePercent: ['recurring revenue', 'recurring revenue percent', 'recurring', 'recurring percent'],
+  topCustomerPercent: ['top customer', 'top customer percent', 'largest customer', 'customer concentration'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[%#()_\-.]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const fieldForHeader = (header: string): ImportField | null => {
+  const normalized = normalizeHeader(header);
+  const field = (Object.keys(COLUMN_ALIASES) as ImportField[]).find(key => COLUMN_ALIASES[key].includes(normalized));
+  return field ?? null;
+};
+
+const asText = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+/** Reads "$1.2M", "850k", "1,250,000" or "(n/a)" as a number. */
+export const parseAmount = (value: unknown): number | null => {
+  const text = asText(value)?.toLowerCase().replace(/[$,\s]/g, '');
+  if (!text) return null;
+  const match = text.match(/^(-?\d+(?:\.\d+)?)(k|m|mm|b)?%?$/);
+  if (!match) return null;
+  const multiplier = { k: 1e3, m: 1e6, mm: 1e6, b: 1e9 }[match[2] as 'k' | 'm' | 'mm' | 'b'] ?? 1;
+  return Math.round(parseFloat(match[1]) * multiplier);
+};
+
+const asUrl = (value: unknown): string | null => {
+  const text = asText(value);
+  if (!text) return null;
+  const withScheme = /^https?:\/\//i.test(text) ? text : /^www\./i.test(text) ? `https://${text}` : null;
+  if (!withScheme) return null;
+  try {
+    new URL(withScheme);
+    return withScheme;
+  } catch {
+    return null;
+  }
+};
+
+const emptyRow = (line: number): ImportRow => ({
+  line, url: null, name: null, industry: null, location: null,
+  revenue: null, sde: null, askingPrice: null, recurringRevenuePercent: null, topCustomerPercent: null,
+});
+
+/** A paste with one URL per line and nothing else. */
+const parseUrlList = (lines: string[]): ImportRow[] | null => {
+  if (lines.length === 0 || !lines.every(line => asUrl(line))) return null;
+  return lines.map((line, index) => ({ ...emptyRow(index + 1), url: asUrl(line) }));
+};
+
+/**
+ * Parses a CSV (or tab-separated paste) with a header row, or a plain list of URLs.
+ * Throws when none of the columns can be recognized.
+ */
+export const parseImportText = (text: string): ImportRow[] => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const urlList = parseUrlList(lines);
+  if (urlList) return urlList;
+
+  const parsed = Papa.parse<Record<string, string>>(text.trim(), { header: true, skipEmptyLines: true });
+  const headers: string[] = parsed.meta.fields ?? [];
+  const fields = new Map(headers.map(header => [header, fieldForHeader(header)] as const));
+  if (![...fields.values()].some(Boolean)) {
+    throw new Error('No recognizable columns. Include a header row with columns such as URL, Name, Industry, Location, Revenue, SDE and Asking Price.');
+  }
+
+  return parsed.data.map((record: Record<string, string>, index: number) => {
+    const row = emptyRow(index + 2); // +1 for the header, +1 for 1-based numbering.
+    headers.forEach(header => {
+      const field = fields.get(header);
+      if (!field || row[field] !== null) return;
+      const value = record[header];
+      switch (field) {
+        case 'url': row.url = asUrl(value); break;
+        case 'name': case 'industry': case 'location': row[field] = asText(value); break;
+        default: row[field] = parseAmount(value);
+      }
+    });
+    return row;
+  });
+};
+
+/** What importing each row will do. */
+export const previewImport = (rows: ImportRow[]): ImportPreviewRow[] =>
+  rows.map(row => {
+    if (row.url) return { row, action: 'analyze' };
+    if (row.name && (row.sde !== null || row.revenue !== null || row.askingPrice !== null)) return { row, action: 'score' };
+    return { row, action: 'skip', reason: row.name ? 'No URL and no financial figures' : 'No URL or name' };
+  });
+
+export const toFoundListing = (row: ImportRow): FoundListing => ({ url: row.url!, title: row.name ?? undefined });
+
+const mentionsAny = (text: string, targets: string) =>
+  targets.split(',').map(target => target.trim().toLowerCase()).filter(Boolean).some(target => text.toLowerCase().includes(target));
+
+/**
+ * Geography and industry are the only qualitative criteria an import row says anything
+ * about; they're matched against the Buy Box text. Everything else is left unassessed.
+ */
+const importedFitRows = (row: ImportRow, buyBox: BuyBoxCriteria): CriterionFit[] => {
+  const rows: CriterionFit[] = [];
+  if (row.location) {
+    const matches = mentionsAny(row.location, buyBox.geography.value);
+    rows.push({ criterion: 'Geography', status: row.location, fit: matches ? 'Yes' : 'No', rationale: matches ? `Located in ${row.location}.` : `${row.location} is outside ${buyBox.geography.value}.` });
+  }
+  if (row.industry) {
+    const matches = mentionsAny(row.industry, buyBox.industryType.value);
+    rows.push({ criterion: 'Industry', status: row.industry, fit: matches ? 'Yes' : '?', rationale: matches ? `Matches the target industry.` : `Not clearly a match for ${buyBox.industryType.value}; review manually.` });
+  }
+  return rows;
+};
+
+/** Builds a scored result from an import row's own figures, without calling the AI. */
+export const scoreImportedRow = (row: ImportRow, buyBox: BuyBoxCriteria, sourceName: string): SourcingResult => {
+  const analysis: SourcingAnalysis = {
+    keyInsights: [`Imported from ${sourceName} and scored from the figures provided; not yet analyzed by AI.`],
+    facts: {
+      listingTitle: row.name ?? '',
+      primaryIndustry: row.industry,
+      location: row.location,
+      yearFounded: null,
+      employees: null,
+      askingPrice: row.askingPrice,
+      revenue: row.revenue,
+      revenuePeriod: null,
+      sde: row.sde,
+      sdeLabel: null,
+      recurringRevenuePercent: row.recurringRevenuePercent,
+      topCustomerPercent: row.topCustomerPercent,
+    },
+    profile: {
+      summary: '', businessModel: '', productsServices: '', targetMarket: '',
+      marketPosition: '', financialHealth: '', managementOperations: '', growthOpportunities: '',
+    },
+    fitRows: importedFitRows(row, buyBox),
+  };
+  const fitBreakdown = scoreFit(buyBox, { facts: analysis.facts, fitRows: analysis.fitRows });
+  return {
+    url: `${IMPORTED_URL_SCHEME}${crypto.randomUUID()}`,
+    title: row.name ?? undefined,
+    keyInsights: renderKeyInsightsMarkdown(analysis),
+    fullProfile: renderProfileMarkdown(analysis),
+    scorecard: renderScorecardMarkdown(analysis.fitRows, buyBox),
+    overallFitScore: fitBreakdown.score,
+    sde: row.sde,
+    industry: row.industry,
+    askingPrice: row.askingPrice,
+    revenue: row.revenue,
+    analysis,
+    fitBreakdown,
+    analyzedAt: Date.now(),
+  };
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { Deal } from '../App';
+import { SourcingResult } from '../components/SourcingEngine';
+import { DUPLICATE_THRESHOLD, addListingResult, findPipelineDeal, listingSimilarity, mergeCompanies, normalizeListingUrl, unmergeListing } from './dedup';
+
+const listing = (url: string, facts: { title?: string; location?: string; askingPrice?: number } = {}, sde: number | null = null, companyId?: string): SourcingResult => ({
+  url, keyInsights: '', fullProfile: '', scorecard: '', overallFitScore: null, sde, industry: null, companyId,
+  analysis: { facts: { listingTitle: facts.title ?? '', location: facts.location ?? null, askingPrice: facts.askingPrice ?? null } } as SourcingResult['analysis'],
+});
+
+const dealFor = (sourcingResult: SourcingResult) => ({ id: 'deal-1', companyName: 'Acme', sourcingResult }) as Deal;
+
+const hvac = listing('https://www.bizbuysell.com/listing/123', { title: 'Commercial HVAC Contractor', location: 'Dallas, TX', askingPrice: 1_200_000 }, 400_000, 'c1');
+const hvacOnBrokerSite = listing('https://broker.example.com/hvac', { title: 'Established Commercial HVAC Contractor in Dallas', location: 'Dallas, TX', askingPrice: 1_250_000 }, 410_000, 'c1');
+
+describe('normalizeListingUrl', () => {
+  it('drops the www, fragment, tracking parameters and trailing slash, and sorts the query', () => {
+    expect(normalizeListingUrl('https://WWW.BizBuySell.com/listing/123/?utm_source=mail&b=2&a=1#photos')).toBe('bizbuysell.com/listing/123?a=1&b=2');
+  });
+
+  it('falls back to the trimmed, lowercased text for anything that is not a URL', () => {
+    expect(normalizeListingUrl('  Manual Entry ')).toBe('manual entry');
+  });
+});
+
+describe('listingSimilarity', () => {
+  it('treats the same page as identical whatever the tracking', () => {
+    expect(listingSimilarity(hvac, listing('https://bizbuysell.com/listing/123?utm_campaign=weekly'))).toBe(1);
+  });
+
+  it('matches the same business listed on two sites', () => {
+    expect(listingSimilarity(hvac, hvacOnBrokerSite)).toBeGreaterThanOrEqual(DUPLICATE_THRESHOLD);
+  });
+
+  it('keeps apart different businesses with similar figures', () => {
+    const plumbing = listing('https://broker.example.com/plumbing', { title: 'Residential Plumbing Service', location: 'Dallas, TX', askingPrice: 1_200_000 }, 400_000);
+    expect(listingSimilarity(hvac, plumbing)).toBeLessThan(DUPLICATE_THRESHOLD);
+  });
+
+  it('gives up when only the titles can be compared', () => {
+    const a = listing('https://a.example.com/1', { title: 'Commercial HVAC Contractor' });
+    const b = listing('https://b.example.com/2', { title: 'Commercial HVAC Contractor' });
+    expect(listingSimilarity(a, b)).toBe(0);
+  });
+
+  it('scores figures 20% or more apart as different', () => {
+    const pricier = { ...hvacOnBrokerSite, sde: 500_000, analysis: { facts: { listingTitle: 'Commercial HVAC Contractor', location: 'Dallas, TX', askingPrice: 1_500_000 } } } as SourcingResult;
+    expect(listingSimilarity(hvac, pricier)).toBeCloseTo(0.6);
+  });
+});
+
+describe('unmergeListing', () => {
+  it('moves the listing to a company of its own that remembers where it came from', () => {
+    const [, unmerged] = unmergeListing([hvac, hvacOnBrokerSite], hvacOnBrokerSite.url);
+    expect(unmerged.companyId).not.toBe('c1');
+    expect(unmerged.keepSeparateFrom).toEqual(['c1']);
+  });
+
+  it('stays separate when the listing is analyzed again', () => {
+    const results = unmergeListing([hvac, hvacOnBrokerSite], hvacOnBrokerSite.url);
+    const [, reanalyzed] = addListingResult(results, { ...hvacOnBrokerSite, companyId: undefined, overallFitScore: 80 });
+    expect(reanalyzed.overallFitScore).toBe(80);
+    expect(reanalyzed.companyId).toBe(results[1].companyId);
+  });
+
+  it('no longer matches the deal tracking its former company', () => {
+    const deal = dealFor(hvac);
+    expect(findPipelineDeal(hvacOnBrokerSite, [deal])).toBe(deal);
+    const [, unmerged] = unmergeListing([hvac, hvacOnBrokerSite], hvacOnBrokerSite.url);
+    expect(findPipelineDeal(unmerged, [deal])).toBeUndefined();
+  });
+
+  it('is undone by merging the companies again', () => {
+    const [, unmerged] = unmergeListing([hvac, hvacOnBrokerSite], hvacOnBrokerSite.url);
+    const [, merged] = mergeCompanies([hvac, unmerged], ['c1', unmerged.companyId!]);
+    expect(merged.companyId).toBe('c1');
+    expect(merged.keepSeparateFrom).toEqual([]);
+  });
+});
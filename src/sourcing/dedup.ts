@@ -0,0 +1,161 @@
+import { Deal } from '../App';
+import { SourcingResult } from '../components/SourcingEngine';
+
+// The same business is often listed on a marketplace, a broker's own site and pasted in by
+// hand. Results that look like the same company share a `companyId`; the first result in a
+// cluster is the one shown, the rest are listed under it.
+
+/** Query parameters that only track where a click came from. */
+const TRACKING_PARAMS = /^(utm_.*|fbclid|gclid|msclkid|mc_[a-z]+|ref|referrer|source)$/i;
+
+/**
+ * Reduces a listing URL to the part that identifies the page: lowercased host without
+ * "www.", no fragment, no tracking parameters, no trailing slash, sorted query.
+ */
+export const normalizeListingUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url.trim());
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    const path = parsed.pathname.replace(/\/+$/, '') || '';
+    const params = [...parsed.searchParams.entries()]
+      .filter(([key]) => !TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = params.length ? `?${new URLSearchParams(params).toString()}` : '';
+    return `${host}${path}${query}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+};
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'the', 'of', 'in', 'for', 'with', 'to', 'at', 'on', 'by',
+  'business', 'company', 'sale', 'llc', 'inc', 'established', 'profitable', 'manually', 'added',
+]);
+
+const tokens = (text: string | null | undefined): Set<string> =>
+  new Set((text ?? '').toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 1 && !STOP_WORDS.has(token)));
+
+/** Jaccard overlap of two token sets, 0-1. */
+const overlap = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return null;
+  const shared = [...a].filter(token => b.has(token)).length;
+  return shared / (a.size + b.size - shared);
+};
+
+/** 1 within 5% of each other, falling to 0 at 20% apart. */
+const closeness = (a: number | null | undefined, b: number | null | undefined) => {
+  if (!a || !b) return null;
+  const diff = Math.abs(a - b) / Math.max(a, b);
+  return Math.max(0, Math.min(1, (0.2 - diff) / 0.15));
+};
+
+const SIGNAL_WEIGHTS = { title: 0.4, location: 0.2, askingPrice: 0.2, sde: 0.2 };
+/** At least this much signal weight must be comparable, e.g. title plus one figure. */
+const MIN_COMPARED_WEIGHT = 0.6;
+export const DUPLICATE_THRESHOLD = 0.75;
+
+const listingTitle = (result: SourcingResult) => result.analysis?.facts.listingTitle || result.title;
+
+/**
+ * How alike two listings are, 0-1, from title, location, asking price and SDE. Signals missing
+ * on either side are left out; with too little to compare the listings are treated as different.
+ */
+export const listingSimilarity = (a: SourcingResult, b: SourcingResult): number => {
+  if (normalizeListingUrl(a.url) === normalizeListingUrl(b.url)) return 1;
+  const signals: [number, number | null][] = [
+    [SIGNAL_WEIGHTS.title, overlap(tokens(listingTitle(a)), tokens(listingTitle(b)))],
+    [SIGNAL_WEIGHTS.location, overlap(tokens(a.analysis?.facts.location), tokens(b.analysis?.facts.location))],
+    [SIGNAL_WEIGHTS.askingPrice, closeness(a.analysis?.facts.askingPrice, b.analysis?.facts.askingPrice)],
+    [SIGNAL_WEIGHTS.sde, closeness(a.sde, b.sde)],
+  ];
+  const compared = signals.filter((signal): signal is [number, number] => signal[1] !== null);
+  const comparedWeight = compared.reduce((sum, [weight]) => sum + weight, 0);
+  if (comparedWeight < MIN_COMPARED_WEIGHT) return 0;
+  return compared.reduce((sum, [weight, value]) => sum + weight * value, 0) / comparedWeight;
+};
+
+const isDuplicate = (a: SourcingResult, b: SourcingResult) => listingSimilarity(a, b) >= DUPLICATE_THRESHOLD;
+
+/** Results from before deduplication have no company id; their URL stands in for one. */
+export const companyKey = (result: SourcingResult) => result.companyId ?? normalizeListingUrl(result.url);
+
+/** Whether the user split these two apart, so they must not be clustered again automatically. */
+const keptSeparate = (a: SourcingResult, b: SourcingResult) =>
+  !!a.keepSeparateFrom?.includes(companyKey(b)) || !!b.keepSeparateFrom?.includes(companyKey(a));
+
+/**
+ * Adds a freshly analyzed result. A re-analysis of the same URL replaces the old result in
+ * place; otherwise the result joins the cluster of the closest matching company, if any.
+ */
+export const addListingResult = (results: SourcingResult[], result: SourcingResult): SourcingResult[] => {
+  const url = normalizeListingUrl(result.url);
+  const existing = results.find(r => normalizeListingUrl(r.url) === url);
+  if (existing) {
+    const updated = { ...result, companyId: existing.companyId, keepSeparateFrom: existing.keepSeparateFrom };
+    return results.map(r => (r === existing ? updated : r));
+  }
+  const match = result.error ? undefined : results
+    .filter(r => !r.error && !keptSeparate(r, result))
+    .map(r => ({ r, similarity: listingSimilarity(r, result) }))
+    .filter(({ similarity }) => similarity >= DUPLICATE_THRESHOLD)
+    .sort((a, b) => b.similarity - a.similarity)[0]?.r;
+  return [{ ...result, companyId: match ? companyKey(match) : crypto.randomUUID() }, ...results];
+};
+
+export interface ListingCluster {
+  companyId: string;
+  /** The listing shown for the company: the first one found. */
+  primary: SourcingResult;
+  /** The other listings of the same company. */
+  duplicates: SourcingResult[];
+}
+
+/** Groups results by company, keeping the order of each cluster's first result. */
+export const clusterListings = (results: SourcingResult[]): ListingCluster[] => {
+  const clusters = new Map<string, ListingCluster>();
+  results.forEach(result => {
+    const key = companyKey(result);
+    const cluster = clusters.get(key);
+    if (cluster) cluster.duplicates.push(result);
+    else clusters.set(key, { companyId: key, primary: result, duplicates: [] });
+  });
+  return [...clusters.values()];
+};
+
+/** Puts every listing of the given companies into the first one's cluster. */
+export const mergeCompanies = (results: SourcingResult[], companyIds: string[]): SourcingResult[] => {
+  if (companyIds.length < 2) return results;
+  const [target] = companyIds;
+  const merged = new Set(companyIds);
+  return results.map(result => {
+    const key = companyKey(result);
+    if (!merged.has(key)) return result;
+    return {
+      ...result,
+      companyId: target,
+      keepSeparateFrom: result.keepSeparateFrom?.filter(id => !merged.has(id)),
+    };
+  });
+};
+
+/** Moves one listing out of its cluster into a company of its own that won't be re-merged automatically. */
+export const unmergeListing = (results: SourcingResult[], url: string): SourcingResult[] => {
+  const listing = results.find(r => r.url === url);
+  if (!listing) return results;
+  const formerCompany = companyKey(listing);
+  return results.map(r => (r === listing
+    ? { ...r, companyId: crypto.randomUUID(), keepSeparateFrom: [...(r.keepSeparateFrom ?? []), formerCompany] }
+    : r));
+};
+
+/**
+ * The deal already tracking this company, if any: same listing URL, same company cluster, or a
+ * listing close enough to be the same business.
+ */
+export const findPipelineDeal = (result: SourcingResult, deals: Deal[]): Deal | undefined => {
+  const url = normalizeListingUrl(result.url);
+  const key = companyKey(result);
+  return deals.find(deal => normalizeListingUrl(deal.sourcingResult.url) === url)
+    ?? deals.find(deal => deal.sourcingResult.companyId === key)
+    ?? deals.find(deal => !result.error && !keptSeparate(deal.sourcingResult, result) && isDuplicate(deal.sourcingResult, result));
+};
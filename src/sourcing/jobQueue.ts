@@ -0,0 +1,96 @@
+import { BuyBoxCriteria } from '../App';
+import { AiBudgetExceededError } from '../ai/metering';
+import { FoundListing } from './analyzeListing';
+import { normalizeListingUrl } from './dedup';
+
+export type JobStatus = 'queued' | 'running' | 'failed' | 'done';
+
+/**
+ * One listing analysis. Jobs are persisted with the workspace, so a batch interrupted by a
+ * reload or closed tab picks up where it left off.
+ */
+export interface AnalysisJob {
+  id: string;
+  listing: FoundListing;
+  /** The Buy Box at the time the job was queued, so a resumed job scores against the same criteria. */
+  buyBox: BuyBoxCriteria;
+  status: JobStatus;
+  /** Attempts started so far, including the current one. */
+  attempts: number;
+  /** When a queued retry may start (epoch ms). */
+  nextAttemptAt?: number;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** How many listings are analyzed at once. */
+export const ANALYSIS_CONCURRENCY = 2;
+export const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60000;
+
+export const isActiveJob = (job: AnalysisJob) => job.status === 'queued' || job.status === 'running';
+
+/**
+ * Rate limits (429), server errors (5xx) and network failures are worth retrying; anything else
+ * (a malformed reply, a blocked budget) would fail the same way again.
+ */
+export const isRetryableError = (error: unknown) => {
+  if (error instanceof AiBudgetExceededError) return false;
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return status === 429 || status >= 500;
+  return error instanceof TypeError; // fetch() rejects with a TypeError when the network is down.
+};
+
+/** Exponential backoff with jitter: ~2s, 4s, 8s... capped at a minute. */
+export const retryDelayMs = (attempts: number) => {
+  const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempts - 1));
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+/**
+ * Queues analyses for listings that aren't already waiting or running. Finished jobs from an
+ * earlier batch are dropped once nothing is active, so progress counts reflect the new batch.
+ */
+export const enqueueListings = (jobs: AnalysisJob[], listings: FoundListing[], buyBox: BuyBoxCriteria): AnalysisJob[] => {
+  const now = Date.now();
+  const kept = jobs.some(isActiveJob) ? jobs : jobs.filter(job => job.status === 'failed');
+  const pendingUrls = new Set(kept.filter(isActiveJob).map(job => normalizeListingUrl(job.listing.url)));
+  const requestedUrls = new Set(listings.map(listing => normalizeListingUrl(listing.url)));
+  const added = listings
+    .filter((listing, index) => {
+      const url = normalizeListingUrl(listing.url);
+      // Search results sometimes repeat a listing with different tracking parameters.
+      return !pendingUrls.has(url) && listings.findIndex(other => normalizeListingUrl(other.url) === url) === index;
+    })
+    .map((listing): AnalysisJob => ({
+      id: crypto.randomUUID(),
+      listing,
+      buyBox,
+      status: 'queued',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    }));
+  // Queuing a listing again replaces its failed job.
+  return [...kept.filter(job => !(job.status === 'failed' && requestedUrls.has(normalizeListingUrl(job.listing.url)))), ...added];
+};
+
+/** Jobs that were mid-flight when the page closed go back in the queue. */
+export const resumeJobs = (jobs: AnalysisJob[]): AnalysisJob[] =>
+  jobs.map(job => (job.status === 'running' ? { ...job, status: 'queued', nextAttemptAt: undefined } : job));
+
+export const retryJob = (job: AnalysisJob): AnalysisJob =>
+  ({ ...job, status: 'queued', attempts: 0, error: undefined, nextAttemptAt: undefined, updatedAt: Date.now() });
+
+export const summarizeJobs = (jobs: AnalysisJob[]) => {
+  const count = (status: JobStatus) => jobs.filter(job => job.status === status).length;
+  return { total: jobs.length, queued: count('queued'), running: count('running'), failed: count('failed'), done: count('done') };
+};
+
+/** The one-line progress shown in the global status bar and the Sourcing Engine. */
+export const describeJobProgress = (jobs: AnalysisJob[]) => {
+  const { total, running, failed, done } = summarizeJobs(jobs);
+  return `Analyzing listings: ${done}/${total} done, ${running} running${failed > 0 ? `, ${failed} failed` : ''}`;
+};
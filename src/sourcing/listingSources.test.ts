@@ -0,0 +1,56 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { SourceFile, detectListingSource, emailDigestSource, feedSource, marketplaceExportSource } from './listingSources';
+
+const fixture = (name: string): SourceFile => ({
+  name,
+  content: readFileSync(join(import.meta.dirname, 'fixtures', name), 'utf-8'),
+});
+
+describe('marketplaceExportSource', () => {
+  const page = fixture('bizbuysell-search.html');
+
+  it('extracts each listing once, resolved against the saved page', () => {
+    expect(marketplaceExportSource.parse(page)).toEqual([
+      { url: 'https://www.bizbuysell.com/business-opportunity/established-commercial-hvac-contractor/2198451/', title: 'Established Commercial HVAC Contractor' },
+      { url: 'https://www.bizbuysell.com/business-opportunity/residential-plumbing-and-hvac-service/2204117/', title: 'Residential Plumbing & HVAC Service Company' },
+      { url: 'https://www.bizbuysell.com/business-opportunity/facility-maintenance-provider/2187730/', title: 'Facility Maintenance Provider with Recurring Contracts' },
+    ]);
+  });
+
+  it('is detected from the file', () => {
+    expect(detectListingSource(page)).toBe(marketplaceExportSource);
+  });
+});
+
+describe('feedSource', () => {
+  const feed = fixture('broker-listings.rss');
+
+  it('extracts item links and titles, skipping duplicates and non-URL guids', () => {
+    expect(feedSource.parse(feed)).toEqual([
+      { url: 'https://lonestarbrokers.example.com/listings/janitorial-services-dfw', title: 'Janitorial Services Company - DFW' },
+      { url: 'https://lonestarbrokers.example.com/listings/pest-control-route-houston', title: 'Pest Control Route, Houston' },
+    ]);
+  });
+
+  it('is detected from the file', () => {
+    expect(detectListingSource(feed)).toBe(feedSource);
+  });
+});
+
+describe('emailDigestSource', () => {
+  const email = fixture('bizquest-alert.eml');
+
+  it('extracts listings from the HTML part', () => {
+    expect(emailDigestSource.parse(email)).toEqual([
+      { url: 'https://www.bizquest.com/business-for-sale/commercial-landscaping-company/BW2301877/', title: 'Commercial Landscaping Company' },
+      { url: 'https://www.bizquest.com/business-for-sale/sign-and-graphics-shop/BW2299104/', title: 'Sign & Graphics Shop – San Antonio' },
+    ]);
+  });
+
+  it('is detected from the file', () => {
+    expect(detectListingSource(email)).toBe(emailDigestSource);
+  });
+});
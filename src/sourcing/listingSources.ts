@@ -0,0 +1,177 @@
+import { FoundListing } from './analyzeListing';
+import { normalizeListingUrl } from './dedup';
+import { findMimePart, looksLikeHtml, looksLikeMhtml } from './snapshot';
+
+// Connectors that turn files the user has saved (a marketplace's search results page, a
+// broker's RSS feed, an email digest) into listings for the analysis queue. They run
+// entirely locally, so discovery doesn't depend on the model's web search.
+
+/** A file as read in the browser. */
+export interface SourceFile {
+  name: string;
+  content: string;
+}
+
+export interface ListingSource {
+  id: 'marketplaceExport' | 'feed' | 'emailDigest';
+  label: string;
+  description: string;
+  /** File types for the file picker's `accept` attribute. */
+  accept: string;
+  /** Whether this source understands the file, from its name and contents. */
+  detect: (file: SourceFile) => boolean;
+  /** The listings in the file; throws if the file can't be read as this source. */
+  parse: (file: SourceFile) => FoundListing[];
+}
+
+/** Listing detail pages on the marketplaces we know, as opposed to their search and category pages. */
+const MARKETPLACE_LISTING_PATHS: [RegExp, RegExp][] = [
+  [/(^|\.)bizbuysell\.com$/, /\/business-opportunity\/[^/]+\/\d+/i],
+  [/(^|\.)bizquest\.com$/, /\/business-for-sale\/[^/]+\/[a-z]*\d+/i],
+  [/(^|\.)businessesforsale\.com$/, /-for-sale(-\d+)?\.aspx$/i],
+  [/(^|\.)businessbroker\.net$/, /\/business-for-sale\/[^/]+\/\d+\.aspx$/i],
+  [/(^|\.)loopnet\.com$/, /\/biz\/[^/]+\/[^/]+\/\d+/i],
+  [/(^|\.)dealstream\.com$/, /^\/d\/[^/]+\/[^/]+\/[^/]+/i],
+];
+
+/** Brokers' own sites rarely share a pattern, but most listing pages say so in the path. */
+const GENERIC_LISTING_PATH = /\/(listings?|business-for-sale|businesses-for-sale|business-opportunity|opportunities)\/[^/?#]+/i;
+
+const isListingUrl = (url: URL) => {
+  const host = url.hostname.toLowerCase();
+  const known = MARKETPLACE_LISTING_PATHS.find(([hostPattern]) => hostPattern.test(host));
+  return known ? known[1].test(url.pathname) : GENERIC_LISTING_PATH.test(url.pathname);
+};
+
+const cleanText = (text: string | null | undefined) => (text ?? '').replace(/\s+/g, ' ').trim();
+
+/** Link text, or for image links the heading of the result card the link sits in. */
+const linkTitle = (anchor: Element) => {
+  const text = cleanText(anchor.textContent);
+  if (text.length >= 8) return text;
+  const card = anchor.closest('article, li, tr, [class*="listing"], [class*="result"], [class*="card"]');
+  return cleanText(card?.querySelector('h1, h2, h3, h4, h5, [class*="title"]')?.textContent) || text;
+};
+
+/** The first link to each listing in a document, resolved against the page it was saved from. */
+const collectListingLinks = (doc: Document, pageUrl?: string): FoundListing[] => {
+  const listings = new Map<string, FoundListing>();
+  const pageKey = pageUrl ? normalizeListingUrl(pageUrl) : null;
+  doc.querySelectorAll('a[href]').forEach(anchor => {
+    let url: URL;
+    try {
+      url = new URL(anchor.getAttribute('href') ?? '', pageUrl);
+    } catch {
+      return;
+    }
+    if (!/^https?:$/.test(url.protocol) || !isListingUrl(url)) return;
+    const key = normalizeListingUrl(url.href);
+    if (key === pageKey) return;
+    const title = linkTitle(anchor);
+    const existing = listings.get(key);
+    if (!existing) listings.set(key, { url: url.href, title: title || undefined });
+    else if (!existing.title && title) existing.title = title;
+  });
+  return [...listings.values()];
+};
+
+/** Where a saved page came from, so its relative links can be resolved. */
+const savedPageUrl = (content: string, doc: Document) => {
+  const candidates = [
+    content.match(/^Snapshot-Content-Location:\s*(\S+)/im)?.[1],
+    content.match(/<!--\s*saved from url=\(\d+\)(\S+?)\s*-->/i)?.[1],
+    doc.querySelector('base[href]')?.getAttribute('href'),
+    doc.querySelector('link[rel="canonical"]')?.getAttribute('href'),
+    doc.querySelector('meta[property="og:url"]')?.getAttribute('content'),
+  ];
+  return candidates.find(candidate => candidate && /^https?:\/\//i.test(candidate)) ?? undefined;
+};
+
+const isEmail = (content: string) =>
+  /^(From|Received|Return-Path|Delivered-To):/im.test(content.slice(0, 4000)) && /^Subject:/im.test(content.slice(0, 8000)) && !looksLikeMhtml(content);
+
+const isFeed = (content: string) => /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<(rss|feed|rdf:RDF)[\s>]/i.test(content);
+
+export const marketplaceExportSource: ListingSource = {
+  id: 'marketplaceExport',
+  label: 'Marketplace search results',
+  description: 'A search results page from BizBuySell, BizQuest, LoopNet and similar sites, saved from the browser as .html or .mhtml.',
+  accept: '.html,.htm,.mhtml,.mht',
+  detect: ({ name, content }) => /\.(html?|mht(ml)?)$/i.test(name) || looksLikeMhtml(content) || looksLikeHtml(content),
+  parse: ({ name, content }) => {
+    const isMhtml = /\.mht(ml)?$/i.test(name) || looksLikeMhtml(content);
+    const html = isMhtml ? findMimePart(content, 'text/html') : content;
+    if (!html) throw new Error(`${name} doesn't contain a web page.`);
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    return collectListingLinks(doc, savedPageUrl(content, doc));
+  },
+};
+
+export const feedSource: ListingSource = {
+  id: 'feed',
+  label: 'RSS or Atom feed',
+  description: "A broker's or marketplace's new-listing feed, saved as .xml, .rss or .atom. Every item is treated as a listing.",
+  accept: '.xml,.rss,.atom',
+  detect: ({ name, content }) => /\.(rss|atom)$/i.test(name) || isFeed(content),
+  parse: ({ name, content }) => {
+    const doc = new DOMParser().parseFromString(content, 'application/xml');
+    if (doc.querySelector('parsererror')) throw new Error(`${name} isn't a valid RSS or Atom feed.`);
+    const listings = new Map<string, FoundListing>();
+    doc.querySelectorAll('item, entry').forEach(item => {
+      const atomLink = item.querySelector('link[rel="alternate"][href], link:not([rel])[href]')?.getAttribute('href');
+      const guid = item.querySelector('guid');
+      const href = atomLink
+        || cleanText(item.querySelector('link')?.textContent)
+        || (guid?.getAttribute('isPermaLink') !== 'false' ? cleanText(guid?.textContent) : '');
+      if (!href || !/^https?:\/\//i.test(href)) return;
+      const key = normalizeListingUrl(href);
+      if (!listings.has(key)) listings.set(key, { url: href, title: cleanText(item.querySelector('title')?.textContent) || undefined });
+    });
+    return [...listings.values()];
+  },
+};
+
+export const emailDigestSource: ListingSource = {
+  id: 'emailDigest',
+  label: 'Email digest',
+  description: "A listing alert email saved as .eml. Links routed through the sender's click tracking can't be followed offline and are skipped.",
+  accept: '.eml',
+  detect: ({ name, content }) => /\.eml$/i.test(name) || isEmail(content),
+  parse: ({ content }) => {
+    const html = findMimePart(content, 'text/html');
+    if (html) return collectListingLinks(new DOMParser().parseFromString(html, 'text/html'));
+    // Plain single-part messages often have no Content-Type; their links are found just the same.
+    const text = findMimePart(content, 'text/plain') ?? content;
+    const listings = new Map<string, FoundListing>();
+    (text.match(/https?:\/\/[^\s<>"')\]]+/gi) ?? []).forEach(href => {
+      try {
+        if (isListingUrl(new URL(href))) listings.set(normalizeListingUrl(href), { url: href });
+      } catch {
+        // Not a URL after all.
+      }
+    });
+    return [...listings.values()];
+  },
+};
+
+/** In detection order: emails and feeds can contain HTML, so they're checked first. */
+export const LISTING_SOURCES: ListingSource[] = [emailDigestSource, feedSource, marketplaceExportSource];
+
+export const detectListingSource = (file: SourceFile) => LISTING_SOURCES.find(source => source.detect(file)) ?? null;
+
+export interface SourceFileResult {
+  fileName: string;
+  source: ListingSource | null;
+  listings: FoundListing[];
+  error?: string;
+}
+
+/** Reads one file with the given source, or the one detected from the file. */
+export const readSourceFile = (file: SourceFile, source = detectListingSource(file)): SourceFileResult => {
+  if (!source) return { fileName: file.name, source, listings: [], error: "Couldn't tell what kind of file this is." };
+  try {
+    return { fileName: file.name, source, listings: source.parse(file) };
+  } catch (e: any) {
+    return { fileName: file.name, source, listings: [], error: e.message || `Couldn't read ${file.name}.` };
+  }
+};
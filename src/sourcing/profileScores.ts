@@ -0,0 +1,27 @@
+import { SavedProfile } from '../App';
+import { SourcingResult } from '../components/SourcingEngine';
+import { scoreFit } from '../utils/fitScoring';
+
+// A listing is analyzed once, but the team screens it against several Buy Box profiles. Each
+// profile's score is computed from the stored analysis on demand rather than stored, so it
+// always reflects the profile as currently saved.
+
+export interface ProfileScore {
+  profileName: string;
+  score: number | null;
+}
+
+/** The result's fit score against each profile, in profile order; empty without a stored analysis. */
+export const scoreAgainstProfiles = (result: SourcingResult, profiles: SavedProfile[]): ProfileScore[] => {
+  const analysis = result.analysis;
+  if (!analysis || result.error) return [];
+  return profiles.map(profile => ({
+    profileName: profile.name,
+    score: scoreFit(profile.criteria, { facts: analysis.facts, fitRows: analysis.fitRows }).score,
+  }));
+};
+
+/** The profile the result scores highest against; ties go to the earlier profile. */
+export const bestFitProfile = (scores: ProfileScore[]): ProfileScore | null =>
+  scores.reduce<ProfileScore | null>((best, entry) =>
+    entry.score !== null && (best === null || best.score === null || entry.score > best.score) ? entry : best, null);
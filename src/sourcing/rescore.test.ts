@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { CriterionScore, FitScoreBreakdown, ScoredCriterionKey } from '../utils/fitScoring';
+import { explainScoreChange } from './rescore';
+
+const criterion = (key: ScoredCriterionKey, weight: number, credit: number): CriterionScore => ({
+  key, label: key, weight, credit, source: 'facts', explanation: `${key} at ${weight}x`,
+});
+
+const breakdown = (...criteria: CriterionScore[]): FitScoreBreakdown => {
+  const possiblePoints = criteria.reduce((sum, c) => sum + c.weight, 0);
+  const achievedPoints = criteria.reduce((sum, c) => sum + c.weight * c.credit, 0);
+  return { score: Math.round((achievedPoints / possiblePoints) * 100), achievedPoints, possiblePoints, criteria };
+};
+
+describe('explainScoreChange', () => {
+  it("compares each criterion's share of the score, largest change first", () => {
+    const before = breakdown(criterion('geography', 1, 1), criterion('sde', 1, 1));
+    const after = breakdown(criterion('geography', 1, 1), criterion('sde', 3, 0));
+
+    expect(explainScoreChange(before, after)).toEqual([
+      { key: 'sde', label: 'sde', before: 50, after: 0, explanation: 'sde at 3x' },
+      { key: 'geography', label: 'geography', before: 50, after: 25, explanation: 'geography at 1x' },
+    ]);
+  });
+
+  it('explains criteria the new Buy Box no longer weights', () => {
+    const before = breakdown(criterion('geography', 1, 1), criterion('industryType', 1, 1));
+    const after = breakdown(criterion('geography', 1, 1));
+
+    expect(explainScoreChange(before, after).find(shift => shift.key === 'industryType'))
+      .toMatchObject({ before: 50, after: 0, explanation: 'No longer weighted.' });
+  });
+
+  it('leaves out criteria that moved less than half a point', () => {
+    const before = breakdown(criterion('geography', 100, 1), criterion('sde', 100, 1));
+    const after = breakdown(criterion('geography', 100, 1), criterion('sde', 101, 1));
+
+    expect(explainScoreChange(before, after)).toEqual([]);
+  });
+
+  it('counts everything as new for results scored before breakdowns were stored', () => {
+    const after = breakdown(criterion('geography', 1, 1), criterion('sde', 1, 0));
+
+    expect(explainScoreChange(undefined, after)).toEqual([
+      { key: 'geography', label: 'geography', before: 0, after: 50, explanation: 'geography at 1x' },
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+import { BuyBoxCriteria, Deal } from '../App';
+import { SourcingResult } from '../components/SourcingEngine';
+import { FitScoreBreakdown, ScoredCriterionKey, scoreFit } from '../utils/fitScoring';
+import { renderScorecardMarkdown } from '../utils/sourcingAnalysis';
+
+// Fit scores are computed once at analysis time. Re-scoring re-applies a Buy Box's weights and
+// numeric thresholds to the facts and verdicts stored with each result, without calling the
+// model, so the qualitative Yes/No verdicts stay as they were first judged.
+
+/** How much one criterion contributed to a score before and after, in score points. */
+export interface CriterionShift {
+  key: ScoredCriterionKey;
+  label: string;
+  before: number;
+  after: number;
+  explanation: string;
+}
+
+export interface ScoreChange {
+  /** The result's URL, or the deal's id for pipeline deals. */
+  id: string;
+  title: string;
+  location: 'results' | 'pipeline';
+  before: number | null;
+  after: number | null;
+  /** Criteria whose contribution changed, largest change first. */
+  shifts: CriterionShift[];
+}
+
+export interface RescorePlan {
+  changes: ScoreChange[];
+  /** Results with no stored analysis to score from, e.g. failed analyses. */
+  skipped: number;
+}
+
+/** The result scored against another Buy Box, or null if it has no stored analysis. */
+export const rescoreResult = (result: SourcingResult, buyBox: BuyBoxCriteria): SourcingResult | null => {
+  if (!result.analysis || result.error) return null;
+  const fitBreakdown = scoreFit(buyBox, { facts: result.analysis.facts, fitRows: result.analysis.fitRows });
+  return {
+    ...result,
+    overallFitScore: fitBreakdown.score,
+    fitBreakdown,
+    scorecard: renderScorecardMarkdown(result.analysis.fitRows, buyBox),
+  };
+};
+
+export const rescoreResults = (results: SourcingResult[], buyBox: BuyBoxCriteria) =>
+  results.map(result => rescoreResult(result, buyBox) ?? result);
+
+export const rescoreDeals = (deals: Deal[], buyBox: BuyBoxCriteria) =>
+  deals.map(deal => {
+    const sourcingResult = rescoreResult(deal.sourcingResult, buyBox);
+    return sourcingResult ? { ...deal, sourcingResult } : deal;
+  });
+
+const contributions = (breakdown: FitScoreBreakdown | undefined) => {
+  const points = new Map<ScoredCriterionKey, number>();
+  if (breakdown && breakdown.possiblePoints > 0) {
+    breakdown.criteria.forEach(c => points.set(c.key, (c.weight * c.credit / breakdown.possiblePoints) * 100));
+  }
+  return points;
+};
+
+/** The criteria that moved a score, comparing each one's share of the total. */
+export const explainScoreChange = (before: FitScoreBreakdown | undefined, after: FitScoreBreakdown): CriterionShift[] => {
+  const beforePoints = contributions(before);
+  const afterPoints = contributions(after);
+  const labels = new Map([...(before?.criteria ?? []), ...after.criteria].map(c => [c.key, c.label]));
+  return [...labels.entries()]
+    .map(([key, label]) => ({
+      key,
+      label,
+      before: beforePoints.get(key) ?? 0,
+      after: afterPoints.get(key) ?? 0,
+      explanation: after.criteria.find(c => c.key === key)?.explanation ?? 'No longer weighted.',
+    }))
+    .filter(shift => Math.abs(shift.after - shift.before) >= 0.5)
+    .sort((a, b) => Math.abs(b.after - b.before) - Math.abs(a.after - a.before));
+};
+
+const changeFor = (result: SourcingResult, buyBox: BuyBoxCriteria, id: string, title: string, location: ScoreChange['location']): ScoreChange | null => {
+  const rescored = rescoreResult(result, buyBox);
+  if (!rescored) return null;
+  return {
+    id,
+    title,
+    location,
+    before: result.overallFitScore,
+    after: rescored.overallFitScore,
+    shifts: rescored.fitBreakdown ? explainScoreChange(result.fitBreakdown, rescored.fitBreakdown) : [],
+  };
+};
+
+/** What re-scoring every result and pipeline deal against a Buy Box would change, without changing it. */
+export const planRescore = (results: SourcingResult[], deals: Deal[], buyBox: BuyBoxCriteria): RescorePlan => {
+  const changes: ScoreChange[] = [];
+  let skipped = 0;
+  const add = (change: ScoreChange | null) => (change ? changes.push(change) : skipped++);
+  results.forEach(result => add(changeFor(result, buyBox, result.url, result.title || result.url, 'results')));
+  deals.forEach(deal => add(changeFor(deal.sourcingResult, buyBox, deal.id, deal.companyName, 'pipeline')));
+  return { changes, skipped };
+};
+
+export const scoreDelta = (change: ScoreChange) => (change.after ?? 0) - (change.before ?? 0);
@@ -0,0 +1,127 @@
+import Papa from 'papaparse';
+import { Deal } from '../App';
+import { SourcingResult } from '../components/SourcingEngine';
+import { isImportedWithoutUrl } from './bulkImport';
+import { ListingCluster, findPipelineDeal } from './dedup';
+import { ValuationMetrics, ValuationSettings, computeValuationMetrics } from './valuationMetrics';
+
+/** One company in the results table, with the values its columns sort and filter on. */
+export interface ResultRow {
+  cluster: ListingCluster;
+  result: SourcingResult;
+  pipelineDeal?: Deal;
+  score: number | null;
+  sde: number | null;
+  askingPrice: number | null;
+  revenue: number | null;
+  /** Asking price over SDE. */
+  multiple: number | null;
+  revenueMultiple: number | null;
+  dscr: number | null;
+  valuation: ValuationMetrics;
+  industry: string | null;
+  location: string | null;
+  foundAt: number | null;
+  source: string;
+}
+
+export type ColumnKey =
+  | 'score' | 'sde' | 'askingPrice' | 'multiple' | 'revenueMultiple' | 'dscr' | 'revenue'
+  | 'industry' | 'location' | 'foundAt' | 'source' | 'pipeline';
+
+export type FacetKey = 'industry' | 'location' | 'source' | 'pipeline' | 'priceBand';
+
+/** The site a listing came from, e.g. "bizbuysell.com". */
+export const sourceSite = (result: SourcingResult) => {
+  if (isImportedWithoutUrl(result)) return 'Imported';
+  try {
+    return new URL(result.url).hostname.replace(/^www\./, '');
+  } catch {
+    return 'Unknown';
+  }
+};
+
+export const toResultRow = (cluster: ListingCluster, deals: Deal[], valuationSettings: ValuationSettings): ResultRow => {
+  const result = cluster.primary;
+  const valuation = computeValuationMetrics(result, valuationSettings);
+  return {
+    cluster,
+    result,
+    pipelineDeal: findPipelineDeal(result, deals),
+    score: result.overallFitScore,
+    sde: result.sde,
+    askingPrice: valuation.askingPrice,
+    revenue: valuation.revenue,
+    multiple: valuation.sdeMultiple,
+    revenueMultiple: valuation.revenueMultiple,
+    dscr: valuation.dscr,
+    valuation,
+    industry: result.industry,
+    location: result.analysis?.facts.location ?? null,
+    foundAt: result.analyzedAt ?? null,
+    source: sourceSite(result),
+  };
+};
+
+const PRICE_FLAG_LABELS = { below: 'Below band', within: 'Within band', above: 'Above band', unknown: 'No multiple' };
+
+/** The value a facet groups a row under. */
+export const facetValue = (row: ResultRow, facet: FacetKey): string => {
+  switch (facet) {
+    case 'industry': return row.industry || 'Unknown';
+    case 'location': return row.location || 'Unknown';
+    case 'source': return row.source;
+    case 'pipeline': return row.pipelineDeal ? 'In pipeline' : 'Not in pipeline';
+    case 'priceBand': return PRICE_FLAG_LABELS[row.valuation.priceFlag ?? 'unknown'];
+  }
+};
+
+/** Each facet's values with how many rows have them, most common first. */
+export const facetCounts = (rows: ResultRow[], facet: FacetKey): [string, number][] => {
+  const counts = new Map<string, number>();
+  rows.forEach(row => counts.set(facetValue(row, facet), (counts.get(facetValue(row, facet)) ?? 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+};
+
+/** Rows matching every facet that has a selection; within a facet any selected value matches. */
+export const applyFacets = (rows: ResultRow[], selected: Partial<Record<FacetKey, string[]>>) =>
+  rows.filter(row => (Object.entries(selected) as [FacetKey, string[]][])
+    .every(([facet, values]) => values.length === 0 || values.includes(facetValue(row, facet))));
+
+const sortValue = (row: ResultRow, key: ColumnKey): string | number | null => {
+  if (key === 'pipeline') return row.pipelineDeal?.status ?? null;
+  return row[key];
+};
+
+/** Sorts on a column; rows without a value always go last. */
+export const sortRows = (rows: ResultRow[], key: ColumnKey, direction: 'asc' | 'desc') =>
+  [...rows].sort((a, b) => {
+    const av = sortValue(a, key);
+    const bv = sortValue(b, key);
+    if (av === null || av === '') return bv === null || bv === '' ? 0 : 1;
+    if (bv === null || bv === '') return -1;
+    const order = typeof av === 'number' && typeof bv === 'number' ? av - bv : String(av).localeCompare(String(bv));
+    return direction === 'asc' ? order : -order;
+  });
+
+/** A CSV of the rows, one line per company. */
+export const resultsToCsv = (rows: ResultRow[]) =>
+  Papa.unparse(rows.map(row => ({
+    Listing: row.result.title ?? '',
+    URL: isImportedWithoutUrl(row.result) ? '' : row.result.url,
+    'Fit Score': row.score ?? '',
+    SDE: row.sde ?? '',
+    'Asking Price': row.askingPrice ?? '',
+    'SDE Multiple': row.multiple !== null ? row.multiple.toFixed(2) : '',
+    'Revenue Multiple': row.revenueMultiple !== null ? row.revenueMultiple.toFixed(2) : '',
+    DSCR: row.dscr !== null ? row.dscr.toFixed(2) : '',
+    'Price vs. Band': PRICE_FLAG_LABELS[row.valuation.priceFlag ?? 'unknown'],
+    Revenue: row.revenue ?? '',
+    Industry: row.industry ?? '',
+    Location: row.location ?? '',
+    'Date Found': row.foundAt ? new Date(row.foundAt).toISOString().slice(0, 10) : '',
+    'Source Site': row.source,
+    'Other Listings': row.cluster.duplicates.map(d => d.url).join(' '),
+    Pipeline: row.pipelineDeal ? `${row.pipelineDeal.companyName} (${row.pipelineDeal.status})` : '',
+    Archived: row.result.archived ? 'Yes' : '',
+  })));
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { SavedSearch, disableSearchesForProfile, findNewListings, recordSearchRun, renameSearchProfile } from './savedSearches';
+
+const search = (id: string, profileName: string): SavedSearch => ({
+  id, name: `Search ${id}`, profileName, industries: 'HVAC', geographies: 'Texas',
+  intervalHours: 24, createdAt: 1, seenUrls: [],
+});
+
+describe('findNewListings', () => {
+  it('skips listings an earlier run returned, however their URL is dressed up', () => {
+    const seen = recordSearchRun(search('a', 'Default'), [{ url: 'https://www.bizbuysell.com/listing/123/' }], 1);
+    const listings = [
+      { url: 'https://bizbuysell.com/listing/123?utm_source=alert#photos' },
+      { url: 'https://bizbuysell.com/listing/456' },
+    ];
+
+    expect(findNewListings(seen, listings)).toEqual([{ url: 'https://bizbuysell.com/listing/456' }]);
+  });
+
+  it('returns a listing found twice in the same run once', () => {
+    const listings = [{ url: 'https://broker.example.com/hvac' }, { url: 'https://www.broker.example.com/hvac/' }];
+
+    expect(findNewListings(search('a', 'Default'), listings)).toEqual([{ url: 'https://broker.example.com/hvac' }]);
+  });
+});
+
+describe('renameSearchProfile', () => {
+  it('moves only the searches using the renamed profile', () => {
+    const renamed = renameSearchProfile([search('a', 'Trades'), search('b', 'Default')], 'Trades', 'Home Services');
+    expect(renamed.map(s => s.profileName)).toEqual(['Home Services', 'Default']);
+  });
+});
+
+describe('disableSearchesForProfile', () => {
+  it('takes the searches off their schedule and says why', () => {
+    const [disabled, untouched] = disableSearchesForProfile([search('a', 'Trades'), search('b', 'Default')], 'Trades');
+    expect(disabled.intervalHours).toBe(0);
+    expect(disabled.lastRunError).toContain('"Trades" was deleted');
+    expect(untouched).toEqual(search('b', 'Default'));
+  });
+});
@@ -0,0 +1,83 @@
+import { FoundListing } from './analyzeListing';
+import { normalizeListingUrl } from './dedup';
+
+/** A named search, run against one saved Buy Box profile, optionally on a schedule. */
+export interface SavedSearch {
+  id: string;
+  name: string;
+  /** The `SavedProfile` whose criteria are used for the search and to score what it finds. */
+  profileName: string;
+  industries: string;
+  geographies: string;
+  /** Hours between automatic runs; 0 runs only on demand. */
+  intervalHours: number;
+  createdAt: number;
+  lastRunAt?: number;
+  lastRunError?: string;
+  /** Normalized URLs of every listing this search has returned, so later runs only surface new ones. */
+  seenUrls: string[];
+}
+
+/** A listing a saved search found that no earlier run had seen. */
+export interface SearchInboxItem {
+  id: string;
+  searchId: string;
+  url: string;
+  title?: string;
+  foundAt: number;
+  read: boolean;
+}
+
+export const SCHEDULE_OPTIONS: { hours: number; label: string }[] = [
+  { hours: 0, label: 'Manual only' },
+  { hours: 6, label: 'Every 6 hours' },
+  { hours: 24, label: 'Daily' },
+  { hours: 168, label: 'Weekly' },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+/** The inbox keeps the most recent items only. */
+const MAX_INBOX_ITEMS = 500;
+
+export const isSearchDue = (search: SavedSearch, now: number) =>
+  search.intervalHours > 0 && (search.lastRunAt ?? 0) + search.intervalHours * HOUR_MS <= now;
+
+export const nextRunAt = (search: SavedSearch): number | null =>
+  search.intervalHours > 0 ? (search.lastRunAt ?? Date.now()) + search.intervalHours * HOUR_MS : null;
+
+/** Listings from a run that the search hasn't returned before, without repeats. */
+export const findNewListings = (search: SavedSearch, listings: FoundListing[]): FoundListing[] => {
+  const seen = new Set(search.seenUrls);
+  return listings.filter(listing => {
+    const url = normalizeListingUrl(listing.url);
+    if (seen.has(url)) return false;
+    seen.add(url);
+    return true;
+  });
+};
+
+/** Records a finished run: everything returned is now seen. */
+export const recordSearchRun = (search: SavedSearch, listings: FoundListing[], now: number): SavedSearch => ({
+  ...search,
+  lastRunAt: now,
+  lastRunError: undefined,
+  seenUrls: [...new Set([...search.seenUrls, ...listings.map(listing => normalizeListingUrl(listing.url))])],
+});
+
+/** Keeps searches pointed at their Buy Box profile when it is renamed. */
+export const renameSearchProfile = (searches: SavedSearch[], oldName: string, newName: string): SavedSearch[] =>
+  searches.map(search => (search.profileName === oldName ? { ...search, profileName: newName } : search));
+
+/** Takes searches off their schedule when their profile is deleted, until they're given another one. */
+export const disableSearchesForProfile = (searches: SavedSearch[], profileName: string): SavedSearch[] =>
+  searches.map(search => (search.profileName === profileName
+    ? { ...search, intervalHours: 0, lastRunError: `The Buy Box profile "${profileName}" was deleted. Pick another profile to run this search.` }
+    : search));
+
+export const addInboxItems = (inbox: SearchInboxItem[], searchId: string, listings: FoundListing[], now: number): SearchInboxItem[] => [
+  ...listings.map(listing => ({ id: crypto.randomUUID(), searchId, url: listing.url, title: listing.title, foundAt: now, read: false })),
+  ...inbox,
+].slice(0, MAX_INBOX_ITEMS);
+
+export const unreadCount = (inbox: SearchInboxItem[], searchId?: string) =>
+  inbox.filter(item => !item.read && (!searchId || item.searchId === searchId)).length;
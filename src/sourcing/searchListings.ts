@@ -0,0 +1,28 @@
+import { aiClient } from '../ai/client';
+import { BuyBoxCriteria } from '../App';
+import { getSourcingSearchPrompt } from '../utils/prompts';
+import { FoundListing } from './analyzeListing';
+
+/** Asks the model to search marketplaces for listings in the given industries and geographies. */
+export const searchListings = async (industries: string, geographies: string, buyBox: BuyBoxCriteria): Promise<FoundListing[]> => {
+  const response = await aiClient.generate({
+    feature: 'sourcing.search',
+    tier: 'reasoning',
+    contents: getSourcingSearchPrompt(industries, geographies, buyBox),
+    webSearch: true,
+  });
+
+  let listingsJson = response.text.trim();
+  const jsonMatch = listingsJson.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  if (jsonMatch && jsonMatch[1]) {
+    listingsJson = jsonMatch[1];
+  }
+
+  try {
+    const listings = JSON.parse(listingsJson);
+    return Array.isArray(listings) ? listings.filter((listing: FoundListing) => typeof listing?.url === 'string') : [];
+  } catch (parseError) {
+    console.error("Failed to parse listings JSON:", parseError, "Raw JSON string:", listingsJson);
+    throw new Error("AI returned an invalid list format. Please try again.");
+  }
+};
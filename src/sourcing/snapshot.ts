@@ -0,0 +1,100 @@
+// Listings are often taken down once a deal goes under LOI. A snapshot keeps the listing's
+// own wording with the result, and the analysis runs against it instead of a live fetch.
+
+/** The text of a listing page as captured by the user. */
+export interface ListingSnapshot {
+  /** Readable page text, with markup, scripts and navigation stripped. */
+  text: string;
+  /** The page's <title>, when captured from HTML. */
+  pageTitle?: string;
+  source: 'paste' | 'file';
+  fileName?: string;
+  capturedAt: number;
+}
+
+/** Longer snapshots are truncated; listing pages are far shorter than this once stripped. */
+export const MAX_SNAPSHOT_CHARS = 60000;
+
+export const looksLikeHtml = (content: string) => /<(html|body|div|p|head|table|span)[\s>]/i.test(content);
+export const looksLikeMhtml = (content: string) => /^MIME-Version:/im.test(content.slice(0, 2000)) && /Content-Type:\s*multipart\/related/i.test(content);
+
+const decodeQuotedPrintable = (text: string) =>
+  text
+    .replace(/=\r?\n/g, '')
+    .replace(/(?:=[0-9A-F]{2})+/gi, match => {
+      const bytes = new Uint8Array(match.split('=').slice(1).map(hex => parseInt(hex, 16)));
+      return new TextDecoder('utf-8').decode(bytes);
+    });
+
+const splitHeaders = (part: string) => {
+  const trimmed = part.replace(/^\r?\n/, '');
+  const headerEnd = trimmed.search(/\r?\n\r?\n/);
+  return headerEnd === -1
+    ? { headers: trimmed, body: '' }
+    : { headers: trimmed.slice(0, headerEnd), body: trimmed.slice(headerEnd).trim() };
+};
+
+const decodeBody = (headers: string, body: string) => {
+  if (/Content-Transfer-Encoding:\s*quoted-printable/i.test(headers)) return decodeQuotedPrintable(body);
+  if (/Content-Transfer-Encoding:\s*base64/i.test(headers)) {
+    try {
+      return new TextDecoder('utf-8').decode(Uint8Array.from(atob(body.replace(/\s+/g, '')), c => c.charCodeAt(0)));
+    } catch {
+      return '';
+    }
+  }
+  return body;
+};
+
+/**
+ * The decoded body of the first part of a MIME document (a saved .mhtml web archive or an
+ * .eml email) with the given content type, looking inside nested multiparts. Null if none.
+ */
+export const findMimePart = (content: string, contentType: string): string | null => {
+  const { headers, body } = splitHeaders(content);
+  const boundary = headers.match(/boundary="?([^";\r\n]+)"?/i)?.[1];
+  if (boundary) {
+    for (const part of body.split(`--${boundary}`)) {
+      const found = findMimePart(part, contentType);
+      if (found !== null) return found;
+    }
+    return null;
+  }
+  return new RegExp(`Content-Type:\\s*${contentType}`, 'i').test(headers) ? decodeBody(headers, body) : null;
+};
+
+const BLOCK_TAGS = 'p, div, li, tr, h1, h2, h3, h4, h5, h6, br, section, article, dt, dd';
+
+const htmlToText = (html: string): { text: string; pageTitle?: string } => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const pageTitle = doc.title.trim() || undefined;
+  doc.querySelectorAll('script, style, noscript, svg, iframe, nav, header, footer, form, template').forEach(el => el.remove());
+  // Keep block boundaries as line breaks so the text reads like the page.
+  doc.querySelectorAll(BLOCK_TAGS).forEach(el => el.append('\n'));
+  return { text: doc.body?.textContent ?? '', pageTitle };
+};
+
+const tidy = (text: string) =>
+  text
+    .replace(/\u00a0/g, ' ')
+    .replace(/[ \t]+/g, ' ')
+    .split('\n').map(line => line.trim()).join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+    .slice(0, MAX_SNAPSHOT_CHARS);
+
+/**
+ * Builds a snapshot from pasted HTML or text, or the contents of a saved .html/.mhtml file.
+ * Returns null when nothing readable is left.
+ */
+export const createSnapshot = (content: string, source: ListingSnapshot['source'], fileName?: string): ListingSnapshot | null => {
+  const isMhtml = /\.mht(ml)?$/i.test(fileName ?? '') || looksLikeMhtml(content);
+  const html = isMhtml ? findMimePart(content, 'text/html') ?? '' : content;
+  const { text, pageTitle } = isMhtml || looksLikeHtml(html) ? htmlToText(html) : { text: content, pageTitle: undefined };
+  const cleaned = tidy(text);
+  if (!cleaned) return null;
+  return { text: cleaned, pageTitle, source, fileName, capturedAt: Date.now() };
+};
+
+export const describeSnapshot = (snapshot: ListingSnapshot) =>
+  `Captured ${new Date(snapshot.capturedAt).toLocaleString()} from ${snapshot.fileName ?? 'pasted content'} · ${snapshot.text.length.toLocaleString()} characters`;
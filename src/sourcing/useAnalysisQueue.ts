@@ -0,0 +1,71 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { aiErrorMessage } from '../ai/client';
+import { SourcingResult } from '../components/SourcingEngine';
+import { analyzeListing } from './analyzeListing';
+import { AnalysisJob, ANALYSIS_CONCURRENCY, MAX_ATTEMPTS, isRetryableError, retryDelayMs } from './jobQueue';
+
+interface AnalysisQueueOptions {
+  jobs: AnalysisJob[];
+  setJobs: React.Dispatch<React.SetStateAction<AnalysisJob[]>>;
+  /** Off until the persisted queue has loaded, and while signed out. */
+  enabled: boolean;
+  onResult: (result: SourcingResult) => void;
+}
+
+/**
+ * Works through queued listing analyses, at most `ANALYSIS_CONCURRENCY` at a time. Failed
+ * attempts that are worth retrying go back in the queue with exponential backoff.
+ */
+export const useAnalysisQueue = ({ jobs, setJobs, enabled, onResult }: AnalysisQueueOptions) => {
+  const running = useRef(new Set<string>());
+  // Bumped when the queue is disabled (e.g. sign-out) so late results from the old session are dropped.
+  const generation = useRef(0);
+  const onResultRef = useRef(onResult);
+  onResultRef.current = onResult;
+  // Re-runs the scheduler when a delayed retry becomes due.
+  const [wakeCount, setWakeCount] = useState(0);
+
+  useEffect(() => {
+    if (enabled) return;
+    generation.current += 1;
+    running.current.clear();
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const now = Date.now();
+    const updateJob = (id: string, changes: Partial<AnalysisJob>) =>
+      setJobs(prev => prev.map(job => (job.id === id ? { ...job, ...changes, updatedAt: Date.now() } : job)));
+
+    const start = (job: AnalysisJob) => {
+      const runGeneration = generation.current;
+      const attempts = job.attempts + 1;
+      running.current.add(job.id);
+      updateJob(job.id, { status: 'running', attempts, error: undefined, nextAttemptAt: undefined });
+      analyzeListing(job.listing, job.buyBox).then(result => {
+        if (runGeneration !== generation.current) return;
+        running.current.delete(job.id);
+        onResultRef.current(result);
+        updateJob(job.id, { status: 'done' });
+      }, error => {
+        if (runGeneration !== generation.current) return;
+        running.current.delete(job.id);
+        console.error(`Error analyzing ${job.listing.url} (attempt ${attempts}):`, error);
+        const message = aiErrorMessage(error, error instanceof Error ? error.message : 'Failed to analyze this listing.');
+        if (isRetryableError(error) && attempts < MAX_ATTEMPTS) {
+          updateJob(job.id, { status: 'queued', error: message, nextAttemptAt: Date.now() + retryDelayMs(attempts) });
+        } else {
+          updateJob(job.id, { status: 'failed', error: message });
+        }
+      });
+    };
+
+    const ready = jobs.filter(job => job.status === 'queued' && (job.nextAttemptAt ?? 0) <= now && !running.current.has(job.id));
+    ready.slice(0, Math.max(0, ANALYSIS_CONCURRENCY - running.current.size)).forEach(start);
+
+    const nextRetryAt = Math.min(...jobs.filter(job => job.status === 'queued' && (job.nextAttemptAt ?? 0) > now).map(job => job.nextAttemptAt!));
+    if (!Number.isFinite(nextRetryAt)) return;
+    const timer = setTimeout(() => setWakeCount(count => count + 1), nextRetryAt - now);
+    return () => clearTimeout(timer);
+  }, [jobs, enabled, setJobs, wakeCount]);
+};
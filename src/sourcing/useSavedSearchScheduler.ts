@@ -0,0 +1,79 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { aiErrorMessage } from '../ai/client';
+import { BuyBoxCriteria, SavedProfile } from '../App';
+import { FoundListing } from './analyzeListing';
+import { searchListings } from './searchListings';
+import { SavedSearch, findNewListings, isSearchDue, recordSearchRun } from './savedSearches';
+
+interface SavedSearchSchedulerOptions {
+  searches: SavedSearch[];
+  setSearches: React.Dispatch<React.SetStateAction<SavedSearch[]>>;
+  savedProfiles: SavedProfile[];
+  /** Off until the saved searches have loaded, while signed out, and for roles that can't source. */
+  enabled: boolean;
+  /** Called with the listings a run found that the search hasn't seen before. */
+  onNewListings: (search: SavedSearch, listings: FoundListing[], criteria: BuyBoxCriteria) => void;
+}
+
+/** How often to look for a search that has come due. */
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Runs saved searches when they come due, one at a time, while the app is open. A search
+ * missed while the app was closed runs on the next check after it opens.
+ */
+export const useSavedSearchScheduler = ({ searches, setSearches, savedProfiles, enabled, onNewListings }: SavedSearchSchedulerOptions) => {
+  const [runningSearchId, setRunningSearchId] = useState<string | null>(null);
+  const isRunning = useRef(false);
+  // Bumped when the scheduler is disabled (e.g. sign-out) so a run from the old session is dropped.
+  const generation = useRef(0);
+  const latest = useRef({ searches, savedProfiles, onNewListings });
+  latest.current = { searches, savedProfiles, onNewListings };
+
+  const runSearch = useCallback(async (id: string) => {
+    const search = latest.current.searches.find(s => s.id === id);
+    if (!search || isRunning.current) return;
+    const runGeneration = generation.current;
+    const profile = latest.current.savedProfiles.find(p => p.name === search.profileName);
+    const startedAt = Date.now();
+    isRunning.current = true;
+    setRunningSearchId(id);
+    try {
+      if (!profile) throw new Error(`The Buy Box profile "${search.profileName}" no longer exists.`);
+      const listings = await searchListings(search.industries, search.geographies, profile.criteria);
+      if (runGeneration !== generation.current) return;
+      const newListings = findNewListings(search, listings);
+      setSearches(prev => prev.map(s => (s.id === id ? recordSearchRun(s, listings, startedAt) : s)));
+      if (newListings.length > 0) latest.current.onNewListings(search, newListings, profile.criteria);
+    } catch (error) {
+      if (runGeneration !== generation.current) return;
+      console.error(`Saved search "${search.name}" failed:`, error);
+      // lastRunAt still moves on, so a failing search waits for its next slot instead of retrying every minute.
+      const lastRunError = aiErrorMessage(error, error instanceof Error ? error.message : 'The search failed.');
+      setSearches(prev => prev.map(s => (s.id === id ? { ...s, lastRunAt: startedAt, lastRunError } : s)));
+    } finally {
+      if (runGeneration === generation.current) {
+        isRunning.current = false;
+        setRunningSearchId(null);
+      }
+    }
+  }, [setSearches]);
+
+  useEffect(() => {
+    if (!enabled) {
+      generation.current += 1;
+      isRunning.current = false;
+      setRunningSearchId(null);
+      return;
+    }
+    const runDueSearch = () => {
+      const due = latest.current.searches.find(search => isSearchDue(search, Date.now()));
+      if (due) runSearch(due.id);
+    };
+    runDueSearch();
+    const timer = setInterval(runDueSearch, CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [enabled, runSearch]);
+
+  return { runSearch, runningSearchId };
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { SourcingResult } from '../components/SourcingEngine';
+import { ValuationSettings, computeValuationMetrics, defaultValuationSettings, describePriceFlag } from './valuationMetrics';
+
+const result = (fields: Partial<SourcingResult>): SourcingResult => ({
+  url: 'https://example.com/listing', keyInsights: '', fullProfile: '', scorecard: '',
+  overallFitScore: null, sde: null, industry: null, ...fields,
+});
+
+const hvacBand: ValuationSettings = {
+  ...defaultValuationSettings,
+  bands: [{ id: 'b1', industry: 'HVAC', minMultiple: 3, maxMultiple: 5 }],
+};
+
+describe('computeValuationMetrics', () => {
+  it('covers SBA and seller note debt service from SDE less the owner salary', () => {
+    const metrics = computeValuationMetrics(result({ askingPrice: 1_000_000, sde: 400_000 }), defaultValuationSettings);
+    // 70% loan at 13% plus a 10% seller note at 5%.
+    expect(metrics.annualDebtService).toBeCloseTo(96_000);
+    expect(metrics.dscr).toBeCloseTo(280_000 / 96_000);
+    expect(metrics.isDscrLow).toBe(false);
+  });
+
+  it('flags coverage below the minimum DSCR', () => {
+    const metrics = computeValuationMetrics(result({ askingPrice: 1_000_000, sde: 200_000 }), defaultValuationSettings);
+    expect(metrics.dscr).toBeCloseTo(80_000 / 96_000);
+    expect(metrics.isDscrLow).toBe(true);
+  });
+
+  it('flags the SDE multiple against the default band', () => {
+    const flag = (sde: number) => computeValuationMetrics(result({ askingPrice: 1_000_000, sde }), defaultValuationSettings).priceFlag;
+    expect(flag(600_000)).toBe('below');
+    expect(flag(400_000)).toBe('within');
+    expect(flag(200_000)).toBe('above');
+  });
+
+  it('uses the band whose industry the listing matches', () => {
+    const metrics = computeValuationMetrics(result({ askingPrice: 1_000_000, sde: 400_000, industry: 'Commercial hvac services' }), hvacBand);
+    expect(metrics.band).toEqual({ label: 'HVAC', minMultiple: 3, maxMultiple: 5 });
+    expect(metrics.priceFlag).toBe('below');
+    expect(describePriceFlag(metrics)).toBe('Priced below the 3–5x band (HVAC)');
+  });
+
+  it('reads figures stored only in the analysis facts', () => {
+    const legacy = result({ sde: 500_000, analysis: { facts: { askingPrice: 1_500_000, revenue: 3_000_000 } } as SourcingResult['analysis'] });
+    const metrics = computeValuationMetrics(legacy, defaultValuationSettings);
+    expect(metrics.sdeMultiple).toBe(3);
+    expect(metrics.revenueMultiple).toBe(0.5);
+  });
+
+  it('has no multiple, coverage or flag without an asking price', () => {
+    const metrics = computeValuationMetrics(result({ sde: 400_000 }), defaultValuationSettings);
+    expect(metrics).toMatchObject({ sdeMultiple: null, annualDebtService: null, dscr: null, priceFlag: null, isDscrLow: false });
+    expect(describePriceFlag(metrics)).toBe('No multiple: asking price or SDE not disclosed');
+  });
+});
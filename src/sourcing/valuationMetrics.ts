@@ -0,0 +1,116 @@
+import { SourcingResult } from '../components/SourcingEngine';
+
+/** The range of SDE multiples a listing in an industry is expected to ask. */
+export interface MultipleBand {
+  id: string;
+  /** Matches listings whose industry contains this text (case-insensitive). */
+  industry: string;
+  minMultiple: number;
+  maxMultiple: number;
+}
+
+/** Assumptions behind the quick valuation shown on every sourcing result. */
+export interface ValuationSettings {
+  /** Used when no industry band matches. */
+  defaultBand: { minMultiple: number; maxMultiple: number };
+  bands: MultipleBand[];
+  /** Share of the asking price financed by an SBA loan. */
+  loanPercent: number;
+  /** Share of the asking price carried as a seller note. */
+  sellerNotePercent: number;
+  /** Replacement salary deducted from SDE before debt service. */
+  ownerSalary: number;
+  /** DSCR below this is flagged. */
+  minDscr: number;
+}
+
+// Same quick-view rules as the Valuation Calculator: SBA debt service at 13% of the loan a
+// year, seller note at 5% interest-only.
+export const SBA_DEBT_SERVICE_RATE = 0.13;
+export const SELLER_NOTE_RATE = 0.05;
+
+export const defaultValuationSettings: ValuationSettings = {
+  defaultBand: { minMultiple: 2, maxMultiple: 4 },
+  bands: [],
+  loanPercent: 70,
+  sellerNotePercent: 10,
+  ownerSalary: 120000,
+  minDscr: 1.25,
+};
+
+export type PriceFlag = 'below' | 'within' | 'above';
+
+export interface ValuationMetrics {
+  askingPrice: number | null;
+  revenue: number | null;
+  sde: number | null;
+  /** Asking price over SDE. */
+  sdeMultiple: number | null;
+  /** Asking price over revenue. */
+  revenueMultiple: number | null;
+  annualDebtService: number | null;
+  dscr: number | null;
+  band: { label: string; minMultiple: number; maxMultiple: number };
+  /** Where the SDE multiple falls against the band; null without a multiple. */
+  priceFlag: PriceFlag | null;
+  isDscrLow: boolean;
+}
+
+/** Results from before these were stored at the top level still have them in the analysis facts. */
+export const resultAskingPrice = (result: SourcingResult) => result.askingPrice ?? result.analysis?.facts.askingPrice ?? null;
+export const resultRevenue = (result: SourcingResult) => result.revenue ?? result.analysis?.facts.revenue ?? null;
+
+const ratio = (numerator: number | null, denominator: number | null) =>
+  numerator && denominator && denominator > 0 ? numerator / denominator : null;
+
+/** The band for an industry: the first configured band whose text the industry contains. */
+export const bandFor = (industry: string | null, settings: ValuationSettings) => {
+  const text = (industry ?? '').toLowerCase();
+  const match = text ? settings.bands.find(band => band.industry.trim() && text.includes(band.industry.trim().toLowerCase())) : undefined;
+  return match
+    ? { label: match.industry, minMultiple: match.minMultiple, maxMultiple: match.maxMultiple }
+    : { label: 'Default', ...settings.defaultBand };
+};
+
+/** Implied multiples and an SBA-style coverage check for a listing at its asking price. */
+export const computeValuationMetrics = (result: SourcingResult, settings: ValuationSettings): ValuationMetrics => {
+  const askingPrice = resultAskingPrice(result);
+  const revenue = resultRevenue(result);
+  const sde = result.sde;
+  const sdeMultiple = ratio(askingPrice, sde);
+  const band = bandFor(result.industry, settings);
+
+  const annualDebtService = askingPrice
+    ? askingPrice * (settings.loanPercent / 100) * SBA_DEBT_SERVICE_RATE
+      + askingPrice * (settings.sellerNotePercent / 100) * SELLER_NOTE_RATE
+    : null;
+  const dscr = annualDebtService && sde !== null ? (sde - settings.ownerSalary) / annualDebtService : null;
+
+  return {
+    askingPrice,
+    revenue,
+    sde,
+    sdeMultiple,
+    revenueMultiple: ratio(askingPrice, revenue),
+    annualDebtService,
+    dscr,
+    band,
+    priceFlag: sdeMultiple === null ? null
+      : sdeMultiple < band.minMultiple ? 'below'
+      : sdeMultiple > band.maxMultiple ? 'above'
+      : 'within',
+    isDscrLow: dscr !== null && dscr < settings.minDscr,
+  };
+};
+
+export const formatMultiple = (value: number | null) => (value === null ? 'N/A' : `${value.toFixed(2)}x`);
+
+export const describePriceFlag = (metrics: ValuationMetrics) => {
+  const range = `${metrics.band.minMultiple}–${metrics.band.maxMultiple}x`;
+  switch (metrics.priceFlag) {
+    case 'above': return `Priced above the ${range} band (${metrics.band.label})`;
+    case 'below': return `Priced below the ${range} band (${metrics.band.label})`;
+    case 'within': return `Within the ${range} band (${metrics.band.label})`;
+    default: return 'No multiple: asking price or SDE not disclosed';
+  }
+};
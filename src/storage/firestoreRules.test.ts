@@ -0,0 +1,124 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { RulesTestEnvironment, assertFails, assertSucceeds, initializeTestEnvironment } from '@firebase/rules-unit-testing';
+
+// Runs against the Firestore emulator: `npm run test:emulator`.
+
+const OWNER = { uid: 'alice', email: 'alice@example.com' };
+const ANALYST = { uid: 'bob', email: 'bob@example.com' };
+const LENDER = { uid: 'lena', email: 'lena@example.com' };
+const INVITEE = { uid: 'carol', email: 'carol@example.com' };
+const STRANGER = { uid: 'mallory', email: 'mallory@example.com' };
+
+// A workspace's id is its creator's uid.
+const WORKSPACE = `workspaces/${OWNER.uid}`;
+const synced = <T,>(data: T) => ({ data, updatedAt: 1, updatedBy: OWNER.uid });
+
+const invite = {
+  email: INVITEE.email, role: 'advisor', dealIds: ['d1'], workspaceId: OWNER.uid,
+  invitedBy: OWNER.uid, invitedByEmail: OWNER.email, createdAt: 1,
+};
+const membershipFromInvite = {
+  uid: INVITEE.uid, email: INVITEE.email, role: 'advisor', dealIds: ['d1'],
+  workspaceId: OWNER.uid, ownerEmail: OWNER.email, inviteId: 'inv1',
+};
+
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)('firestore.rules (emulator)', () => {
+  let testEnv: RulesTestEnvironment;
+  const as = (user: { uid: string; email: string }, emailVerified = true) =>
+    testEnv.authenticatedContext(user.uid, { email: user.email, email_verified: emailVerified }).firestore();
+
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: 'demo-firestore-rules',
+      firestore: { rules: readFileSync('firestore.rules', 'utf-8') },
+    });
+  });
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await testEnv.withSecurityRulesDisabled(async context => {
+      const db = context.firestore();
+      await db.doc(`${WORKSPACE}/members/${ANALYST.uid}`).set({ uid: ANALYST.uid, email: ANALYST.email, role: 'analyst', dealIds: [], workspaceId: OWNER.uid, ownerEmail: OWNER.email });
+      await db.doc(`${WORKSPACE}/members/${LENDER.uid}`).set({ uid: LENDER.uid, email: LENDER.email, role: 'lender', dealIds: ['d1'], workspaceId: OWNER.uid, ownerEmail: OWNER.email });
+      await db.doc(`${WORKSPACE}/deals/d1`).set(synced({ id: 'd1', companyName: 'Acme' }));
+      await db.doc(`${WORKSPACE}/deals/d2`).set(synced({ id: 'd2', companyName: 'Beta' }));
+      await db.doc(`${WORKSPACE}/dealFinancing/d1`).set(synced({ id: 'd1', companyName: 'Acme' }));
+      await db.doc(`${WORKSPACE}/dealFinancing/d2`).set(synced({ id: 'd2', companyName: 'Beta' }));
+      await db.doc(`${WORKSPACE}/pipelineStages/Identified`).set(synced({ id: 'Identified', name: 'Identified', requirements: [] }));
+      await db.doc('invites/inv1').set(invite);
+    });
+  });
+  afterAll(async () => {
+    await testEnv.cleanup();
+  });
+
+  describe('owner', () => {
+    it('reads and writes deals and manages members', async () => {
+      const db = as(OWNER);
+      await assertSucceeds(db.doc(`${WORKSPACE}/deals/d2`).get());
+      await assertSucceeds(db.doc(`${WORKSPACE}/deals/d3`).set(synced({ id: 'd3' })));
+      await assertSucceeds(db.doc(`${WORKSPACE}/members/${LENDER.uid}`).update({ dealIds: ['d1', 'd2'] }));
+    });
+  });
+
+  describe('members', () => {
+    it('gives analysts every deal but not the team', async () => {
+      const db = as(ANALYST);
+      await assertSucceeds(db.doc(`${WORKSPACE}/deals/d2`).get());
+      await assertSucceeds(db.doc(`${WORKSPACE}/deals/d2`).set(synced({ id: 'd2', companyName: 'Beta Co' })));
+      await assertSucceeds(db.doc(`${WORKSPACE}/dealFinancing/d2`).set(synced({ id: 'd2', companyName: 'Beta Co' })));
+      await assertSucceeds(db.doc(`${WORKSPACE}/pipelineStages/Identified`).set(synced({ id: 'Identified', name: 'Sourced', requirements: [] })));
+      await assertFails(db.doc(`${WORKSPACE}/members/${LENDER.uid}`).update({ role: 'analyst' }));
+    });
+
+    it('limits lenders to reading the financing of the deals shared with them', async () => {
+      const db = as(LENDER);
+      await assertSucceeds(db.doc(`${WORKSPACE}/dealFinancing/d1`).get());
+      await assertFails(db.doc(`${WORKSPACE}/dealFinancing/d2`).get());
+      await assertFails(db.doc(`${WORKSPACE}/dealFinancing/d1`).set(synced({ id: 'd1', companyName: 'Changed' })));
+      await assertFails(db.doc(`${WORKSPACE}/deals/d1`).get());
+      await assertSucceeds(db.doc(`${WORKSPACE}/pipelineStages/Identified`).get());
+      await assertFails(db.doc(`${WORKSPACE}/pipelineStages/Identified`).set(synced({ id: 'Identified', name: 'Changed', requirements: [] })));
+    });
+  });
+
+  describe('non-members', () => {
+    it('can read nothing in the workspace', async () => {
+      const db = as(STRANGER);
+      await assertFails(db.doc(`${WORKSPACE}/deals/d1`).get());
+      await assertFails(db.doc(`${WORKSPACE}/dealFinancing/d1`).get());
+      await assertFails(db.doc(`${WORKSPACE}/pipelineStages/Identified`).get());
+      await assertFails(db.doc(`${WORKSPACE}/deals/d3`).set(synced({ id: 'd3' })));
+      await assertFails(testEnv.unauthenticatedContext().firestore().doc(`${WORKSPACE}/deals/d1`).get());
+    });
+
+    it("can't join without an invite addressed to them", async () => {
+      const db = as(STRANGER);
+      await assertFails(db.doc(`${WORKSPACE}/members/${STRANGER.uid}`).set({ ...membershipFromInvite, uid: STRANGER.uid, email: STRANGER.email }));
+    });
+  });
+
+  describe('invite acceptance', () => {
+    const join = (membership: object) => as(INVITEE).doc(`${WORKSPACE}/members/${INVITEE.uid}`).set(membership);
+
+    it('lets the invitee join with exactly what the invite grants', async () => {
+      await assertSucceeds(join(membershipFromInvite));
+      await assertSucceeds(as(INVITEE).doc('invites/inv1').delete());
+    });
+
+    it('rejects a membership that differs from the invite', async () => {
+      await assertFails(join({ ...membershipFromInvite, role: 'owner' }));
+      await assertFails(join({ ...membershipFromInvite, dealIds: ['d1', 'd2'] }));
+      await assertFails(join({ ...membershipFromInvite, ownerEmail: INVITEE.email }));
+      await assertFails(join({ ...membershipFromInvite, workspaceId: INVITEE.uid }));
+    });
+
+    it('requires the invitee to have verified their email', async () => {
+      await assertFails(as(INVITEE, false).doc(`${WORKSPACE}/members/${INVITEE.uid}`).set(membershipFromInvite));
+    });
+
+    it('only lets the invitee join as themselves', async () => {
+      await assertFails(as(INVITEE).doc(`${WORKSPACE}/members/${STRANGER.uid}`).set({ ...membershipFromInvite, uid: STRANGER.uid }));
+    });
+  });
+});
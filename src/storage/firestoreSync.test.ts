@@ -0,0 +1,131 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { RulesTestEnvironment, initializeTestEnvironment } from '@firebase/rules-unit-testing';
+import { FirebaseApp, deleteApp, initializeApp } from 'firebase/app';
+import { Firestore, connectFirestoreEmulator, deleteDoc, doc, getDoc, getFirestore, setDoc } from 'firebase/firestore';
+import { DocumentSync, createDocumentSync } from './firestoreSync';
+
+// Runs against the Firestore emulator: `npm run test:emulator`.
+
+const PROJECT_ID = 'demo-document-sync';
+const WORKSPACE_ID = 'w1';
+// These tests are about merging, not access; see firestoreRules.test.ts for the rules.
+const OPEN_RULES = `rules_version = '2';
+service cloud.firestore {
+  match /databases/{database}/documents {
+    match /{document=**} { allow read, write: if true; }
+  }
+}`;
+
+interface Item {
+  id: string;
+  name: string;
+}
+
+/** One browser: local state plus its sync, pushing after every change the way App does. */
+interface Device {
+  items: Item[];
+  edit(items: Item[]): void;
+  sync: DocumentSync<Item>;
+}
+
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)('createDocumentSync (emulator)', () => {
+  let testEnv: RulesTestEnvironment;
+  const apps: FirebaseApp[] = [];
+  const devices: Device[] = [];
+
+  const connect = (): Firestore => {
+    const app = initializeApp({ projectId: PROJECT_ID }, `device-${apps.length}`);
+    apps.push(app);
+    const db = getFirestore(app);
+    const [host, port] = process.env.FIRESTORE_EMULATOR_HOST!.split(':');
+    connectFirestoreEmulator(db, host, Number(port));
+    return db;
+  };
+
+  const startDevice = (uid: string, initialItems: Item[] = []): Device => {
+    const device = { items: initialItems } as Device;
+    device.sync = createDocumentSync<Item>({
+      db: connect(), workspaceId: WORKSPACE_ID, collectionName: 'deals', uid, initialItems,
+      applyRemote: update => {
+        device.items = update(device.items);
+        device.sync.push(device.items);
+      },
+      onError: error => { throw error; },
+    });
+    device.edit = items => {
+      device.items = items;
+      device.sync.push(items);
+    };
+    devices.push(device);
+    return device;
+  };
+
+  const itemRef = (db: Firestore, id: string) => doc(db, 'workspaces', WORKSPACE_ID, 'deals', id);
+
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({ projectId: PROJECT_ID, firestore: { rules: OPEN_RULES } });
+  });
+  afterEach(async () => {
+    devices.splice(0).forEach(device => device.sync.stop());
+    await Promise.all(apps.splice(0).map(app => deleteApp(app)));
+    await testEnv.clearFirestore();
+  });
+  afterAll(async () => {
+    await testEnv.cleanup();
+  });
+
+  it('uploads local-only items once the first snapshot arrives', async () => {
+    const a = startDevice('alice', [{ id: 'd1', name: 'Acme' }]);
+    const b = startDevice('bob');
+
+    await vi.waitFor(() => expect(b.items).toEqual([{ id: 'd1', name: 'Acme' }]));
+    expect(a.items).toEqual([{ id: 'd1', name: 'Acme' }]);
+  });
+
+  it('applies the later of two edits to the same item on both devices', async () => {
+    const a = startDevice('alice', [{ id: 'd1', name: 'Acme' }]);
+    const b = startDevice('bob');
+    await vi.waitFor(() => expect(b.items).toHaveLength(1));
+
+    a.edit([{ id: 'd1', name: 'Acme (Alice)' }]);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    b.edit([{ id: 'd1', name: 'Acme (Bob)' }]);
+
+    await vi.waitFor(() => {
+      expect(a.items).toEqual([{ id: 'd1', name: 'Acme (Bob)' }]);
+      expect(b.items).toEqual([{ id: 'd1', name: 'Acme (Bob)' }]);
+    });
+  });
+
+  it('ignores a remote copy older than its own last write', async () => {
+    const a = startDevice('alice', [{ id: 'd1', name: 'Acme' }]);
+    const db = connect();
+    await vi.waitFor(async () => expect((await getDoc(itemRef(db, 'd1'))).exists()).toBe(true));
+
+    await setDoc(itemRef(db, 'd1'), { data: { id: 'd1', name: 'Stale' }, updatedAt: 1, updatedBy: 'bob' });
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    expect(a.items).toEqual([{ id: 'd1', name: 'Acme' }]);
+  });
+
+  it('deletes an item removed locally on every device', async () => {
+    const a = startDevice('alice', [{ id: 'd1', name: 'Acme' }, { id: 'd2', name: 'Beta' }]);
+    const b = startDevice('bob');
+    await vi.waitFor(() => expect(b.items).toHaveLength(2));
+
+    a.edit([{ id: 'd2', name: 'Beta' }]);
+
+    await vi.waitFor(() => expect(b.items).toEqual([{ id: 'd2', name: 'Beta' }]));
+    expect((await getDoc(itemRef(connect(), 'd1'))).exists()).toBe(false);
+  });
+
+  it('drops an item deleted on the server', async () => {
+    const a = startDevice('alice', [{ id: 'd1', name: 'Acme' }]);
+    const db = connect();
+    await vi.waitFor(async () => expect((await getDoc(itemRef(db, 'd1'))).exists()).toBe(true));
+
+    await deleteDoc(itemRef(db, 'd1'));
+
+    await vi.waitFor(() => expect(a.items).toEqual([]));
+  });
+});
@@ -0,0 +1,178 @@
+import { Firestore, collection, doc, query, where, onSnapshot, setDoc, deleteDoc, DocumentSnapshot } from 'firebase/firestore';
+
+/**
+ * Per-user sync preferences. Stored with the rest of the workspace so the choice
+ * follows the user across reloads.
+ */
+export interface SyncSettings {
+  firestoreEnabled: boolean;
+}
+
+export const defaultSyncSettings: SyncSettings = { firestoreEnabled: false };
+
+export type SyncedCollection = 'deals' | 'dealFinancing' | 'tasks' | 'pipelineStages' | 'automationRules';
+
+/** The shape of each Firestore document: the item itself plus last-writer-wins metadata. */
+interface SyncedDocument<T> {
+  data: T;
+  updatedAt: number;
+  updatedBy: string;
+}
+
+/**
+ * Which documents to listen to. Members who may only see some items (see `storage/team.ts`)
+ * can't query the whole collection, so they listen to specific documents or a filtered query.
+ */
+export type SyncScope =
+  | { type: 'collection' }
+  | { type: 'documents'; ids: string[] }
+  | { type: 'where'; field: string; value: string };
+
+export interface DocumentSyncOptions<T extends { id: string }> {
+  db: Firestore;
+  workspaceId: string;
+  collectionName: SyncedCollection;
+  uid: string;
+  scope?: SyncScope;
+  /** Receive remote changes but never write. */
+  readOnly?: boolean;
+  /** Local items at the time sync starts; any the server doesn't have yet are uploaded. */
+  initialItems: T[];
+  /** Applies remote changes to local state. */
+  applyRemote: (update: (items: T[]) => T[]) => void;
+  onError: (error: Error) => void;
+}
+
+export interface DocumentSync<T extends { id: string }> {
+  /** Call with the latest local items after every local change; only changed items are written. */
+  push(items: T[]): void;
+  stop(): void;
+}
+
+/**
+ * Mirrors an array of items to `workspaces/{workspaceId}/{collectionName}`, one Firestore
+ * document per item, so two people editing different deals never overwrite each other.
+ *
+ * Local edits are applied to state immediately and written in the background. When the same
+ * item is edited in two places, the write with the later `updatedAt` wins: remote snapshots
+ * older than what this client last wrote are ignored.
+ */
+export const createDocumentSync = <T extends { id: string }>(options: DocumentSyncOptions<T>): DocumentSync<T> => {
+  const { db, workspaceId, collectionName, uid, applyRemote, onError } = options;
+  const collectionRef = collection(db, 'workspaces', workspaceId, collectionName);
+
+  // What this client believes the server holds, per item id.
+  const syncedJson = new Map<string, string>();
+  const syncedAt = new Map<string, number>();
+  let latestItems = options.initialItems;
+  let hasInitialSnapshot = false;
+  let stopped = false;
+
+  const write = (item: T) => {
+    const json = JSON.stringify(item);
+    if (syncedJson.get(item.id) === json) return;
+    const updatedAt = Math.max(Date.now(), (syncedAt.get(item.id) ?? 0) + 1);
+    syncedJson.set(item.id, json);
+    syncedAt.set(item.id, updatedAt);
+    const document: SyncedDocument<T> = { data: item, updatedAt, updatedBy: uid };
+    setDoc(doc(collectionRef, item.id), document).catch(onError);
+  };
+
+  const push = (items: T[]) => {
+    latestItems = items;
+    // Until the first snapshot arrives we don't know what the server has, and uploading
+    // now would stamp stale local copies as the newest version.
+    if (!hasInitialSnapshot || stopped || options.readOnly) return;
+    const ids = new Set(items.map(item => item.id));
+    items.forEach(write);
+    [...syncedJson.keys()].filter(id => !ids.has(id)).forEach(id => {
+      syncedJson.delete(id);
+      syncedAt.delete(id);
+      deleteDoc(doc(collectionRef, id)).catch(onError);
+    });
+  };
+
+  type Change = { id: string; data?: SyncedDocument<T> };
+
+  const applyChanges = (changes: Change[]) => {
+    const upserts = new Map<string, T>();
+    const removals = new Set<string>();
+
+    changes.forEach(({ id, data: remote }) => {
+      if (!remote) {
+        syncedJson.delete(id);
+        syncedAt.delete(id);
+        removals.add(id);
+        return;
+      }
+      if (remote.updatedAt < (syncedAt.get(id) ?? 0)) return; // Older than our own last write.
+      const json = JSON.stringify(remote.data);
+      syncedAt.set(id, remote.updatedAt);
+      if (syncedJson.get(id) === json) return; // Echo of a write we already applied.
+      syncedJson.set(id, json);
+      upserts.set(id, remote.data);
+    });
+
+    const mergeRemote = (items: T[]) => {
+      const next = items.filter(item => !removals.has(item.id)).map(item => upserts.get(item.id) ?? item);
+      const known = new Set(next.map(item => item.id));
+      upserts.forEach((item, id) => { if (!known.has(id)) next.push(item); });
+      return next;
+    };
+
+    if (upserts.size > 0 || removals.size > 0) applyRemote(mergeRemote);
+    return mergeRemote;
+  };
+
+  const scope = options.scope ?? { type: 'collection' };
+
+  const handleInitialSnapshot = (mergeRemote: (items: T[]) => T[]) => {
+    if (hasInitialSnapshot) return;
+    hasInitialSnapshot = true;
+    if (scope.type === 'collection') {
+      // Uploads local-only items, e.g. deals created before sync was turned on.
+      push(mergeRemote(latestItems));
+    } else {
+      // A partial view has nothing of its own to upload; anything cached that is no longer
+      // in scope (e.g. a deal that was unshared) is dropped.
+      const inScope = (items: T[]) => items.filter(item => syncedJson.has(item.id));
+      applyRemote(inScope);
+      push(inScope(mergeRemote(latestItems)));
+    }
+  };
+
+  const toChange = (snapshot: DocumentSnapshot): Change =>
+    ({ id: snapshot.id, data: snapshot.exists() ? snapshot.data() as SyncedDocument<T> : undefined });
+
+  let unsubscribes: (() => void)[];
+  if (scope.type === 'documents') {
+    // One listener per document; the initial state is known once each has reported.
+    const pending = new Set(scope.ids);
+    const settle = (id: string, mergeRemote: (items: T[]) => T[]) => {
+      pending.delete(id);
+      if (pending.size === 0) handleInitialSnapshot(mergeRemote);
+    };
+    unsubscribes = scope.ids.map(id => onSnapshot(doc(collectionRef, id), snapshot => {
+      settle(id, applyChanges([toChange(snapshot)]));
+    }, error => {
+      onError(error);
+      settle(id, applyChanges([{ id }]));
+    }));
+    if (scope.ids.length === 0) handleInitialSnapshot(items => items);
+  } else {
+    const source = scope.type === 'where' ? query(collectionRef, where(scope.field, '==', scope.value)) : collectionRef;
+    unsubscribes = [onSnapshot(source, snapshot => {
+      const mergeRemote = applyChanges(snapshot.docChanges().map(change =>
+        change.type === 'removed' ? { id: change.doc.id } : toChange(change.doc)));
+      handleInitialSnapshot(mergeRemote);
+    }, error => onError(error))];
+  }
+
+  return {
+    push,
+    stop: () => {
+      stopped = true;
+      unsubscribes.forEach(unsubscribe => unsubscribe());
+    },
+  };
+};
@@ -0,0 +1,55 @@
+import { StorageAdapter } from './types';
+
+const DB_NAME = 'acquisitionOS';
+const DB_VERSION = 1;
+const STORE_NAME = 'workspace';
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+      request.result.createObjectStore(STORE_NAME);
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const promisify = <T,>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * Default adapter. IndexedDB quotas are a share of free disk space rather than
+ * localStorage's ~5MB, so long scorecards and profiles no longer fail to save.
+ */
+export const createIndexedDbAdapter = (): StorageAdapter => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getStore = async (mode: IDBTransactionMode) => {
+    if (!dbPromise) dbPromise = openDatabase();
+    const db = await dbPromise;
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  };
+
+  return {
+    async get<T>(key: string) {
+      const store = await getStore('readonly');
+      return (await promisify(store.get(key))) as T | undefined;
+    },
+    async set<T>(key: string, value: T) {
+      const store = await getStore('readwrite');
+      await promisify(store.put(value, key));
+    },
+    async remove(key: string) {
+      const store = await getStore('readwrite');
+      await promisify(store.delete(key));
+    },
+    async keys() {
+      const store = await getStore('readonly');
+      return (await promisify(store.getAllKeys())).map(String);
+    },
+  };
+};
+
+export const isIndexedDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
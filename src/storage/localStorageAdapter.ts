@@ -0,0 +1,21 @@
+import { StorageAdapter } from './types';
+
+/**
+ * Fallback adapter for environments without IndexedDB. Also used to read the
+ * legacy localStorage keys written before the repository layer existed.
+ */
+export const createLocalStorageAdapter = (): StorageAdapter => ({
+  async get<T>(key: string) {
+    const raw = localStorage.getItem(key);
+    return raw === null ? undefined : (JSON.parse(raw) as T);
+  },
+  async set<T>(key: string, value: T) {
+    localStorage.setItem(key, JSON.stringify(value));
+  },
+  async remove(key: string) {
+    localStorage.removeItem(key);
+  },
+  async keys() {
+    return Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i)).filter((k): k is string => k !== null);
+  },
+});
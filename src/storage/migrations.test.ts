@@ -0,0 +1,119 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// App.tsx pulls in every hub; the upgraders only need the Buy Box defaults and the general analysis id from it.
+vi.mock('../App', () => ({
+  GENERAL_ANALYSIS_ID: 'general',
+  defaultBuyBoxCriteria: {
+    geography: { value: '', weight: 1 },
+    minSde: { value: 0, weight: 1 },
+    teamStrength: { value: '', weight: 1 },
+  },
+}));
+
+import { CURRENT_SCHEMA_VERSION, MIGRATIONS, isPersistedEnvelope, migrateValue, migrateWorkspace } from './migrations';
+
+// Shapes as they were saved before schema versioning, each missing fields the current app expects.
+const legacyDeal = { id: 'd1', companyName: 'Acme HVAC', status: 'Evaluating', sourcingResult: { url: 'https://example.com/acme', sde: 500000 } };
+const legacyTask = { id: 't1', title: 'Call broker' };
+
+describe('migrateValue: version 1', () => {
+  it('fills in missing deal fields without dropping saved ones', () => {
+    const [deal] = migrateValue('deals', [legacyDeal], 0);
+    expect(deal).toMatchObject({ id: 'd1', companyName: 'Acme HVAC', status: 'Evaluating', contacts: [], closingChecklist: [], notes: '' });
+    expect(deal.sourcingResult).toMatchObject({ url: 'https://example.com/acme', sde: 500000, keyInsights: '', overallFitScore: null });
+    expect(deal.keyTerms).toEqual({ purchasePrice: '', structure: '', sellerNote: '', nwcPeg: '' });
+    expect(deal.timeline).toEqual({ loiSigned: '', diligenceEnd: '', targetClose: '' });
+  });
+
+  it('names and places deals saved without a name or status', () => {
+    const [deal] = migrateValue('deals', [{ sourcingResult: { title: 'Listing Title' } }], 0);
+    expect(deal.id).toBeTruthy();
+    expect(deal).toMatchObject({ companyName: 'Listing Title', status: 'Identified' });
+  });
+
+  it('fills in missing task fields', () => {
+    expect(migrateValue('tasks', [legacyTask], 0)).toEqual([{
+      id: 't1', title: 'Call broker', priority: 'Medium', status: 'To Do', dueDate: null,
+      assignee: 'Buyer', description: '', category: 'General', attachments: [],
+    }]);
+  });
+
+  it('backfills saved profile criteria from the defaults', () => {
+    const [profile] = migrateValue('savedProfiles', [{ id: 'p1', criteria: { geography: { value: 'Ohio', weight: 2 } } }], 0);
+    expect(profile.name).toBe('Untitled Profile');
+    expect(profile.criteria.geography).toEqual({ value: 'Ohio', weight: 2 });
+    expect(profile.criteria.minSde).toEqual({ value: 0, weight: 1 });
+    expect(profile.criteria.teamStrength).toEqual({ value: '', weight: 1 });
+  });
+
+  it('fills in every period of each deal financial analysis', () => {
+    const analyses = migrateValue('financialAnalyses', { d1: { companyName: 'Acme', periods: [{ revenue: '100' }] } }, 0);
+    expect(analyses.d1).toMatchObject({ companyName: 'Acme', addBacks: [], ytdMonths: '', financialNotes: '' });
+    expect(analyses.d1.periods[0]).toMatchObject({ periodName: 'Period 1', revenue: '100', cogs: '' });
+    expect(analyses.d1.ytdActuals).toMatchObject({ periodName: 'YTD Actuals', revenue: '' });
+  });
+
+  it('upgrades the financials inside the analysis snapshot', () => {
+    const snapshot = migrateValue('financialAnalysisSnapshot', { benchmarks: { currentRatio: '1.5' }, financials: { companyName: 'Acme' } }, 0);
+    expect(snapshot).toMatchObject({ benchmarks: { currentRatio: '1.5' }, financials: { companyName: 'Acme', periods: [], addBacks: [] } });
+  });
+
+  it('fills in integration metrics and communications', () => {
+    const integration = migrateValue('integrationData', { d1: { communications: { dailyHuddleLastCompleted: '2024-01-02' } } }, 0);
+    expect(integration.d1).toEqual({
+      metrics: [],
+      customMetricName: 'Key Operational Metric',
+      communications: { dailyHuddleLastCompleted: '2024-01-02', weeklyAllHandsLastCompleted: null, fridayEmailLastCompleted: null },
+    });
+  });
+
+  it('replaces non-array collections with empty ones', () => {
+    expect(migrateValue('deals', 'not a list', 0)).toEqual([]);
+    expect(migrateValue('integrationData', null, 0)).toEqual({});
+  });
+});
+
+describe('migrateValue: versions', () => {
+  it('upgrades a version 0 value through to the current version', () => {
+    expect(CURRENT_SCHEMA_VERSION).toBe(MIGRATIONS[MIGRATIONS.length - 1].version);
+    const [task] = migrateValue('tasks', [legacyTask], 0);
+    expect(task.attachments).toEqual([]);
+  });
+
+  it('leaves current values and collections without migrations untouched', () => {
+    const deals = [{ id: 'd1' }];
+    expect(migrateValue('deals', deals, CURRENT_SCHEMA_VERSION)).toBe(deals);
+    expect(migrateValue('websiteList', 'bizbuysell.com', 0)).toBe('bizbuysell.com');
+  });
+
+  it('throws on a value saved by a newer version of the app', () => {
+    expect(() => migrateValue('deals', [], CURRENT_SCHEMA_VERSION + 1))
+      .toThrow(`"deals" was saved with schema version ${CURRENT_SCHEMA_VERSION + 1}, but this app only supports up to ${CURRENT_SCHEMA_VERSION}.`);
+  });
+});
+
+describe('migrateWorkspace', () => {
+  it('makes legacy Analysis Hub blobs the general workspace', () => {
+    const migrated = migrateWorkspace({ valuationInputs: { sde: '500000' } as never, websiteList: 'bizbuysell.com' });
+    expect(migrated).toEqual({ valuations: { general: { sde: '500000' } }, financialAnalyses: {}, projections: {}, websiteList: 'bizbuysell.com' });
+  });
+
+  it('keeps per-deal records that already exist', () => {
+    const valuations = { d1: { sde: '1' } } as never;
+    expect(migrateWorkspace({ valuations, valuationInputs: { sde: '2' } as never }).valuations).toBe(valuations);
+  });
+
+  it('returns workspaces without legacy blobs as they are', () => {
+    const data = { websiteList: 'bizbuysell.com' };
+    expect(migrateWorkspace(data)).toBe(data);
+  });
+});
+
+describe('isPersistedEnvelope', () => {
+  it('recognizes only versioned envelopes', () => {
+    expect(isPersistedEnvelope({ schemaVersion: 1, data: [] })).toBe(true);
+    expect(isPersistedEnvelope([])).toBe(false);
+    expect(isPersistedEnvelope({ schemaVersion: '1', data: [] })).toBe(false);
+    expect(isPersistedEnvelope(null)).toBe(false);
+  });
+});
@@ -0,0 +1,188 @@
+import { Deal, Task, SavedProfile, defaultBuyBoxCriteria, GENERAL_ANALYSIS_ID } from '../App';
+import { FinancialAnalysisData, FinancialAnalysisSnapshot, FinancialPeriod } from '../../components/FinancialAnalysisHub';
+import { IntegrationData } from '../../components/IntegrationHub';
+import { WorkspaceData, WorkspaceKey } from './repository';
+
+/**
+ * Every value the repository writes is wrapped in this envelope. Values written
+ * before versioning existed (raw JSON in localStorage or IndexedDB) are version 0.
+ */
+export interface PersistedEnvelope<T> {
+  schemaVersion: number;
+  data: T;
+}
+
+type CollectionMigrations = { [K in WorkspaceKey]?: (value: unknown) => WorkspaceData[K] };
+
+interface Migration {
+  version: number;
+  description: string;
+  collections: CollectionMigrations;
+}
+
+// --- Shape upgrades ---
+// Each upgrader only fills in what older saves are missing; it never drops data.
+// Stored values are untrusted, so fields are narrowed rather than assumed.
+
+const asArray = <T,>(value: unknown): T[] => (Array.isArray(value) ? value : []);
+const asRecord = (value: unknown): Record<string, unknown> =>
+  (value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {});
+const asText = (value: unknown): string => (typeof value === 'string' ? value : '');
+const mapRecord = <T,>(value: unknown, upgrade: (entry: Record<string, unknown>) => T): Record<string, T> =>
+  Object.fromEntries(Object.entries(asRecord(value)).map(([key, entry]) => [key, upgrade(asRecord(entry))]));
+
+const upgradeDealV1 = (value: unknown): Deal => {
+  const deal = asRecord(value);
+  const sourcingResult = asRecord(deal.sourcingResult);
+  return {
+    ...deal as Partial<Deal>,
+    id: asText(deal.id) || crypto.randomUUID(),
+    companyName: asText(deal.companyName) || asText(sourcingResult.title) || 'Untitled Deal',
+    status: asText(deal.status) || 'Identified',
+    sourcingResult: {
+      url: '', keyInsights: '', fullProfile: '', scorecard: '',
+      overallFitScore: null, sde: null, industry: null,
+      ...sourcingResult as Partial<Deal['sourcingResult']>,
+    },
+    keyTerms: { purchasePrice: '', structure: '', sellerNote: '', nwcPeg: '', ...asRecord(deal.keyTerms) as Partial<Deal['keyTerms']> },
+    contacts: asArray(deal.contacts),
+    timeline: { loiSigned: '', diligenceEnd: '', targetClose: '', ...asRecord(deal.timeline) as Partial<Deal['timeline']> },
+    closingChecklist: asArray(deal.closingChecklist),
+    notes: asText(deal.notes),
+  };
+};
+
+const upgradeTaskV1 = (value: unknown): Task => {
+  const task = asRecord(value);
+  return {
+    ...task as Partial<Task>,
+    id: asText(task.id) || crypto.randomUUID(),
+    title: asText(task.title),
+    priority: asText(task.priority) || 'Medium',
+    status: asText(task.status) || 'To Do',
+    dueDate: typeof task.dueDate === 'string' ? task.dueDate : null,
+    assignee: asText(task.assignee) || 'Buyer',
+    description: asText(task.description),
+    category: asText(task.category) || 'General',
+    attachments: asArray(task.attachments),
+  };
+};
+
+// Criteria added to the Buy Box after a profile was saved fall back to the defaults.
+const upgradeSavedProfileV1 = (value: unknown): SavedProfile => {
+  const profile = asRecord(value);
+  return {
+    ...profile as Partial<SavedProfile>,
+    name: asText(profile.name) || 'Untitled Profile',
+    criteria: { ...defaultBuyBoxCriteria, ...asRecord(profile.criteria) as Partial<SavedProfile['criteria']> },
+  };
+};
+
+const emptyPeriodV1 = (periodName: string): FinancialPeriod => ({
+  id: crypto.randomUUID(),
+  periodName,
+  revenue: '', cogs: '', operatingExpenses: '', depreciation: '',
+  amortization: '', interestExpense: '', taxes: '', cash: '',
+  accountsReceivable: '', inventory: '', otherCurrentAssets: '',
+  longTermAssets: '', accountsPayable: '', shortTermDebt: '',
+  otherCurrentLiabilities: '', longTermDebt: '', shareholderEquity: '',
+});
+
+const upgradeFinancialPeriodV1 = (period: unknown, fallbackName: string): FinancialPeriod => ({
+  ...emptyPeriodV1(fallbackName),
+  ...asRecord(period) as Partial<FinancialPeriod>,
+});
+
+const upgradeFinancialAnalysisV1 = (data: Record<string, unknown>): FinancialAnalysisData => ({
+  ...data as Partial<FinancialAnalysisData>,
+  companyName: asText(data.companyName),
+  periods: asArray(data.periods).map((period, i) => upgradeFinancialPeriodV1(period, `Period ${i + 1}`)),
+  addBacks: asArray(data.addBacks),
+  ytdMonths: asText(data.ytdMonths),
+  ytdActuals: upgradeFinancialPeriodV1(data.ytdActuals, 'YTD Actuals'),
+  ownerCompAddBack: asText(data.ownerCompAddBack),
+  financialNotes: asText(data.financialNotes),
+  addBackNotes: asText(data.addBackNotes),
+});
+
+const upgradeIntegrationDataV1 = (data: Record<string, unknown>): IntegrationData => ({
+  ...data as Partial<IntegrationData>,
+  metrics: asArray(data.metrics),
+  customMetricName: asText(data.customMetricName) || 'Key Operational Metric',
+  communications: {
+    dailyHuddleLastCompleted: null,
+    weeklyAllHandsLastCompleted: null,
+    fridayEmailLastCompleted: null,
+    ...asRecord(data.communications) as Partial<IntegrationData['communications']>,
+  },
+});
+
+/**
+ * Ordered list of schema upgrades. To change a persisted shape, append a new entry
+ * with the next version number; never edit a migration that has already shipped.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Fill in fields missing from saves made before schema versioning',
+    collections: {
+      deals: value => asArray(value).map(upgradeDealV1),
+      tasks: value => asArray(value).map(upgradeTaskV1),
+      savedProfiles: value => asArray(value).map(upgradeSavedProfileV1),
+      financialAnalyses: value => mapRecord(value, upgradeFinancialAnalysisV1),
+      financialAnalysis: value => upgradeFinancialAnalysisV1(asRecord(value)),
+      financialAnalysisSnapshot: value => {
+        const snapshot = asRecord(value);
+        return { ...snapshot as Partial<FinancialAnalysisSnapshot>, financials: upgradeFinancialAnalysisV1(asRecord(snapshot.financials)) } as FinancialAnalysisSnapshot;
+      },
+      integrationData: value => mapRecord(value, upgradeIntegrationDataV1),
+    },
+  },
+];
+
+// --- Workspace upgrades ---
+// These move data between collections, which the per-collection migrations can't. Legacy
+// collections may have been saved at any schema version, so they run on every load.
+
+const LEGACY_ANALYSIS_KEYS: WorkspaceKey[] = ['financialAnalysis', 'valuationInputs', 'projectionData'];
+
+// Older workspaces stored a single blob for each Analysis Hub tool; it becomes the general workspace.
+const foldIntoGeneral = <T,>(records: Record<string, T> | undefined, legacy: T | undefined): Record<string, T> =>
+  records ?? (legacy ? { [GENERAL_ANALYSIS_ID]: legacy } : {});
+
+/**
+ * Upgrades a whole workspace once each collection has been migrated. Collections folded into
+ * others are left out of the result; callers that persist it should delete them.
+ */
+export const migrateWorkspace = (data: Partial<WorkspaceData>): Partial<WorkspaceData> => {
+  if (!LEGACY_ANALYSIS_KEYS.some(key => data[key] !== undefined)) return data;
+  const { financialAnalysis, valuationInputs, projectionData, ...rest } = data;
+  return {
+    ...rest,
+    financialAnalyses: foldIntoGeneral(rest.financialAnalyses, financialAnalysis),
+    valuations: foldIntoGeneral(rest.valuations, valuationInputs),
+    projections: foldIntoGeneral(rest.projections, projectionData),
+  };
+};
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS.reduce((latest, m) => Math.max(latest, m.version), 0);
+
+export const isPersistedEnvelope = (value: unknown): value is PersistedEnvelope<unknown> =>
+  !!value && typeof value === 'object' && typeof (value as PersistedEnvelope<unknown>).schemaVersion === 'number' && 'data' in value;
+
+/**
+ * Runs every migration newer than `fromVersion` against a stored value.
+ * Throws if the value was written by a newer version of the app than this one.
+ */
+export const migrateValue = <K extends WorkspaceKey>(key: K, value: unknown, fromVersion: number): WorkspaceData[K] => {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`"${key}" was saved with schema version ${fromVersion}, but this app only supports up to ${CURRENT_SCHEMA_VERSION}.`);
+  }
+  return MIGRATIONS
+    .filter(m => m.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce((current, m) => {
+      const upgrade = m.collections[key];
+      return upgrade ? upgrade(current) : current;
+    }, value) as WorkspaceData[K];
+};
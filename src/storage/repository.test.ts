@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../App', () => ({ defaultBuyBoxCriteria: {}, GENERAL_ANALYSIS_ID: 'general' }));
+
+import { StorageAdapter } from './types';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { createWorkspaceRepository } from './repository';
+
+const createMemoryAdapter = (): StorageAdapter & { values: Map<string, unknown> } => {
+  const values = new Map<string, unknown>();
+  return {
+    values,
+    async get<T>(key: string) { return values.get(key) as T | undefined; },
+    async set<T>(key: string, value: T) { values.set(key, value); },
+    async remove(key: string) { values.delete(key); },
+    async keys() { return [...values.keys()]; },
+  };
+};
+
+const createMemoryLocalStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+  };
+};
+
+describe('createWorkspaceRepository: legacy localStorage', () => {
+  let local: ReturnType<typeof createMemoryAdapter>;
+
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createMemoryLocalStorage());
+    local = createMemoryAdapter();
+  });
+  afterEach(() => { vi.unstubAllGlobals(); });
+
+  it('reads the user-scoped legacy key, re-writes it as a current envelope and removes it', async () => {
+    localStorage.setItem('dealRoomTasks_u1', JSON.stringify([{ id: 't1', title: 'Call broker' }]));
+    const repository = createWorkspaceRepository('u1', { local });
+
+    const tasks = await repository.load('tasks');
+
+    expect(tasks).toMatchObject([{ id: 't1', title: 'Call broker', status: 'To Do', attachments: [] }]);
+    expect(local.values.get('dealRoomTasks_u1')).toEqual({ schemaVersion: CURRENT_SCHEMA_VERSION, data: tasks });
+    expect(localStorage.getItem('dealRoomTasks_u1')).toBeNull();
+  });
+
+  it('falls back to the legacy global key', async () => {
+    localStorage.setItem('companyProfilerChatHistory', JSON.stringify('Hello'));
+    const repository = createWorkspaceRepository('u1', { local });
+
+    expect(await repository.load('profilerChatHistory')).toBe('Hello');
+    expect(local.values.get('companyProfilerChatHistory_u1')).toEqual({ schemaVersion: CURRENT_SCHEMA_VERSION, data: 'Hello' });
+    expect(localStorage.getItem('companyProfilerChatHistory')).toBeNull();
+  });
+
+  it('prefers the adapter over legacy keys', async () => {
+    localStorage.setItem('sourcingWebsiteList_u1', JSON.stringify('old.example.com'));
+    await local.set('sourcingWebsiteList_u1', { schemaVersion: CURRENT_SCHEMA_VERSION, data: 'new.example.com' });
+    const repository = createWorkspaceRepository('u1', { local });
+
+    expect(await repository.load('websiteList')).toBe('new.example.com');
+    expect(localStorage.getItem('sourcingWebsiteList_u1')).not.toBeNull();
+  });
+
+  it('skips legacy keys when the fallback is off', async () => {
+    localStorage.setItem('dealRoomTasks_u1', JSON.stringify([]));
+    const repository = createWorkspaceRepository('u1', { local, legacyFallback: false });
+
+    expect(await repository.load('tasks')).toBeUndefined();
+    expect(localStorage.getItem('dealRoomTasks_u1')).not.toBeNull();
+  });
+});
+
+describe('createWorkspaceRepository: schema versions', () => {
+  it('upgrades an unversioned adapter value and saves it back', async () => {
+    const local = createMemoryAdapter();
+    await local.set('dealRoomTasks_u1', [{ id: 't1' }]);
+    const repository = createWorkspaceRepository('u1', { local, legacyFallback: false });
+
+    const tasks = await repository.load('tasks');
+
+    expect(tasks?.[0]).toMatchObject({ id: 't1', title: '', priority: 'Medium' });
+    expect(local.values.get('dealRoomTasks_u1')).toEqual({ schemaVersion: CURRENT_SCHEMA_VERSION, data: tasks });
+  });
+
+  it('refuses to overwrite a collection saved by a newer version', async () => {
+    const local = createMemoryAdapter();
+    const newer = { schemaVersion: CURRENT_SCHEMA_VERSION + 1, data: [{ id: 't1' }] };
+    await local.set('dealRoomTasks_u1', newer);
+    const repository = createWorkspaceRepository('u1', { local, legacyFallback: false });
+
+    await expect(repository.load('tasks')).rejects.toThrow('schema version');
+    await expect(repository.save('tasks', [])).rejects.toThrow('Refusing to overwrite "tasks"');
+    expect(local.values.get('dealRoomTasks_u1')).toBe(newer);
+  });
+});
+
+describe('createWorkspaceRepository: loadAll', () => {
+  it('folds a legacy Analysis Hub blob into the general workspace and deletes the old key', async () => {
+    const local = createMemoryAdapter();
+    await local.set('projectionData_u1', { schemaVersion: CURRENT_SCHEMA_VERSION, data: { years: 5 } });
+    const repository = createWorkspaceRepository('u1', { local, legacyFallback: false });
+
+    const saved = await repository.loadAll();
+
+    expect(saved.projections).toEqual({ general: { years: 5 } });
+    expect(saved.projectionData).toBeUndefined();
+    expect(local.values.get('dealProjections_u1')).toEqual({ schemaVersion: CURRENT_SCHEMA_VERSION, data: { general: { years: 5 } } });
+    expect(local.values.has('projectionData_u1')).toBe(false);
+  });
+});
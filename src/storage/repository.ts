@@ -0,0 +1,210 @@
+import { Deal, Task, SavedProfile, ProfilerData, FitAnalysisData } from '../App';
+import { SourcingResult } from '../components/SourcingEngine';
+import { AnalysisJob } from '../sourcing/jobQueue';
+import { SavedSearch, SearchInboxItem } from '../sourcing/savedSearches';
+import { ValuationSettings } from '../sourcing/valuationMetrics';
+import { PipelineStage } from '../pipeline/stages';
+import { AutomationRule } from '../pipeline/automation';
+import { Folder } from '../components/VirtualDealRoom';
+import { FinancialAnalysisData, FinancialAnalysisSnapshot } from '../../components/FinancialAnalysisHub';
+import { ValuationInputs } from '../../components/ValuationCalculator';
+import { ProjectionData } from '../../components/FinancialProjectionModeler';
+import { IntegrationData } from '../../components/IntegrationHub';
+import { AllChecklists } from '../../components/MandaChecklist';
+import { SyncSettings } from './firestoreSync';
+import { AiUsageRecord, AiBudget } from '../ai/metering';
+import { StorageAdapter, RemoteStorageAdapter } from './types';
+import { createIndexedDbAdapter, isIndexedDbAvailable } from './indexedDbAdapter';
+import { createLocalStorageAdapter } from './localStorageAdapter';
+import { createSyncedAdapter } from './syncedAdapter';
+import { CURRENT_SCHEMA_VERSION, PersistedEnvelope, isPersistedEnvelope, migrateValue, migrateWorkspace } from './migrations';
+
+/**
+ * Everything persisted for a single user's workspace, keyed by collection name.
+ */
+export interface WorkspaceData {
+  profilerData: ProfilerData;
+  profilerChatHistory: string;
+  sourcingResults: SourcingResult[];
+  /** Listing analyses waiting to run, running, or finished; see `sourcing/jobQueue.ts`. */
+  sourcingJobs: AnalysisJob[];
+  savedSearches: SavedSearch[];
+  /** Listings saved searches found that no earlier run had seen. */
+  searchInbox: SearchInboxItem[];
+  /** Multiple bands and financing assumptions for the valuation shown on sourcing results. */
+  valuationSettings: ValuationSettings;
+  fitAnalysis: FitAnalysisData;
+  /** Analysis Hub artifacts, keyed by Deal.id (or GENERAL_ANALYSIS_ID). */
+  financialAnalyses: Record<string, FinancialAnalysisData>;
+  valuations: Record<string, ValuationInputs>;
+  projections: Record<string, ProjectionData>;
+  financialAnalysisSnapshot: FinancialAnalysisSnapshot;
+  savedProfiles: SavedProfile[];
+  deals: Deal[];
+  /** The workspace's pipeline columns and what a deal needs before entering each. */
+  pipelineStages: PipelineStage[];
+  /** Tasks and checklist items created when a deal enters a stage. */
+  automationRules: AutomationRule[];
+  integrationData: Record<string, IntegrationData>;
+  websiteList: string;
+  tasks: Task[];
+  vdrFolders: Folder[];
+  mandaChecklists: AllChecklists;
+  syncSettings: SyncSettings;
+  aiUsage: AiUsageRecord[];
+  aiBudgets: AiBudget[];
+  /** @deprecated Single-workspace blobs from before multi-deal analysis; folded into the general workspace on load. */
+  valuationInputs: ValuationInputs;
+  /** @deprecated See `valuationInputs`. */
+  financialAnalysis: FinancialAnalysisData;
+  /** @deprecated See `valuationInputs`. */
+  projectionData: ProjectionData;
+}
+
+export type WorkspaceKey = keyof WorkspaceData;
+
+// `prefix` matches the pre-repository localStorage key names so existing data migrates in place.
+// `legacyGlobalKey` covers components that used to write a single, non-user-scoped key.
+const COLLECTIONS: Record<WorkspaceKey, { prefix: string; legacyGlobalKey?: string }> = {
+  profilerData: { prefix: 'companyProfilerData' },
+  profilerChatHistory: { prefix: 'companyProfilerChatHistory', legacyGlobalKey: 'companyProfilerChatHistory' },
+  sourcingResults: { prefix: 'sourcingEngineResults' },
+  sourcingJobs: { prefix: 'sourcingJobs' },
+  savedSearches: { prefix: 'savedSearches' },
+  searchInbox: { prefix: 'searchInbox' },
+  valuationSettings: { prefix: 'sourcingValuationSettings' },
+  fitAnalysis: { prefix: 'buyBoxFitAnalysis' },
+  financialAnalyses: { prefix: 'dealFinancialAnalyses' },
+  valuations: { prefix: 'dealValuationInputs' },
+  projections: { prefix: 'dealProjections' },
+  financialAnalysisSnapshot: { prefix: 'financialAnalysisHubData', legacyGlobalKey: 'financialAnalysisHubData' },
+  savedProfiles: { prefix: 'buyBoxProfiles' },
+  deals: { prefix: 'dealsPipeline' },
+  pipelineStages: { prefix: 'dealPipelineStages' },
+  automationRules: { prefix: 'pipelineAutomationRules' },
+  integrationData: { prefix: 'integrationData' },
+  websiteList: { prefix: 'sourcingWebsiteList' },
+  tasks: { prefix: 'dealRoomTasks' },
+  vdrFolders: { prefix: 'virtualDealRoomState', legacyGlobalKey: 'virtualDealRoomState' },
+  mandaChecklists: { prefix: 'mandaChecklistsState', legacyGlobalKey: 'mandaChecklistsState' },
+  syncSettings: { prefix: 'syncSettings' },
+  aiUsage: { prefix: 'aiUsageLog' },
+  aiBudgets: { prefix: 'aiBudgets' },
+  valuationInputs: { prefix: 'valuationCalculatorInputs' },
+  financialAnalysis: { prefix: 'financialAnalysisData' },
+  projectionData: { prefix: 'projectionData' },
+};
+
+export const WORKSPACE_KEYS = Object.keys(COLLECTIONS) as WorkspaceKey[];
+
+export interface WorkspaceRepository {
+  /** The storage scope: the user's uid, or a per-user cache of a shared workspace. */
+  uid: string;
+  load<K extends WorkspaceKey>(key: K): Promise<WorkspaceData[K] | undefined>;
+  loadAll(): Promise<Partial<WorkspaceData>>;
+  /** Saving `null` or `undefined` removes the collection. */
+  save<K extends WorkspaceKey>(key: K, value: WorkspaceData[K] | null | undefined): Promise<void>;
+  remove(key: WorkspaceKey): Promise<void>;
+}
+
+export interface RepositoryOptions {
+  local?: StorageAdapter;
+  remote?: RemoteStorageAdapter;
+  /** Read pre-repository localStorage keys. Off for scopes that never had legacy data. */
+  legacyFallback?: boolean;
+}
+
+export const createDefaultAdapter = (): StorageAdapter =>
+  isIndexedDbAvailable() ? createIndexedDbAdapter() : createLocalStorageAdapter();
+
+const readLegacyValue = (legacyKey: string): unknown => {
+  try {
+    const raw = localStorage.getItem(legacyKey);
+    return raw === null ? undefined : JSON.parse(raw);
+  } catch (error) {
+    console.error(`Failed to parse legacy localStorage key "${legacyKey}"`, error);
+    return undefined;
+  }
+};
+
+/**
+ * Creates the typed, user-scoped persistence API used by every hub.
+ *
+ * Reads fall back to the legacy localStorage keys; anything found there is copied
+ * into the adapter and removed from localStorage to free up its quota. Values are
+ * stored with a schema version and upgraded through the migration registry on load.
+ */
+export const createWorkspaceRepository = (uid: string, options: RepositoryOptions = {}): WorkspaceRepository => {
+  const legacyFallback = options.legacyFallback ?? true;
+  const local = options.local ?? createDefaultAdapter();
+  const adapter = options.remote ? createSyncedAdapter(local, options.remote) : local;
+  const storageKey = (key: WorkspaceKey) => `${COLLECTIONS[key].prefix}_${uid}`;
+  // Collections that could not be read (e.g. saved by a newer app version) are never
+  // overwritten, so an empty in-memory default can't clobber data we failed to load.
+  const unreadableKeys = new Set<WorkspaceKey>();
+
+  const write = <K extends WorkspaceKey>(key: K, value: WorkspaceData[K]) => {
+    const envelope: PersistedEnvelope<WorkspaceData[K]> = { schemaVersion: CURRENT_SCHEMA_VERSION, data: value };
+    return adapter.set(storageKey(key), envelope);
+  };
+
+  const readLegacyLocalStorage = (key: WorkspaceKey): { legacyKey: string; value: unknown } | undefined => {
+    for (const legacyKey of [storageKey(key), COLLECTIONS[key].legacyGlobalKey]) {
+      if (!legacyKey) continue;
+      const value = readLegacyValue(legacyKey);
+      if (value !== undefined) return { legacyKey, value };
+    }
+    return undefined;
+  };
+
+  const load = async <K extends WorkspaceKey>(key: K): Promise<WorkspaceData[K] | undefined> => {
+    let stored = await adapter.get<unknown>(storageKey(key));
+    const legacy = stored === undefined && legacyFallback ? readLegacyLocalStorage(key) : undefined;
+    if (legacy) stored = legacy.value;
+    if (stored === undefined) return undefined;
+
+    const fromVersion = isPersistedEnvelope(stored) ? stored.schemaVersion : 0;
+    const data = isPersistedEnvelope(stored) ? stored.data : stored;
+    let value: WorkspaceData[K];
+    try {
+      value = migrateValue(key, data, fromVersion);
+    } catch (error) {
+      unreadableKeys.add(key);
+      throw error;
+    }
+    if (legacy || fromVersion < CURRENT_SCHEMA_VERSION) await write(key, value);
+    if (legacy) localStorage.removeItem(legacy.legacyKey);
+    return value;
+  };
+
+  const remove = (key: WorkspaceKey) => adapter.remove(storageKey(key));
+
+  return {
+    uid,
+    load,
+    async loadAll() {
+      const entries = await Promise.all(WORKSPACE_KEYS.map(async key => {
+        try {
+          return [key, await load(key)] as const;
+        } catch (error) {
+          console.error(`Failed to load "${key}"`, error);
+          return [key, undefined] as const;
+        }
+      }));
+      const loaded = Object.fromEntries(entries.filter(([, value]) => value !== undefined)) as Partial<WorkspaceData>;
+      const migrated = migrateWorkspace(loaded);
+      if (migrated !== loaded && unreadableKeys.size === 0) {
+        // Save what was folded in before deleting where it came from.
+        await Promise.all(WORKSPACE_KEYS.filter(key => migrated[key] !== undefined && migrated[key] !== loaded[key]).map(key => write(key, migrated[key]!)));
+        await Promise.all(WORKSPACE_KEYS.filter(key => loaded[key] !== undefined && migrated[key] === undefined).map(remove));
+      }
+      return migrated;
+    },
+    async save(key, value) {
+      if (unreadableKeys.has(key)) throw new Error(`Refusing to overwrite "${key}" because it could not be loaded.`);
+      if (value === null || value === undefined) return remove(key);
+      await write(key, value);
+    },
+    remove,
+  };
+};
@@ -0,0 +1,30 @@
+import { StorageAdapter, RemoteStorageAdapter } from './types';
+
+/**
+ * Wraps a local adapter so that every write is mirrored to a remote backend.
+ * The local copy is always written first; remote failures are logged rather than
+ * thrown so the app keeps working offline.
+ */
+export const createSyncedAdapter = (local: StorageAdapter, remote: RemoteStorageAdapter): StorageAdapter => ({
+  async get<T>(key: string) {
+    const localValue = await local.get<T>(key);
+    if (localValue !== undefined) return localValue;
+    try {
+      const remoteValue = await remote.get<T>(key);
+      if (remoteValue !== undefined) await local.set(key, remoteValue);
+      return remoteValue;
+    } catch (error) {
+      console.error(`Failed to read "${key}" from ${remote.name}`, error);
+      return undefined;
+    }
+  },
+  async set<T>(key: string, value: T) {
+    await local.set(key, value);
+    remote.set(key, value).catch(error => console.error(`Failed to sync "${key}" to ${remote.name}`, error));
+  },
+  async remove(key: string) {
+    await local.remove(key);
+    remote.remove(key).catch(error => console.error(`Failed to remove "${key}" from ${remote.name}`, error));
+  },
+  keys: () => local.keys(),
+});
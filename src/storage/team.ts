@@ -0,0 +1,161 @@
+import {
+  Firestore, collection, collectionGroup, doc, query, where,
+  onSnapshot, addDoc, setDoc, updateDoc, deleteDoc, getDocs,
+} from 'firebase/firestore';
+import { Auth, User, sendSignInLinkToEmail } from 'firebase/auth';
+import { Deal } from '../App';
+
+export type TeamRole = 'owner' | 'analyst' | 'advisor' | 'lender';
+
+export const TEAM_ROLES: TeamRole[] = ['owner', 'analyst', 'advisor', 'lender'];
+
+export const ROLE_DESCRIPTIONS: Record<TeamRole, string> = {
+  owner: 'Full access, including managing the team',
+  analyst: 'Full access to every deal and task',
+  advisor: 'Only the tasks assigned to them',
+  lender: 'Financing details of the deals shared with them (read-only)',
+};
+
+/** Firestore: `workspaces/{workspaceId}/members/{uid}`. A workspace's id is its creator's uid. */
+export interface TeamMember {
+  uid: string;
+  email: string;
+  role: TeamRole;
+  /** Deals shared with an advisor or lender. Owners and analysts see every deal. */
+  dealIds: string[];
+  workspaceId: string;
+  ownerEmail: string;
+}
+
+/** Firestore: `invites/{inviteId}`, readable by the inviter and by the invited email address. */
+export interface TeamInvite {
+  id: string;
+  email: string;
+  role: TeamRole;
+  dealIds: string[];
+  workspaceId: string;
+  invitedBy: string;
+  invitedByEmail: string;
+  createdAt: number;
+}
+
+/** The workspace the signed-in user is currently working in, and what they may do there. */
+export interface ActiveWorkspace {
+  id: string;
+  role: TeamRole;
+  dealIds: string[];
+  ownerEmail: string;
+  /** True when this is someone else's workspace the user was invited to. */
+  isShared: boolean;
+}
+
+// --- Permissions ---
+// Firestore rules enforce the same limits; these decide what the UI shows.
+
+export const hasFullAccess = (role: TeamRole) => role === 'owner' || role === 'analyst';
+export const canManageTeam = (role: TeamRole) => role === 'owner';
+
+const ROLE_VIEWS: Record<TeamRole, string[] | 'all'> = {
+  owner: 'all',
+  analyst: 'all',
+  advisor: ['managementHub'],
+  lender: ['pipelineHub'],
+};
+export const canAccessView = (role: TeamRole, view: string) => {
+  const views = ROLE_VIEWS[role];
+  return views === 'all' || views.includes(view);
+};
+
+export type DealTab = 'summary' | 'terms' | 'checklist' | 'tasks' | 'activity';
+// A lender underwrites the price, structure and seller note, and tracks closing conditions.
+const FINANCING_DEAL_TABS: DealTab[] = ['terms', 'checklist'];
+export const visibleDealTabs = (role: TeamRole): DealTab[] =>
+  role === 'lender' ? FINANCING_DEAL_TABS : ['summary', 'terms', 'checklist', 'tasks', 'activity'];
+
+/**
+ * Firestore: `dealFinancing/{dealId}`. What a lender's tabs show, copied out of the deal so
+ * lenders never read the deal itself, with its analysis, notes and activity.
+ */
+export type DealFinancing = Pick<Deal, 'id' | 'companyName' | 'status' | 'keyTerms' | 'contacts' | 'timeline' | 'closingChecklist'>;
+
+export const toDealFinancing = ({ id, companyName, status, keyTerms, contacts, timeline, closingChecklist }: Deal): DealFinancing =>
+  ({ id, companyName, status, keyTerms, contacts, timeline, closingChecklist });
+
+/** The deal a lender works with: the financing fields, everything else left blank. */
+export const dealFromFinancing = (financing: DealFinancing): Deal => ({
+  ...financing,
+  sourcingResult: { url: '', keyInsights: '', fullProfile: '', scorecard: '', overallFitScore: null, sde: null, industry: null },
+  notes: '',
+});
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// --- Firestore operations ---
+
+const membersRef = (db: Firestore, workspaceId: string) => collection(db, 'workspaces', workspaceId, 'members');
+
+/**
+ * Records an invite and emails a sign-in link through Firebase Auth. The invitee joins
+ * the workspace the next time they sign in with that address.
+ */
+export const inviteMember = async (
+  db: Firestore, auth: Auth, inviter: User,
+  invite: { workspaceId: string; email: string; role: TeamRole; dealIds: string[] },
+) => {
+  const email = normalizeEmail(invite.email);
+  await addDoc(collection(db, 'invites'), {
+    ...invite,
+    email,
+    invitedBy: inviter.uid,
+    invitedByEmail: inviter.email ?? '',
+    createdAt: Date.now(),
+  });
+  await sendSignInLinkToEmail(auth, email, { url: window.location.origin, handleCodeInApp: true });
+};
+
+export const revokeInvite = (db: Firestore, inviteId: string) => deleteDoc(doc(db, 'invites', inviteId));
+
+/** Turns any invites addressed to the signed-in user into memberships. */
+export const acceptPendingInvites = async (db: Firestore, user: User) => {
+  if (!user.email) return;
+  const email = normalizeEmail(user.email);
+  const snapshot = await getDocs(query(collection(db, 'invites'), where('email', '==', email)));
+  await Promise.all(snapshot.docs.map(async inviteDoc => {
+    const invite = inviteDoc.data() as Omit<TeamInvite, 'id'>;
+    const member: TeamMember & { inviteId: string } = {
+      uid: user.uid,
+      email,
+      role: invite.role,
+      dealIds: invite.dealIds ?? [],
+      workspaceId: invite.workspaceId,
+      ownerEmail: invite.invitedByEmail,
+      inviteId: inviteDoc.id,
+    };
+    await setDoc(doc(membersRef(db, invite.workspaceId), user.uid), member);
+    await deleteDoc(inviteDoc.ref);
+  }));
+};
+
+export const updateMember = (db: Firestore, workspaceId: string, uid: string, changes: Partial<Pick<TeamMember, 'role' | 'dealIds'>>) =>
+  updateDoc(doc(membersRef(db, workspaceId), uid), changes);
+
+export const removeMember = (db: Firestore, workspaceId: string, uid: string) =>
+  deleteDoc(doc(membersRef(db, workspaceId), uid));
+
+type Unsubscribe = () => void;
+
+export const listenToMembers = (db: Firestore, workspaceId: string, onChange: (members: TeamMember[]) => void): Unsubscribe =>
+  onSnapshot(membersRef(db, workspaceId),
+    snapshot => onChange(snapshot.docs.map(d => d.data() as TeamMember)),
+    error => console.error("Failed to load team members", error));
+
+export const listenToInvites = (db: Firestore, workspaceId: string, onChange: (invites: TeamInvite[]) => void): Unsubscribe =>
+  onSnapshot(query(collection(db, 'invites'), where('workspaceId', '==', workspaceId)),
+    snapshot => onChange(snapshot.docs.map(d => ({ ...d.data(), id: d.id }) as TeamInvite)),
+    error => console.error("Failed to load pending invites", error));
+
+/** Every workspace the user has joined through an invite. */
+export const listenToMemberships = (db: Firestore, uid: string, onChange: (memberships: TeamMember[]) => void): Unsubscribe =>
+  onSnapshot(query(collectionGroup(db, 'members'), where('uid', '==', uid)),
+    snapshot => onChange(snapshot.docs.map(d => d.data() as TeamMember)),
+    error => console.error("Failed to load shared workspaces", error));
@@ -0,0 +1,19 @@
+/**
+ * A key-value persistence backend. Values must be plain, serializable data
+ * since adapters may store them as JSON or as IndexedDB structured clones.
+ */
+export interface StorageAdapter {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T): Promise<void>;
+  remove(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+/**
+ * A remote backend (e.g. a REST API or Firestore) that local writes are mirrored to.
+ * `subscribe` is optional and lets a remote push changes made on another device.
+ */
+export interface RemoteStorageAdapter extends StorageAdapter {
+  name: string;
+  subscribe?<T>(key: string, onChange: (value: T | undefined) => void): () => void;
+}
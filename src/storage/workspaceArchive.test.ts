@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../App', () => ({ defaultBuyBoxCriteria: {}, GENERAL_ANALYSIS_ID: 'general' }));
+
+import { SavedProfile, Task } from '../App';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { applyImport, createWorkspaceArchive, parseWorkspaceArchive, previewImport } from './workspaceArchive';
+
+const archiveText = (data: object, schemaVersion = CURRENT_SCHEMA_VERSION) =>
+  JSON.stringify({ ...createWorkspaceArchive({}), schemaVersion, data });
+
+const profile = (name: string, geography = ''): SavedProfile => ({ name, criteria: { geography: { value: geography, weight: 1 } } as SavedProfile['criteria'] });
+const task = (id: string, title: string) => ({ id, title }) as Task;
+
+describe('parseWorkspaceArchive', () => {
+  it('rejects an item it could not match when merging', () => {
+    expect(() => parseWorkspaceArchive(archiveText({ tasks: [task('t1', 'Call broker'), { title: 'No id' }] })))
+      .toThrow('Item 2 of "Tasks" in the export is missing its id.');
+    expect(() => parseWorkspaceArchive(archiveText({ savedProfiles: [{ name: ' ', criteria: {} }] })))
+      .toThrow('Item 1 of "Buy Box Profiles" in the export is missing its name.');
+  });
+
+  it('rejects malformed record collections', () => {
+    expect(() => parseWorkspaceArchive(archiveText({ valuations: { d1: 'not an object' } })))
+      .toThrow('"Valuations" in the export is malformed.');
+  });
+
+  it('validates items after upgrading older archives', () => {
+    const archive = parseWorkspaceArchive(archiveText({ tasks: [{ title: 'No id yet' }] }, 0));
+    expect(archive.data.tasks?.[0].id).toBeTruthy();
+  });
+});
+
+describe('merging an import', () => {
+  const current = { savedProfiles: [profile('Default'), profile('Texas HVAC', 'Texas')], tasks: [task('t1', 'Call broker')] };
+  const incoming = { savedProfiles: [profile('texas hvac', 'Oklahoma')], tasks: [task('t1', 'Call broker back'), task('t2', 'Send NDA')] };
+
+  it('matches profiles by name regardless of case', () => {
+    const merged = applyImport(current, incoming, 'merge');
+    expect(merged.savedProfiles?.map(p => p.name)).toEqual(['Default', 'texas hvac']);
+    expect(merged.savedProfiles?.[1].criteria.geography.value).toBe('Oklahoma');
+  });
+
+  it('replaces items with the same id and keeps the rest', () => {
+    expect(applyImport(current, incoming, 'merge').tasks?.map(t => t.title)).toEqual(['Call broker back', 'Send NDA']);
+  });
+
+  it('lists conflicts as they are named in the archive', () => {
+    const preview = previewImport(current, incoming);
+    expect(preview.find(c => c.key === 'savedProfiles')).toMatchObject({ incomingCount: 1, newCount: 0, conflicts: ['texas hvac'] });
+    expect(preview.find(c => c.key === 'tasks')).toMatchObject({ incomingCount: 2, newCount: 1, conflicts: ['t1'] });
+  });
+});
@@ -0,0 +1,214 @@
+import { WorkspaceData, WorkspaceKey, WORKSPACE_KEYS } from './repository';
+import { CURRENT_SCHEMA_VERSION, migrateValue, migrateWorkspace } from './migrations';
+
+const ARCHIVE_FORMAT = 'acquisition-os-workspace';
+
+/**
+ * A full backup of one user's workspace, written as a single JSON file.
+ */
+export interface WorkspaceArchive {
+  format: typeof ARCHIVE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  data: Partial<WorkspaceData>;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface CollectionPreview {
+  key: WorkspaceKey;
+  label: string;
+  incomingCount: number;
+  newCount: number;
+  /** Ids (or names/URLs) present in both the workspace and the archive. */
+  conflicts: string[];
+}
+
+// Human-readable names for the import preview
+const COLLECTION_LABELS: Record<WorkspaceKey, string> = {
+  profilerData: 'Company Profiler',
+  profilerChatHistory: 'Profiler Chat History',
+  sourcingResults: 'Sourcing Results',
+  sourcingJobs: 'Sourcing Queue',
+  savedSearches: 'Saved Searches',
+  searchInbox: 'New Listing Inbox',
+  valuationSettings: 'Sourcing Valuation Settings',
+  fitAnalysis: 'Buy Box Fit Analysis',
+  financialAnalyses: 'Financial Analyses',
+  valuations: 'Valuations',
+  projections: 'Projections',
+  financialAnalysisSnapshot: 'Saved Financial Snapshot',
+  savedProfiles: 'Buy Box Profiles',
+  deals: 'Deals',
+  pipelineStages: 'Pipeline Stages',
+  automationRules: 'Pipeline Automation Rules',
+  integrationData: 'Integration Metrics',
+  websiteList: 'Sourcing Website List',
+  tasks: 'Tasks',
+  vdrFolders: 'Virtual Deal Room',
+  mandaChecklists: 'M&A Checklists',
+  syncSettings: 'Sync Settings',
+  aiUsage: 'AI Usage Log',
+  aiBudgets: 'AI Budgets',
+  valuationInputs: 'Valuation (legacy)',
+  financialAnalysis: 'Financial Analysis (legacy)',
+  projectionData: 'Projections (legacy)',
+};
+
+type ArrayKey = { [K in WorkspaceKey]: WorkspaceData[K] extends unknown[] ? K : never }[WorkspaceKey];
+type ItemOf<K extends ArrayKey> = WorkspaceData[K][number];
+type RecordKey = 'financialAnalyses' | 'valuations' | 'projections' | 'integrationData';
+
+// The field each array collection's items are matched on when merging. Record collections are keyed by deal id.
+const IDENTITY_FIELDS: { [K in ArrayKey]: keyof ItemOf<K> & string } = {
+  deals: 'id',
+  pipelineStages: 'id',
+  automationRules: 'id',
+  tasks: 'id',
+  savedProfiles: 'name',
+  sourcingResults: 'url',
+  sourcingJobs: 'id',
+  savedSearches: 'id',
+  searchInbox: 'id',
+  vdrFolders: 'id',
+  aiUsage: 'id',
+  aiBudgets: 'feature',
+};
+const RECORD_KEYS: RecordKey[] = ['financialAnalyses', 'valuations', 'projections', 'integrationData'];
+
+const isArrayKey = (key: WorkspaceKey): key is ArrayKey => key in IDENTITY_FIELDS;
+const isRecordKey = (key: WorkspaceKey): key is RecordKey => (RECORD_KEYS as WorkspaceKey[]).includes(key);
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+/** The raw identity, e.g. a profile's name as typed; shown in the import preview. */
+const identityLabel = <K extends ArrayKey>(key: K, item: ItemOf<K>) => String(item[IDENTITY_FIELDS[key]]);
+
+/** What an item is matched on. Profile names ignore case, as they do when a profile is saved. */
+const identify = <K extends ArrayKey>(key: K, item: ItemOf<K>) => {
+  const label = identityLabel(key, item);
+  return key === 'savedProfiles' ? label.toLowerCase() : label;
+};
+
+const isIdentifiable = <K extends ArrayKey>(key: K, item: unknown): item is ItemOf<K> => {
+  if (!isObject(item)) return false;
+  const id = item[IDENTITY_FIELDS[key]];
+  return typeof id === 'string' && id.trim() !== '';
+};
+
+/**
+ * Checks a collection after migration, so nothing that can't be matched reaches the merge:
+ * an item without its id (or name, or URL) would otherwise never conflict with anything.
+ */
+const validateCollection = (key: WorkspaceKey, value: unknown) => {
+  const label = COLLECTION_LABELS[key];
+  if (isArrayKey(key)) {
+    if (!Array.isArray(value)) throw new Error(`"${label}" in the export is malformed.`);
+    const bad = value.findIndex(item => !isIdentifiable(key, item));
+    if (bad !== -1) throw new Error(`Item ${bad + 1} of "${label}" in the export is missing its ${IDENTITY_FIELDS[key]}.`);
+  } else if (isRecordKey(key) && !(isObject(value) && Object.values(value).every(isObject))) {
+    throw new Error(`"${label}" in the export is malformed.`);
+  }
+};
+
+export const createWorkspaceArchive = (data: Partial<WorkspaceData>): WorkspaceArchive => ({
+  format: ARCHIVE_FORMAT,
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  data,
+});
+
+/**
+ * Parses and validates an archive file, upgrading older archives to the current schema.
+ * Throws an Error with a user-facing message if the file is not a usable archive.
+ */
+export const parseWorkspaceArchive = (text: string): WorkspaceArchive => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The selected file is not valid JSON.');
+  }
+  if (!isObject(parsed) || parsed.format !== ARCHIVE_FORMAT || !isObject(parsed.data)) {
+    throw new Error('The selected file is not an Acquisition OS workspace export.');
+  }
+  const { schemaVersion, exportedAt } = parsed;
+  if (typeof schemaVersion !== 'number') {
+    throw new Error('The workspace export is missing its schema version.');
+  }
+
+  const data: Partial<WorkspaceData> = {};
+  for (const [key, value] of Object.entries(parsed.data)) {
+    if (!(WORKSPACE_KEYS as string[]).includes(key)) {
+      console.warn(`Ignoring unknown collection "${key}" in workspace export`);
+      continue;
+    }
+    const workspaceKey = key as WorkspaceKey;
+    if (isArrayKey(workspaceKey) && !Array.isArray(value)) {
+      throw new Error(`"${COLLECTION_LABELS[workspaceKey]}" in the export is malformed.`);
+    }
+    const migrated = migrateValue(workspaceKey, value, schemaVersion);
+    validateCollection(workspaceKey, migrated);
+    (data as Record<string, unknown>)[key] = migrated;
+  }
+
+  return {
+    format: ARCHIVE_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: typeof exportedAt === 'string' ? exportedAt : '',
+    data: migrateWorkspace(data),
+  };
+};
+
+/** Each item's identity, with the label shown for it when it conflicts. */
+const identitiesOf = <K extends WorkspaceKey>(key: K, value: WorkspaceData[K]): { id: string; label: string }[] => {
+  if (isArrayKey(key)) {
+    return (value as ItemOf<typeof key>[]).map(item => ({ id: identify(key, item), label: identityLabel(key, item) }));
+  }
+  if (isRecordKey(key)) return Object.keys(value as object).map(id => ({ id, label: id }));
+  return [{ id: key, label: key }];
+};
+
+/**
+ * Summarizes, per collection, what importing `incoming` would add and which
+ * existing items it would overwrite when merged.
+ */
+export const previewImport = (current: Partial<WorkspaceData>, incoming: Partial<WorkspaceData>): CollectionPreview[] =>
+  (Object.keys(incoming) as WorkspaceKey[]).map(key => {
+    const incomingItems = identitiesOf(key, incoming[key]!);
+    const existing = current[key];
+    const existingIds = new Set(existing === undefined ? [] : identitiesOf(key, existing).map(item => item.id));
+    const conflicts = incomingItems.filter(item => existingIds.has(item.id)).map(item => item.label);
+    return {
+      key,
+      label: COLLECTION_LABELS[key],
+      incomingCount: incomingItems.length,
+      newCount: incomingItems.length - conflicts.length,
+      conflicts,
+    };
+  });
+
+const mergeItems = <K extends ArrayKey>(key: K, current: ItemOf<K>[], incoming: ItemOf<K>[]): ItemOf<K>[] => {
+  const incomingIds = new Set(incoming.map(item => identify(key, item)));
+  return [...current.filter(item => !incomingIds.has(identify(key, item))), ...incoming];
+};
+
+const mergeCollection = (key: WorkspaceKey, current: unknown, incoming: unknown): unknown => {
+  if (current === undefined) return incoming;
+  if (isArrayKey(key)) return mergeItems(key, current as ItemOf<typeof key>[], incoming as ItemOf<typeof key>[]);
+  if (isRecordKey(key)) return { ...(current as object), ...(incoming as object) };
+  return incoming;
+};
+
+/**
+ * Returns the workspace that results from importing an archive. In `merge` mode, imported
+ * items overwrite existing ones with the same id; in `replace` mode the archive becomes the
+ * whole workspace and collections missing from it are cleared.
+ */
+export const applyImport = (current: Partial<WorkspaceData>, incoming: Partial<WorkspaceData>, mode: ImportMode): Partial<WorkspaceData> => {
+  if (mode === 'replace') return { ...incoming };
+  const merged: Partial<WorkspaceData> = { ...current };
+  (Object.keys(incoming) as WorkspaceKey[]).forEach(key => {
+    (merged as Record<string, unknown>)[key] = mergeCollection(key, current[key], incoming[key]);
+  });
+  return merged;
+};
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { BuyBoxCriteria } from '../App';
+import { CriterionFit } from './sourcingAnalysis';
+import { ScoredCriterionKey, UNKNOWN_CREDIT, parseScorecardMarkdown, scoreFit } from './fitScoring';
+
+const buyBox = (weights: Partial<Record<ScoredCriterionKey, number>> = {}): BuyBoxCriteria => ({
+  geography: { value: 'Texas', weight: weights.geography ?? 0 },
+  industryType: { value: 'B2B Facility Services', weight: weights.industryType ?? 0 },
+  minSde: { value: 400000, weight: weights.sde ?? 0 },
+  maxSde: { value: 800000, weight: weights.sde ?? 0 },
+  customerConcentration: { value: 30, weight: weights.customerConcentration ?? 0 },
+  minRecurringRevenue: { value: 50, weight: weights.minRecurringRevenue ?? 0 },
+  growthLevers: { sales: false, ops: false, consolidation: false, weight: weights.growthLevers ?? 0 },
+  industryTrends: { value: 'Fragmented', weight: weights.industryTrends ?? 0 },
+  industryExpertise: [],
+  sellerRole: { value: 'operator', weight: weights.sellerRole ?? 0 },
+  teamStrength: { value: 'Has a manager in place', weight: weights.teamStrength ?? 0 },
+  businessModel: { value: 'assetLight', weight: weights.businessModel ?? 0 },
+  systemMessiness: { value: 3, weight: weights.systemMessiness ?? 0 },
+  myPrimaryRole: { value: 'manager', weight: weights.myPrimaryRole ?? 0 },
+  desiredCulture: '',
+  desiredCultureRationale: '',
+  personalGoal: '',
+  personalGoalRationale: '',
+});
+
+const row = (criterion: string, fit: CriterionFit['fit'], rationale = ''): CriterionFit => ({ criterion, status: '', fit, rationale });
+
+const creditFor = (criteria: BuyBoxCriteria, key: ScoredCriterionKey, facts: Parameters<typeof scoreFit>[1]['facts'], fitRows: CriterionFit[] = []) =>
+  scoreFit(criteria, { facts, fitRows }).criteria.find(c => c.key === key);
+
+describe('scoreFit: SDE range', () => {
+  const criteria = buyBox({ sde: 3 });
+
+  it('gives full credit at the range edges', () => {
+    expect(creditFor(criteria, 'sde', { sde: 400000 })?.credit).toBe(1);
+    expect(creditFor(criteria, 'sde', { sde: 800000 })?.credit).toBe(1);
+  });
+
+  it('gives partial credit for a near miss within tolerance', () => {
+    expect(creditFor(criteria, 'sde', { sde: 360000 })?.credit).toBeCloseTo(0.6);
+    expect(creditFor(criteria, 'sde', { sde: 880000 })?.credit).toBeCloseTo(0.6);
+  });
+
+  it('gives no credit at or past the tolerance', () => {
+    expect(creditFor(criteria, 'sde', { sde: 300000 })?.credit).toBe(0);
+    expect(creditFor(criteria, 'sde', { sde: 1200000 })?.credit).toBe(0);
+  });
+
+  it('scores from facts and explains the result', () => {
+    const sde = creditFor(criteria, 'sde', { sde: 500000 });
+    expect(sde?.source).toBe('facts');
+    expect(sde?.explanation).toContain('within');
+  });
+});
+
+describe('scoreFit: percentage thresholds', () => {
+  it('scores recurring revenue against its minimum', () => {
+    const criteria = buyBox({ minRecurringRevenue: 1 });
+    expect(creditFor(criteria, 'minRecurringRevenue', { recurringRevenuePercent: 50 })?.credit).toBe(1);
+    expect(creditFor(criteria, 'minRecurringRevenue', { recurringRevenuePercent: 40 })?.credit).toBeCloseTo(0.6);
+    expect(creditFor(criteria, 'minRecurringRevenue', { recurringRevenuePercent: 20 })?.credit).toBe(0);
+  });
+
+  it('gives full recurring-revenue credit when the minimum is zero', () => {
+    const criteria = { ...buyBox({ minRecurringRevenue: 1 }), minRecurringRevenue: { value: 0, weight: 1 } };
+    expect(creditFor(criteria, 'minRecurringRevenue', { recurringRevenuePercent: 0 })?.credit).toBe(1);
+  });
+
+  it('scores customer concentration against its maximum', () => {
+    const criteria = buyBox({ customerConcentration: 2 });
+    expect(creditFor(criteria, 'customerConcentration', { topCustomerPercent: 30 })?.credit).toBe(1);
+    expect(creditFor(criteria, 'customerConcentration', { topCustomerPercent: 36 })?.credit).toBeCloseTo(0.6);
+    expect(creditFor(criteria, 'customerConcentration', { topCustomerPercent: 45 })?.credit).toBe(0);
+  });
+
+  it('gives no concentration credit over a zero maximum', () => {
+    const criteria = { ...buyBox({ customerConcentration: 2 }), customerConcentration: { value: 0, weight: 2 } };
+    expect(creditFor(criteria, 'customerConcentration', { topCustomerPercent: 5 })?.credit).toBe(0);
+  });
+});
+
+describe('scoreFit: verdict fallback', () => {
+  const criteria = buyBox({ sde: 3, geography: 2 });
+
+  it("uses the model's verdict when the fact is missing", () => {
+    const sde = creditFor(criteria, 'sde', { sde: null }, [row('Financials (SDE)', 'Yes', 'Strong cash flow')]);
+    expect(sde).toMatchObject({ credit: 1, source: 'model', explanation: 'Strong cash flow' });
+    expect(creditFor(criteria, 'sde', {}, [row('Financials (SDE)', 'No')])?.credit).toBe(0);
+  });
+
+  it('gives unknown credit for "?" and for criteria the model skipped', () => {
+    expect(creditFor(criteria, 'geography', {}, [row('Geography', '?')])).toMatchObject({ credit: UNKNOWN_CREDIT, source: 'unknown' });
+    expect(creditFor(criteria, 'geography', {}, [])).toMatchObject({ credit: UNKNOWN_CREDIT, source: 'unknown', explanation: 'Not assessed.' });
+  });
+
+  it('prefers facts over the verdict', () => {
+    expect(creditFor(criteria, 'sde', { sde: 300000 }, [row('Financials (SDE)', 'Yes')])).toMatchObject({ credit: 0, source: 'facts' });
+  });
+});
+
+describe('scoreFit: weights', () => {
+  it('leaves zero-weight criteria out of the score', () => {
+    const result = scoreFit(buyBox({ sde: 3 }), { facts: { sde: 500000 }, fitRows: [row('Geography', 'No')] });
+    expect(result.criteria.map(c => c.key)).toEqual(['sde']);
+    expect(result).toMatchObject({ score: 100, achievedPoints: 3, possiblePoints: 3 });
+  });
+
+  it('weights each criterion by its importance', () => {
+    const result = scoreFit(buyBox({ sde: 3, geography: 1 }), { facts: { sde: 500000 }, fitRows: [row('Geography', 'No')] });
+    expect(result.score).toBe(75);
+  });
+
+  it('scores 50 when nothing carries any weight', () => {
+    const result = scoreFit(buyBox(), { facts: { sde: 500000 }, fitRows: [] });
+    expect(result).toMatchObject({ score: 50, achievedPoints: 0, possiblePoints: 0, criteria: [] });
+  });
+});
+
+describe('parseScorecardMarkdown', () => {
+  const markdown = [
+    '| Criteria | Status | Fit | Rationale |',
+    '| --- | --- | --- | --- |',
+    '| **Geography (Weight: 2)** | Dallas, TX | **Yes** | Inside the<br>target state |',
+    '| Financials (SDE) (Weight: 3) | $350k | No | Below range |',
+    '| Culture | Unclear | Maybe | Not discussed |',
+    '| Favorite Color | Blue | Yes | Not a criterion |',
+    'Some closing prose.',
+  ].join('\n');
+
+  it('reads known criteria rows and strips markup and weights', () => {
+    expect(parseScorecardMarkdown(markdown)).toEqual([
+      { criterion: 'Geography', status: 'Dallas, TX', fit: 'Yes', rationale: 'Inside thetarget state' },
+      { criterion: 'Financials (SDE)', status: '$350k', fit: 'No', rationale: 'Below range' },
+      { criterion: 'Culture', status: 'Unclear', fit: '?', rationale: 'Not discussed' },
+    ]);
+  });
+
+  it('returns nothing for text without a table', () => {
+    expect(parseScorecardMarkdown('No scorecard here.')).toEqual([]);
+  });
+});
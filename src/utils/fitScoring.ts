@@ -0,0 +1,177 @@
+import { BuyBoxCriteria } from '../App';
+import { CriterionFit, FitVerdict, SCORECARD_CRITERIA } from './sourcingAnalysis';
+
+/**
+ * Deterministic Buy Box fit scoring.
+ *
+ * Numeric criteria (SDE range, recurring revenue, customer concentration) are scored from
+ * extracted facts with partial credit for near misses. Qualitative criteria, and numeric
+ * ones whose fact is missing, use the model's Yes/No/? verdict from the scorecard.
+ */
+
+export type ScoredCriterionKey =
+  | 'geography' | 'industryType' | 'sde' | 'minRecurringRevenue' | 'customerConcentration'
+  | 'growthLevers' | 'industryTrends' | 'sellerRole' | 'teamStrength' | 'businessModel'
+  | 'systemMessiness' | 'myPrimaryRole';
+
+/** Where a criterion's credit came from. */
+export type ScoreSource = 'facts' | 'model' | 'unknown';
+
+export interface CriterionScore {
+  key: ScoredCriterionKey;
+  label: string;
+  weight: number;
+  /** 0 to 1. */
+  credit: number;
+  source: ScoreSource;
+  explanation: string;
+}
+
+export interface FitScoreBreakdown {
+  /** 0-100; 50 when no criterion carries any weight. */
+  score: number;
+  achievedPoints: number;
+  possiblePoints: number;
+  criteria: CriterionScore[];
+}
+
+/** Numeric facts about a target. Percentages are 0-100; null means not disclosed. */
+export interface FitFacts {
+  sde: number | null;
+  recurringRevenuePercent: number | null;
+  topCustomerPercent: number | null;
+}
+
+export interface FitInput {
+  facts?: Partial<FitFacts>;
+  /** The model's scorecard rows. */
+  fitRows: CriterionFit[];
+}
+
+// Credit for a criterion the model marked "?" or didn't assess.
+export const UNKNOWN_CREDIT = 0.3;
+const VERDICT_CREDIT: Record<FitVerdict, number> = { Yes: 1, No: 0, '?': UNKNOWN_CREDIT };
+
+// How far past a threshold, relative to it, credit falls to zero. An SDE 10% under the
+// minimum earns 60%; one 25% under earns nothing.
+const SDE_TOLERANCE = 0.25;
+const PERCENT_TOLERANCE = 0.5;
+
+const CRITERION_LABELS: Record<ScoredCriterionKey, string> = {
+  geography: 'Geography',
+  industryType: 'Industry',
+  sde: 'Financials (SDE)',
+  minRecurringRevenue: 'Revenue Quality',
+  customerConcentration: 'Risk (Concentration)',
+  growthLevers: 'Growth Levers',
+  industryTrends: 'Industry Trends',
+  sellerRole: 'Seller Role',
+  teamStrength: 'Team Strength',
+  businessModel: 'Business Model',
+  systemMessiness: 'Systems',
+  myPrimaryRole: 'My Role',
+};
+
+const SCORED_KEYS = Object.keys(CRITERION_LABELS) as ScoredCriterionKey[];
+
+const clampCredit = (credit: number) => Math.min(1, Math.max(0, credit));
+const formatUsd = (value: number) => `$${value.toLocaleString()}`;
+const formatPercent = (value: number) => `${value}%`;
+
+/** Full credit on the right side of `limit`, falling linearly to zero `tolerance` (relative) past it. */
+const thresholdCredit = (value: number, limit: number, direction: 'atLeast' | 'atMost', tolerance: number) => {
+  const miss = direction === 'atLeast' ? limit - value : value - limit;
+  if (miss <= 0) return 1;
+  if (limit <= 0) return 0;
+  return clampCredit(1 - miss / limit / tolerance);
+};
+
+// The SDE range is one criterion; if only one bound is weighted that weight applies.
+const weightOf = (buyBox: BuyBoxCriteria, key: ScoredCriterionKey) =>
+  key === 'sde' ? Math.max(buyBox.minSde.weight, buyBox.maxSde.weight) : buyBox[key].weight;
+
+const scoreSde = (buyBox: BuyBoxCriteria, sde: number) => {
+  const min = buyBox.minSde.value;
+  const max = buyBox.maxSde.value;
+  const range = `${formatUsd(min)}–${formatUsd(max)}`;
+  if (sde < min) {
+    return { credit: thresholdCredit(sde, min, 'atLeast', SDE_TOLERANCE), explanation: `SDE of ${formatUsd(sde)} is below the ${range} range.` };
+  }
+  if (max > 0 && sde > max) {
+    return { credit: thresholdCredit(sde, max, 'atMost', SDE_TOLERANCE), explanation: `SDE of ${formatUsd(sde)} is above the ${range} range.` };
+  }
+  return { credit: 1, explanation: `SDE of ${formatUsd(sde)} is within the ${range} range.` };
+};
+
+const scoreFromFacts = (buyBox: BuyBoxCriteria, key: ScoredCriterionKey, facts: Partial<FitFacts>) => {
+  if (key === 'sde' && facts.sde != null) return scoreSde(buyBox, facts.sde);
+  if (key === 'minRecurringRevenue' && facts.recurringRevenuePercent != null) {
+    const min = buyBox.minRecurringRevenue.value;
+    const value = facts.recurringRevenuePercent;
+    return {
+      credit: thresholdCredit(value, min, 'atLeast', PERCENT_TOLERANCE),
+      explanation: `${formatPercent(value)} recurring revenue vs. a minimum of ${formatPercent(min)}.`,
+    };
+  }
+  if (key === 'customerConcentration' && facts.topCustomerPercent != null) {
+    const max = buyBox.customerConcentration.value;
+    const value = facts.topCustomerPercent;
+    return {
+      credit: thresholdCredit(value, max, 'atMost', PERCENT_TOLERANCE),
+      explanation: `Largest customer is ${formatPercent(value)} of revenue vs. a maximum of ${formatPercent(max)}.`,
+    };
+  }
+  return null;
+};
+
+/** Scores a target against the Buy Box and explains each criterion's contribution. */
+export const scoreFit = (buyBox: BuyBoxCriteria, input: FitInput): FitScoreBreakdown => {
+  const rowsByKey = new Map<ScoredCriterionKey, CriterionFit>();
+  input.fitRows.forEach(row => {
+    const field = SCORECARD_CRITERIA[row.criterion];
+    const key: ScoredCriterionKey | undefined = field === 'minSde' || field === 'maxSde'
+      ? 'sde'
+      : SCORED_KEYS.find(k => k === field);
+    if (key && !rowsByKey.has(key)) rowsByKey.set(key, row);
+  });
+
+  const criteria = SCORED_KEYS
+    .map((key): CriterionScore => {
+      const base = { key, label: CRITERION_LABELS[key], weight: weightOf(buyBox, key) };
+      const fromFacts = scoreFromFacts(buyBox, key, input.facts ?? {});
+      if (fromFacts) return { ...base, ...fromFacts, source: 'facts' };
+      const row = rowsByKey.get(key);
+      if (row) return { ...base, credit: VERDICT_CREDIT[row.fit], source: row.fit === '?' ? 'unknown' : 'model', explanation: row.rationale || row.status };
+      return { ...base, credit: UNKNOWN_CREDIT, source: 'unknown', explanation: 'Not assessed.' };
+    })
+    .filter(criterion => criterion.weight > 0);
+
+  const possiblePoints = criteria.reduce((sum, c) => sum + c.weight, 0);
+  const achievedPoints = criteria.reduce((sum, c) => sum + c.weight * c.credit, 0);
+  return {
+    // No weights at all means every target is equally (un)suitable.
+    score: possiblePoints === 0 ? 50 : Math.round((achievedPoints / possiblePoints) * 100),
+    achievedPoints,
+    possiblePoints,
+    criteria,
+  };
+};
+
+/**
+ * Reads scorecard rows from a markdown table with "Criteria", "Status", "Fit" and
+ * "Rationale" columns, for analyses that only produce markdown (e.g. the Buy Box fit chat).
+ */
+export const parseScorecardMarkdown = (markdown: string): CriterionFit[] =>
+  markdown.split('\n')
+    .map(line => line.split('|').map(cell => cell.trim().replace(/\*\*/g, '').replace(/<[^>]+>/g, '')))
+    .filter(cells => cells.length >= 6)
+    .map(cells => {
+      const fit = cells[3].toLowerCase();
+      return {
+        criterion: cells[1].split(' (Weight:')[0].trim(),
+        status: cells[2],
+        fit: fit === 'yes' ? 'Yes' : fit === 'no' ? 'No' : '?',
+        rationale: cells[4],
+      } as CriterionFit;
+    })
+    .filter(row => row.criterion in SCORECARD_CRITERIA);
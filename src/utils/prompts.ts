@@ -112,8 +112,9 @@ If you cannot find any listings, return an empty JSON array \`[]\` inside the ma
 
 /**
  * Generates the comprehensive analysis prompt for the Sourcing Engine.
+ * With a snapshot, the model analyzes the captured page text instead of looking the listing up.
  */
-export const getSourcingAnalysisPrompt = (url: string, buyBox: BuyBoxCriteria): string => {
+export const getSourcingAnalysisPrompt = (url: string, buyBox: BuyBoxCriteria, snapshotText?: string): string => {
     const growthLeversText = Object.entries(buyBox.growthLevers)
         .filter(([key, value]) => key !== 'weight' && value)
         .map(([k]) => k.charAt(0).toUpperCase() + k.slice(1))
@@ -123,62 +124,45 @@ export const getSourcingAnalysisPrompt = (url: string, buyBox: BuyBoxCriteria):
         ? buyBox.industryExpertise.map(e => `${e.industry} (${e.proficiency})`).join(', ')
         : 'Not specified';
 
-    return `
-You are an M&A analyst. Your task is to perform a comprehensive analysis of a target company from a business-for-sale listing found at the URL: ${url}. You will structure your response into exactly three parts, separated by a unique delimiter.
-
-**CRITICAL INSTRUCTION:** For Parts 1 and 2, derive all information *directly* from the content of the provided URL. Your analysis in these parts must be an objective reflection of the listing. **DO NOT** allow the user's Buy Box criteria (provided for Part 3) to influence your objective analysis in Parts 1 and 2.
-
----
-
-**PART 1: KEY INSIGHTS & RED FLAGS**
-*   Based on the listing at the URL, generate 3-5 bullet points highlighting the most critical general strengths, weaknesses, opportunities, or potential business risks.
-*   Do NOT reference the user's specific acquisition criteria in this section. This is a general overview of the deal as presented.
-
----[SPLIT]---
-
-**PART 2: DETAILED COMPANY PROFILE**
-*   Analyze the source URL thoroughly and generate an institutional-level preliminary profile. Provide a comprehensive and expansive analysis for each section below. Structure the response using Markdown headings. If information for a section cannot be found, explicitly state "Information not readily available."
-*   **CRITICAL FORMATTING RULE:** You *must* add a blank newline (an extra line break) after *every* Markdown heading (e.g., \`### Company Overview\`) before starting the text.
-
-    *   ### Company Overview
-        First, carefully extract the following key details from the listing page. Prioritize the most prominent "headline" numbers and descriptions. Each bullet point must start with a bolded label:
-        *   **Listing Title:** [The full title or headline of the business for sale listing.]
-        *   **Primary Industry:** [Determine the specific industry from the title and description. E.g., "SaaS Payment Platform", "Landscaping Services", "E-commerce". Avoid overly broad categories if specific information is available.]
-        *   **Location:** [Headquarters Location, if mentioned.]
-        *   **Year Founded:** [Year Founded, if available.]
-        *   **Asking Price:** [Extract the asking price. If not available, state "Not Disclosed".]
-        *   **Revenue:** [Extract the reported gross revenue. Specify if it is TTM or for a specific year.]
-        *   **SDE/Cash Flow/Income:** [Extract the primary profitability metric shown, such as SDE, Adjusted EBITDA, Seller's Discretionary Earnings, Cash Flow, or Income. Label it with the term used in the listing.]
-        After these bullet points, provide a concise summary paragraph of the business based on the listing's description.
-
-    *   ### Business Model
-        How the company creates, delivers, and captures value.
-    *   ### Products/Services
-        Comprehensive list and description of major offerings.
-    *   ### Target Market & Customer Base
-        Primary industry, ideal customer profile, key segments.
-    *   ### Market Position & Competition
-        Perceived market position, key differentiators, and 2-3 key competitors.
-    *   ### Financial Health
-        Infer financial scale (e.g., from revenue claims, employee count, pricing).
-    *   ### Management Team & Operations
-        Key personnel, organizational complexity, operational model (asset-light/heavy).
-    *   ### Growth Opportunities
-        Identify 1-2 potential growth levers mentioned in the listing.
-
----[SPLIT]---
-
-**PART 3: BUY BOX FIT SCORECARD**
-*   Score the target company (which you analyzed in Part 2) against the user's "Buy Box" criteria below.
-*   Present this as a Markdown table with four columns: "Criteria", "Target's Status", "Fit (Yes/No/?)", and "Rationale".
-*   **IMPORTANT:** Base "Target's Status" on the objective information you gathered in Part 2. If information is not available, mark Status as "Unknown", Fit as "?", and state in the Rationale that the information was not in the listing.
-
-*   **Correct Markdown Table Example:**
-| Criteria | Target's Status | Fit (Yes/No/?) | Rationale |
-| :--- | :--- | :--- | :--- |
-| Geography (Weight: 2) | Houston, Texas | Yes | The company is in a user-specified geography. |
-| Industry (Weight: 3) | B2B Facility Services | No | The target is a SaaS company, which does not match the user's specified industry. |
+    const listingSource = snapshotText
+        ? `a business-for-sale listing originally published at ${url}. The listing's page content was captured and is provided at the end of this prompt under "Listing Page Snapshot"; base your analysis only on that snapshot, since the live page may have changed or been removed`
+        : `a business-for-sale listing found at the URL: ${url}`;
 
+    return `
+You are an M&A analyst. Your task is to perform a comprehensive analysis of a target company from ${listingSource}. Reply with a single JSON object matching the response schema; the fields are described below.
+
+**CRITICAL INSTRUCTION:** Derive \`keyInsights\`, \`facts\` and \`profile\` *directly* from the content of the ${snapshotText ? 'listing snapshot' : 'provided URL'}. They must be an objective reflection of the listing. **DO NOT** allow the user's Buy Box criteria (used only for \`fitRows\`) to influence them.
+
+**keyInsights:** 3-5 short statements highlighting the most critical general strengths, weaknesses, opportunities, or potential business risks. Do NOT reference the user's specific acquisition criteria here.
+
+**facts:** Key details from the listing page. Prioritize the most prominent "headline" numbers. Use null for anything the listing does not disclose; never guess.
+*   **listingTitle:** The full title or headline of the business for sale listing.
+*   **primaryIndustry:** The specific industry, determined from the title and description. E.g., "SaaS Payment Platform", "Landscaping Services", "E-commerce". Avoid overly broad categories if specific information is available.
+*   **location:** Headquarters location.
+*   **yearFounded:** Four-digit year.
+*   **employees:** Number of employees.
+*   **askingPrice:** Asking price in US dollars, as a plain number (e.g. 1250000).
+*   **revenue:** Reported gross revenue in US dollars, as a plain number. Put the period it covers (e.g. "TTM", "2023") in **revenuePeriod**.
+*   **sde:** The primary profitability figure shown, such as SDE, Adjusted EBITDA, Seller's Discretionary Earnings, Cash Flow, or Income, in US dollars as a plain number. Put the term the listing uses in **sdeLabel**.
+*   **recurringRevenuePercent:** The share of revenue that is recurring (subscriptions, contracts, repeat service agreements), 0-100. Only if the listing states it.
+*   **topCustomerPercent:** The share of revenue from the single largest customer, 0-100. Only if the listing states it.
+
+**profile:** An institutional-level preliminary profile. Each field is Markdown text (paragraphs or bullet lists, no headings). If information cannot be found, say "Information not readily available."
+*   **summary:** A concise summary paragraph of the business based on the listing's description.
+*   **businessModel:** How the company creates, delivers, and captures value.
+*   **productsServices:** Comprehensive list and description of major offerings.
+*   **targetMarket:** Primary industry, ideal customer profile, key segments.
+*   **marketPosition:** Perceived market position, key differentiators, and 2-3 key competitors.
+*   **financialHealth:** Infer financial scale (e.g., from revenue claims, employee count, pricing).
+*   **managementOperations:** Key personnel, organizational complexity, operational model (asset-light/heavy).
+*   **growthOpportunities:** 1-2 potential growth levers mentioned in the listing.
+
+**fitRows:** Score the target company against each of the user's "Buy Box" criteria below, one row per criterion.
+*   **criterion:** The criterion name exactly as written below, without the weight (e.g. "Geography", "Financials (SDE)").
+*   **status:** The target's status, based on the objective facts and profile above.
+*   **fit:** "Yes", "No", or "?".
+*   **rationale:** One or two sentences explaining the fit.
+*   **IMPORTANT:** If information is not available, set status to "Unknown", fit to "?", and state in the rationale that the information was not in the listing.
 
 **User's Buy Box Criteria (with priority weight):**
 *   **Geography (Weight: ${buyBox.geography.weight}):** ${buyBox.geography.value || 'Not specified'}
@@ -195,5 +179,10 @@ You are an M&A analyst. Your task is to perform a comprehensive analysis of a ta
 *   **Systems (Weight: ${buyBox.systemMessiness.weight}):** ${buyBox.systemMessiness.value} (1=Messy, 5=Clean)
 *   **My Role (Weight: ${buyBox.myPrimaryRole.weight}):** ${buyBox.myPrimaryRole.value || 'Not specified'}
 *   **Culture:** ${buyBox.desiredCulture || 'Not specified'}
-`;
+${snapshotText ? `
+**Listing Page Snapshot:**
+<<<LISTING
+${snapshotText}
+LISTING>>>
+` : ''}`;
 };
\ No newline at end of file
@@ -0,0 +1,247 @@
+import { BuyBoxCriteria } from '../App';
+import { JsonSchema } from '../ai/types';
+
+export type FitVerdict = 'Yes' | 'No' | '?';
+
+/** One row of the Buy Box fit scorecard. */
+export interface CriterionFit {
+  /** A name from `SCORECARD_CRITERIA`, without the weight. */
+  criterion: string;
+  status: string;
+  fit: FitVerdict;
+  rationale: string;
+}
+
+/** Headline facts extracted from a listing. Amounts are in USD; anything not disclosed is null. */
+export interface ListingFacts {
+  listingTitle: string;
+  primaryIndustry: string | null;
+  location: string | null;
+  yearFounded: number | null;
+  employees: number | null;
+  askingPrice: number | null;
+  revenue: number | null;
+  /** e.g. "TTM" or "2023". */
+  revenuePeriod: string | null;
+  sde: number | null;
+  /** The term the listing uses for its profit figure, e.g. "Cash Flow" or "Adjusted EBITDA". */
+  sdeLabel: string | null;
+  /** Share of revenue that recurs (subscriptions, contracts), 0-100. */
+  recurringRevenuePercent: number | null;
+  /** Share of revenue from the largest customer, 0-100. */
+  topCustomerPercent: number | null;
+}
+
+export interface CompanyProfileSections {
+  summary: string;
+  businessModel: string;
+  productsServices: string;
+  targetMarket: string;
+  marketPosition: string;
+  financialHealth: string;
+  managementOperations: string;
+  growthOpportunities: string;
+}
+
+/** The structured result of analyzing one listing, as returned by the model. */
+export interface SourcingAnalysis {
+  keyInsights: string[];
+  facts: ListingFacts;
+  profile: CompanyProfileSections;
+  fitRows: CriterionFit[];
+}
+
+/** Scorecard criteria as named in the prompt, and the Buy Box field that carries each one's weight. */
+export const SCORECARD_CRITERIA: { [name: string]: keyof BuyBoxCriteria | null } = {
+  'Geography': 'geography',
+  'Industry': 'industryType',
+  'Financials (SDE)': 'minSde',
+  'Revenue Quality': 'minRecurringRevenue',
+  'Risk (Concentration)': 'customerConcentration',
+  'Growth Levers': 'growthLevers',
+  'Industry Trends': 'industryTrends',
+  'Seller Role': 'sellerRole',
+  'Team Strength': 'teamStrength',
+  'Business Model': 'businessModel',
+  'Systems': 'systemMessiness',
+  'My Role': 'myPrimaryRole',
+  // non-weighted:
+  'Industry Expertise': 'industryExpertise',
+  'Culture': null,
+};
+
+const nullable = (type: string) => ({ type: [type, 'null'] });
+
+export const SOURCING_ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    keyInsights: { type: 'array', items: { type: 'string' } },
+    facts: {
+      type: 'object',
+      properties: {
+        listingTitle: { type: 'string' },
+        primaryIndustry: nullable('string'),
+        location: nullable('string'),
+        yearFounded: nullable('integer'),
+        employees: nullable('integer'),
+        askingPrice: nullable('number'),
+        revenue: nullable('number'),
+        revenuePeriod: nullable('string'),
+        sde: nullable('number'),
+        sdeLabel: nullable('string'),
+        recurringRevenuePercent: nullable('number'),
+        topCustomerPercent: nullable('number'),
+      },
+      required: ['listingTitle', 'primaryIndustry', 'location', 'yearFounded', 'employees', 'askingPrice', 'revenue', 'revenuePeriod', 'sde', 'sdeLabel', 'recurringRevenuePercent', 'topCustomerPercent'],
+    },
+    profile: {
+      type: 'object',
+      properties: {
+        summary: { type: 'string' },
+        businessModel: { type: 'string' },
+        productsServices: { type: 'string' },
+        targetMarket: { type: 'string' },
+        marketPosition: { type: 'string' },
+        financialHealth: { type: 'string' },
+        managementOperations: { type: 'string' },
+        growthOpportunities: { type: 'string' },
+      },
+      required: ['summary', 'businessModel', 'productsServices', 'targetMarket', 'marketPosition', 'financialHealth', 'managementOperations', 'growthOpportunities'],
+    },
+    fitRows: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          criterion: { type: 'string', enum: Object.keys(SCORECARD_CRITERIA) },
+          status: { type: 'string' },
+          fit: { type: 'string', enum: ['Yes', 'No', '?'] },
+          rationale: { type: 'string' },
+        },
+        required: ['criterion', 'status', 'fit', 'rationale'],
+      },
+    },
+  },
+  required: ['keyInsights', 'facts', 'profile', 'fitRows'],
+};
+
+// --- Parsing ---
+// Providers without schema support may still wrap the JSON in a code fence or return
+// numbers as formatted strings, so every field is normalized rather than trusted.
+
+const asText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+const asOptionalText = (value: unknown): string | null => asText(value) || null;
+const asNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const parsed = parseFloat(value.replace(/[$,\s]/g, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+const asObject = (value: unknown): Record<string, unknown> =>
+  (value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {});
+const asList = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+const asFit = (value: unknown): FitVerdict => {
+  const fit = asText(value).toLowerCase();
+  return fit === 'yes' ? 'Yes' : fit === 'no' ? 'No' : '?';
+};
+
+/** Parses the model's reply. Throws if it isn't a JSON object. */
+export const parseSourcingAnalysis = (text: string): SourcingAnalysis => {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const raw: unknown = JSON.parse(json);
+  if (!raw || typeof raw !== 'object') throw new Error("Analysis response was not a JSON object.");
+  const analysis = asObject(raw);
+  const facts = asObject(analysis.facts);
+  const profile = asObject(analysis.profile);
+  return {
+    keyInsights: asList(analysis.keyInsights).map(asText).filter(Boolean),
+    facts: {
+      listingTitle: asText(facts.listingTitle),
+      primaryIndustry: asOptionalText(facts.primaryIndustry),
+      location: asOptionalText(facts.location),
+      yearFounded: asNumber(facts.yearFounded),
+      employees: asNumber(facts.employees),
+      askingPrice: asNumber(facts.askingPrice),
+      revenue: asNumber(facts.revenue),
+      revenuePeriod: asOptionalText(facts.revenuePeriod),
+      sde: asNumber(facts.sde),
+      sdeLabel: asOptionalText(facts.sdeLabel),
+      recurringRevenuePercent: asNumber(facts.recurringRevenuePercent),
+      topCustomerPercent: asNumber(facts.topCustomerPercent),
+    },
+    profile: {
+      summary: asText(profile.summary),
+      businessModel: asText(profile.businessModel),
+      productsServices: asText(profile.productsServices),
+      targetMarket: asText(profile.targetMarket),
+      marketPosition: asText(profile.marketPosition),
+      financialHealth: asText(profile.financialHealth),
+      managementOperations: asText(profile.managementOperations),
+      growthOpportunities: asText(profile.growthOpportunities),
+    },
+    fitRows: asList(analysis.fitRows).map(asObject).map((row): CriterionFit => ({
+      criterion: asText(row.criterion),
+      status: asText(row.status) || 'Unknown',
+      fit: asFit(row.fit),
+      rationale: asText(row.rationale),
+    })).filter(row => row.criterion),
+  };
+};
+
+// --- Markdown rendering ---
+// SourcingResult keeps the rendered markdown so saved results, deals and the detail modal
+// display the same way they did before structured output.
+
+const NOT_AVAILABLE = 'Information not readily available.';
+const formatUsd = (value: number | null) => (value === null ? 'Not Disclosed' : `$${value.toLocaleString()}`);
+const orNotAvailable = (value: string) => value || NOT_AVAILABLE;
+// Pipes would split a table cell.
+const tableCell = (value: string) => value.replace(/\|/g, '/').replace(/\n+/g, ' ');
+
+export const renderKeyInsightsMarkdown = (analysis: SourcingAnalysis): string =>
+  analysis.keyInsights.map(insight => `*   ${insight}`).join('\n');
+
+export const renderProfileMarkdown = (analysis: SourcingAnalysis): string => {
+  const { facts, profile } = analysis;
+  const revenue = facts.revenue === null ? 'Not Disclosed' : `${formatUsd(facts.revenue)}${facts.revenuePeriod ? ` (${facts.revenuePeriod})` : ''}`;
+  const overview = [
+    `*   **Listing Title:** ${facts.listingTitle || 'Untitled listing'}`,
+    `*   **Primary Industry:** ${facts.primaryIndustry ?? 'Not specified'}`,
+    `*   **Location:** ${facts.location ?? 'Not specified'}`,
+    `*   **Year Founded:** ${facts.yearFounded ?? 'Not specified'}`,
+    `*   **Employees:** ${facts.employees ?? 'Not specified'}`,
+    `*   **Asking Price:** ${formatUsd(facts.askingPrice)}`,
+    `*   **Revenue:** ${revenue}`,
+    `*   **${facts.sdeLabel || 'SDE/Cash Flow'}:** ${formatUsd(facts.sde)}`,
+    ...(facts.recurringRevenuePercent !== null ? [`*   **Recurring Revenue:** ${facts.recurringRevenuePercent}%`] : []),
+    ...(facts.topCustomerPercent !== null ? [`*   **Largest Customer:** ${facts.topCustomerPercent}% of revenue`] : []),
+  ].join('\n');
+  const sections: [string, string][] = [
+    ['Business Model', profile.businessModel],
+    ['Products/Services', profile.productsServices],
+    ['Target Market & Customer Base', profile.targetMarket],
+    ['Market Position & Competition', profile.marketPosition],
+    ['Financial Health', profile.financialHealth],
+    ['Management Team & Operations', profile.managementOperations],
+    ['Growth Opportunities', profile.growthOpportunities],
+  ];
+  return [
+    `### Company Overview\n\n${overview}\n\n${profile.summary}`,
+    ...sections.map(([heading, content]) => `### ${heading}\n\n${orNotAvailable(content)}`),
+  ].join('\n\n');
+};
+
+/** The scorecard as a markdown table, with each criterion's weight taken from the Buy Box. */
+export const renderScorecardMarkdown = (fitRows: CriterionFit[], buyBox: BuyBoxCriteria): string => {
+  const rows = fitRows.map(row => {
+    const key = SCORECARD_CRITERIA[row.criterion];
+    const criteria = key ? buyBox[key] : null;
+    const weight = criteria && typeof criteria === 'object' && 'weight' in criteria ? ` (Weight: ${criteria.weight})` : '';
+    return `| ${row.criterion}${weight} | ${tableCell(row.status)} | ${row.fit} | ${tableCell(row.rationale)} |`;
+  });
+  return [
+    "| Criteria | Target's Status | Fit (Yes/No/?) | Rationale |",
+    '| :--- | :--- | :--- | :--- |',
+    ...rows,
+  ].join('\n');
+};
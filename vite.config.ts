@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -12,12 +13,24 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.FIRESTORE_EMULATOR_HOST': JSON.stringify(env.FIRESTORE_EMULATOR_HOST || ''),
+        'process.env.FIREBASE_AUTH_EMULATOR_HOST': JSON.stringify(env.FIREBASE_AUTH_EMULATOR_HOST || ''),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER || ''),
+        'process.env.AI_BASE_URL': JSON.stringify(env.AI_BASE_URL || ''),
+        'process.env.AI_API_KEY': JSON.stringify(env.AI_API_KEY || ''),
+        'process.env.AI_MODEL_FAST': JSON.stringify(env.AI_MODEL_FAST || ''),
+        'process.env.AI_MODEL_REASONING': JSON.stringify(env.AI_MODEL_REASONING || ''),
+        'process.env.AI_FIXTURES_URL': JSON.stringify(env.AI_FIXTURES_URL || ''),
+        'process.env.AI_RECORD_FIXTURES': JSON.stringify(env.AI_RECORD_FIXTURES || '')
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        include: ['src/**/*.test.ts'],
       }
     };
 });